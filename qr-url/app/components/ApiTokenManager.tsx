@@ -0,0 +1,226 @@
+/**
+ * ApiTokenManager component.
+ *
+ * Lists the user's API tokens and lets them create and revoke tokens.
+ * A newly created token is shown exactly once — only its hash is
+ * stored, so it can't be displayed again after the user leaves.
+ *
+ * Uses useFetcher so creating/revoking stays on the page; the route
+ * loader re-runs afterwards and refreshes the list.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useFetcher } from "react-router";
+import type { ApiTokenSummary } from "~/lib/api-tokens";
+import { MAX_TOKEN_NAME_LENGTH } from "~/lib/api-tokens";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * The shape of the data returned by the api-tokens action
+ * (see dashboard.api-tokens.tsx).
+ */
+interface TokenActionData {
+  intent: string;
+  success: boolean;
+  error?: string;
+  token?: string;
+  tokenName?: string;
+}
+
+interface ApiTokenManagerProps {
+  tokens: ApiTokenSummary[];
+  maxTokens: number;
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+
+export function ApiTokenManager({ tokens, maxTokens }: ApiTokenManagerProps) {
+  const activeCount = tokens.filter((token) => token.revokedAt === null).length;
+
+  return (
+    <div>
+      <CreateTokenForm canCreate={activeCount < maxTokens} />
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}
+      >
+        <h2>Your tokens</h2>
+        <span style={{ color: "#6b7280", fontSize: "0.875rem" }}>
+          {activeCount} of {maxTokens} active
+        </span>
+      </div>
+
+      {tokens.length === 0 ? (
+        <p>No tokens yet.</p>
+      ) : (
+        <ul>
+          {tokens.map((token) => (
+            <TokenListItem key={token.id} token={token} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function CreateTokenForm({ canCreate }: { canCreate: boolean }) {
+  const fetcher = useFetcher<TokenActionData>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const isCreating = fetcher.state !== "idle";
+  const created =
+    fetcher.data?.success && fetcher.data.token ? fetcher.data : null;
+  const error =
+    fetcher.data && !fetcher.data.success ? fetcher.data.error : null;
+
+  // Clear the name field once the token exists.
+  useEffect(() => {
+    if (fetcher.state === "idle" && created) {
+      formRef.current?.reset();
+      setCopied(false);
+    }
+  }, [fetcher.state, created]);
+
+  function handleCopy(token: string) {
+    navigator.clipboard.writeText(token).then(() => setCopied(true));
+  }
+
+  return (
+    <div>
+      <fetcher.Form method="post" ref={formRef}>
+        <input type="hidden" name="intent" value="create-api-token" />
+        <label>
+          Token name
+          <input
+            type="text"
+            name="name"
+            placeholder="e.g. GitHub Actions"
+            maxLength={MAX_TOKEN_NAME_LENGTH}
+            required
+            disabled={!canCreate || isCreating}
+          />
+        </label>
+        <button type="submit" disabled={!canCreate || isCreating}>
+          {isCreating ? "Creating…" : "Create token"}
+        </button>
+      </fetcher.Form>
+
+      {!canCreate && (
+        <p>You've reached the token limit. Revoke a token to create another.</p>
+      )}
+
+      {error && <p role="alert">{error}</p>}
+
+      {created?.token && (
+        <div role="status">
+          <p>
+            <strong>{created.tokenName}</strong> created. Copy it now — you
+            won't be able to see it again.
+          </p>
+          <code style={{ wordBreak: "break-all" }}>{created.token}</code>{" "}
+          <button type="button" onClick={() => handleCopy(created.token!)}>
+            {copied ? "Copied!" : "Copy"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TokenListItem({ token }: { token: ApiTokenSummary }) {
+  const isRevoked = token.revokedAt !== null;
+
+  return (
+    <li className="UrlQrCard">
+      <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+        <strong>{token.name}</strong>
+        <code>{token.tokenPrefix}…</code>
+        {isRevoked && <span>revoked</span>}
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginTop: "0.5rem",
+        }}
+      >
+        <span>
+          Created {formatDate(token.createdAt)}
+          {" · "}
+          {token.lastUsedAt
+            ? `Last used ${formatDate(token.lastUsedAt)}`
+            : "Never used"}
+          {isRevoked && ` · Revoked ${formatDate(token.revokedAt!)}`}
+        </span>
+
+        {!isRevoked && <RevokeButton tokenId={token.id} name={token.name} />}
+      </div>
+    </li>
+  );
+}
+
+function RevokeButton({ tokenId, name }: { tokenId: number; name: string }) {
+  const fetcher = useFetcher();
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  if (fetcher.state !== "idle") {
+    return <span>Revoking...</span>;
+  }
+
+  if (showConfirm) {
+    return (
+      <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+        <span>Revoke "{name}"? Scripts using it stop working immediately.</span>
+        <button
+          onClick={() => {
+            fetcher.submit(
+              { intent: "revoke-api-token", tokenId: String(tokenId) },
+              { method: "post" }
+            );
+            setShowConfirm(false);
+          }}
+        >
+          Yes, revoke
+        </button>
+        <button onClick={() => setShowConfirm(false)}>Cancel</button>
+      </div>
+    );
+  }
+
+  return <button onClick={() => setShowConfirm(true)}>Revoke</button>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** D1 timestamps are UTC without a zone marker */
+function formatDate(timestamp: string): string {
+  const date = new Date(timestamp.replace(" ", "T") + "Z");
+
+  if (isNaN(date.getTime())) {
+    return timestamp;
+  }
+
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
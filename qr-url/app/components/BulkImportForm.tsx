@@ -0,0 +1,247 @@
+/**
+ * BulkImportForm component.
+ *
+ * CSV import on the create page, in two steps:
+ *   1. Pick a file → the server previews every row (errors, shortcode
+ *      conflicts, plan limit) without creating anything.
+ *   2. "Create N URLs" → the server re-validates and inserts the ready
+ *      rows in one batch; the result CSV (with short URLs and errors
+ *      per line) can then be downloaded.
+ *
+ * The CSV text is read in the browser and posted as a form field, so
+ * both steps send the exact same content. Uses useFetcher so the
+ * single-URL form's actionData on the page is left alone.
+ */
+
+import { useState } from "react";
+import { useFetcher } from "react-router";
+import type { ImportPreview, ImportRowResult } from "~/lib/bulk-import";
+import { MAX_IMPORT_FILE_BYTES, MAX_IMPORT_ROWS, IMPORT_CSV_HEADER } from "~/lib/bulk-import";
+import { toCsv } from "~/lib/csv";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * The shape of the data returned by the create action for the
+ * import intents (see handleImport in dashboard.create.tsx).
+ */
+interface ImportActionData {
+  intent: "import-preview" | "import-commit";
+  success: boolean;
+  error?: string;
+  preview?: ImportPreview;
+  results?: ImportRowResult[];
+  createdCount?: number;
+  resultCsv?: string;
+}
+
+interface BulkImportFormProps {
+  urlCount: number;
+  maxUrls: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const TEMPLATE_CSV = toCsv([
+  [...IMPORT_CSV_HEADER],
+  ["https://example.com/spring-sale", "spring-sale", "short"],
+  ["https://example.com/landing", "", "branded"],
+]);
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+
+export function BulkImportForm({ urlCount, maxUrls }: BulkImportFormProps) {
+  const fetcher = useFetcher<ImportActionData>();
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [clientError, setClientError] = useState<string | null>(null);
+
+  const isBusy = fetcher.state !== "idle";
+  const result = fetcher.data;
+  const serverError = result && !result.success ? result.error : null;
+  const preview =
+    result?.success && result.intent === "import-preview" ? result.preview : null;
+  const commit =
+    result?.success && result.intent === "import-commit" ? result : null;
+
+  async function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+
+    if (!file) {
+      return;
+    }
+
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      setClientError(`The file must be ${MAX_IMPORT_FILE_BYTES / 1024 / 1024}MB or smaller.`);
+      setCsvText(null);
+      return;
+    }
+
+    const text = await file.text();
+
+    setClientError(null);
+    setCsvText(text);
+    setFileName(file.name);
+
+    fetcher.submit({ intent: "import-preview", csv: text }, { method: "post" });
+  }
+
+  function handleCommit() {
+    if (csvText === null) {
+      return;
+    }
+
+    fetcher.submit({ intent: "import-commit", csv: csvText }, { method: "post" });
+  }
+
+  return (
+    <section style={{ marginTop: "2rem" }}>
+      <h2>Import from CSV</h2>
+      <p>
+        One URL per line with the columns <code>url,custom_shortcode,format</code>.
+        Leave the shortcode empty to generate one; format is <code>short</code>{" "}
+        (default) or <code>branded</code>. Up to {MAX_IMPORT_ROWS} rows,{" "}
+        {Math.max(0, maxUrls - urlCount)} URL slots left on your plan.{" "}
+        <button
+          type="button"
+          onClick={() => downloadCsv(TEMPLATE_CSV, "url-import-template.csv")}
+        >
+          Download template
+        </button>
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleFileChange}
+        disabled={isBusy}
+        aria-label="CSV file"
+      />
+
+      {isBusy && <p>{fetcher.formData?.get("intent") === "import-commit" ? "Creating URLs…" : "Checking file…"}</p>}
+
+      {(clientError ?? serverError) && (
+        <p role="alert">{clientError ?? serverError}</p>
+      )}
+
+      {preview && !isBusy && (
+        <ImportPreviewTable
+          preview={preview}
+          fileName={fileName}
+          onCommit={handleCommit}
+        />
+      )}
+
+      {commit?.results && !isBusy && (
+        <ImportResults
+          results={commit.results}
+          createdCount={commit.createdCount ?? 0}
+          resultCsv={commit.resultCsv ?? ""}
+        />
+      )}
+    </section>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function ImportPreviewTable({
+  preview,
+  fileName,
+  onCommit,
+}: {
+  preview: ImportPreview;
+  fileName: string | null;
+  onCommit: () => void;
+}) {
+  return (
+    <div>
+      <p>
+        {fileName && <strong>{fileName}: </strong>}
+        {preview.readyCount} ready, {preview.errorCount} with errors.
+      </p>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Line</th>
+            <th>URL</th>
+            <th>Shortcode</th>
+            <th>Format</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {preview.rows.map((row) => (
+            <tr key={row.line}>
+              <td>{row.line}</td>
+              <td title={row.url}>{row.url}</td>
+              <td>{row.shortcode ?? (row.customShortcode || "auto")}</td>
+              <td>{row.format || "short"}</td>
+              <td role={row.status === "error" ? "alert" : undefined}>
+                {row.status === "ready" ? "Ready" : row.error}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <button type="button" onClick={onCommit} disabled={preview.readyCount === 0}>
+        Create {preview.readyCount} URL{preview.readyCount !== 1 ? "s" : ""}
+      </button>
+      {preview.errorCount > 0 && preview.readyCount > 0 && (
+        <span> Rows with errors are skipped.</span>
+      )}
+    </div>
+  );
+}
+
+function ImportResults({
+  results,
+  createdCount,
+  resultCsv,
+}: {
+  results: ImportRowResult[];
+  createdCount: number;
+  resultCsv: string;
+}) {
+  const failedCount = results.length - createdCount;
+
+  return (
+    <div role="status">
+      <p>
+        Created {createdCount} URL{createdCount !== 1 ? "s" : ""}
+        {failedCount > 0 && `, ${failedCount} row${failedCount !== 1 ? "s" : ""} failed`}.
+      </p>
+      <button
+        type="button"
+        onClick={() => downloadCsv(resultCsv, "url-import-results.csv")}
+      >
+        Download results CSV
+      </button>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function downloadCsv(csv: string, fileName: string): void {
+  const objectUrl = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+
+  link.href = objectUrl;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(objectUrl);
+}
@@ -0,0 +1,86 @@
+/**
+ * ClickLocationSetting component.
+ *
+ * Account-wide choice of how precisely clicks are located — country,
+ * region or city (see click-location.ts). Saves as soon as an option
+ * is picked, via useFetcher like SubdomainPicker; the dashboard loader
+ * re-runs afterwards and passes the stored level back in.
+ *
+ * Applies to clicks from then on: finer data is never stored for
+ * clicks recorded at a coarser level.
+ */
+
+import { useFetcher } from "react-router";
+import { CLICK_LOCATION_LEVELS } from "~/lib/click-location";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ClickLocationSettingProps {
+  /** The user's current users.click_location */
+  current: string;
+}
+
+/**
+ * Matches what handleSetClickLocation in dashboard.tsx returns.
+ */
+interface ClickLocationActionData {
+  intent: "set-click-location";
+  success: boolean;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function ClickLocationSetting({ current }: ClickLocationSettingProps) {
+  const fetcher = useFetcher<ClickLocationActionData>();
+
+  const isSubmitting = fetcher.state !== "idle";
+  const serverError =
+    fetcher.data && !fetcher.data.success ? fetcher.data.error : null;
+
+  // Show the submitted level straight away rather than after the reload
+  const selected = (fetcher.formData?.get("clickLocation") as string | null) ?? current;
+
+  function handleChange(level: string) {
+    fetcher.submit(
+      { intent: "set-click-location", clickLocation: level },
+      { method: "post" }
+    );
+  }
+
+  return (
+    <section>
+      <h2>Click location detail</h2>
+      <p>
+        How precisely your links' visitors are located. Finer detail is only
+        recorded for clicks after you change this.
+      </p>
+
+      <fieldset disabled={isSubmitting}>
+        <legend>Record</legend>
+        {CLICK_LOCATION_LEVELS.map((level) => (
+          <label key={level.value} style={{ display: "block" }}>
+            <input
+              type="radio"
+              name="clickLocation"
+              value={level.value}
+              checked={selected === level.value}
+              onChange={() => handleChange(level.value)}
+            />{" "}
+            <strong>{level.label}</strong> — {level.description}
+          </label>
+        ))}
+      </fieldset>
+
+      {serverError && (
+        <p role="alert">
+          {serverError}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * DeviceRulesManager component.
+ *
+ * Lists a link's per-device destination rules and lets the user add,
+ * change and remove them (see device-rules.ts). Saving a device that
+ * already has a rule replaces its destination, so "edit" is just
+ * adding it again.
+ *
+ * Rules are listed in the order the redirect worker checks them.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useFetcher } from "react-router";
+import type { DeviceRule } from "~/lib/device-rules";
+import { DEVICE_RULE_TARGETS, deviceRuleLabel } from "~/lib/device-rules";
+import { validateUrl } from "~/lib/url-validation";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * The shape of the data returned by the routing action
+ * (see dashboard.routing.$urlId.tsx).
+ */
+interface RuleActionData {
+  intent: string;
+  success: boolean;
+  error?: string;
+}
+
+interface DeviceRulesManagerProps {
+  rules: DeviceRule[];
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+
+export function DeviceRulesManager({ rules }: DeviceRulesManagerProps) {
+  return (
+    <div>
+      <AddRuleForm />
+
+      <h3>Device rules</h3>
+
+      {rules.length === 0 ? (
+        <p>No rules yet — every device goes to the default destination.</p>
+      ) : (
+        <ol>
+          {rules.map((rule) => (
+            <RuleListItem key={rule.id} rule={rule} />
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function AddRuleForm() {
+  const fetcher = useFetcher<RuleActionData>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const [clientError, setClientError] = useState<string | null>(null);
+
+  const isSaving = fetcher.state !== "idle";
+  const serverError =
+    fetcher.data && !fetcher.data.success ? fetcher.data.error : null;
+
+  // Clear the fields once the rule is saved.
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.success) {
+      formRef.current?.reset();
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    const formData = new FormData(event.currentTarget);
+    const destination = validateUrl((formData.get("destinationUrl") as string) ?? "");
+
+    if (!destination.isValid) {
+      event.preventDefault();
+      setClientError(destination.error);
+      return;
+    }
+
+    setClientError(null);
+  }
+
+  const displayedError = clientError ?? serverError ?? null;
+
+  return (
+    <div>
+      <fetcher.Form method="post" ref={formRef} onSubmit={handleSubmit}>
+        <input type="hidden" name="intent" value="save-device-rule" />
+        <label>
+          Device
+          <select name="target" required disabled={isSaving}>
+            {DEVICE_RULE_TARGETS.map((target) => (
+              <option key={target.value} value={target.value}>
+                {target.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Destination
+          <input
+            type="text"
+            name="destinationUrl"
+            placeholder="https://apps.apple.com/app/id123456789"
+            required
+            disabled={isSaving}
+          />
+        </label>
+        <button type="submit" disabled={isSaving}>
+          {isSaving ? "Saving…" : "Save rule"}
+        </button>
+      </fetcher.Form>
+
+      {displayedError && <p role="alert">{displayedError}</p>}
+    </div>
+  );
+}
+
+function RuleListItem({ rule }: { rule: DeviceRule }) {
+  const fetcher = useFetcher<RuleActionData>();
+  const isDeleting = fetcher.state !== "idle";
+
+  return (
+    <li className="UrlQrCard">
+      <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+        <strong>{deviceRuleLabel(rule.target)}</strong>
+        <span>&rarr;</span>
+        <code style={{ wordBreak: "break-all" }}>{rule.destinationUrl}</code>
+      </div>
+
+      <div style={{ marginTop: "0.5rem" }}>
+        {isDeleting ? (
+          <span>Removing...</span>
+        ) : (
+          <button
+            onClick={() =>
+              fetcher.submit(
+                { intent: "delete-device-rule", ruleId: String(rule.id) },
+                { method: "post" }
+              )
+            }
+          >
+            Remove
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * ExpirationFields component.
+ *
+ * Expiry controls shared by UrlCreationForm and the dashboard's
+ * edit form: a select for "never", a relative duration or an exact
+ * date, plus a datetime-local input when "exact date" is chosen.
+ *
+ * Submits two fields (see resolveExpiration in url-expiration.ts):
+ *   expiresIn → "never" | "custom" | "keep" | a duration ("7d")
+ *   expiresAt → the exact date as an ISO string with the browser's
+ *               offset applied, so the server gets an absolute time
+ *
+ * Renders no <form> of its own — it sits inside the parent's form,
+ * which reads both fields on submit.
+ */
+
+import { useState } from "react";
+import {
+  EXPIRATION_DURATIONS,
+  EXPIRATION_NEVER,
+  EXPIRATION_CUSTOM,
+  EXPIRATION_KEEP,
+  toDateTimeLocalValue,
+} from "~/lib/url-expiration";
+
+interface ExpirationFieldsProps {
+  /**
+   * The link's current expires_at, when editing. Adds a "keep" option
+   * (the default) so saving other changes doesn't touch the expiry.
+   */
+  currentExpiresAt?: string | null;
+  disabled?: boolean;
+}
+
+export function ExpirationFields({
+  currentExpiresAt,
+  disabled = false,
+}: ExpirationFieldsProps) {
+  const hasCurrent = currentExpiresAt != null;
+
+  const [mode, setMode] = useState<string>(
+    hasCurrent ? EXPIRATION_KEEP : EXPIRATION_NEVER
+  );
+  const [localDate, setLocalDate] = useState<string>(() =>
+    hasCurrent ? toDateTimeLocalValue(currentExpiresAt) : ""
+  );
+
+  // datetime-local has no timezone; new Date() reads it as local time
+  const localTime = localDate ? new Date(localDate).getTime() : NaN;
+  const isoDate = Number.isNaN(localTime) ? "" : new Date(localTime).toISOString();
+
+  return (
+    <div>
+      <label>
+        <span>Expires</span>{" "}
+        <select
+          name="expiresIn"
+          value={mode}
+          onChange={(event) => setMode(event.target.value)}
+          disabled={disabled}
+        >
+          {hasCurrent && (
+            <option value={EXPIRATION_KEEP}>Keep current expiry</option>
+          )}
+          <option value={EXPIRATION_NEVER}>Never</option>
+          {EXPIRATION_DURATIONS.map((duration) => (
+            <option key={duration.value} value={duration.value}>
+              In {duration.label}
+            </option>
+          ))}
+          <option value={EXPIRATION_CUSTOM}>On a specific date…</option>
+        </select>
+      </label>
+
+      {mode === EXPIRATION_CUSTOM && (
+        <input
+          type="datetime-local"
+          value={localDate}
+          onChange={(event) => setLocalDate(event.target.value)}
+          aria-label="Expiration date"
+          disabled={disabled}
+        />
+      )}
+
+      <input type="hidden" name="expiresAt" value={isoDate} />
+    </div>
+  );
+}
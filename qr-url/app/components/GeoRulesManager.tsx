@@ -0,0 +1,190 @@
+/**
+ * GeoRulesManager component.
+ *
+ * Lists a link's per-country destination rules and lets the user add,
+ * change and remove them (see geo-rules.ts). Saving a country that
+ * already has a rule replaces its destination, so "edit" is just
+ * adding it again.
+ *
+ * Uses useFetcher so changes stay on the page; the route loader
+ * re-runs afterwards and refreshes the list.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useFetcher } from "react-router";
+import type { GeoRule } from "~/lib/geo-rules";
+import { validateCountryCode, countryName } from "~/lib/geo-rules";
+import { validateUrl } from "~/lib/url-validation";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * The shape of the data returned by the routing action
+ * (see dashboard.routing.$urlId.tsx).
+ */
+interface RuleActionData {
+  intent: string;
+  success: boolean;
+  error?: string;
+}
+
+interface GeoRulesManagerProps {
+  rules: GeoRule[];
+  maxRules: number;
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+
+export function GeoRulesManager({ rules, maxRules }: GeoRulesManagerProps) {
+  return (
+    <div>
+      <AddRuleForm canAdd={rules.length < maxRules} />
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}
+      >
+        <h3>Country rules</h3>
+        <span style={{ color: "#6b7280", fontSize: "0.875rem" }}>
+          {rules.length} of {maxRules}
+        </span>
+      </div>
+
+      {rules.length === 0 ? (
+        <p>No rules yet — every visitor goes to the default destination.</p>
+      ) : (
+        <ul>
+          {rules.map((rule) => (
+            <RuleListItem key={rule.id} rule={rule} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function AddRuleForm({ canAdd }: { canAdd: boolean }) {
+  const fetcher = useFetcher<RuleActionData>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const [clientError, setClientError] = useState<string | null>(null);
+
+  const isSaving = fetcher.state !== "idle";
+  const serverError =
+    fetcher.data && !fetcher.data.success ? fetcher.data.error : null;
+
+  // Clear the fields once the rule is saved.
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.success) {
+      formRef.current?.reset();
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    const formData = new FormData(event.currentTarget);
+    const country = validateCountryCode((formData.get("countryCode") as string) ?? "");
+    const destination = validateUrl((formData.get("destinationUrl") as string) ?? "");
+
+    const error = !country.isValid
+      ? country.error
+      : !destination.isValid
+        ? destination.error
+        : null;
+
+    if (error) {
+      event.preventDefault();
+      setClientError(error);
+      return;
+    }
+
+    setClientError(null);
+  }
+
+  const displayedError = clientError ?? serverError ?? null;
+
+  return (
+    <div>
+      <fetcher.Form method="post" ref={formRef} onSubmit={handleSubmit}>
+        <input type="hidden" name="intent" value="save-geo-rule" />
+        <label>
+          Country code
+          <input
+            type="text"
+            name="countryCode"
+            placeholder="DE"
+            maxLength={2}
+            size={3}
+            style={{ textTransform: "uppercase" }}
+            required
+            disabled={isSaving}
+          />
+        </label>
+        <label>
+          Destination
+          <input
+            type="text"
+            name="destinationUrl"
+            placeholder="https://example.de/shop"
+            required
+            disabled={isSaving}
+          />
+        </label>
+        <button type="submit" disabled={!canAdd || isSaving}>
+          {isSaving ? "Saving…" : "Save rule"}
+        </button>
+      </fetcher.Form>
+
+      {!canAdd && (
+        <p>
+          You've reached the rule limit. Remove a rule, or change an existing
+          country's destination by saving it again.
+        </p>
+      )}
+
+      {displayedError && <p role="alert">{displayedError}</p>}
+    </div>
+  );
+}
+
+function RuleListItem({ rule }: { rule: GeoRule }) {
+  const fetcher = useFetcher<RuleActionData>();
+  const isDeleting = fetcher.state !== "idle";
+
+  return (
+    <li className="UrlQrCard">
+      <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+        <strong>{rule.countryCode}</strong>
+        <span>{countryName(rule.countryCode)}</span>
+        <span>&rarr;</span>
+        <code style={{ wordBreak: "break-all" }}>{rule.destinationUrl}</code>
+      </div>
+
+      <div style={{ marginTop: "0.5rem" }}>
+        {isDeleting ? (
+          <span>Removing...</span>
+        ) : (
+          <button
+            onClick={() =>
+              fetcher.submit(
+                { intent: "delete-geo-rule", ruleId: String(rule.id) },
+                { method: "post" }
+              )
+            }
+          >
+            Remove
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * LinkDestinationFields component.
+ *
+ * UTM builder and passthrough setting for a link, shared by
+ * UrlCreationForm and the dashboard's edit form (see
+ * destination-params.ts):
+ *   - Source / medium / campaign → added to the destination on redirect
+ *   - Passthrough → the short URL's query string and extra path are
+ *     forwarded, so one link can carry many campaign variants
+ *
+ * Always submits utmSource, utmMedium, utmCampaign (empty when the
+ * checkbox is off) and passthrough ("true" / "false"), so saving the
+ * edit form with the builder unchecked removes the tags.
+ */
+
+import { useState } from "react";
+import {
+  UTM_FIELDS,
+  MAX_UTM_VALUE_LENGTH,
+  applyUtmParams,
+} from "~/lib/destination-params";
+import type { UtmParams } from "~/lib/destination-params";
+
+const PREVIEW_BASE = "https://example.com/";
+
+interface LinkDestinationFieldsProps {
+  /** The link's current values, when editing */
+  current?: {
+    utm_source: string | null;
+    utm_medium: string | null;
+    utm_campaign: string | null;
+    passthrough: number;
+  };
+  disabled?: boolean;
+}
+
+export function LinkDestinationFields({
+  current,
+  disabled = false,
+}: LinkDestinationFieldsProps) {
+  const [values, setValues] = useState<Record<keyof UtmParams, string>>({
+    source: current?.utm_source ?? "",
+    medium: current?.utm_medium ?? "",
+    campaign: current?.utm_campaign ?? "",
+  });
+  const [isTagging, setIsTagging] = useState(
+    Object.values(values).some((value) => value !== "")
+  );
+  const [passthrough, setPassthrough] = useState(current?.passthrough === 1);
+
+  // The query string the tags produce, shown as a live preview
+  const preview = applyUtmParams(PREVIEW_BASE, {
+    source: values.source.trim() || null,
+    medium: values.medium.trim() || null,
+    campaign: values.campaign.trim() || null,
+  }).slice(PREVIEW_BASE.length);
+
+  return (
+    <div>
+      <label>
+        <input
+          type="checkbox"
+          checked={isTagging}
+          onChange={() => setIsTagging((prev) => !prev)}
+          disabled={disabled}
+        />
+        <span>Add UTM campaign tags</span>
+      </label>
+
+      {isTagging ? (
+        <div>
+          {UTM_FIELDS.map((field) => (
+            <label key={field.key}>
+              <span>{field.label}</span>{" "}
+              <input
+                type="text"
+                name={`utm${field.label}`}
+                placeholder={field.placeholder}
+                maxLength={MAX_UTM_VALUE_LENGTH}
+                value={values[field.key]}
+                onChange={(event) =>
+                  setValues((prev) => ({ ...prev, [field.key]: event.target.value }))
+                }
+                disabled={disabled}
+              />
+            </label>
+          ))}
+
+          {preview && (
+            <p>
+              Added to the destination: <code>{preview}</code>
+            </p>
+          )}
+        </div>
+      ) : (
+        <>
+          {UTM_FIELDS.map((field) => (
+            <input key={field.key} type="hidden" name={`utm${field.label}`} value="" />
+          ))}
+        </>
+      )}
+
+      <label>
+        <input
+          type="checkbox"
+          checked={passthrough}
+          onChange={() => setPassthrough((prev) => !prev)}
+          disabled={disabled}
+        />
+        <span>Forward query parameters and extra path to the destination</span>
+      </label>
+
+      {passthrough && (
+        <p>
+          <code>/code?utm_campaign=flyer</code> and <code>/code/de</code> keep
+          their <code>?utm_campaign=flyer</code> and <code>/de</code> on the
+          way through. Forwarded parameters replace tags with the same name.
+        </p>
+      )}
+
+      <input type="hidden" name="passthrough" value={passthrough ? "true" : "false"} />
+    </div>
+  );
+}
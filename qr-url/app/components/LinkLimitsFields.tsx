@@ -0,0 +1,115 @@
+/**
+ * LinkLimitsFields component.
+ *
+ * Optional availability rules for a link, shared by UrlCreationForm
+ * and the dashboard's edit form (see link-limits.ts):
+ *   - Opens at   → no redirect before this time
+ *   - Max clicks → only the first N visitors get through
+ *   - Fallback   → where everyone else goes (empty = a status page)
+ *
+ * Always submits startsAt, maxClicks and fallbackUrl — empty when the
+ * checkbox is off — so saving the edit form with it unchecked removes
+ * the limits. startsAt is converted to an ISO string in the browser,
+ * like ExpirationFields does for the expiry date.
+ */
+
+import { useState } from "react";
+import { MAX_CLICK_LIMIT } from "~/lib/link-limits";
+import { toDateTimeLocalValue } from "~/lib/url-expiration";
+
+interface LinkLimitsFieldsProps {
+  /** The link's current values, when editing */
+  current?: {
+    starts_at: string | null;
+    max_clicks: number | null;
+    fallback_url: string | null;
+    click_count: number;
+  };
+  disabled?: boolean;
+}
+
+export function LinkLimitsFields({ current, disabled = false }: LinkLimitsFieldsProps) {
+  const [isEnabled, setIsEnabled] = useState(
+    current !== undefined &&
+      (current.starts_at !== null ||
+        current.max_clicks !== null ||
+        current.fallback_url !== null)
+  );
+  const [localStart, setLocalStart] = useState(() =>
+    current?.starts_at ? toDateTimeLocalValue(current.starts_at) : ""
+  );
+
+  // datetime-local has no timezone; new Date() reads it as local time
+  const startTime = localStart ? new Date(localStart).getTime() : NaN;
+  const isoStart =
+    isEnabled && !Number.isNaN(startTime) ? new Date(startTime).toISOString() : "";
+
+  return (
+    <div>
+      <label>
+        <input
+          type="checkbox"
+          checked={isEnabled}
+          onChange={() => setIsEnabled((prev) => !prev)}
+          disabled={disabled}
+        />
+        <span>Limit when this link works</span>
+      </label>
+
+      {isEnabled ? (
+        <div>
+          <label>
+            <span>Opens at</span>{" "}
+            <input
+              type="datetime-local"
+              value={localStart}
+              onChange={(event) => setLocalStart(event.target.value)}
+              disabled={disabled}
+            />
+          </label>
+
+          <label>
+            <span>Max clicks</span>{" "}
+            <input
+              type="number"
+              name="maxClicks"
+              min={1}
+              max={MAX_CLICK_LIMIT}
+              step={1}
+              placeholder="Unlimited"
+              defaultValue={current?.max_clicks ?? ""}
+              disabled={disabled}
+            />
+            {current && current.max_clicks !== null && (
+              <span> {current.click_count} used so far</span>
+            )}
+          </label>
+
+          <label>
+            <span>Fallback URL</span>{" "}
+            <input
+              type="text"
+              name="fallbackUrl"
+              placeholder="https://example.com/sold-out"
+              defaultValue={current?.fallback_url ?? ""}
+              disabled={disabled}
+            />
+          </label>
+
+          <p>
+            Before it opens, after it expires or once the clicks run out,
+            visitors go to the fallback URL — or see a "not available" page
+            if there isn't one.
+          </p>
+        </div>
+      ) : (
+        <>
+          <input type="hidden" name="maxClicks" value="" />
+          <input type="hidden" name="fallbackUrl" value="" />
+        </>
+      )}
+
+      <input type="hidden" name="startsAt" value={isoStart} />
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * LinkPasswordFields component.
+ *
+ * Optional password for a link, shared by UrlCreationForm and the
+ * dashboard's edit form. Visitors have to enter it before they are
+ * redirected (see link-password.ts).
+ *
+ * Submits two fields (see resolvePasswordChange):
+ *   passwordMode → "none" | "set" | "keep"
+ *   linkPassword → the new password, only when mode is "set"
+ *
+ * The current password is never sent to the browser — there's only
+ * a hash — so the edit form offers keep / change / remove instead of
+ * pre-filling it.
+ */
+
+import { useState } from "react";
+import {
+  PASSWORD_NONE,
+  PASSWORD_SET,
+  PASSWORD_KEEP,
+  MAX_LINK_PASSWORD_LENGTH,
+} from "~/lib/link-password";
+
+interface LinkPasswordFieldsProps {
+  /** Whether the link has a password, when editing */
+  hasPassword?: boolean;
+  disabled?: boolean;
+}
+
+export function LinkPasswordFields({
+  hasPassword = false,
+  disabled = false,
+}: LinkPasswordFieldsProps) {
+  const [mode, setMode] = useState<string>(
+    hasPassword ? PASSWORD_KEEP : PASSWORD_NONE
+  );
+
+  return (
+    <div>
+      <label>
+        <span>Password</span>{" "}
+        <select
+          name="passwordMode"
+          value={mode}
+          onChange={(event) => setMode(event.target.value)}
+          disabled={disabled}
+        >
+          {hasPassword ? (
+            <>
+              <option value={PASSWORD_KEEP}>Keep current password</option>
+              <option value={PASSWORD_SET}>Change password…</option>
+              <option value={PASSWORD_NONE}>Remove password</option>
+            </>
+          ) : (
+            <>
+              <option value={PASSWORD_NONE}>No password</option>
+              <option value={PASSWORD_SET}>Require a password…</option>
+            </>
+          )}
+        </select>
+      </label>
+
+      {mode === PASSWORD_SET && (
+        <input
+          type="password"
+          name="linkPassword"
+          aria-label="Link password"
+          placeholder="Password visitors must enter"
+          autoComplete="new-password"
+          maxLength={MAX_LINK_PASSWORD_LENGTH}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
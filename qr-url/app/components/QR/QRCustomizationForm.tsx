@@ -3,23 +3,47 @@
  * Collects all the settings needed to generate a QR code:
  *   - Which URL to encode
  *   - URL type (original / branded / shortest)
- *   - Foreground and background colors
+ *   - Foreground color or gradient, background color or transparent
  *   - Size (256 / 512 / 1024 px)
  *   - Error correction level (L / M / Q / H)
+ *   - Module shape and finder "eye" shapes + colors
+ *   - Optional center logo (upload, size, padding)
+ *
+ * Picking a logo file uploads it right away (to R2, via the page's
+ * "upload-logo" action) so the customization can reference it by key.
+ * The local file is also read as a data URI for the preview, so the
+ * preview never waits on R2. While a logo is set, error correction
+ * is held at Q or H.
  *
  * When the user clicks "Generate Preview", the parent component
- * receives the settings via onGenerate callback and generates
- * the QR client-side. This component doesn't do the generation
- * itself — it's purely a settings form.
+ * receives the settings via onGenerate callback and renders
+ * the QR preview client-side. This component doesn't do the generation
+ * itself — it's purely a settings form. After the first preview,
+ * every settings change re-runs onGenerate so the preview stays live.
  */
 
-import { useState } from "react";
-import type { QrCustomization } from "~/lib/qr-generation";
+import { useEffect, useRef, useState } from "react";
+import { useFetcher } from "react-router";
+import type {
+  QrCustomization,
+  ErrorCorrectionLevel,
+  ModuleShape,
+  EyeShape,
+  GradientType,
+} from "~/lib/qr-customization";
 import {
   DEFAULT_CUSTOMIZATION,
   SIZE_OPTIONS,
   ERROR_CORRECTION_OPTIONS,
-} from "~/lib/qr-generation";
+  LOGO_SIZE_OPTIONS,
+  LOGO_PADDING_OPTIONS,
+  LOGO_ERROR_CORRECTION,
+  MODULE_SHAPE_OPTIONS,
+  EYE_SHAPE_OPTIONS,
+  GRADIENT_TYPE_OPTIONS,
+  GRADIENT_ROTATION_OPTIONS,
+} from "~/lib/qr-customization";
+import { LOGO_CONTENT_TYPES, MAX_LOGO_SIZE_BYTES } from "~/lib/qr-logo";
 
 
 export interface UrlOption {
@@ -33,10 +57,25 @@ interface QrCustomizationFormProps {
   urls: UrlOption[];
   /** Pre-selected URL id from query param, or null */
   preselectedUrlId: number | null;
-  onGenerate: (urlId: number, urlType: string, customization: QrCustomization) => void;
+  onGenerate: (
+    urlId: number,
+    urlType: string,
+    customization: QrCustomization,
+    logoDataUrl: string | null,
+  ) => void;
   isGenerating: boolean;
 }
 
+/** An uploaded logo: its R2 key plus a local copy for the preview */
+interface UploadedLogo {
+  storagePath: string;
+  dataUrl: string;
+}
+
+type UploadLogoActionData =
+  | { intent: "upload-logo"; success: true; storagePath: string }
+  | { intent: "upload-logo"; success: false; error: string };
+
 import { SITE_DOMAIN } from "~/lib/constants";
 
 const DISPLAY_DOMAIN = SITE_DOMAIN;
@@ -58,27 +97,113 @@ export function QrCustomizationForm({
   const [backgroundColor, setBackgroundColor] = useState(
     DEFAULT_CUSTOMIZATION.backgroundColor.slice(0, 7)
   );
+  const [isTransparent, setIsTransparent] = useState(false);
+  /** "solid" or a gradient type */
+  const [fillType, setFillType] = useState<"solid" | GradientType>("solid");
+  const [gradientEndColor, setGradientEndColor] = useState("#0000FF");
+  const [gradientRotation, setGradientRotation] = useState<number>(
+    GRADIENT_ROTATION_OPTIONS[0].value
+  );
   const [size, setSize] = useState(DEFAULT_CUSTOMIZATION.size);
   const [errorCorrection, setErrorCorrection] = useState(
     DEFAULT_CUSTOMIZATION.errorCorrection
   );
+  const [moduleShape, setModuleShape] = useState<ModuleShape>(
+    DEFAULT_CUSTOMIZATION.moduleShape
+  );
+  const [eyeOuterShape, setEyeOuterShape] = useState<EyeShape>(
+    DEFAULT_CUSTOMIZATION.eyeOuterShape
+  );
+  const [eyeInnerShape, setEyeInnerShape] = useState<EyeShape>(
+    DEFAULT_CUSTOMIZATION.eyeInnerShape
+  );
+  const [eyeOuterColor, setEyeOuterColor] = useState(
+    DEFAULT_CUSTOMIZATION.eyeOuterColor.slice(0, 7)
+  );
+  const [eyeInnerColor, setEyeInnerColor] = useState(
+    DEFAULT_CUSTOMIZATION.eyeInnerColor.slice(0, 7)
+  );
+  const [logo, setLogo] = useState<UploadedLogo | null>(null);
+  const [logoSize, setLogoSize] = useState<number>(LOGO_SIZE_OPTIONS[1].value);
+  const [logoPadding, setLogoPadding] = useState<number>(
+    LOGO_PADDING_OPTIONS[1].value
+  );
+
+  function handleLogoUploaded(uploaded: UploadedLogo) {
+    setLogo(uploaded);
+
+    if (!LOGO_ERROR_CORRECTION.includes(errorCorrection)) {
+      setErrorCorrection(LOGO_ERROR_CORRECTION[0]);
+    }
+  }
 
   const selectedUrl = urls.find((u) => u.id === selectedUrlId);
   const hasBranded = selectedUrl?.subdomain !== null;
 
+  /** True once the user has generated a preview; enables live updates */
+  const [isLive, setIsLive] = useState(false);
+
   function handleGenerate() {
     if (!selectedUrl) return;
 
     const customization: QrCustomization = {
       foregroundColor: foregroundColor + "FF", // Add full alpha
-      backgroundColor: backgroundColor + "FF",
+      foregroundGradient:
+        fillType === "solid"
+          ? null
+          : {
+              type: fillType,
+              endColor: gradientEndColor + "FF",
+              rotation: gradientRotation,
+            },
+      // <input type="color"> has no alpha, so transparency is a checkbox
+      backgroundColor: backgroundColor + (isTransparent ? "00" : "FF"),
       size,
       errorCorrection,
+      moduleShape,
+      eyeOuterShape,
+      eyeInnerShape,
+      eyeOuterColor: eyeOuterColor + "FF",
+      eyeInnerColor: eyeInnerColor + "FF",
+      logo: logo
+        ? {
+            storagePath: logo.storagePath,
+            sizeRatio: logoSize,
+            padding: logoPadding,
+          }
+        : null,
     };
 
-    onGenerate(selectedUrlId, urlType, customization);
+    onGenerate(selectedUrlId, urlType, customization, logo?.dataUrl ?? null);
+    setIsLive(true);
   }
 
+  // Re-render the preview whenever a setting changes
+  useEffect(() => {
+    if (isLive) {
+      handleGenerate();
+    }
+  }, [
+    selectedUrlId,
+    urlType,
+    foregroundColor,
+    backgroundColor,
+    isTransparent,
+    fillType,
+    gradientEndColor,
+    gradientRotation,
+    size,
+    errorCorrection,
+    moduleShape,
+    eyeOuterShape,
+    eyeInnerShape,
+    eyeOuterColor,
+    eyeInnerColor,
+    logo,
+    logoSize,
+    logoPadding,
+  ]);
+
   if (urls.length === 0) {
     return (
       <div>
@@ -110,6 +235,34 @@ export function QrCustomizationForm({
         background={backgroundColor}
         onForegroundChange={setForegroundColor}
         onBackgroundChange={setBackgroundColor}
+        isTransparent={isTransparent}
+        onTransparentChange={setIsTransparent}
+      />
+
+      <GradientControls
+        fillType={fillType}
+        endColor={gradientEndColor}
+        rotation={gradientRotation}
+        onFillTypeChange={setFillType}
+        onEndColorChange={setGradientEndColor}
+        onRotationChange={setGradientRotation}
+      />
+
+      {/* --- Shapes --- */}
+      <ModuleShapeSelector
+        selectedShape={moduleShape}
+        onShapeChange={setModuleShape}
+      />
+
+      <EyeStyleControls
+        outerShape={eyeOuterShape}
+        innerShape={eyeInnerShape}
+        outerColor={eyeOuterColor}
+        innerColor={eyeInnerColor}
+        onOuterShapeChange={setEyeOuterShape}
+        onInnerShapeChange={setEyeInnerShape}
+        onOuterColorChange={setEyeOuterColor}
+        onInnerColorChange={setEyeInnerColor}
       />
 
       {/* --- Size --- */}
@@ -119,6 +272,18 @@ export function QrCustomizationForm({
       <ErrorCorrectionSelector
         selectedLevel={errorCorrection}
         onLevelChange={setErrorCorrection}
+        hasLogo={logo !== null}
+      />
+
+      {/* --- Logo --- */}
+      <LogoControls
+        logo={logo}
+        logoSize={logoSize}
+        logoPadding={logoPadding}
+        onLogoUploaded={handleLogoUploaded}
+        onLogoRemoved={() => setLogo(null)}
+        onLogoSizeChange={setLogoSize}
+        onLogoPaddingChange={setLogoPadding}
       />
 
       {/* --- Generate Button --- */}
@@ -253,11 +418,15 @@ function ColorPickers({
   background,
   onForegroundChange,
   onBackgroundChange,
+  isTransparent,
+  onTransparentChange,
 }: {
   foreground: string;
   background: string;
   onForegroundChange: (color: string) => void;
   onBackgroundChange: (color: string) => void;
+  isTransparent: boolean;
+  onTransparentChange: (transparent: boolean) => void;
 }) {
   return (
     <div>
@@ -275,13 +444,188 @@ function ColorPickers({
           type="color"
           value={background}
           onChange={(e) => onBackgroundChange(e.target.value)}
+          disabled={isTransparent}
           style={{cursor: "pointer"}}
         />
       </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={isTransparent}
+          onChange={(e) => onTransparentChange(e.target.checked)}
+        />
+        <span>Transparent background</span>
+      </label>
     </div>
   );
 }
 
+function GradientControls({
+  fillType,
+  endColor,
+  rotation,
+  onFillTypeChange,
+  onEndColorChange,
+  onRotationChange,
+}: {
+  fillType: "solid" | GradientType;
+  endColor: string;
+  rotation: number;
+  onFillTypeChange: (fillType: "solid" | GradientType) => void;
+  onEndColorChange: (color: string) => void;
+  onRotationChange: (rotation: number) => void;
+}) {
+  return (
+    <div>
+      <label>
+        <span>Foreground fill</span>
+        <select
+          value={fillType}
+          onChange={(e) => onFillTypeChange(e.target.value as "solid" | GradientType)}
+        >
+          <option value="solid">Solid</option>
+          {GRADIENT_TYPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label} gradient
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {fillType !== "solid" && (
+        <label>
+          <span>Gradient end</span>
+          <input
+            type="color"
+            value={endColor}
+            onChange={(e) => onEndColorChange(e.target.value)}
+          />
+        </label>
+      )}
+
+      {fillType === "linear" && (
+        <label>
+          <span>Direction</span>
+          <select
+            value={rotation}
+            onChange={(e) => onRotationChange(Number(e.target.value))}
+          >
+            {GRADIENT_ROTATION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+}
+
+function ModuleShapeSelector({
+  selectedShape,
+  onShapeChange,
+}: {
+  selectedShape: ModuleShape;
+  onShapeChange: (shape: ModuleShape) => void;
+}) {
+  function handleChange(event: React.ChangeEvent<HTMLInputElement>) {
+    onShapeChange(event.target.value as ModuleShape);
+  }
+
+  return (
+    <fieldset>
+      <legend>Module shape</legend>
+      <div>
+        {MODULE_SHAPE_OPTIONS.map((option) => (
+          <label key={option.value}>
+            <input
+              type="radio"
+              name="moduleShape"
+              value={option.value}
+              checked={selectedShape === option.value}
+              onChange={handleChange}
+            />
+            <span>{option.label}</span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
+
+function EyeStyleControls({
+  outerShape,
+  innerShape,
+  outerColor,
+  innerColor,
+  onOuterShapeChange,
+  onInnerShapeChange,
+  onOuterColorChange,
+  onInnerColorChange,
+}: {
+  outerShape: EyeShape;
+  innerShape: EyeShape;
+  outerColor: string;
+  innerColor: string;
+  onOuterShapeChange: (shape: EyeShape) => void;
+  onInnerShapeChange: (shape: EyeShape) => void;
+  onOuterColorChange: (color: string) => void;
+  onInnerColorChange: (color: string) => void;
+}) {
+  return (
+    <fieldset>
+      <legend>Corner eyes</legend>
+      <div>
+        <label>
+          <span>Outer shape</span>
+          <select
+            value={outerShape}
+            onChange={(e) => onOuterShapeChange(e.target.value as EyeShape)}
+          >
+            {EYE_SHAPE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span>Outer color</span>
+          <input
+            type="color"
+            value={outerColor}
+            onChange={(e) => onOuterColorChange(e.target.value)}
+          />
+        </label>
+      </div>
+      <div>
+        <label>
+          <span>Inner shape</span>
+          <select
+            value={innerShape}
+            onChange={(e) => onInnerShapeChange(e.target.value as EyeShape)}
+          >
+            {EYE_SHAPE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span>Inner color</span>
+          <input
+            type="color"
+            value={innerColor}
+            onChange={(e) => onInnerColorChange(e.target.value)}
+          />
+        </label>
+      </div>
+    </fieldset>
+  );
+}
+
 function SizeSelector({
   selectedSize,
   onSizeChange,
@@ -319,12 +663,14 @@ function SizeSelector({
 function ErrorCorrectionSelector({
   selectedLevel,
   onLevelChange,
+  hasLogo,
 }: {
   selectedLevel: string;
-  onLevelChange: (level: "L" | "M" | "Q" | "H") => void;
+  onLevelChange: (level: ErrorCorrectionLevel) => void;
+  hasLogo: boolean;
 }) {
   function handleChange(event: React.ChangeEvent<HTMLInputElement>) {
-    onLevelChange(event.target.value as "L" | "M" | "Q" | "H");
+    onLevelChange(event.target.value as ErrorCorrectionLevel);
   }
 
   return (
@@ -343,11 +689,142 @@ function ErrorCorrectionSelector({
               value={option.value}
               checked={selectedLevel === option.value}
               onChange={handleChange}
+              disabled={hasLogo && !LOGO_ERROR_CORRECTION.includes(option.value)}
             />
             <span>{option.label}</span>
           </label>
         ))}
       </div>
+      {hasLogo && <p>A logo covers part of the code, so Q or H is required.</p>}
+    </fieldset>
+  );
+}
+
+function LogoControls({
+  logo,
+  logoSize,
+  logoPadding,
+  onLogoUploaded,
+  onLogoRemoved,
+  onLogoSizeChange,
+  onLogoPaddingChange,
+}: {
+  logo: UploadedLogo | null;
+  logoSize: number;
+  logoPadding: number;
+  onLogoUploaded: (logo: UploadedLogo) => void;
+  onLogoRemoved: () => void;
+  onLogoSizeChange: (size: number) => void;
+  onLogoPaddingChange: (padding: number) => void;
+}) {
+  const fetcher = useFetcher<UploadLogoActionData>();
+  const [clientError, setClientError] = useState<string | null>(null);
+  /** Data URI of the file being uploaded, kept until the server answers */
+  const pendingDataUrl = useRef<string | null>(null);
+
+  const isUploading = fetcher.state !== "idle";
+  const serverError =
+    fetcher.data?.success === false ? fetcher.data.error : null;
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.success && pendingDataUrl.current) {
+      onLogoUploaded({
+        storagePath: fetcher.data.storagePath,
+        dataUrl: pendingDataUrl.current,
+      });
+      pendingDataUrl.current = null;
+    }
+  }, [fetcher.state, fetcher.data, onLogoUploaded]);
+
+  async function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // allow re-picking the same file
+
+    if (!file) return;
+
+    // Quick client-side checks; the server re-checks the actual bytes
+    if (!(file.type in LOGO_CONTENT_TYPES)) {
+      setClientError("Logo must be a PNG, JPEG or WebP image.");
+      return;
+    }
+
+    if (file.size > MAX_LOGO_SIZE_BYTES) {
+      setClientError(`Logo must be ${MAX_LOGO_SIZE_BYTES / 1024}KB or smaller.`);
+      return;
+    }
+
+    setClientError(null);
+    pendingDataUrl.current = await readFileAsDataUrl(file);
+
+    const formData = new FormData();
+    formData.append("intent", "upload-logo");
+    formData.append("logo", file);
+
+    // Explicit action: the form is also used on the bulk page
+    fetcher.submit(formData, {
+      method: "post",
+      action: "/dashboard/qr/new",
+      encType: "multipart/form-data",
+    });
+  }
+
+  const error = clientError ?? serverError;
+
+  return (
+    <fieldset>
+      <legend>Logo (optional)</legend>
+
+      {logo ? (
+        <div>
+          <img src={logo.dataUrl} alt="Uploaded logo" style={{ maxWidth: "48px" }} />
+          <button type="button" onClick={onLogoRemoved}>
+            Remove logo
+          </button>
+        </div>
+      ) : (
+        <label>
+          <span>{isUploading ? "Uploading..." : "Upload image"}</span>
+          <input
+            type="file"
+            accept={Object.keys(LOGO_CONTENT_TYPES).join(",")}
+            onChange={handleFileChange}
+            disabled={isUploading}
+          />
+        </label>
+      )}
+
+      {error && <p role="alert">{error}</p>}
+
+      {logo && (
+        <div>
+          <label>
+            <span>Logo size</span>
+            <select
+              value={logoSize}
+              onChange={(e) => onLogoSizeChange(Number(e.target.value))}
+            >
+              {LOGO_SIZE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Padding</span>
+            <select
+              value={logoPadding}
+              onChange={(e) => onLogoPaddingChange(Number(e.target.value))}
+            >
+              {LOGO_PADDING_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
     </fieldset>
   );
 }
@@ -366,4 +843,13 @@ function buildDisplayUrl(shortcode: string, subdomain: string | null): string {
 function truncate(str: string, maxLength: number): string {
   if (str.length <= maxLength) return str;
   return str.substring(0, maxLength) + "...";
-}
\ No newline at end of file
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
@@ -2,11 +2,14 @@
  * QrListItem component.
  *
  * Renders a single QR code entry: thumbnail, encoded URL,
- * type badge, creation date, download link, and delete button.
+ * type badge, creation date, download (with format picker),
+ * and delete button.
  */
 
 import { useState } from "react";
 import { useFetcher } from "react-router";
+import { parseQrCustomization } from "~/lib/qr-customization";
+import { generateQrDataUrl } from "~/lib/qr-generation";
 
 export interface QrRecord {
   id: number;
@@ -28,6 +31,18 @@ const URL_TYPE_LABELS: Record<string, string> = {
   shortest: "Shortest",
 };
 
+/**
+ * Download options. Each maps to ?format=&scale= on the image route,
+ * which renders the saved code on demand (see api.qr-image.$.tsx).
+ */
+const DOWNLOAD_OPTIONS = [
+  { id: "svg", label: "SVG (vector)", format: "svg", scale: 1 },
+  { id: "pdf", label: "PDF (vector, print)", format: "pdf", scale: 1 },
+  { id: "eps", label: "EPS (vector, legacy)", format: "eps", scale: 1 },
+  { id: "png", label: "PNG", format: "png", scale: 1 },
+  { id: "png2x", label: "PNG (2× high-DPI)", format: "png", scale: 2 },
+] as const;
+
 // ---------------------------------------------------------------------------
 // QrListItem
 // ---------------------------------------------------------------------------
@@ -64,15 +79,93 @@ export function QrListItem({ qrCode }: QrListItemProps) {
 
       {/* --- Actions --- */}
       <div>
-        <a href={imageUrl} download={`qr-${qrCode.url_type}-${qrCode.id}.png`}>
-          Download
-        </a>
+        <QrDownload qrCode={qrCode} imageUrl={imageUrl} />
         <QrDeleteButton qrId={qrCode.id} />
       </div>
     </li>
   );
 }
 
+// ---------------------------------------------------------------------------
+// QrDownload
+// ---------------------------------------------------------------------------
+
+interface QrDownloadProps {
+  qrCode: QrRecord;
+  imageUrl: string;
+}
+
+function QrDownload({ qrCode, imageUrl }: QrDownloadProps) {
+  const [optionId, setOptionId] = useState<string>(DOWNLOAD_OPTIONS[0].id);
+  const [rasterError, setRasterError] = useState<string | null>(null);
+
+  /**
+   * The server can only embed a logo in SVG (see qr-export.ts). PNGs of
+   * logo codes are rasterized here from the SVG export instead, like
+   * the preview's PNG download; PDF and EPS aren't offered.
+   */
+  const customization = parseQrCustomization(qrCode.customization).customization;
+  const hasLogo = customization?.logo != null;
+  const options = hasLogo
+    ? DOWNLOAD_OPTIONS.filter((o) => o.format === "svg" || o.format === "png")
+    : DOWNLOAD_OPTIONS;
+
+  const option = options.find((o) => o.id === optionId) ?? options[0];
+  const scaleSuffix = option.scale > 1 ? `@${option.scale}x` : "";
+  const fileName = `qr-${qrCode.url_type}-${qrCode.id}${scaleSuffix}.${option.format}`;
+  const href = `${imageUrl}?format=${option.format}&scale=${option.scale}`;
+  const rasterizeInBrowser = hasLogo && option.format === "png";
+
+  async function handleRasterize() {
+    setRasterError(null);
+
+    try {
+      const response = await fetch(`${imageUrl}?format=svg`);
+
+      if (!response.ok || !customization) {
+        throw new Error(`Export failed (${response.status})`);
+      }
+
+      const link = document.createElement("a");
+      link.href = await generateQrDataUrl(
+        await response.text(),
+        customization.size * option.scale
+      );
+      link.download = fileName;
+      link.click();
+    } catch {
+      setRasterError("Couldn't create the PNG. Try again, or download the SVG.");
+    }
+  }
+
+  return (
+    <span>
+      <select
+        value={optionId}
+        onChange={(e) => setOptionId(e.target.value)}
+        aria-label="Download format"
+      >
+        {options.map((o) => (
+          <option key={o.id} value={o.id}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+      {rasterizeInBrowser ? (
+        <button type="button" onClick={handleRasterize}>
+          Download
+        </button>
+      ) : (
+        <a href={href} download={fileName}>
+          Download
+        </a>
+      )}
+      {hasLogo && <small> PDF and EPS aren't available for codes with a logo.</small>}
+      {rasterError && <span role="alert">{rasterError}</span>}
+    </span>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // QrDeleteButton
 // ---------------------------------------------------------------------------
@@ -1,48 +1,81 @@
 /**
  *
- * Shows the client-generated QR code image with:
- *   - Visual preview at a fixed display size
- *   - Download button (direct browser download, no server needed)
- *   - Save button (submits to server for R2 storage + D1 metadata)
+ * Shows the client-rendered QR code SVG with:
+ *   - Visual preview at a fixed display size, over a checkerboard
+ *     when the background is (partly) transparent
+ *   - Scannability warnings (contrast, inverted colors, quiet zone,
+ *     module size). Errors disable saving; the server enforces it too.
+ *   - Download buttons (SVG as-is, PNG via canvas — no server needed)
+ *   - Save button (submits the customization to the server, which
+ *     re-renders the same SVG for R2 storage + D1 metadata)
  *
- * The QR data URL is generated client-side by the parent page.
+ * The SVG markup is rendered client-side by the parent page.
  * This component receives it as a prop and handles display + submission.
+ * No image bytes are sent on save — only the settings.
  */
 
 import { useState } from "react";
 import { useFetcher } from "react-router";
+import { svgToDataUrl, splitHexColor } from "~/lib/qr-svg";
+import { generateQrDataUrl } from "~/lib/qr-generation";
+import type { QrCustomization } from "~/lib/qr-customization";
+import { checkScannability } from "~/lib/qr-scannability";
+
+/**
+ * The usual "this is transparent" pattern, drawn with CSS so there's
+ * no image to load. Shows through wherever the QR image has alpha.
+ */
+const CHECKERBOARD_STYLE = {
+  backgroundImage:
+    "repeating-conic-gradient(#CCCCCC 0% 25%, #FFFFFF 0% 50%)",
+  backgroundSize: "16px 16px",
+};
 
 interface QrPreviewProps {
-  /** Base64 data URI of the QR PNG */
-  dataUrl: string;
+  /** SVG document string from renderQrSvg */
+  svgMarkup: string;
+  customization: QrCustomization;
   encodedUrl: string;
   urlType: string;
   /** Database ID of the source URL */
   urlId: number;
-  customizationJson: string;
 }
 
 
 export function QrPreview({
-  dataUrl,
+  svgMarkup,
+  customization,
   encodedUrl,
   urlType,
   urlId,
-  customizationJson,
 }: QrPreviewProps) {
   const fetcher = useFetcher();
-  const [downloaded, setDownloaded] = useState(false);
+  const [downloaded, setDownloaded] = useState<"svg" | "png" | null>(null);
 
   const isSaving = fetcher.state !== "idle";
   const saveSucceeded = fetcher.data?.success === true;
   const saveError = fetcher.data?.success === false ? fetcher.data?.error : null;
 
-  function handleDownload() {
+  const svgDataUrl = svgToDataUrl(svgMarkup);
+  const scannability = checkScannability(encodedUrl, customization);
+  const hasTransparency =
+    splitHexColor(customization.backgroundColor).opacity < 1;
+
+  function triggerDownload(href: string, extension: "svg" | "png") {
     const link = document.createElement("a");
-    link.href = dataUrl;
-    link.download = `qr-${urlType}-${urlId}.png`;
+    link.href = href;
+    link.download = `qr-${urlType}-${urlId}.${extension}`;
     link.click();
-    setDownloaded(true);
+    setDownloaded(extension);
+  }
+
+  function handleDownloadSvg() {
+    triggerDownload(svgDataUrl, "svg");
+  }
+
+  async function handleDownloadPng() {
+    const pngDataUrl = await generateQrDataUrl(svgMarkup, customization.size);
+    triggerDownload(pngDataUrl, "png");
   }
 
   function handleSave() {
@@ -52,8 +85,7 @@ export function QrPreview({
         urlId: String(urlId),
         urlType,
         encodedUrl,
-        customizationJson,
-        imageDataUrl: dataUrl,
+        customizationJson: JSON.stringify(customization),
       },
       { method: "post" }
     );
@@ -62,13 +94,18 @@ export function QrPreview({
   return (
     <div>
       {/* --- QR Image --- */}
-      <div>
+      <div
+        style={{
+          display: "inline-block",
+          lineHeight: 0,
+          ...(hasTransparency ? CHECKERBOARD_STYLE : {}),
+        }}
+      >
         <img
-          src={dataUrl}
+          src={svgDataUrl}
           alt={`QR code for ${encodedUrl}`}
           style={{
             maxWidth: "192px",
-            imageRendering: "pixelated",
           }}
         />
       </div>
@@ -77,19 +114,45 @@ export function QrPreview({
         Encodes: <code>{encodedUrl}</code>
       </p>
 
+      {/* --- Scannability --- */}
+      <p>
+        Contrast: {scannability.contrastRatio.toFixed(1)}:1
+      </p>
+
+      {scannability.issues.length > 0 && (
+        <ul>
+          {scannability.issues.map((issue) => (
+            <li
+              key={issue.message}
+              role={issue.severity === "error" ? "alert" : undefined}
+            >
+              {issue.severity === "error" ? "Error: " : "Warning: "}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* --- Actions --- */}
       <div>
         <button
           type="button"
-          onClick={handleDownload}
+          onClick={handleDownloadSvg}
+        >
+          {downloaded === "svg" ? "Downloaded!" : "Download SVG"}
+        </button>
+
+        <button
+          type="button"
+          onClick={handleDownloadPng}
         >
-          {downloaded ? "Downloaded!" : "Download PNG"}
+          {downloaded === "png" ? "Downloaded!" : "Download PNG"}
         </button>
 
         <button
           type="button"
           onClick={handleSave}
-          disabled={isSaving || saveSucceeded}
+          disabled={isSaving || saveSucceeded || scannability.isBlocking}
         >
           {isSaving ? "Saving..." : saveSucceeded ? "Saved!" : "Save to Library"}
         </button>
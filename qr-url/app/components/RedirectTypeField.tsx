@@ -0,0 +1,58 @@
+/**
+ * RedirectTypeField component.
+ *
+ * How a link sends visitors on — 301/302/307/308 or an interstitial
+ * page — shared by UrlCreationForm and the dashboard's edit form (see
+ * redirect-type.ts). Submits redirectType.
+ */
+
+import { useState } from "react";
+import { REDIRECT_TYPES, DEFAULT_REDIRECT_TYPE } from "~/lib/redirect-type";
+
+interface RedirectTypeFieldProps {
+  /** The link's current type, when editing */
+  current?: string;
+  disabled?: boolean;
+}
+
+export function RedirectTypeField({ current, disabled = false }: RedirectTypeFieldProps) {
+  const [redirectType, setRedirectType] = useState<string>(
+    current ?? DEFAULT_REDIRECT_TYPE
+  );
+
+  return (
+    <div>
+      <label>
+        <span>Redirect type</span>{" "}
+        <select
+          name="redirectType"
+          value={redirectType}
+          onChange={(event) => setRedirectType(event.target.value)}
+          disabled={disabled}
+        >
+          {REDIRECT_TYPES.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {(redirectType === "301" || redirectType === "308") && (
+        <p>
+          Browsers remember permanent redirects for a day: repeat visits in
+          that time skip the short link and aren't counted. Links with a
+          password, dates, a click limit or A/B variants are never
+          remembered.
+        </p>
+      )}
+
+      {redirectType === "interstitial" && (
+        <p>
+          Visitors see a brief "Redirecting…" page, so the destination
+          receives the short domain as the referrer.
+        </p>
+      )}
+    </div>
+  );
+}
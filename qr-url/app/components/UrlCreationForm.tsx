@@ -4,6 +4,11 @@
  *   - URL input (the long URL to shorten)
  *   - Format selector (short vs branded radio buttons)
  *   - Optional custom shortcode input (toggle to reveal)
+ *   - Expiry: never, a relative duration or an exact date
+ *   - Optional limits: opening time, max clicks, fallback URL
+ *   - Optional password visitors must enter
+ *   - Optional UTM tags and query/path passthrough
+ *   - Redirect type (302 unless changed)
  *   - Submit button with limit display
  *
  * The branded option is disabled when the user has no subdomain.
@@ -15,6 +20,15 @@ import { useState } from "react";
 import { Form, useNavigation } from "react-router";
 import { validateUrl } from "~/lib/url-validation";
 import { validateCustomShortcode } from "~/lib/shortcode";
+import { resolveExpiration } from "~/lib/url-expiration";
+import { parseLinkLimits, checkDateWindow } from "~/lib/link-limits";
+import { ExpirationFields } from "~/components/ExpirationFields";
+import { LinkLimitsFields } from "~/components/LinkLimitsFields";
+import { LinkPasswordFields } from "~/components/LinkPasswordFields";
+import { resolvePasswordChange } from "~/lib/link-password";
+import { LinkDestinationFields } from "~/components/LinkDestinationFields";
+import { parseUtmParams } from "~/lib/destination-params";
+import { RedirectTypeField } from "~/components/RedirectTypeField";
 import styles from "./UrlCreationForm.module.css";
 
 interface UrlCreationFormProps {
@@ -95,6 +109,58 @@ export function UrlCreationForm({
       }
     }
 
+    // Validate expiry (an exact date must be set and in the future)
+    const expirationValidation = resolveExpiration(
+      formData.get("expiresIn") as string | null,
+      formData.get("expiresAt") as string | null
+    );
+
+    if (!expirationValidation.isValid) {
+      event.preventDefault();
+      setClientError(expirationValidation.error);
+      return;
+    }
+
+    // Validate limits, and that the link opens before it expires
+    const limitsValidation = parseLinkLimits(
+      formData.get("startsAt") as string | null,
+      formData.get("maxClicks") as string | null,
+      formData.get("fallbackUrl") as string | null
+    );
+
+    const limitsError = limitsValidation.isValid
+      ? checkDateWindow(limitsValidation.limits.startsAt, expirationValidation.expiresAt)
+      : limitsValidation.error;
+
+    if (limitsError) {
+      event.preventDefault();
+      setClientError(limitsError);
+      return;
+    }
+
+    const passwordValidation = resolvePasswordChange(
+      formData.get("passwordMode") as string | null,
+      formData.get("linkPassword") as string | null
+    );
+
+    if (!passwordValidation.isValid) {
+      event.preventDefault();
+      setClientError(passwordValidation.error);
+      return;
+    }
+
+    const utmValidation = parseUtmParams(
+      formData.get("utmSource") as string | null,
+      formData.get("utmMedium") as string | null,
+      formData.get("utmCampaign") as string | null
+    );
+
+    if (!utmValidation.isValid) {
+      event.preventDefault();
+      setClientError(utmValidation.error);
+      return;
+    }
+
     // Clear any previous client error — form will submit normally
     setClientError(null);
   }
@@ -196,6 +262,16 @@ export function UrlCreationForm({
         )}
       </div>
 
+      <ExpirationFields disabled={isSubmitting} />
+
+      <LinkLimitsFields disabled={isSubmitting} />
+
+      <LinkPasswordFields disabled={isSubmitting} />
+
+      <LinkDestinationFields disabled={isSubmitting} />
+
+      <RedirectTypeField disabled={isSubmitting} />
+
       <input type="hidden" name="urlFormat" value={effectiveFormat} />
       <input
         type="hidden"
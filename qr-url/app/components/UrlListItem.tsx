@@ -4,18 +4,40 @@
  *   - Original URL (truncated if long)
  *   - Full short/branded URL (clickable + copy button)
  *   - Format badge (short vs branded)
- *   - Creation date
+ *   - Creation date, plus an expiry countdown or an "expired" badge
+ *   - Limits: opening time, clicks used of the maximum
+ *   - A badge for password-protected links
+ *   - Inline destination, expiry, limits and password editing
  *   - Delete button with confirmation
  *
- * Uses useFetcher for deletion so it doesn't navigate away from
- * the dashboard. The dashboard loader re-runs after the fetcher
- * completes, removing the deleted item from the list.
+ * Uses useFetcher for editing and deletion so it doesn't navigate away
+ * from the dashboard. The dashboard loader re-runs after the fetcher
+ * completes, refreshing or removing the item in the list.
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useFetcher, Link } from "react-router";
 import { QrListItem } from "~/components/QR/QrListItem";
 import type { QrRecord } from "~/components/QR/QrListItem";
+import { validateUrl } from "~/lib/url-validation";
+import {
+  resolveExpiration,
+  formatTimeRemaining,
+  EXPIRATION_KEEP,
+} from "~/lib/url-expiration";
+import { parseLinkLimits, checkDateWindow, hasNotStarted } from "~/lib/link-limits";
+import { ExpirationFields } from "~/components/ExpirationFields";
+import { LinkLimitsFields } from "~/components/LinkLimitsFields";
+import { LinkPasswordFields } from "~/components/LinkPasswordFields";
+import { resolvePasswordChange, PASSWORD_KEEP } from "~/lib/link-password";
+import { LinkDestinationFields } from "~/components/LinkDestinationFields";
+import { parseUtmParams } from "~/lib/destination-params";
+import { RedirectTypeField } from "~/components/RedirectTypeField";
+import {
+  parseRedirectType,
+  redirectTypeLabel,
+  DEFAULT_REDIRECT_TYPE,
+} from "~/lib/redirect-type";
 import styles from "./UrlListItem.module.css"
 
 
@@ -29,6 +51,24 @@ export interface UrlRecord {
   original_url: string;
   subdomain: string | null;
   created_at: string;
+  /** null = never expires */
+  expires_at: string | null;
+  /** null = available right away (see link-limits.ts) */
+  starts_at: string | null;
+  /** null = unlimited */
+  max_clicks: number | null;
+  click_count: number;
+  fallback_url: string | null;
+  /** 1 if visitors must enter a password (the hash never leaves the server) */
+  has_password: number;
+  /** UTM tags added on redirect (see destination-params.ts) */
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  /** 1 = query string and extra path are forwarded */
+  passthrough: number;
+  /** '301', '302', '307', '308' or 'interstitial' (see redirect-type.ts) */
+  redirect_type: string;
 }
 
 
@@ -40,6 +80,9 @@ const DISPLAY_DOMAIN = SITE_DOMAIN;
 /** Truncate original URLs longer than this for display. */
 const MAX_DISPLAY_URL_LENGTH = 50;
 
+/** How often the expiry countdown re-renders. Minutes are its finest unit. */
+const COUNTDOWN_INTERVAL_MS = 60 * 1000;
+
 
 interface UrlListItemProps {
   url: UrlRecord;
@@ -51,6 +94,7 @@ export function UrlListItem({ url, qrCodes }: UrlListItemProps) {
   const truncatedOriginal = truncateUrl(url.original_url);
   const formattedDate = formatDate(url.created_at);
   const formatLabel = url.subdomain ? "branded" : "short";
+  const [isEditing, setIsEditing] = useState(false);
 
   return (
     <li className="UrlQrCard">
@@ -61,14 +105,42 @@ export function UrlListItem({ url, qrCodes }: UrlListItemProps) {
         <span>
           {formatLabel}
         </span>
+        {url.expires_at && <ExpirationBadge expiresAt={url.expires_at} />}
+        <LimitsSummary url={url} />
+        {url.has_password === 1 && <span>Password protected</span>}
+        {url.utm_source && (
+          <span
+            title={[url.utm_source, url.utm_medium, url.utm_campaign]
+              .filter(Boolean)
+              .join(" / ")}
+          >
+            UTM tagged
+          </span>
+        )}
+        {url.passthrough === 1 && <span>Forwards parameters</span>}
+        {url.redirect_type !== DEFAULT_REDIRECT_TYPE && (
+          <span>{redirectTypeLabel(url.redirect_type)} redirect</span>
+        )}
       </div>
 
-      {/* --- Original URL --- */}
-      <p
-        title={url.original_url}
-      >
-        {truncatedOriginal}
-      </p>
+      {/* --- Original URL (or inline edit form) --- */}
+      {isEditing ? (
+        <EditUrlForm
+          urlId={url.id}
+          currentUrl={url.original_url}
+          currentExpiresAt={url.expires_at}
+          currentLimits={url}
+          hasPassword={url.has_password === 1}
+          currentParams={url}
+          onDone={() => setIsEditing(false)}
+        />
+      ) : (
+        <p
+          title={url.original_url}
+        >
+          {truncatedOriginal}
+        </p>
+      )}
 
       {/* --- Footer: date + actions --- */}
       <div
@@ -89,11 +161,21 @@ export function UrlListItem({ url, qrCodes }: UrlListItemProps) {
           >
             Analytics
           </Link>
+          <Link
+            to={`/dashboard/routing/${url.id}`}
+          >
+            Routing
+          </Link>
           <Link
             to={`/dashboard/qr/new?urlId=${url.id}`}
           >
             QR
           </Link>
+          {!isEditing && (
+            <button type="button" onClick={() => setIsEditing(true)}>
+              Edit
+            </button>
+          )}
           <DeleteButton urlId={url.id} shortcode={url.shortcode} />
         </div>
       </div>
@@ -133,6 +215,240 @@ function CopyButton({ text }: { text: string }) {
   );
 }
 
+/**
+ * "Expires in 3 days", ticking every minute, or "Expired" once
+ * expires_at has passed. The redirect worker stops serving the link
+ * at the same moment (lookupUrl compares against datetime('now')).
+ */
+function ExpirationBadge({ expiresAt }: { expiresAt: string }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), COUNTDOWN_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = formatTimeRemaining(expiresAt, now);
+
+  if (remaining === null) {
+    return (
+      <span
+        title={`Expired ${formatDate(expiresAt)}`}
+        style={{ color: "#b91c1c", fontWeight: 600 }}
+      >
+        Expired
+      </span>
+    );
+  }
+
+  return (
+    <span title={`Expires ${formatDate(expiresAt)}`}>
+      Expires in {remaining}
+    </span>
+  );
+}
+
+/**
+ * "Opens Mar 1, 2026" before the window starts, and "12 / 100 clicks"
+ * for click-limited links. Renders nothing for a link without limits.
+ */
+function LimitsSummary({ url }: { url: UrlRecord }) {
+  const isPending = hasNotStarted(url.starts_at);
+  const isUsedUp = url.max_clicks !== null && url.click_count >= url.max_clicks;
+
+  if (!isPending && url.max_clicks === null) {
+    return null;
+  }
+
+  return (
+    <>
+      {isPending && url.starts_at && (
+        <span title={url.fallback_url ? `Until then: ${url.fallback_url}` : undefined}>
+          Opens {formatDate(url.starts_at)}
+        </span>
+      )}
+      {url.max_clicks !== null && (
+        <span style={isUsedUp ? { color: "#b91c1c", fontWeight: 600 } : undefined}>
+          {url.click_count} / {url.max_clicks} clicks
+        </span>
+      )}
+    </>
+  );
+}
+
+/**
+ * The shape of the data returned by the dashboard action
+ * for the "edit-url" intent (see handleEditUrl in dashboard.tsx).
+ */
+interface EditUrlActionData {
+  intent: "edit-url";
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Inline form for changing a URL's destination, expiry, limits,
+ * password, UTM tags, passthrough setting and redirect type.
+ * The shortcode stays the same, so existing short links and
+ * QR codes that encode them keep working.
+ */
+function EditUrlForm({
+  urlId,
+  currentUrl,
+  currentExpiresAt,
+  currentLimits,
+  hasPassword,
+  currentParams,
+  onDone,
+}: {
+  urlId: number;
+  currentUrl: string;
+  currentExpiresAt: string | null;
+  currentLimits: UrlRecord;
+  hasPassword: boolean;
+  currentParams: UrlRecord;
+  onDone: () => void;
+}) {
+  const fetcher = useFetcher<EditUrlActionData>();
+  const [clientError, setClientError] = useState<string | null>(null);
+
+  const isSaving = fetcher.state !== "idle";
+  const serverError =
+    fetcher.data && !fetcher.data.success ? fetcher.data.error : null;
+
+  // Close the form once the server confirms the update.
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.success) {
+      onDone();
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    const formData = new FormData(event.currentTarget);
+    const rawUrl = formData.get("originalUrl") as string;
+    const validation = validateUrl(rawUrl);
+
+    if (!validation.isValid) {
+      setClientError(validation.error);
+      return;
+    }
+
+    const expiresIn = (formData.get("expiresIn") as string) ?? EXPIRATION_KEEP;
+    const expiresAt = (formData.get("expiresAt") as string) ?? "";
+
+    let effectiveExpiresAt = currentExpiresAt;
+
+    if (expiresIn !== EXPIRATION_KEEP) {
+      const expirationValidation = resolveExpiration(expiresIn, expiresAt);
+
+      if (!expirationValidation.isValid) {
+        setClientError(expirationValidation.error);
+        return;
+      }
+
+      effectiveExpiresAt = expirationValidation.expiresAt;
+    }
+
+    const startsAt = (formData.get("startsAt") as string) ?? "";
+    const maxClicks = (formData.get("maxClicks") as string) ?? "";
+    const fallbackUrl = (formData.get("fallbackUrl") as string) ?? "";
+    const limitsValidation = parseLinkLimits(startsAt, maxClicks, fallbackUrl);
+
+    const limitsError = limitsValidation.isValid
+      ? checkDateWindow(limitsValidation.limits.startsAt, effectiveExpiresAt)
+      : limitsValidation.error;
+
+    if (limitsError) {
+      setClientError(limitsError);
+      return;
+    }
+
+    const passwordMode = (formData.get("passwordMode") as string) ?? PASSWORD_KEEP;
+    const linkPassword = (formData.get("linkPassword") as string) ?? "";
+    const passwordValidation = resolvePasswordChange(passwordMode, linkPassword);
+
+    if (!passwordValidation.isValid) {
+      setClientError(passwordValidation.error);
+      return;
+    }
+
+    const utmSource = (formData.get("utmSource") as string) ?? "";
+    const utmMedium = (formData.get("utmMedium") as string) ?? "";
+    const utmCampaign = (formData.get("utmCampaign") as string) ?? "";
+    const utmValidation = parseUtmParams(utmSource, utmMedium, utmCampaign);
+
+    if (!utmValidation.isValid) {
+      setClientError(utmValidation.error);
+      return;
+    }
+
+    const redirectType = (formData.get("redirectType") as string) ?? "";
+    const redirectTypeValidation = parseRedirectType(redirectType);
+
+    if (!redirectTypeValidation.isValid) {
+      setClientError(redirectTypeValidation.error);
+      return;
+    }
+
+    setClientError(null);
+
+    fetcher.submit(
+      {
+        intent: "edit-url",
+        urlId: String(urlId),
+        originalUrl: validation.normalizedUrl,
+        expiresIn,
+        expiresAt,
+        startsAt,
+        maxClicks,
+        fallbackUrl,
+        passwordMode,
+        linkPassword,
+        utmSource,
+        utmMedium,
+        utmCampaign,
+        passthrough: (formData.get("passthrough") as string) ?? "false",
+        redirectType,
+      },
+      { method: "post" }
+    );
+  }
+
+  const displayedError = clientError ?? serverError ?? null;
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <input
+        type="text"
+        name="originalUrl"
+        defaultValue={currentUrl}
+        aria-label="Destination URL"
+        aria-invalid={displayedError ? "true" : undefined}
+        disabled={isSaving}
+      />
+      <ExpirationFields currentExpiresAt={currentExpiresAt} disabled={isSaving} />
+      <LinkLimitsFields current={currentLimits} disabled={isSaving} />
+      <LinkPasswordFields hasPassword={hasPassword} disabled={isSaving} />
+      <LinkDestinationFields current={currentParams} disabled={isSaving} />
+      <RedirectTypeField current={currentParams.redirect_type} disabled={isSaving} />
+      <button type="submit" disabled={isSaving}>
+        {isSaving ? "Saving…" : "Save"}
+      </button>
+      <button type="button" onClick={onDone} disabled={isSaving}>
+        Cancel
+      </button>
+
+      {displayedError && (
+        <p role="alert">
+          {displayedError}
+        </p>
+      )}
+    </form>
+  );
+}
+
 function DeleteButton({
   urlId,
   shortcode,
@@ -0,0 +1,214 @@
+/**
+ * VariantsManager component.
+ *
+ * Lists a link's A/B variants with their share of traffic and lets the
+ * user add, change and remove them (see ab-variants.ts). Saving a
+ * label that already exists replaces its destination and weight, so
+ * "edit" is just adding it again.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useFetcher } from "react-router";
+import type { Variant } from "~/lib/ab-variants";
+import {
+  validateVariantFields,
+  variantShare,
+  MAX_VARIANT_LABEL_LENGTH,
+  MAX_VARIANT_WEIGHT,
+} from "~/lib/ab-variants";
+import { validateUrl } from "~/lib/url-validation";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * The shape of the data returned by the routing action
+ * (see dashboard.routing.$urlId.tsx).
+ */
+interface VariantActionData {
+  intent: string;
+  success: boolean;
+  error?: string;
+}
+
+interface VariantsManagerProps {
+  variants: Variant[];
+  maxVariants: number;
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+
+export function VariantsManager({ variants, maxVariants }: VariantsManagerProps) {
+  return (
+    <div>
+      <AddVariantForm canAdd={variants.length < maxVariants} />
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}
+      >
+        <h3>Variants</h3>
+        <span style={{ color: "#6b7280", fontSize: "0.875rem" }}>
+          {variants.length} of {maxVariants}
+        </span>
+      </div>
+
+      {variants.length === 0 ? (
+        <p>No variants — the link isn't split.</p>
+      ) : (
+        <ul>
+          {variants.map((variant) => (
+            <VariantListItem
+              key={variant.id}
+              variant={variant}
+              share={variantShare(variant.weight, variants)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function AddVariantForm({ canAdd }: { canAdd: boolean }) {
+  const fetcher = useFetcher<VariantActionData>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const [clientError, setClientError] = useState<string | null>(null);
+
+  const isSaving = fetcher.state !== "idle";
+  const serverError =
+    fetcher.data && !fetcher.data.success ? fetcher.data.error : null;
+
+  // Clear the fields once the variant is saved.
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.success) {
+      formRef.current?.reset();
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    const formData = new FormData(event.currentTarget);
+    const fields = validateVariantFields(
+      (formData.get("label") as string) ?? "",
+      (formData.get("weight") as string) ?? ""
+    );
+    const destination = validateUrl((formData.get("destinationUrl") as string) ?? "");
+
+    const error = !fields.isValid
+      ? fields.error
+      : !destination.isValid
+        ? destination.error
+        : null;
+
+    if (error) {
+      event.preventDefault();
+      setClientError(error);
+      return;
+    }
+
+    setClientError(null);
+  }
+
+  const displayedError = clientError ?? serverError ?? null;
+
+  return (
+    <div>
+      <fetcher.Form method="post" ref={formRef} onSubmit={handleSubmit}>
+        <input type="hidden" name="intent" value="save-variant" />
+        <label>
+          Name
+          <input
+            type="text"
+            name="label"
+            placeholder="A"
+            maxLength={MAX_VARIANT_LABEL_LENGTH}
+            size={8}
+            required
+            disabled={isSaving}
+          />
+        </label>
+        <label>
+          Destination
+          <input
+            type="text"
+            name="destinationUrl"
+            placeholder="https://example.com/landing-a"
+            required
+            disabled={isSaving}
+          />
+        </label>
+        <label>
+          Weight
+          <input
+            type="number"
+            name="weight"
+            defaultValue={50}
+            min={1}
+            max={MAX_VARIANT_WEIGHT}
+            step={1}
+            style={{ width: "5rem" }}
+            required
+            disabled={isSaving}
+          />
+        </label>
+        <button type="submit" disabled={!canAdd || isSaving}>
+          {isSaving ? "Saving…" : "Save variant"}
+        </button>
+      </fetcher.Form>
+
+      {!canAdd && (
+        <p>
+          You've reached the variant limit. Remove a variant, or change an
+          existing one by saving its name again.
+        </p>
+      )}
+
+      {displayedError && <p role="alert">{displayedError}</p>}
+    </div>
+  );
+}
+
+function VariantListItem({ variant, share }: { variant: Variant; share: number }) {
+  const fetcher = useFetcher<VariantActionData>();
+  const isDeleting = fetcher.state !== "idle";
+
+  return (
+    <li className="UrlQrCard">
+      <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+        <strong>{variant.label}</strong>
+        <span style={{ color: "#6b7280" }}>
+          weight {variant.weight} · {share}%
+        </span>
+        <span>&rarr;</span>
+        <code style={{ wordBreak: "break-all" }}>{variant.destinationUrl}</code>
+      </div>
+
+      <div style={{ marginTop: "0.5rem" }}>
+        {isDeleting ? (
+          <span>Removing...</span>
+        ) : (
+          <button
+            onClick={() =>
+              fetcher.submit(
+                { intent: "delete-variant", variantId: String(variant.id) },
+                { method: "post" }
+              )
+            }
+          >
+            Remove
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
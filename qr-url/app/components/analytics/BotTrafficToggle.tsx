@@ -0,0 +1,133 @@
+/**
+ * BotTrafficToggle component.
+ *
+ * Link previews (Slack, iMessage, Twitter...) and crawlers fetch short
+ * links too. Their clicks are left out of the analytics page; this
+ * says how many there were and switches the whole page to bot traffic
+ * only (?traffic=bots) and back, keeping the rest of the URL (the
+ * date range).
+ *
+ * In the bot view it also lists which bots, with the same inline
+ * percentage bars as ReferrerList.
+ */
+
+import { Link, useSearchParams } from "react-router";
+import type { BotFamilyEntry } from "~/lib/analytics-queries";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface BotTrafficToggleProps {
+  families: BotFamilyEntry[];
+  /** true when the page is showing bot traffic instead of visitors */
+  showingBots: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function BotTrafficToggle({ families, showingBots }: BotTrafficToggleProps) {
+  const [searchParams] = useSearchParams();
+  const botClicks = families.reduce((sum, entry) => sum + entry.clicks, 0);
+
+  function trafficSearch(showBots: boolean): string {
+    const next = new URLSearchParams(searchParams);
+
+    if (showBots) {
+      next.set("traffic", "bots");
+    } else {
+      next.delete("traffic");
+    }
+
+    const search = next.toString();
+
+    return search ? `?${search}` : "";
+  }
+
+  if (!showingBots) {
+    return (
+      <p style={{ fontSize: "0.875rem", color: "#6b7280", marginBottom: "1.5rem" }}>
+        {botClicks === 0 ? (
+          "No bot clicks recorded. Link previews and crawlers are left out of these numbers."
+        ) : (
+          <>
+            {botClicks} bot {botClicks === 1 ? "click" : "clicks"} (link previews,
+            crawlers) left out of these numbers.{" "}
+            <Link to={{ search: trafficSearch(true) }} style={{ color: "#2563eb" }}>
+              Show bot traffic
+            </Link>
+          </>
+        )}
+      </p>
+    );
+  }
+
+  return (
+    <section style={{ marginBottom: "1.5rem" }}>
+      <p style={{ fontSize: "0.875rem", marginBottom: "0.5rem" }}>
+        Showing bot traffic only — every number below counts link previews and
+        crawlers, not people.{" "}
+        <Link to={{ search: trafficSearch(false) }} style={{ color: "#2563eb" }}>
+          Back to visitor traffic
+        </Link>
+      </p>
+
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "0.5rem",
+        }}
+      >
+        {families.map((entry) => (
+          <BotFamilyRow key={entry.family} entry={entry} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function BotFamilyRow({ entry }: { entry: BotFamilyEntry }) {
+  return (
+    <div>
+      {/* --- Label row: family + click count --- */}
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          marginBottom: "0.125rem",
+        }}
+      >
+        <span style={{ fontSize: "0.875rem" }}>{entry.family}</span>
+        <span style={{ fontSize: "0.875rem", color: "#6b7280" }}>
+          {entry.clicks} ({entry.percentage}%)
+        </span>
+      </div>
+
+      {/* --- Percentage bar --- */}
+      <div
+        style={{
+          height: "6px",
+          backgroundColor: "#f3f4f6",
+          borderRadius: "3px",
+          overflow: "hidden",
+        }}
+      >
+        <div
+          style={{
+            height: "100%",
+            width: `${entry.percentage}%`,
+            backgroundColor: "#9ca3af",
+            borderRadius: "3px",
+          }}
+        />
+      </div>
+    </div>
+  );
+}
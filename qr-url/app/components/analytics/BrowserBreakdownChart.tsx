@@ -0,0 +1,137 @@
+/**
+ * BrowserBreakdownChart component.
+ *
+ * ECharts horizontal bar chart showing clicks per browser family,
+ * with each family's most common major versions in the tooltip
+ * ("Chrome 124: 310, Chrome 123: 42").
+ *
+ * Horizontal bars for the same reason as CountryBreakdownChart:
+ * the labels sit on the y-axis where there's room for them.
+ *
+ * Paid tier feature (hasBrowserOsBreakdown).
+ */
+
+import { useMemo } from "react";
+import { EChartsWrapper } from "~/components/analytics/EChartsWrapper";
+import type { ChartOption } from "~/components/analytics/EChartsWrapper";
+import type { BrowserEntry } from "~/lib/analytics-queries";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface BrowserBreakdownChartProps {
+  browsers: BrowserEntry[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Display names for the families parseBrowser (click-tracking.ts) stores.
+ */
+const BROWSER_LABELS: Record<string, string> = {
+  chrome: "Chrome",
+  safari: "Safari",
+  firefox: "Firefox",
+  edge: "Edge",
+  opera: "Opera",
+  samsung: "Samsung Internet",
+  other: "Other",
+  unknown: "Unknown",
+};
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function BrowserBreakdownChart({ browsers }: BrowserBreakdownChartProps) {
+  const option = useMemo(() => buildChartOption(browsers), [browsers]);
+
+  if (browsers.length === 0) {
+    return (
+      <section>
+        <h3>Browsers</h3>
+        <p>
+          No browser data yet
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section>
+      <h3>Browsers</h3>
+      <EChartsWrapper option={option} height="240px" />
+    </section>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Chart option builder
+// ---------------------------------------------------------------------------
+
+function buildChartOption(browsers: BrowserEntry[]): ChartOption {
+  // Highest value at the top (see CountryBreakdownChart)
+  const reversed = [...browsers].reverse();
+  const labels = reversed.map((b) => BROWSER_LABELS[b.browser] ?? b.browser);
+  const values = reversed.map((b) => b.clicks);
+
+  return {
+    tooltip: {
+      trigger: "axis",
+      axisPointer: { type: "shadow" },
+      formatter: (params: any) => {
+        const item = Array.isArray(params) ? params[0] : params;
+        const entry = reversed[item.dataIndex];
+
+        if (!entry) {
+          return "";
+        }
+
+        const versions = entry.versions
+          .filter((v) => v.version !== null)
+          .map((v) => `${item.name} ${v.version}: ${v.clicks}`);
+
+        return [`${item.name}: ${entry.clicks} clicks (${entry.percentage}%)`, ...versions]
+          .join("<br/>");
+      },
+      backgroundColor: "rgba(255, 255, 255, 0.95)",
+      borderColor: "#e5e7eb",
+      textStyle: { color: "#1f2937", fontSize: 13 },
+    },
+    grid: {
+      top: 8,
+      right: 16,
+      bottom: 8,
+      left: 8,
+      containLabel: true,
+    },
+    xAxis: {
+      type: "value",
+      minInterval: 1,
+      axisLine: { show: false },
+      axisLabel: { color: "#9ca3af", fontSize: 11 },
+      splitLine: { lineStyle: { color: "#f3f4f6" } },
+    },
+    yAxis: {
+      type: "category",
+      data: labels,
+      axisLine: { lineStyle: { color: "#e5e7eb" } },
+      axisLabel: { color: "#374151", fontSize: 12 },
+      axisTick: { show: false },
+    },
+    series: [
+      {
+        type: "bar",
+        data: values,
+        barWidth: "60%",
+        itemStyle: {
+          color: "#6366f1",
+          borderRadius: [0, 4, 4, 0],
+        },
+      },
+    ],
+  };
+}
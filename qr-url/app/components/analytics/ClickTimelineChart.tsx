@@ -1,8 +1,9 @@
 /**
  * ClickTimelineChart component.
  *
- * ECharts line chart showing click activity over the last 30 days.
- * Two lines:
+ * ECharts line chart showing click activity over the selected date
+ * range, one point per day, week or month (the interval the loader
+ * picked for the range's length — see date-range.ts). Two lines:
  *   - Total clicks (blue, solid) — free tier
  *   - Unique visitors (purple, dashed) — paid tier
  *
@@ -18,40 +19,57 @@
 import { useMemo } from "react";
 import { EChartsWrapper } from "~/components/analytics/EChartsWrapper";
 import type { ChartOption } from "~/components/analytics/EChartsWrapper";
-import type { TimelineDay } from "~/lib/analytics-queries";
+import type { TimelinePoint } from "~/lib/analytics-queries";
+import type { TimelineInterval } from "~/lib/date-range";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 interface ClickTimelineChartProps {
-  timeline: TimelineDay[];
+  timeline: TimelinePoint[];
+  /** What each point covers (defaults to a day) */
+  interval?: TimelineInterval;
   /** Whether to show the unique visitors line (pro tier only) */
   showUniqueOverlay: boolean;
 }
 
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const INTERVAL_TITLES: Record<TimelineInterval, string> = {
+  day: "Clicks per Day",
+  week: "Clicks per Week",
+  month: "Clicks per Month",
+};
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
-export function ClickTimelineChart({ timeline, showUniqueOverlay }: ClickTimelineChartProps) {
+export function ClickTimelineChart({
+  timeline,
+  interval = "day",
+  showUniqueOverlay,
+}: ClickTimelineChartProps) {
   /**
    * useMemo prevents rebuilding the option object on every render.
    * ECharts does a deep comparison internally, but building the
    * object is still work we can skip if the data hasn't changed.
    */
   const option = useMemo(
-    () => buildChartOption(timeline, showUniqueOverlay),
-    [timeline, showUniqueOverlay]
+    () => buildChartOption(timeline, interval, showUniqueOverlay),
+    [timeline, interval, showUniqueOverlay]
   );
 
   if (timeline.length === 0) {
-    return <EmptyState />;
+    return <EmptyState title={INTERVAL_TITLES[interval]} />;
   }
 
   return (
     <section style={{ marginBottom: "1.5rem" }}>
-      <h3 style={{ marginBottom: "0.5rem" }}>Clicks — Last 30 Days</h3>
+      <h3 style={{ marginBottom: "0.5rem" }}>{INTERVAL_TITLES[interval]}</h3>
       <EChartsWrapper option={option} height="280px" />
     </section>
   );
@@ -71,9 +89,13 @@ export function ClickTimelineChart({ timeline, showUniqueOverlay }: ClickTimelin
  *   - tooltip: what shows on hover
  *   - grid: spacing/margins around the chart area
  */
-function buildChartOption(timeline: TimelineDay[], showUniqueOverlay: boolean): ChartOption {
-  const dates = timeline.map((day) => formatDateLabel(day.date));
-  const clicks = timeline.map((day) => day.clicks);
+function buildChartOption(
+  timeline: TimelinePoint[],
+  interval: TimelineInterval,
+  showUniqueOverlay: boolean
+): ChartOption {
+  const dates = timeline.map((point) => formatDateLabel(point.date, interval));
+  const clicks = timeline.map((point) => point.clicks);
 
   const legendData = ["Total Clicks"];
   if (showUniqueOverlay) {
@@ -105,7 +127,7 @@ function buildChartOption(timeline: TimelineDay[], showUniqueOverlay: boolean):
   ];
 
   if (showUniqueOverlay) {
-    const unique = timeline.map((day) => day.uniqueVisitors);
+    const unique = timeline.map((point) => point.uniqueVisitors);
     series.push({
       name: "Unique Visitors",
       type: "line",
@@ -148,10 +170,10 @@ function buildChartOption(timeline: TimelineDay[], showUniqueOverlay: boolean):
         color: "#9ca3af",
         fontSize: 11,
         /**
-         * Show every 5th label to avoid crowding.
-         * 30 labels on a ~500px chart would overlap.
+         * Let ECharts skip labels to avoid crowding — the number of
+         * points depends on the range, so a fixed step won't do.
          */
-        interval: 4,
+        interval: "auto",
       },
       axisTick: { show: false },
     },
@@ -170,10 +192,10 @@ function buildChartOption(timeline: TimelineDay[], showUniqueOverlay: boolean):
 // Sub-components
 // ---------------------------------------------------------------------------
 
-function EmptyState() {
+function EmptyState({ title }: { title: string }) {
   return (
     <section style={{ marginBottom: "1.5rem" }}>
-      <h3 style={{ marginBottom: "0.5rem" }}>Clicks — Last 30 Days</h3>
+      <h3 style={{ marginBottom: "0.5rem" }}>{title}</h3>
       <div
         style={{
           padding: "2rem",
@@ -194,14 +216,27 @@ function EmptyState() {
 // ---------------------------------------------------------------------------
 
 /**
- * Formats "2026-02-15" → "Feb 15"
- * Short format that fits on the x-axis.
+ * Formats a bucket's first day for the x-axis:
+ *   day   "2026-02-15" → "Feb 15"
+ *   week  "2026-02-09" → "Week of Feb 9"
+ *   month "2026-02-01" → "Feb 2026"
  */
-function formatDateLabel(isoDate: string): string {
+function formatDateLabel(isoDate: string, interval: TimelineInterval): string {
   const date = new Date(isoDate + "T00:00:00Z");
-  return date.toLocaleDateString("en-US", {
+
+  if (interval === "month") {
+    return date.toLocaleDateString("en-US", {
+      month: "short",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+  }
+
+  const label = date.toLocaleDateString("en-US", {
     month: "short",
     day: "numeric",
     timeZone: "UTC",
   });
+
+  return interval === "week" ? `Week of ${label}` : label;
 }
\ No newline at end of file
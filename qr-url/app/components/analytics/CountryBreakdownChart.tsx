@@ -13,10 +13,17 @@
  * Full country name mapping could be added later, but codes
  * are universally recognized and keep the code simple.
  *
+ * A Bar / Map toggle switches to a world map shading every country
+ * by clicks (mapCountries, all of them rather than the top 5). The
+ * map is registered by loadEcharts() from a bundled GeoJSON whose
+ * features are named by country code — see echarts-setup.ts. The
+ * toggle is plain component state: both views' data is already
+ * loaded, so switching needs no round trip.
+ *
  * Paid tier feature.
  */
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { EChartsWrapper } from "~/components/analytics/EChartsWrapper";
 import type { ChartOption } from "~/components/analytics/EChartsWrapper";
 import type { CountryEntry } from "~/lib/analytics-queries";
@@ -26,17 +33,25 @@ import type { CountryEntry } from "~/lib/analytics-queries";
 // ---------------------------------------------------------------------------
 
 interface CountryBreakdownChartProps {
+  /** Top 5 countries, for the bar view */
   countries: CountryEntry[];
+  /** Every country with clicks, for the map view */
+  mapCountries: CountryEntry[];
 }
 
+type CountryView = "bar" | "map";
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
 export function CountryBreakdownChart({
   countries,
+  mapCountries,
 }: CountryBreakdownChartProps) {
-  const option = useMemo(() => buildChartOption(countries), [countries]);
+  const [view, setView] = useState<CountryView>("bar");
+  const barOption = useMemo(() => buildChartOption(countries), [countries]);
+  const mapOption = useMemo(() => buildMapOption(mapCountries), [mapCountries]);
 
   if (countries.length === 0) {
     return (
@@ -51,12 +66,66 @@ export function CountryBreakdownChart({
 
   return (
     <section>
-      <h3>Countries</h3>
-      <EChartsWrapper option={option} height="200px" />
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "baseline",
+        }}
+      >
+        <h3>Countries</h3>
+        <ViewToggle view={view} onChange={setView} />
+      </div>
+
+      {/*
+        Keyed by view so each gets a fresh ECharts instance: setOption
+        with notMerge can't cleanly swap a grid for a geo series.
+      */}
+      {view === "bar" ? (
+        <EChartsWrapper key="bar" option={barOption} height="200px" />
+      ) : (
+        <EChartsWrapper key="map" option={mapOption} height="240px" />
+      )}
     </section>
   );
 }
 
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function ViewToggle({
+  view,
+  onChange,
+}: {
+  view: CountryView;
+  onChange: (view: CountryView) => void;
+}) {
+  const views: { value: CountryView; label: string }[] = [
+    { value: "bar", label: "Bar" },
+    { value: "map", label: "Map" },
+  ];
+
+  return (
+    <div role="group" aria-label="Country chart view">
+      {views.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          aria-pressed={view === option.value}
+          onClick={() => onChange(option.value)}
+          style={{
+            fontSize: "0.75rem",
+            fontWeight: view === option.value ? "bold" : "normal",
+          }}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Chart option builder
 // ---------------------------------------------------------------------------
@@ -119,3 +188,64 @@ function buildChartOption(countries: CountryEntry[]): ChartOption {
     ],
   };
 }
+
+/**
+ * World map option: each country shaded by clicks on a scale from the
+ * lightest green (1 click) to the darkest (the top country). Countries
+ * without clicks keep the neutral fill. Scroll to zoom, drag to pan.
+ */
+function buildMapOption(mapCountries: CountryEntry[]): ChartOption {
+  const maxClicks = Math.max(1, ...mapCountries.map((c) => c.clicks));
+
+  return {
+    tooltip: {
+      trigger: "item",
+      formatter: (params: any) => {
+        const entry = mapCountries.find((c) => c.country === params.name);
+
+        if (!entry) {
+          return `${params.name}: no clicks`;
+        }
+
+        return `${entry.country}: ${entry.clicks} clicks (${entry.percentage}%)`;
+      },
+      backgroundColor: "rgba(255, 255, 255, 0.95)",
+      borderColor: "#e5e7eb",
+      textStyle: { color: "#1f2937", fontSize: 13 },
+    },
+    visualMap: {
+      type: "continuous",
+      min: 1,
+      max: maxClicks,
+      left: 0,
+      bottom: 0,
+      itemHeight: 80,
+      itemWidth: 10,
+      text: [String(maxClicks), "1"],
+      textStyle: { color: "#6b7280", fontSize: 11 },
+      inRange: { color: ["#d1fae5", "#047857"] },
+      calculable: false,
+    },
+    series: [
+      {
+        type: "map",
+        map: "world",
+        roam: true,
+        selectedMode: false,
+        itemStyle: {
+          areaColor: "#f3f4f6",
+          borderColor: "#ffffff",
+          borderWidth: 0.5,
+        },
+        emphasis: {
+          label: { show: false },
+          itemStyle: { areaColor: "#fbbf24" },
+        },
+        data: mapCountries.map((c) => ({
+          name: c.country,
+          value: c.clicks,
+        })),
+      },
+    ],
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * DateRangePicker component.
+ *
+ * Picks the range every card on the analytics page covers: a preset
+ * (7 days, 30 days, 90 days, year to date) or two custom dates. The
+ * range lives in the URL (see date-range.ts), so presets are plain
+ * links and the custom dates a GET form — no client state, and the
+ * loader re-runs with the new range. Other search params (?traffic,
+ * the location drill-down) are kept.
+ *
+ * Presets longer than the plan allows (maxAnalyticsDays in tier.ts)
+ * are shown but can't be picked.
+ */
+
+import { Form, Link, useSearchParams } from "react-router";
+import { DATE_RANGE_PRESETS, presetFits } from "~/lib/date-range";
+import type { DateRange, DateRangePreset } from "~/lib/date-range";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface DateRangePickerProps {
+  /** The range the page is showing */
+  range: DateRange;
+  /** Longest range the plan allows; null = no limit */
+  maxDays: number | null;
+  /** Why the requested range wasn't used, if it wasn't */
+  error: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Params the picker sets; everything else in the URL is kept */
+const RANGE_PARAMS = ["range", "from", "to"];
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function DateRangePicker({ range, maxDays, error }: DateRangePickerProps) {
+  const [searchParams] = useSearchParams();
+
+  const otherParams = [...searchParams].filter(([key]) => !RANGE_PARAMS.includes(key));
+
+  function presetSearch(preset: DateRangePreset): string {
+    const next = new URLSearchParams(otherParams);
+    next.set("range", preset);
+
+    return `?${next.toString()}`;
+  }
+
+  return (
+    <section style={{ marginBottom: "1.5rem" }}>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "baseline",
+          gap: "0.75rem",
+          fontSize: "0.875rem",
+        }}
+      >
+        {DATE_RANGE_PRESETS.filter((preset) => preset.value !== "custom").map((preset) => {
+          const isCurrent = range.preset === preset.value;
+
+          if (!presetFits(preset.value, maxDays)) {
+            return (
+              <span
+                key={preset.value}
+                title={`Your plan covers up to ${maxDays} days at a time`}
+                style={{ color: "#9ca3af" }}
+              >
+                {preset.label}
+              </span>
+            );
+          }
+
+          return (
+            <Link
+              key={preset.value}
+              to={{ search: presetSearch(preset.value) }}
+              aria-current={isCurrent ? "true" : undefined}
+              style={{
+                color: "#2563eb",
+                fontWeight: isCurrent ? "bold" : "normal",
+              }}
+            >
+              {preset.label}
+            </Link>
+          );
+        })}
+
+        {/* --- Custom range: a GET form, so it lands in the URL too --- */}
+        <Form method="get" style={{ display: "flex", gap: "0.25rem", alignItems: "baseline" }}>
+          {otherParams.map(([key, value]) => (
+            <input key={key} type="hidden" name={key} value={value} />
+          ))}
+          <input type="hidden" name="range" value="custom" />
+          <input
+            type="date"
+            name="from"
+            defaultValue={range.from}
+            aria-label="From"
+            required
+          />
+          <span>–</span>
+          <input
+            type="date"
+            name="to"
+            defaultValue={range.to}
+            aria-label="To"
+            required
+          />
+          <button
+            type="submit"
+            style={{ fontWeight: range.preset === "custom" ? "bold" : "normal" }}
+          >
+            Apply
+          </button>
+        </Form>
+      </div>
+
+      <p style={{ fontSize: "0.875rem", color: "#6b7280" }}>
+        {formatDay(range.from)} – {formatDay(range.to)} (UTC)
+        {maxDays !== null && <> · Your plan covers up to {maxDays} days at a time.</>}
+      </p>
+
+      {error && (
+        <p role="alert">
+          {error} Showing the default range instead.
+        </p>
+      )}
+    </section>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Formats "2026-02-15" → "Feb 15, 2026"
+ */
+function formatDay(isoDate: string): string {
+  return new Date(isoDate + "T00:00:00Z").toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
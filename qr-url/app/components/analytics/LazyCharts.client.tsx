@@ -35,7 +35,7 @@ import { DeviceBreakdownChart } from "~/components/analytics/DeviceBreakdownChar
 import { CountryBreakdownChart } from "~/components/analytics/CountryBreakdownChart";
 import { ActivityHeatmapChart } from "~/components/analytics/ActivityHeatmapChart";
 import type {
-  TimelineDay,
+  TimelinePoint,
   ReferrerEntry,
   DeviceEntry,
   CountryEntry,
@@ -47,10 +47,11 @@ import type {
 // ---------------------------------------------------------------------------
 
 interface LazyChartsSectionProps {
-  timeline: TimelineDay[];
+  timeline: TimelinePoint[];
   referrers: ReferrerEntry[];
   devices: DeviceEntry[];
   countries: CountryEntry[];
+  countryMap: CountryEntry[];
   heatmap: HeatmapCell[];
 }
 
@@ -74,6 +75,7 @@ export default function LazyChartsSection({
   referrers,
   devices,
   countries,
+  countryMap,
   heatmap,
 }: LazyChartsSectionProps) {
   return (
@@ -89,7 +91,7 @@ export default function LazyChartsSection({
 
       {/* --- Two-column grid: countries + heatmap --- */}
       <div style={TWO_COLUMN_GRID}>
-        <CountryBreakdownChart countries={countries} />
+        <CountryBreakdownChart countries={countries} mapCountries={countryMap} />
         <ActivityHeatmapChart heatmapData={heatmap} />
       </div>
     </>
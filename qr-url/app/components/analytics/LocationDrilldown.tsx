@@ -0,0 +1,230 @@
+/**
+ * LocationDrilldown component.
+ *
+ * Pairs with CountryBreakdownChart: pick a country to see its regions,
+ * then a region to see its cities. The level lives in the URL
+ * (?country=DE&region=Bavaria), so the loader fetches only the list on
+ * screen and the browser's back button steps back up. Other search
+ * params (?traffic=bots) are kept along the way.
+ *
+ * Same inline percentage bars as ReferrerList. Regions and cities are
+ * only recorded when the owner's click location setting allows it
+ * (click-location.ts); clicks without them show as "Not recorded".
+ *
+ * Paid tier feature (hasLocationDrilldown).
+ */
+
+import { Link, useSearchParams } from "react-router";
+import type {
+  CountryEntry,
+  LocationEntry,
+  LocationScope,
+} from "~/lib/analytics-queries";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface LocationDrilldownProps {
+  /** Top countries, the list to start from */
+  countries: CountryEntry[];
+  /** The country (and region) being viewed; null = pick a country */
+  scope: LocationScope | null;
+  /** Regions or cities within the scope */
+  places: LocationEntry[];
+  /** The owner's current users.click_location */
+  clickLocation: string;
+}
+
+interface PlaceRowProps {
+  label: string;
+  clicks: number;
+  percentage: number;
+  /** Search params to drill into this place; null = last level */
+  drillTo: Record<string, string> | null;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function LocationDrilldown({
+  countries,
+  scope,
+  places,
+  clickLocation,
+}: LocationDrilldownProps) {
+  const knownCountries = countries.filter((entry) => entry.country !== "Unknown");
+
+  return (
+    <section style={{ marginBottom: "1.5rem" }}>
+      <h3 style={{ marginBottom: "0.25rem" }}>Locations</h3>
+
+      <Breadcrumb scope={scope} />
+
+      {clickLocation === "country" && (
+        <p style={{ fontSize: "0.875rem", color: "#6b7280" }}>
+          Regions and cities aren't being recorded.{" "}
+          <Link to="/dashboard" style={{ color: "#2563eb" }}>
+            Change click location detail
+          </Link>{" "}
+          to start.
+        </p>
+      )}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+        {scope === null
+          ? knownCountries.map((entry) => (
+              <PlaceRow
+                key={entry.country}
+                label={entry.country}
+                clicks={entry.clicks}
+                percentage={entry.percentage}
+                drillTo={{ country: entry.country }}
+              />
+            ))
+          : places.map((entry) => (
+              <PlaceRow
+                key={entry.name ?? ""}
+                label={entry.name ?? "Not recorded"}
+                clicks={entry.clicks}
+                percentage={entry.percentage}
+                drillTo={
+                  scope.region === null && entry.name !== null
+                    ? { country: scope.country, region: entry.name }
+                    : null
+                }
+              />
+            ))}
+      </div>
+
+      {scope === null && knownCountries.length === 0 && (
+        <p>
+          No location data yet
+        </p>
+      )}
+
+      {scope !== null && places.length === 0 && (
+        <p>
+          No clicks from here yet
+        </p>
+      )}
+    </section>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function Breadcrumb({ scope }: { scope: LocationScope | null }) {
+  const buildSearch = useDrilldownSearch();
+
+  if (scope === null) {
+    return (
+      <p style={{ fontSize: "0.875rem", color: "#6b7280" }}>
+        Pick a country to see its regions and cities.
+      </p>
+    );
+  }
+
+  return (
+    <p style={{ fontSize: "0.875rem" }}>
+      <Link to={{ search: buildSearch({}) }} style={{ color: "#2563eb" }}>
+        All countries
+      </Link>
+      {" › "}
+      {scope.region === null ? (
+        scope.country
+      ) : (
+        <>
+          <Link
+            to={{ search: buildSearch({ country: scope.country }) }}
+            style={{ color: "#2563eb" }}
+          >
+            {scope.country}
+          </Link>
+          {" › "}
+          {scope.region}
+        </>
+      )}
+    </p>
+  );
+}
+
+function PlaceRow({ label, clicks, percentage, drillTo }: PlaceRowProps) {
+  const buildSearch = useDrilldownSearch();
+
+  return (
+    <div>
+      {/* --- Label row: place (a link if it drills down) + click count --- */}
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          marginBottom: "0.125rem",
+        }}
+      >
+        {drillTo ? (
+          <Link
+            to={{ search: buildSearch(drillTo) }}
+            style={{ fontSize: "0.875rem", color: "#2563eb" }}
+          >
+            {label}
+          </Link>
+        ) : (
+          <span style={{ fontSize: "0.875rem" }}>{label}</span>
+        )}
+        <span style={{ fontSize: "0.875rem", color: "#6b7280" }}>
+          {clicks} ({percentage}%)
+        </span>
+      </div>
+
+      {/* --- Percentage bar --- */}
+      <div
+        style={{
+          height: "6px",
+          backgroundColor: "#f3f4f6",
+          borderRadius: "3px",
+          overflow: "hidden",
+        }}
+      >
+        <div
+          style={{
+            height: "100%",
+            width: `${percentage}%`,
+            backgroundColor: "#10b981",
+            borderRadius: "3px",
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns a function building the search string for a drill-down
+ * level: country/region replaced, every other param kept.
+ */
+function useDrilldownSearch() {
+  const [searchParams] = useSearchParams();
+
+  return (level: Record<string, string>): string => {
+    const next = new URLSearchParams(searchParams);
+
+    next.delete("country");
+    next.delete("region");
+
+    for (const [key, value] of Object.entries(level)) {
+      next.set(key, value);
+    }
+
+    const search = next.toString();
+
+    return search ? `?${search}` : "";
+  };
+}
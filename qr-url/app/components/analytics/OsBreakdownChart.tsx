@@ -0,0 +1,140 @@
+/**
+ * OsBreakdownChart component.
+ *
+ * ECharts donut chart showing the operating system distribution,
+ * built like DeviceBreakdownChart (total in the center hole).
+ *
+ * The values are the ones device rules route on (parseOperatingSystem
+ * in click-tracking.ts), so this chart is also the place to check
+ * whether an OS rule is worth adding.
+ *
+ * Paid tier feature (hasBrowserOsBreakdown).
+ */
+
+import { useMemo } from "react";
+import { EChartsWrapper } from "~/components/analytics/EChartsWrapper";
+import type { ChartOption } from "~/components/analytics/EChartsWrapper";
+import type { OsEntry } from "~/lib/analytics-queries";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface OsBreakdownChartProps {
+  systems: OsEntry[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const OS_COLORS: Record<string, string> = {
+  ios: "#8b5cf6",
+  android: "#10b981",
+  windows: "#3b82f6",
+  macos: "#6b7280",
+  chromeos: "#f59e0b",
+  linux: "#ef4444",
+  other: "#d1d5db",
+  unknown: "#9ca3af",
+};
+
+const OS_LABELS: Record<string, string> = {
+  ios: "iOS",
+  android: "Android",
+  windows: "Windows",
+  macos: "macOS",
+  chromeos: "ChromeOS",
+  linux: "Linux",
+  other: "Other",
+  unknown: "Unknown",
+};
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function OsBreakdownChart({ systems }: OsBreakdownChartProps) {
+  const totalClicks = systems.reduce((sum, s) => sum + s.clicks, 0);
+  const option = useMemo(() => buildChartOption(systems, totalClicks), [systems, totalClicks]);
+
+  if (systems.length === 0) {
+    return (
+      <section>
+        <h3>Operating Systems</h3>
+        <p>
+          No operating system data yet
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section>
+      <h3>Operating Systems</h3>
+      <EChartsWrapper option={option} height="240px" />
+    </section>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Chart option builder
+// ---------------------------------------------------------------------------
+
+function buildChartOption(systems: OsEntry[], totalClicks: number): ChartOption {
+  const chartData = systems.map((s) => ({
+    name: OS_LABELS[s.os] ?? s.os,
+    value: s.clicks,
+    itemStyle: {
+      color: OS_COLORS[s.os] ?? "#9ca3af",
+    },
+  }));
+
+  return {
+    tooltip: {
+      trigger: "item",
+      formatter: "{b}: {c} ({d}%)",
+      backgroundColor: "rgba(255, 255, 255, 0.95)",
+      borderColor: "#e5e7eb",
+      textStyle: { color: "#1f2937", fontSize: 13 },
+    },
+    legend: {
+      bottom: 0,
+      textStyle: { fontSize: 12, color: "#6b7280" },
+    },
+    series: [
+      {
+        type: "pie",
+        radius: ["40%", "70%"],
+        center: ["50%", "45%"],
+        avoidLabelOverlap: true,
+        label: {
+          show: true,
+          position: "center",
+          formatter: `{total|${totalClicks.toLocaleString("en-US")}}\n{subtitle|total}`,
+          rich: {
+            total: {
+              fontSize: 22,
+              fontWeight: "bold",
+              color: "#1f2937",
+              lineHeight: 30,
+            },
+            subtitle: {
+              fontSize: 12,
+              color: "#9ca3af",
+            },
+          },
+        },
+        emphasis: {
+          label: {
+            show: true,
+            fontSize: 14,
+            fontWeight: "bold",
+            formatter: "{b}\n{d}%",
+          },
+        },
+        data: chartData,
+      },
+    ],
+  };
+}
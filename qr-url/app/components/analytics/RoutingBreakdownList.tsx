@@ -0,0 +1,110 @@
+/**
+ * RoutingBreakdownList component.
+ *
+ * Shows which routing branch each click took: a device rule, a
+ * country rule, or the link's default destination (see the routing
+ * page, dashboard.routing.$urlId.tsx). Same bar layout as
+ * ReferrerList.
+ *
+ * Rendered only for links where at least one click matched a rule —
+ * without rules, every click is "Default destination".
+ */
+
+import type { RoutingBranchEntry } from "~/lib/analytics-queries";
+import { deviceRuleLabel } from "~/lib/device-rules";
+import { countryName } from "~/lib/geo-rules";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface RoutingBreakdownListProps {
+  branches: RoutingBranchEntry[];
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function RoutingBreakdownList({ branches }: RoutingBreakdownListProps) {
+  return (
+    <section style={{ marginBottom: "1.5rem" }}>
+      <h3 style={{ marginBottom: "0.5rem" }}>Routing</h3>
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "0.5rem",
+        }}
+      >
+        {branches.map((entry) => (
+          <BranchRow
+            key={`${entry.ruleType ?? "default"}:${entry.target ?? ""}`}
+            entry={entry}
+          />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function BranchRow({ entry }: { entry: RoutingBranchEntry }) {
+  return (
+    <div>
+      {/* --- Label row: branch name + click count --- */}
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          marginBottom: "0.125rem",
+        }}
+      >
+        <span style={{ fontSize: "0.875rem" }}>{branchLabel(entry)}</span>
+        <span style={{ fontSize: "0.875rem", color: "#6b7280" }}>
+          {entry.clicks} ({entry.percentage}%)
+        </span>
+      </div>
+
+      {/* --- Percentage bar --- */}
+      <div
+        style={{
+          height: "6px",
+          backgroundColor: "#f3f4f6",
+          borderRadius: "3px",
+          overflow: "hidden",
+        }}
+      >
+        <div
+          style={{
+            height: "100%",
+            width: `${entry.percentage}%`,
+            backgroundColor: entry.ruleType ? "#8b5cf6" : "#3b82f6",
+            borderRadius: "3px",
+            transition: "width 0.3s ease",
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** "Device rule: Android", "Country rule: Germany", "Default destination" */
+function branchLabel(entry: RoutingBranchEntry): string {
+  if (entry.ruleType === "device" && entry.target) {
+    return `Device rule: ${deviceRuleLabel(entry.target)}`;
+  }
+
+  if (entry.ruleType === "geo" && entry.target) {
+    return `Country rule: ${countryName(entry.target)}`;
+  }
+
+  return "Default destination";
+}
@@ -0,0 +1,79 @@
+/**
+ * VariantComparisonTable component.
+ *
+ * Side-by-side results of a link's A/B variants (see ab-variants.ts):
+ * clicks, unique visitors, and each variant's actual share of the
+ * split next to the share its weight asks for. A table rather than a
+ * chart — there are only a handful of rows and the exact numbers are
+ * the point.
+ *
+ * Rendered only for links that have variants.
+ */
+
+import type { VariantStatsEntry } from "~/lib/analytics-queries";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface VariantComparisonTableProps {
+  variants: VariantStatsEntry[];
+  /** Whether to show the unique visitors column (pro tier only) */
+  showUniqueVisitors: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function VariantComparisonTable({
+  variants,
+  showUniqueVisitors,
+}: VariantComparisonTableProps) {
+  return (
+    <section style={{ marginBottom: "1.5rem" }}>
+      <h3 style={{ marginBottom: "0.5rem" }}>A/B Variants</h3>
+      <table style={{ width: "100%", fontSize: "0.875rem", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ textAlign: "left", color: "#6b7280" }}>
+            <th>Variant</th>
+            <th style={{ textAlign: "right" }}>Clicks</th>
+            {showUniqueVisitors && <th style={{ textAlign: "right" }}>Unique visitors</th>}
+            <th style={{ textAlign: "right" }}>Share</th>
+            <th style={{ textAlign: "right" }}>Target</th>
+          </tr>
+        </thead>
+        <tbody>
+          {variants.map((entry) => (
+            <tr key={entry.variantId} style={{ borderTop: "1px solid #f3f4f6" }}>
+              <td>
+                <strong>{entry.label}</strong>
+                <div
+                  style={{
+                    color: "#6b7280",
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                    whiteSpace: "nowrap",
+                    maxWidth: "20rem",
+                  }}
+                >
+                  {entry.destinationUrl}
+                </div>
+              </td>
+              <td style={{ textAlign: "right" }}>{entry.clicks.toLocaleString()}</td>
+              {showUniqueVisitors && (
+                <td style={{ textAlign: "right" }}>
+                  {entry.uniqueVisitors.toLocaleString()}
+                </td>
+              )}
+              <td style={{ textAlign: "right" }}>{entry.percentage}%</td>
+              <td style={{ textAlign: "right", color: "#6b7280" }}>
+                {entry.targetShare}%
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -0,0 +1,301 @@
+/**
+ * ab-variants.ts
+ *
+ * A/B split testing: one short link spreads its traffic across several
+ * destinations by weight, e.g. 50/30/20. Weights are relative — 5/3/2
+ * splits the same way as 50/30/20.
+ *
+ * Once a link has variants they replace its default destination: a
+ * visitor who matches no device or country rule goes to one of them
+ * (routing rules still come first — they send people somewhere that
+ * works for them, the split only decides among equivalents). To keep
+ * the original destination in the test, add it as a variant.
+ *
+ * Stickiness: the variant is picked from the visitor's daily
+ * visitor_hash (hashVisitorIp in click-tracking.ts), so a visitor gets
+ * the same variant on every visit that day without a cookie, and the
+ * same hash that counts them as a unique visitor decides their bucket.
+ *
+ * Storage and caching work like routing rules: url_variants, loaded
+ * with the link and kept in its redirect cache entry. Each click
+ * records the variant it was served (url_clicks.variant_id).
+ */
+
+import { validateUrl } from "~/lib/url-validation";
+import { invalidateRedirect } from "~/lib/redirect-cache";
+import { findOwnedUrl } from "~/lib/url-mutations";
+import type { MutationResult, UrlMutationEnv } from "~/lib/url-mutations";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const MAX_VARIANTS_PER_URL = 10;
+export const MAX_VARIANT_LABEL_LENGTH = 40;
+export const MAX_VARIANT_WEIGHT = 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Variant {
+  id: number;
+  /** "A", "Spring landing page", ... — unique per link */
+  label: string;
+  destinationUrl: string;
+  weight: number;
+  createdAt: string;
+}
+
+/** What the redirect worker needs to pick a variant */
+export interface VariantChoice {
+  id: number;
+  destinationUrl: string;
+  weight: number;
+}
+
+export type VariantFieldsValidation =
+  | { isValid: true; error: null; label: string; weight: number }
+  | { isValid: false; error: string; label: null; weight: null };
+
+// ---------------------------------------------------------------------------
+// Picking (redirect worker)
+// ---------------------------------------------------------------------------
+
+/**
+ * Picks the visitor's variant by weight.
+ *
+ * The first 8 hex digits of the visitor hash (32 bits, uniformly
+ * distributed) modulo the total weight give a bucket; each variant owns
+ * a run of buckets as wide as its weight. Variants are in id order, so
+ * adding a variant only moves visitors whose bucket changes owner.
+ *
+ * @returns The visitor's variant, or null if the link has none
+ */
+export function pickVariant(
+  variants: VariantChoice[],
+  visitorHash: string
+): VariantChoice | null {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  if (totalWeight <= 0) {
+    return null;
+  }
+
+  let bucket = parseInt(visitorHash.slice(0, 8), 16) % totalWeight;
+
+  for (const variant of variants) {
+    if (bucket < variant.weight) {
+      return variant;
+    }
+
+    bucket -= variant.weight;
+  }
+
+  return null;
+}
+
+/**
+ * Parses the JSON array the worker's lookup query builds with
+ * json_group_array. Malformed entries are dropped; anything unreadable
+ * means "no variants" and the link uses its default destination.
+ */
+export function parseVariantList(json: string | null): VariantChoice[] {
+  if (!json) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(json);
+
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+
+    return parsed
+      .filter(
+        (entry): entry is VariantChoice =>
+          typeof entry === "object" &&
+          entry !== null &&
+          typeof entry.id === "number" &&
+          typeof entry.destinationUrl === "string" &&
+          typeof entry.weight === "number" &&
+          entry.weight > 0
+      )
+      .sort((a, b) => a.id - b.id);
+  } catch {
+    return [];
+  }
+}
+
+/** Each variant's share of traffic, rounded to whole percent */
+export function variantShare(weight: number, variants: { weight: number }[]): number {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  return totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0;
+}
+
+// ---------------------------------------------------------------------------
+// Validation (forms, route action)
+// ---------------------------------------------------------------------------
+
+export function validateVariantFields(
+  rawLabel: string,
+  rawWeight: string
+): VariantFieldsValidation {
+  const label = rawLabel.trim();
+
+  if (label.length === 0 || label.length > MAX_VARIANT_LABEL_LENGTH) {
+    return {
+      isValid: false,
+      error: `Give the variant a name of up to ${MAX_VARIANT_LABEL_LENGTH} characters.`,
+      label: null,
+      weight: null,
+    };
+  }
+
+  const weight = Number(rawWeight.trim());
+
+  if (!Number.isInteger(weight) || weight < 1 || weight > MAX_VARIANT_WEIGHT) {
+    return {
+      isValid: false,
+      error: `Weight must be a whole number from 1 to ${MAX_VARIANT_WEIGHT}.`,
+      label: null,
+      weight: null,
+    };
+  }
+
+  return { isValid: true, error: null, label, weight };
+}
+
+// ---------------------------------------------------------------------------
+// D1 (routing page)
+// ---------------------------------------------------------------------------
+
+/** A URL's variants, in the order pickVariant assigns buckets */
+export async function fetchVariants(
+  db: D1Database,
+  urlId: number
+): Promise<Variant[]> {
+  const rows = await db
+    .prepare(
+      `SELECT id, label, destination_url, weight, created_at
+       FROM url_variants
+       WHERE url_id = ?
+       ORDER BY id`
+    )
+    .bind(urlId)
+    .all<{
+      id: number;
+      label: string;
+      destination_url: string;
+      weight: number;
+      created_at: string;
+    }>();
+
+  return (rows.results ?? []).map((row) => ({
+    id: row.id,
+    label: row.label,
+    destinationUrl: row.destination_url,
+    weight: row.weight,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Adds a variant, or updates the destination and weight of the one
+ * with the same label. The per-URL maximum is enforced in the INSERT
+ * itself, like saveGeoRule.
+ */
+export async function saveVariant(
+  env: UrlMutationEnv,
+  userId: string,
+  urlId: number,
+  rawLabel: string,
+  rawDestinationUrl: string,
+  rawWeight: string
+): Promise<MutationResult<{}>> {
+  const fields = validateVariantFields(rawLabel, rawWeight);
+
+  if (!fields.isValid) {
+    return { success: false, error: fields.error, status: 400 };
+  }
+
+  const destination = validateUrl(rawDestinationUrl);
+
+  if (!destination.isValid) {
+    return { success: false, error: destination.error, status: 400 };
+  }
+
+  const { db } = env;
+  const url = await findOwnedUrl(db, userId, urlId);
+
+  if (!url) {
+    return { success: false, error: "URL not found.", status: 404 };
+  }
+
+  const result = await db
+    .prepare(
+      `INSERT INTO url_variants (url_id, label, destination_url, weight)
+       SELECT ?, ?, ?, ?
+       WHERE (SELECT COUNT(*) FROM url_variants WHERE url_id = ?) < ?
+          OR EXISTS (SELECT 1 FROM url_variants WHERE url_id = ? AND label = ?)
+       ON CONFLICT (url_id, label)
+       DO UPDATE SET destination_url = excluded.destination_url,
+                     weight = excluded.weight`
+    )
+    .bind(
+      urlId,
+      fields.label,
+      destination.normalizedUrl,
+      fields.weight,
+      urlId,
+      MAX_VARIANTS_PER_URL,
+      urlId,
+      fields.label
+    )
+    .run();
+
+  if (result.meta.changes === 0) {
+    return {
+      success: false,
+      error: `A link can have at most ${MAX_VARIANTS_PER_URL} variants.`,
+      status: 403,
+    };
+  }
+
+  await invalidateRedirect(env.cacheKv, url.subdomain, url.shortcode);
+
+  return { success: true };
+}
+
+/**
+ * Removes one variant; its share goes to the others. Its past clicks
+ * stay in url_clicks but drop out of the variant comparison.
+ */
+export async function deleteVariant(
+  env: UrlMutationEnv,
+  userId: string,
+  urlId: number,
+  variantId: number
+): Promise<MutationResult<{}>> {
+  const { db } = env;
+  const url = await findOwnedUrl(db, userId, urlId);
+
+  if (!url) {
+    return { success: false, error: "URL not found.", status: 404 };
+  }
+
+  const result = await db
+    .prepare("DELETE FROM url_variants WHERE id = ? AND url_id = ?")
+    .bind(variantId, urlId)
+    .run();
+
+  if (result.meta.changes === 0) {
+    return { success: false, error: "Variant not found.", status: 404 };
+  }
+
+  await invalidateRedirect(env.cacheKv, url.subdomain, url.shortcode);
+
+  return { success: true };
+}
@@ -11,15 +11,54 @@
  * This keeps queries focused, independently testable, and easy
  * to enable/disable per tier without touching other queries.
  *
+ * Every click query covers a DateRange (date-range.ts): whole UTC
+ * days, from its first to its last, picked on the page.
+ *
+ * Bot clicks (link previews, crawlers — see detectBot in
+ * click-tracking.ts) are left out unless a query is asked for
+ * traffic "bots", which returns only them. Every click query takes
+ * that as its last argument.
+ *
  * Note on dates: D1/SQLite stores dates as TEXT in ISO 8601 format.
  * datetime('now') produces UTC. All date comparisons are string-based
  * which works correctly for ISO format.
  */
 
+import {
+  pickTimelineInterval,
+  listBuckets,
+  rangeEndExclusive,
+} from "~/lib/date-range";
+import type { DateRange, TimelineInterval } from "~/lib/date-range";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Major versions listed per browser family in BrowserEntry */
+const MAX_BROWSER_VERSIONS = 3;
+
+/**
+ * SQL for the first day of the bucket a click falls in, matching
+ * bucketStart() in date-range.ts. 'weekday 0' moves to the coming
+ * Sunday (or stays on one), six days back from which is the Monday.
+ */
+const BUCKET_START_SQL: Record<TimelineInterval, string> = {
+  day: "date(clicked_at)",
+  week: "date(clicked_at, 'weekday 0', '-6 days')",
+  month: "strftime('%Y-%m-01', clicked_at)",
+};
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+/**
+ * Which clicks a query counts: "humans" (the default) leaves bots out,
+ * "bots" counts nothing else.
+ */
+export type ClickTraffic = "humans" | "bots";
+
 /**
  * Basic URL info displayed at the top of the analytics page.
  * Verifies the URL exists and belongs to the requesting user.
@@ -42,15 +81,16 @@ export interface AnalyticsSummary {
 }
 
 /**
- * One day's worth of click data for the timeline chart.
- * The chart receives an array of these, one per day for 30 days.
+ * One bucket's worth of click data for the timeline chart: a day,
+ * week or month (see pickTimelineInterval in date-range.ts). The
+ * chart receives one per bucket in the range.
  */
-export interface TimelineDay {
-  /** Date string: "2026-02-15" */
+export interface TimelinePoint {
+  /** First day of the bucket: "2026-02-15" */
   date: string;
-  /** Total clicks on this day */
+  /** Total clicks in this bucket */
   clicks: number;
-  /** Unique visitor hashes on this day */
+  /** Unique visitor hashes in this bucket */
   uniqueVisitors: number;
 }
 
@@ -79,7 +119,33 @@ export interface DeviceEntry {
 }
 
 /**
- * A country entry for the horizontal bar chart.
+ * A browser family entry for the browser bar chart.
+ */
+export interface BrowserEntry {
+  /** "chrome", "safari", ... (see parseBrowser), or "unknown" */
+  browser: string;
+  /** Number of clicks from this browser, all versions */
+  clicks: number;
+  /** Percentage of total clicks (0-100) */
+  percentage: number;
+  /** Its most-clicked major versions, at most MAX_BROWSER_VERSIONS */
+  versions: { version: number | null; clicks: number }[];
+}
+
+/**
+ * An operating system entry for the OS donut chart.
+ */
+export interface OsEntry {
+  /** "ios", "android", ... (see parseOperatingSystem), or "unknown" */
+  os: string;
+  /** Number of clicks from this OS */
+  clicks: number;
+  /** Percentage of total clicks (0-100) */
+  percentage: number;
+}
+
+/**
+ * A country entry for the horizontal bar chart and the world map.
  */
 export interface CountryEntry {
   /** ISO country code like "US", "DE", or "Unknown" */
@@ -90,6 +156,70 @@ export interface CountryEntry {
   percentage: number;
 }
 
+/**
+ * Where to drill into: a country's regions, or one region's cities.
+ */
+export interface LocationScope {
+  /** ISO country code, e.g. "DE" */
+  country: string;
+  /** Region name within it; null = list the country's regions */
+  region: string | null;
+}
+
+/**
+ * A region or city entry for the location drill-down.
+ */
+export interface LocationEntry {
+  /** Region or city name; null = not recorded (see click-location.ts) */
+  name: string | null;
+  /** Number of clicks from this place */
+  clicks: number;
+  /** Percentage of the scope's clicks (0-100) */
+  percentage: number;
+}
+
+/**
+ * Clicks per routing branch: which rule picked the destination.
+ */
+export interface RoutingBranchEntry {
+  /** "device" or "geo", null for the link's default destination */
+  ruleType: "device" | "geo" | null;
+  /** Device rule target ("ios") or country code ("DE"); null for the default */
+  target: string | null;
+  /** Number of clicks sent down this branch */
+  clicks: number;
+  /** Percentage of total clicks (0-100) */
+  percentage: number;
+}
+
+/**
+ * One A/B variant's results, for the variant comparison table.
+ */
+export interface VariantStatsEntry {
+  variantId: number;
+  label: string;
+  destinationUrl: string;
+  /** Intended share of traffic from the weights (0-100) */
+  targetShare: number;
+  /** Number of clicks served this variant */
+  clicks: number;
+  /** Distinct daily visitor hashes among those clicks */
+  uniqueVisitors: number;
+  /** Percentage of the link's split clicks (0-100) */
+  percentage: number;
+}
+
+/**
+ * Bot clicks per family ("Slack", "Google", ...), for the bot traffic view.
+ */
+export interface BotFamilyEntry {
+  family: string;
+  /** Number of clicks from this family */
+  clicks: number;
+  /** Percentage of all bot clicks (0-100) */
+  percentage: number;
+}
+
 /**
  * One cell in the activity heatmap.
  * The heatmap is a 7 (days) × 24 (hours) grid showing
@@ -162,24 +292,30 @@ export async function fetchUrlInfo(
  */
 export async function fetchSummary(
   db: D1Database,
-  urlId: number
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
 ): Promise<AnalyticsSummary> {
   const clicksRow = await db
     .prepare(
       `SELECT COUNT(*) as total, MAX(clicked_at) as last_click
        FROM url_clicks
-       WHERE url_id = ?`
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?`
     )
-    .bind(urlId)
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
     .first<{ total: number; last_click: string | null }>();
 
   const uniqueRow = await db
     .prepare(
       `SELECT COUNT(DISTINCT visitor_hash) as unique_count
        FROM url_clicks
-       WHERE url_id = ?`
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?`
     )
-    .bind(urlId)
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
     .first<{ unique_count: number }>();
 
   return {
@@ -190,79 +326,79 @@ export async function fetchSummary(
 }
 
 /**
- * Fetches click data grouped by day for the last 30 days.
+ * Fetches clicks per day, week or month across the range — whichever
+ * pickTimelineInterval (date-range.ts) chooses for its length.
  *
- * Returns exactly 30 entries (one per day), even for days with zero clicks.
+ * Returns one entry per bucket, even for buckets with zero clicks.
  * This is important for the chart — gaps in data should show as zero,
  * not as missing points.
  *
  * How it works:
- *   1. Query D1 for clicks grouped by date (only returns days with clicks)
+ *   1. Query D1 for clicks grouped by bucket (only returns buckets with clicks)
  *   2. Build a lookup map from the results
- *   3. Generate all 30 days and fill in zeros for missing days
+ *   3. Generate every bucket (listBuckets) and fill in zeros for missing ones
  *
- * The date() function in SQLite extracts just the date portion
- * from a datetime string: "2026-02-15 14:30:00" → "2026-02-15"
+ * Each row is keyed by the first day of its bucket (BUCKET_START_SQL),
+ * the same dates bucketStart() gives in JS. Visitor hashes change
+ * daily, so a week's or month's "unique visitors" counts someone who
+ * came back on another day again.
  */
 export async function fetchTimeline(
   db: D1Database,
-  urlId: number
-): Promise<TimelineDay[]> {
-  const thirtyDaysAgo = getDateNDaysAgo(30);
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
+): Promise<TimelinePoint[]> {
+  const interval = pickTimelineInterval(range);
+  const bucketSql = BUCKET_START_SQL[interval];
 
-  /** Clicks per day */
+  /** Clicks per bucket */
   const clickRows = await db
     .prepare(
-      `SELECT date(clicked_at) as click_date,
+      `SELECT ${bucketSql} as bucket,
               COUNT(*) as clicks
        FROM url_clicks
        WHERE url_id = ?
-         AND clicked_at >= ?
-       GROUP BY click_date
-       ORDER BY click_date ASC`
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
+       GROUP BY bucket
+       ORDER BY bucket ASC`
     )
-    .bind(urlId, thirtyDaysAgo)
-    .all<{ click_date: string; clicks: number }>();
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
+    .all<{ bucket: string; clicks: number }>();
 
-  /** Unique visitors per day */
+  /** Unique visitors per bucket */
   const uniqueRows = await db
     .prepare(
-      `SELECT date(clicked_at) as click_date,
+      `SELECT ${bucketSql} as bucket,
               COUNT(DISTINCT visitor_hash) as unique_count
        FROM url_clicks
        WHERE url_id = ?
-         AND clicked_at >= ?
-       GROUP BY click_date
-       ORDER BY click_date ASC`
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
+       GROUP BY bucket
+       ORDER BY bucket ASC`
     )
-    .bind(urlId, thirtyDaysAgo)
-    .all<{ click_date: string; unique_count: number }>();
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
+    .all<{ bucket: string; unique_count: number }>();
 
   // Build lookup maps: "2026-02-15" → count
-  const clicksByDate = new Map<string, number>();
+  const clicksByBucket = new Map<string, number>();
   for (const row of clickRows.results ?? []) {
-    clicksByDate.set(row.click_date, row.clicks);
+    clicksByBucket.set(row.bucket, row.clicks);
   }
 
-  const uniqueByDate = new Map<string, number>();
+  const uniqueByBucket = new Map<string, number>();
   for (const row of uniqueRows.results ?? []) {
-    uniqueByDate.set(row.click_date, row.unique_count);
+    uniqueByBucket.set(row.bucket, row.unique_count);
   }
 
-  // Generate all 30 days, filling zeros for missing days
-  const timeline: TimelineDay[] = [];
-
-  for (let i = 29; i >= 0; i--) {
-    const date = getDateNDaysAgo(i);
-
-    timeline.push({
-      date,
-      clicks: clicksByDate.get(date) ?? 0,
-      uniqueVisitors: uniqueByDate.get(date) ?? 0,
-    });
-  }
-
-  return timeline;
+  // Generate every bucket, filling zeros for missing ones
+  return listBuckets(range, interval).map((date) => ({
+    date,
+    clicks: clicksByBucket.get(date) ?? 0,
+    uniqueVisitors: uniqueByBucket.get(date) ?? 0,
+  }));
 }
 
 /**
@@ -278,12 +414,20 @@ export async function fetchTimeline(
  */
 export async function fetchTopReferrers(
   db: D1Database,
-  urlId: number
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
 ): Promise<ReferrerEntry[]> {
   /** First get total clicks for percentage calculation */
   const totalRow = await db
-    .prepare("SELECT COUNT(*) as total FROM url_clicks WHERE url_id = ?")
-    .bind(urlId)
+    .prepare(
+      `SELECT COUNT(*) as total
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
     .first<{ total: number }>();
 
   const totalClicks = totalRow?.total ?? 0;
@@ -298,11 +442,13 @@ export async function fetchTopReferrers(
               COUNT(*) as clicks
        FROM url_clicks
        WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
        GROUP BY source
        ORDER BY clicks DESC
        LIMIT 5`
     )
-    .bind(urlId)
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
     .all<{ source: string; clicks: number }>();
 
   return (rows.results ?? []).map((row) => ({
@@ -318,11 +464,19 @@ export async function fetchTopReferrers(
  */
 export async function fetchDeviceBreakdown(
   db: D1Database,
-  urlId: number
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
 ): Promise<DeviceEntry[]> {
   const totalRow = await db
-    .prepare("SELECT COUNT(*) as total FROM url_clicks WHERE url_id = ?")
-    .bind(urlId)
+    .prepare(
+      `SELECT COUNT(*) as total
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
     .first<{ total: number }>();
 
   const totalClicks = totalRow?.total ?? 0;
@@ -336,10 +490,12 @@ export async function fetchDeviceBreakdown(
       `SELECT device_type, COUNT(*) as clicks
        FROM url_clicks
        WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
        GROUP BY device_type
        ORDER BY clicks DESC`
     )
-    .bind(urlId)
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
     .all<{ device_type: string; clicks: number }>();
 
   return (rows.results ?? []).map((row) => ({
@@ -349,17 +505,133 @@ export async function fetchDeviceBreakdown(
   }));
 }
 
+/**
+ * Fetches clicks per browser family, each with its top major versions.
+ * Paid tier feature.
+ *
+ * One query grouped by family AND version; the families are summed up
+ * here. Clicks recorded before browsers were parsed have neither and
+ * show as "unknown".
+ */
+export async function fetchBrowserBreakdown(
+  db: D1Database,
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
+): Promise<BrowserEntry[]> {
+  const rows = await db
+    .prepare(
+      `SELECT COALESCE(browser, 'unknown') as browser_family,
+              browser_version,
+              COUNT(*) as clicks
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
+       GROUP BY browser_family, browser_version
+       ORDER BY clicks DESC`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
+    .all<{ browser_family: string; browser_version: number | null; clicks: number }>();
+
+  const results = rows.results ?? [];
+  const totalClicks = results.reduce((sum, row) => sum + row.clicks, 0);
+
+  // Rows arrive most-clicked first, so each family's versions do too
+  const families = new Map<string, BrowserEntry>();
+
+  for (const row of results) {
+    const entry = families.get(row.browser_family) ?? {
+      browser: row.browser_family,
+      clicks: 0,
+      percentage: 0,
+      versions: [],
+    };
+
+    entry.clicks += row.clicks;
+
+    if (entry.versions.length < MAX_BROWSER_VERSIONS) {
+      entry.versions.push({ version: row.browser_version, clicks: row.clicks });
+    }
+
+    families.set(row.browser_family, entry);
+  }
+
+  return [...families.values()]
+    .map((entry) => ({
+      ...entry,
+      percentage: Math.round((entry.clicks / totalClicks) * 100),
+    }))
+    .sort((a, b) => b.clicks - a.clicks);
+}
+
+/**
+ * Fetches clicks per operating system.
+ * Paid tier feature.
+ */
+export async function fetchOsBreakdown(
+  db: D1Database,
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
+): Promise<OsEntry[]> {
+  const totalRow = await db
+    .prepare(
+      `SELECT COUNT(*) as total
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
+    .first<{ total: number }>();
+
+  const totalClicks = totalRow?.total ?? 0;
+
+  if (totalClicks === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .prepare(
+      `SELECT COALESCE(os, 'unknown') as os_name,
+              COUNT(*) as clicks
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
+       GROUP BY os_name
+       ORDER BY clicks DESC`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
+    .all<{ os_name: string; clicks: number }>();
+
+  return (rows.results ?? []).map((row) => ({
+    os: row.os_name,
+    clicks: row.clicks,
+    percentage: Math.round((row.clicks / totalClicks) * 100),
+  }));
+}
+
 /**
  * Fetches top 5 countries by click count.
  * Paid tier feature.
  */
 export async function fetchCountryBreakdown(
   db: D1Database,
-  urlId: number
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
 ): Promise<CountryEntry[]> {
   const totalRow = await db
-    .prepare("SELECT COUNT(*) as total FROM url_clicks WHERE url_id = ?")
-    .bind(urlId)
+    .prepare(
+      `SELECT COUNT(*) as total
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
     .first<{ total: number }>();
 
   const totalClicks = totalRow?.total ?? 0;
@@ -374,11 +646,67 @@ export async function fetchCountryBreakdown(
               COUNT(*) as clicks
        FROM url_clicks
        WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
        GROUP BY country_code
        ORDER BY clicks DESC
        LIMIT 5`
     )
-    .bind(urlId)
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
+    .all<{ country_code: string; clicks: number }>();
+
+  return (rows.results ?? []).map((row) => ({
+    country: row.country_code,
+    clicks: row.clicks,
+    percentage: Math.round((row.clicks / totalClicks) * 100),
+  }));
+}
+
+/**
+ * Fetches clicks for every country, for the world map view of the
+ * country breakdown. Paid tier feature.
+ *
+ * Unlike fetchCountryBreakdown there's no limit (the map shades every
+ * country clicks came from) and clicks without a country are left out
+ * — there's nowhere to draw them. Percentages are still of all clicks,
+ * so they match the bar chart's.
+ */
+export async function fetchCountryMap(
+  db: D1Database,
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
+): Promise<CountryEntry[]> {
+  const totalRow = await db
+    .prepare(
+      `SELECT COUNT(*) as total
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
+    .first<{ total: number }>();
+
+  const totalClicks = totalRow?.total ?? 0;
+
+  if (totalClicks === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .prepare(
+      `SELECT country as country_code,
+              COUNT(*) as clicks
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
+         AND country IS NOT NULL
+       GROUP BY country_code
+       ORDER BY clicks DESC`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
     .all<{ country_code: string; clicks: number }>();
 
   return (rows.results ?? []).map((row) => ({
@@ -388,6 +716,181 @@ export async function fetchCountryBreakdown(
   }));
 }
 
+/**
+ * Fetches the top 10 regions of a country, or cities of a region,
+ * for the location drill-down. Paid tier feature.
+ *
+ * Region and city are only recorded when the owner's click location
+ * setting allows it, so clicks without them (older ones, or stored at
+ * "country" level) are grouped under a null name rather than hidden —
+ * the percentages stay honest about how much is known.
+ */
+export async function fetchLocationDrilldown(
+  db: D1Database,
+  urlId: number,
+  scope: LocationScope,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
+): Promise<LocationEntry[]> {
+  const column = scope.region === null ? "region" : "city";
+  const scopeFilter = scope.region === null ? "" : "AND region = ?";
+  const scopeValues = scope.region === null ? [scope.country] : [scope.country, scope.region];
+
+  const totalRow = await db
+    .prepare(
+      `SELECT COUNT(*) as total
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
+         AND country = ? ${scopeFilter}`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range), ...scopeValues)
+    .first<{ total: number }>();
+
+  const totalClicks = totalRow?.total ?? 0;
+
+  if (totalClicks === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .prepare(
+      `SELECT ${column} as name, COUNT(*) as clicks
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
+         AND country = ? ${scopeFilter}
+       GROUP BY name
+       ORDER BY clicks DESC
+       LIMIT 10`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range), ...scopeValues)
+    .all<{ name: string | null; clicks: number }>();
+
+  return (rows.results ?? []).map((row) => ({
+    name: row.name,
+    clicks: row.clicks,
+    percentage: Math.round((row.clicks / totalClicks) * 100),
+  }));
+}
+
+/**
+ * Fetches how many clicks each routing rule handled (see
+ * device-rules.ts and geo-rules.ts), plus the default destination.
+ *
+ * At most one of matched_device_rule / matched_geo_rule is set per
+ * click, so grouping by both gives one row per branch. Clicks from
+ * before routing rules existed have neither and count as default.
+ * Rules that were later removed still show up under their target.
+ */
+export async function fetchRoutingBreakdown(
+  db: D1Database,
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
+): Promise<RoutingBranchEntry[]> {
+  const totalRow = await db
+    .prepare(
+      `SELECT COUNT(*) as total
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
+    .first<{ total: number }>();
+
+  const totalClicks = totalRow?.total ?? 0;
+
+  if (totalClicks === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .prepare(
+      `SELECT matched_device_rule, matched_geo_rule, COUNT(*) as clicks
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
+       GROUP BY matched_device_rule, matched_geo_rule
+       ORDER BY clicks DESC`
+    )
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
+    .all<{
+      matched_device_rule: string | null;
+      matched_geo_rule: string | null;
+      clicks: number;
+    }>();
+
+  return (rows.results ?? []).map((row) => ({
+    ruleType:
+      row.matched_device_rule !== null
+        ? "device"
+        : row.matched_geo_rule !== null
+          ? "geo"
+          : null,
+    target: row.matched_device_rule ?? row.matched_geo_rule,
+    clicks: row.clicks,
+    percentage: Math.round((row.clicks / totalClicks) * 100),
+  }));
+}
+
+/**
+ * Fetches clicks and unique visitors per A/B variant (see
+ * ab-variants.ts), for every variant the link currently has — a
+ * variant nobody has been served yet shows as zero.
+ *
+ * Percentages are of the clicks that went through the split, so they
+ * can be compared with each variant's target share. Clicks caught by a
+ * routing rule, or served by a since-removed variant, aren't counted.
+ */
+export async function fetchVariantStats(
+  db: D1Database,
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
+): Promise<VariantStatsEntry[]> {
+  const rows = await db
+    .prepare(
+      `SELECT v.id, v.label, v.destination_url, v.weight,
+              COUNT(c.id) as clicks,
+              COUNT(DISTINCT c.visitor_hash) as unique_visitors
+       FROM url_variants v
+       LEFT JOIN url_clicks c ON c.url_id = v.url_id AND c.variant_id = v.id
+                                AND c.is_bot = ?
+                                AND c.clicked_at >= ? AND c.clicked_at < ?
+       WHERE v.url_id = ?
+       GROUP BY v.id
+       ORDER BY v.id`
+    )
+    .bind(botFlag(traffic), ...rangeBounds(range), urlId)
+    .all<{
+      id: number;
+      label: string;
+      destination_url: string;
+      weight: number;
+      clicks: number;
+      unique_visitors: number;
+    }>();
+
+  const results = rows.results ?? [];
+  const totalWeight = results.reduce((sum, row) => sum + row.weight, 0);
+  const splitClicks = results.reduce((sum, row) => sum + row.clicks, 0);
+
+  return results.map((row) => ({
+    variantId: row.id,
+    label: row.label,
+    destinationUrl: row.destination_url,
+    targetShare: totalWeight > 0 ? Math.round((row.weight / totalWeight) * 100) : 0,
+    clicks: row.clicks,
+    uniqueVisitors: row.unique_visitors,
+    percentage: splitClicks > 0 ? Math.round((row.clicks / splitClicks) * 100) : 0,
+  }));
+}
+
 /**
  * Fetches click data grouped by day-of-week and hour for the heatmap.
  * Paid tier feature.
@@ -396,16 +899,16 @@ export async function fetchCountryBreakdown(
  *   %w = day of week (0 = Sunday, 6 = Saturday)
  *   %H = hour (00-23)
  *
- * We use the last 30 days of data to build the heatmap, which gives
- * a representative picture of when clicks happen without scanning
- * the entire history.
+ * Covers the same range as every other card. Short ranges make for a
+ * sparse grid; the page defaults to 30 days, which gives a
+ * representative picture of when clicks happen.
  */
 export async function fetchActivityHeatmap(
   db: D1Database,
-  urlId: number
+  urlId: number,
+  range: DateRange,
+  traffic: ClickTraffic = "humans"
 ): Promise<HeatmapCell[]> {
-  const thirtyDaysAgo = getDateNDaysAgo(30);
-
   const rows = await db
     .prepare(
       `SELECT CAST(strftime('%w', clicked_at) AS INTEGER) as day_of_week,
@@ -413,11 +916,12 @@ export async function fetchActivityHeatmap(
               COUNT(*) as clicks
        FROM url_clicks
        WHERE url_id = ?
-         AND clicked_at >= ?
+         AND is_bot = ?
+         AND clicked_at >= ? AND clicked_at < ?
        GROUP BY day_of_week, hour
        ORDER BY day_of_week, hour`
     )
-    .bind(urlId, thirtyDaysAgo)
+    .bind(urlId, botFlag(traffic), ...rangeBounds(range))
     .all<{ day_of_week: number; hour: number; clicks: number }>();
 
   return (rows.results ?? []).map((row) => ({
@@ -428,7 +932,42 @@ export async function fetchActivityHeatmap(
 }
 
 /**
- * Fetches total clicks across ALL of a user's URLs.
+ * Fetches bot clicks grouped by family, most active first.
+ *
+ * Not tier-gated: it's what the bot traffic toggle shows, and its
+ * total is the count on the toggle itself.
+ */
+export async function fetchBotBreakdown(
+  db: D1Database,
+  urlId: number,
+  range: DateRange
+): Promise<BotFamilyEntry[]> {
+  const rows = await db
+    .prepare(
+      `SELECT COALESCE(bot_family, 'Other') as family,
+              COUNT(*) as clicks
+       FROM url_clicks
+       WHERE url_id = ?
+         AND is_bot = 1
+         AND clicked_at >= ? AND clicked_at < ?
+       GROUP BY family
+       ORDER BY clicks DESC`
+    )
+    .bind(urlId, ...rangeBounds(range))
+    .all<{ family: string; clicks: number }>();
+
+  const results = rows.results ?? [];
+  const totalClicks = results.reduce((sum, row) => sum + row.clicks, 0);
+
+  return results.map((row) => ({
+    family: row.family,
+    clicks: row.clicks,
+    percentage: Math.round((row.clicks / totalClicks) * 100),
+  }));
+}
+
+/**
+ * Fetches total clicks across ALL of a user's URLs, bots left out.
  * Used on the dashboard summary.
  */
 export async function fetchTotalClicksForUser(
@@ -439,7 +978,8 @@ export async function fetchTotalClicksForUser(
     .prepare(
       `SELECT COUNT(*) as total
        FROM url_clicks
-       WHERE url_id IN (SELECT id FROM urls WHERE user_id = ?)`
+       WHERE url_id IN (SELECT id FROM urls WHERE user_id = ?)
+         AND is_bot = 0`
     )
     .bind(userId)
     .first<{ total: number }>();
@@ -451,13 +991,16 @@ export async function fetchTotalClicksForUser(
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** The is_bot value a query for this traffic matches */
+function botFlag(traffic: ClickTraffic): number {
+  return traffic === "bots" ? 1 : 0;
+}
+
 /**
- * Returns an ISO date string for N days ago.
- * Example: getDateNDaysAgo(30) on Feb 15 → "2026-01-16"
+ * The values for `clicked_at >= ? AND clicked_at < ?`: the range's
+ * first day and the day after its last. Plain dates compare correctly
+ * against clicked_at's "YYYY-MM-DD HH:MM:SS".
  */
-function getDateNDaysAgo(n: number): string {
-  const date = new Date();
-  date.setUTCDate(date.getUTCDate() - n);
-
-  return date.toISOString().split("T")[0];
+function rangeBounds(range: DateRange): [string, string] {
+  return [range.from, rangeEndExclusive(range)];
 }
\ No newline at end of file
@@ -0,0 +1,245 @@
+/**
+ * api-tokens.ts
+ *
+ * Personal API tokens for the public REST API (/api/v1/*).
+ *
+ * Token format: "qrk_" + 32 URL-safe random characters (24 bytes).
+ *   The prefix makes tokens easy to spot in config files and secret
+ *   scanners; the random part carries 192 bits of entropy.
+ *
+ * Storage:
+ *   Only the SHA-256 hash is stored in D1. The plaintext token is
+ *   returned once from createApiToken() and shown to the user a single
+ *   time. A leaked database therefore doesn't leak working tokens.
+ *
+ * Why SHA-256 and not bcrypt/PBKDF2?
+ *   Slow, salted hashes protect low-entropy secrets like passwords.
+ *   A 192-bit random token can't be guessed from its hash no matter
+ *   how fast the hash is, and a fast hash keeps every API request
+ *   to a single indexed lookup.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const TOKEN_PREFIX = "qrk_";
+
+/** 24 random bytes → 32 base64url characters */
+const TOKEN_RANDOM_BYTES = 24;
+
+/** Characters kept for display: "qrk_" + 4, enough to tell tokens apart */
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 4;
+
+/** Active (non-revoked) tokens a user may hold at once */
+export const MAX_API_TOKENS_PER_USER = 10;
+
+export const MAX_TOKEN_NAME_LENGTH = 50;
+
+/**
+ * last_used_at is only rewritten when it's older than this, so a
+ * script making many calls doesn't turn every read into a D1 write.
+ */
+const LAST_USED_UPDATE_INTERVAL = "-5 minutes";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A token as listed in the dashboard (never includes the secret) */
+export interface ApiTokenSummary {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+export type CreateApiTokenResult =
+  | { success: true; token: string; name: string }
+  | { success: false; error: string };
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates a token for a user and returns the plaintext once.
+ * The active-token limit is enforced inside the INSERT, like the
+ * URL and QR code limits.
+ */
+export async function createApiToken(
+  db: D1Database,
+  userId: string,
+  name: string
+): Promise<CreateApiTokenResult> {
+  const cleanedName = name.trim();
+
+  if (cleanedName.length === 0) {
+    return { success: false, error: "Give the token a name." };
+  }
+
+  if (cleanedName.length > MAX_TOKEN_NAME_LENGTH) {
+    return {
+      success: false,
+      error: `Token name must be ${MAX_TOKEN_NAME_LENGTH} characters or fewer.`,
+    };
+  }
+
+  const token = generateToken();
+  const tokenHash = await hashToken(token);
+  const tokenPrefix = token.slice(0, DISPLAY_PREFIX_LENGTH);
+
+  const insertResult = await db
+    .prepare(
+      `INSERT INTO api_tokens (user_id, name, token_hash, token_prefix)
+       SELECT ?, ?, ?, ?
+       WHERE (SELECT COUNT(*) FROM api_tokens
+              WHERE user_id = ? AND revoked_at IS NULL) < ?`
+    )
+    .bind(
+      userId,
+      cleanedName,
+      tokenHash,
+      tokenPrefix,
+      userId,
+      MAX_API_TOKENS_PER_USER
+    )
+    .run();
+
+  if (insertResult.meta.changes === 0) {
+    return {
+      success: false,
+      error: `You can have up to ${MAX_API_TOKENS_PER_USER} active tokens. Revoke one to create another.`,
+    };
+  }
+
+  return { success: true, token, name: cleanedName };
+}
+
+/**
+ * Revokes one of the user's tokens. Returns false if the token
+ * doesn't exist, belongs to someone else, or is already revoked.
+ */
+export async function revokeApiToken(
+  db: D1Database,
+  userId: string,
+  tokenId: number
+): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `UPDATE api_tokens SET revoked_at = datetime('now')
+       WHERE id = ? AND user_id = ? AND revoked_at IS NULL`
+    )
+    .bind(tokenId, userId)
+    .run();
+
+  return result.meta.changes > 0;
+}
+
+/** All of a user's tokens, active first, newest first. */
+export async function fetchApiTokens(
+  db: D1Database,
+  userId: string
+): Promise<ApiTokenSummary[]> {
+  const rows = await db
+    .prepare(
+      `SELECT id, name, token_prefix, created_at, last_used_at, revoked_at
+       FROM api_tokens
+       WHERE user_id = ?
+       ORDER BY revoked_at IS NOT NULL, created_at DESC`
+    )
+    .bind(userId)
+    .all<{
+      id: number;
+      name: string;
+      token_prefix: string;
+      created_at: string;
+      last_used_at: string | null;
+      revoked_at: string | null;
+    }>();
+
+  return (rows.results ?? []).map((row) => ({
+    id: row.id,
+    name: row.name,
+    tokenPrefix: row.token_prefix,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  }));
+}
+
+/**
+ * Resolves "Authorization: Bearer qrk_..." to the owning user ID.
+ * Returns null for a missing, malformed, unknown or revoked token —
+ * callers answer all of those with the same 401 so the response
+ * doesn't reveal which tokens exist.
+ */
+export async function authenticateApiToken(
+  db: D1Database,
+  request: Request
+): Promise<string | null> {
+  const header = request.headers.get("Authorization") ?? "";
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+
+  if (!match || !match[1].startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const tokenHash = await hashToken(match[1]);
+
+  const row = await db
+    .prepare(
+      `SELECT id, user_id FROM api_tokens
+       WHERE token_hash = ? AND revoked_at IS NULL`
+    )
+    .bind(tokenHash)
+    .first<{ id: number; user_id: string }>();
+
+  if (!row) {
+    return null;
+  }
+
+  await db
+    .prepare(
+      `UPDATE api_tokens SET last_used_at = datetime('now')
+       WHERE id = ?
+         AND (last_used_at IS NULL OR last_used_at < datetime('now', ?))`
+    )
+    .bind(row.id, LAST_USED_UPDATE_INTERVAL)
+    .run();
+
+  return row.user_id;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * base64url of random bytes: no modulo bias (unlike mapping bytes
+ * onto a 62-char alphabet) and safe in headers and env files.
+ */
+function generateToken(): string {
+  const bytes = new Uint8Array(TOKEN_RANDOM_BYTES);
+  crypto.getRandomValues(bytes);
+
+  const base64 = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+
+  return `${TOKEN_PREFIX}${base64}`;
+}
+
+/** Hex-encoded SHA-256, same encoding as hashVisitorIp */
+async function hashToken(token: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,345 @@
+/**
+ * api-v1.ts
+ *
+ * Shared plumbing for the public REST API routes (api.v1.*.tsx):
+ * token auth, JSON responses and request parsing.
+ *
+ * Conventions every v1 endpoint follows:
+ *   - Auth: "Authorization: Bearer qrk_..." (see api-tokens.ts).
+ *     Clerk session cookies are NOT accepted, so a browser visiting
+ *     the API can't be tricked into making calls (no CSRF surface).
+ *   - Success: the resource under a named key, e.g. { "url": {...} }
+ *   - Failure: { "error": "Human-readable message" } with a 4xx/5xx status
+ *   - Responses are never cached (Cache-Control: no-store).
+ *   - Field names are camelCase; timestamps are D1's UTC
+ *     "YYYY-MM-DD HH:MM:SS" strings, same as the dashboard shows.
+ *
+ * Versioning: breaking changes go to /api/v2 with new route files;
+ * v1 keeps its response shapes.
+ */
+
+import { authenticateApiToken } from "~/lib/api-tokens";
+import { buildFullShortUrl } from "~/lib/url-mutations";
+import type { UrlMutationEnv } from "~/lib/url-mutations";
+import { parseExpirationDate } from "~/lib/url-expiration";
+import { parseLinkLimits } from "~/lib/link-limits";
+import type { LinkLimits } from "~/lib/link-limits";
+import { parseUtmParams, NO_UTM_PARAMS } from "~/lib/destination-params";
+import type { UtmParams } from "~/lib/destination-params";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const API_HEADERS: Record<string, string> = {
+  "Cache-Control": "no-store",
+};
+
+/** SELECT list for toApiUrl, shared by the list and single-URL queries */
+export const API_URL_COLUMNS = `id, shortcode, original_url, subdomain, created_at,
+       expires_at, starts_at, max_clicks, click_count, fallback_url,
+       password_hash IS NOT NULL AS has_password,
+       utm_source, utm_medium, utm_campaign, passthrough, redirect_type`;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ApiAuthResult =
+  | { authenticated: true; userId: string }
+  | { authenticated: false; response: Response };
+
+/** A URL as the API returns it */
+export interface ApiUrl {
+  id: number;
+  shortcode: string;
+  subdomain: string | null;
+  originalUrl: string;
+  shortUrl: string;
+  createdAt: string;
+  /** null = never expires */
+  expiresAt: string | null;
+  /** null = redirects right away */
+  startsAt: string | null;
+  /** null = unlimited */
+  maxClicks: number | null;
+  /** Redirects counted against maxClicks */
+  clickCount: number;
+  /** Where visitors go when the link isn't available; null = status page */
+  fallbackUrl: string | null;
+  /** Whether visitors must enter a password; the password is never returned */
+  hasPassword: boolean;
+  /** UTM tags added to the destination on redirect; unset tags are null */
+  utm: UtmParams;
+  /** Whether the short URL's query string and extra path are forwarded */
+  passthrough: boolean;
+  /** "301", "302", "307", "308" or "interstitial" */
+  redirectType: string;
+}
+
+/** The urls columns fetchApiUrl / toApiUrl read */
+export interface ApiUrlRow {
+  id: number;
+  shortcode: string;
+  subdomain: string | null;
+  original_url: string;
+  created_at: string;
+  expires_at: string | null;
+  starts_at: string | null;
+  max_clicks: number | null;
+  click_count: number;
+  fallback_url: string | null;
+  has_password: number;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  passthrough: number;
+  redirect_type: string;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Authenticates the request by its bearer token.
+ * On failure, `response` is the 401 to return as-is.
+ */
+export async function requireApiUser(
+  db: D1Database,
+  request: Request
+): Promise<ApiAuthResult> {
+  const userId = await authenticateApiToken(db, request);
+
+  if (!userId) {
+    return {
+      authenticated: false,
+      response: apiError(
+        401,
+        "Missing or invalid API token. Send it as 'Authorization: Bearer <token>'."
+      ),
+    };
+  }
+
+  return { authenticated: true, userId };
+}
+
+export function apiJson(body: unknown, status = 200): Response {
+  return Response.json(body, { status, headers: API_HEADERS });
+}
+
+export function apiError(status: number, message: string): Response {
+  return apiJson({ error: message }, status);
+}
+
+/** 405 with the Allow header listing what the endpoint does accept */
+export function apiMethodNotAllowed(allowed: string[]): Response {
+  return Response.json(
+    { error: `Method not allowed. Use ${allowed.join(" or ")}.` },
+    { status: 405, headers: { ...API_HEADERS, Allow: allowed.join(", ") } }
+  );
+}
+
+/**
+ * Parses a JSON object body. Returns null for anything else
+ * (invalid JSON, arrays, primitives) so callers answer with 400.
+ */
+export async function readJsonBody(
+  request: Request
+): Promise<Record<string, unknown> | null> {
+  try {
+    const body: unknown = await request.json();
+
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return null;
+    }
+
+    return body as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/** Route param → positive integer ID, or null */
+export function parseIdParam(value: string | undefined): number | null {
+  const id = Number(value);
+
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Reads the optional "expiresAt" body field: an ISO 8601 date in the
+ * future, or null for no expiry. `undefined` means the field was
+ * absent — "unchanged" for PATCH, "never" for POST.
+ */
+export function parseApiExpiresAt(
+  value: unknown
+):
+  | { isValid: true; expiresAt: string | null | undefined }
+  | { isValid: false; error: string } {
+  if (value === undefined || value === null) {
+    return { isValid: true, expiresAt: value };
+  }
+
+  if (typeof value !== "string") {
+    return { isValid: false, error: "expiresAt must be an ISO 8601 date or null." };
+  }
+
+  const result = parseExpirationDate(value);
+
+  return result.isValid
+    ? { isValid: true, expiresAt: result.expiresAt }
+    : { isValid: false, error: result.error };
+}
+
+/**
+ * Reads the optional "startsAt", "maxClicks" and "fallbackUrl" body
+ * fields (see link-limits.ts). Like expiresAt, an absent field keeps
+ * its value from `current` and null removes it.
+ *
+ * @param current - The link's limits before this request (none for POST)
+ */
+export function parseApiLimits(
+  body: Record<string, unknown>,
+  current: LinkLimits
+): { isValid: true; limits: LinkLimits } | { isValid: false; error: string } {
+  const { startsAt, maxClicks, fallbackUrl } = body;
+
+  if (startsAt != null && typeof startsAt !== "string") {
+    return { isValid: false, error: "startsAt must be an ISO 8601 date or null." };
+  }
+
+  if (maxClicks != null && typeof maxClicks !== "number") {
+    return { isValid: false, error: "maxClicks must be a number or null." };
+  }
+
+  if (fallbackUrl != null && typeof fallbackUrl !== "string") {
+    return { isValid: false, error: "fallbackUrl must be a string or null." };
+  }
+
+  const result = parseLinkLimits(
+    startsAt ?? null,
+    maxClicks != null ? String(maxClicks) : null,
+    fallbackUrl ?? null
+  );
+
+  if (!result.isValid) {
+    return { isValid: false, error: result.error };
+  }
+
+  return {
+    isValid: true,
+    limits: {
+      startsAt: startsAt === undefined ? current.startsAt : result.limits.startsAt,
+      maxClicks: maxClicks === undefined ? current.maxClicks : result.limits.maxClicks,
+      fallbackUrl:
+        fallbackUrl === undefined ? current.fallbackUrl : result.limits.fallbackUrl,
+    },
+  };
+}
+
+/**
+ * Reads the optional "password" body field: a string sets it, null
+ * removes it, and `undefined` (absent) means "unchanged" for PATCH,
+ * "none" for POST. Length rules are checked by url-mutations.ts.
+ */
+export function parseApiPassword(
+  value: unknown
+):
+  | { isValid: true; password: string | null | undefined }
+  | { isValid: false; error: string } {
+  if (value === undefined || value === null || typeof value === "string") {
+    return { isValid: true, password: value };
+  }
+
+  return { isValid: false, error: "password must be a string or null." };
+}
+
+/**
+ * Reads the optional "utm" body field: an object with "source",
+ * "medium" and "campaign" strings replaces all three tags (missing
+ * ones are cleared), null removes them, and `undefined` (absent) means
+ * "unchanged" for PATCH, "none" for POST.
+ */
+export function parseApiUtm(
+  value: unknown
+): { isValid: true; utm: UtmParams | undefined } | { isValid: false; error: string } {
+  if (value === undefined) {
+    return { isValid: true, utm: undefined };
+  }
+
+  if (value === null) {
+    return { isValid: true, utm: NO_UTM_PARAMS };
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { isValid: false, error: "utm must be an object or null." };
+  }
+
+  const { source, medium, campaign } = value as Record<string, unknown>;
+
+  for (const [name, field] of Object.entries({ source, medium, campaign })) {
+    if (field != null && typeof field !== "string") {
+      return { isValid: false, error: `utm.${name} must be a string or null.` };
+    }
+  }
+
+  const result = parseUtmParams(
+    (source as string | null | undefined) ?? null,
+    (medium as string | null | undefined) ?? null,
+    (campaign as string | null | undefined) ?? null
+  );
+
+  if (!result.isValid) {
+    return { isValid: false, error: result.error };
+  }
+
+  return { isValid: true, utm: result.utm };
+}
+
+/** Bindings for url-mutations.ts / qr-creation.ts */
+export function buildMutationEnv(env: Env): UrlMutationEnv {
+  return { db: env.qr_url_db, r2: env.QR_IMAGES, cacheKv: env.REDIRECT_CACHE_KV };
+}
+
+/** One of the user's URLs in API shape, or null if not theirs */
+export async function fetchApiUrl(
+  db: D1Database,
+  userId: string,
+  urlId: number
+): Promise<ApiUrl | null> {
+  const row = await db
+    .prepare(
+      `SELECT ${API_URL_COLUMNS}
+       FROM urls WHERE id = ? AND user_id = ?`
+    )
+    .bind(urlId, userId)
+    .first<ApiUrlRow>();
+
+  return row ? toApiUrl(row) : null;
+}
+
+/** D1 row → API shape */
+export function toApiUrl(row: ApiUrlRow): ApiUrl {
+  return {
+    id: row.id,
+    shortcode: row.shortcode,
+    subdomain: row.subdomain,
+    originalUrl: row.original_url,
+    shortUrl: buildFullShortUrl(row.subdomain, row.shortcode),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    startsAt: row.starts_at,
+    maxClicks: row.max_clicks,
+    clickCount: row.click_count,
+    fallbackUrl: row.fallback_url,
+    hasPassword: row.has_password === 1,
+    utm: {
+      source: row.utm_source,
+      medium: row.utm_medium,
+      campaign: row.utm_campaign,
+    },
+    passthrough: row.passthrough === 1,
+    redirectType: row.redirect_type,
+  };
+}
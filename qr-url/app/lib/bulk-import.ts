@@ -0,0 +1,487 @@
+/**
+ * bulk-import.ts
+ *
+ * Bulk URL creation from a CSV file (url,custom_shortcode,format).
+ * Server-side only — the preview needs D1 for conflicts and limits.
+ *
+ * Two steps, both driven by the same CSV text:
+ *   1. previewImport() — validates every row and reports what would
+ *      happen, without writing anything. Row errors:
+ *        - invalid URL / shortcode / format (same validators as the form)
+ *        - branded format without a claimed subdomain
+ *        - duplicate shortcode within the file
+ *        - shortcode already taken in D1
+ *        - no URL slots left on the user's plan
+ *   2. commitImport() — re-runs the preview (the client's copy is never
+ *      trusted), then inserts every ready row in ONE D1 batch.
+ *
+ * Why one batch?
+ *   D1 runs a batch as a single transaction: one round trip for 100+
+ *   rows, and either the whole import lands or none of it does if D1
+ *   fails midway. Each INSERT carries the same count guard as single
+ *   creation (INSERT ... SELECT ... WHERE count < max), so the plan
+ *   limit holds even if URLs are created elsewhere meanwhile.
+ *   INSERT OR IGNORE turns a shortcode claimed between preview and
+ *   commit into a per-row failure instead of rolling back the batch.
+ */
+
+import { parseCsv, toCsv } from "~/lib/csv";
+import { validateUrl } from "~/lib/url-validation";
+import { generateShortcode, validateCustomShortcode } from "~/lib/shortcode";
+import { invalidateRedirect } from "~/lib/redirect-cache";
+import { getTierPermissions } from "~/lib/tier";
+import { buildFullShortUrl } from "~/lib/url-mutations";
+import type { UrlMutationEnv } from "~/lib/url-mutations";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Matches the pro URL limit — no plan can import more in one go */
+export const MAX_IMPORT_ROWS = 500;
+
+/** 500 rows of 2048-char URLs fit comfortably; anything larger isn't our format */
+export const MAX_IMPORT_FILE_BYTES = 1024 * 1024;
+
+export const IMPORT_CSV_HEADER = ["url", "custom_shortcode", "format"] as const;
+
+/** D1 caps bound parameters per statement at 100 */
+const MAX_BIND_PARAMS = 100;
+
+const MAX_GENERATION_ATTEMPTS = 5;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One data row, as written in the file */
+export interface ImportRow {
+  /** 1-based line number in the file, for messages */
+  line: number;
+  url: string;
+  customShortcode: string;
+  format: string;
+}
+
+export interface ImportRowPreview extends ImportRow {
+  status: "ready" | "error";
+  error: string | null;
+  /** Set when status is "ready" */
+  normalizedUrl: string | null;
+  /** Cleaned custom shortcode, or null to auto-generate */
+  shortcode: string | null;
+  subdomain: string | null;
+}
+
+export interface ImportPreview {
+  rows: ImportRowPreview[];
+  readyCount: number;
+  errorCount: number;
+  /** URL slots left on the plan before this import */
+  remainingSlots: number;
+}
+
+export interface ImportRowResult extends ImportRow {
+  status: "created" | "error";
+  shortUrl: string | null;
+  error: string | null;
+}
+
+export type ImportPreviewResult =
+  | { success: true; preview: ImportPreview }
+  | { success: false; error: string };
+
+export type ImportCommitResult =
+  | { success: true; results: ImportRowResult[]; createdCount: number; resultCsv: string }
+  | { success: false; error: string };
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates a CSV import against the user's subdomain, existing URLs
+ * and plan limit. Writes nothing.
+ */
+export async function previewImport(
+  db: D1Database,
+  userId: string,
+  csvText: string
+): Promise<ImportPreviewResult> {
+  const parsed = parseImportCsv(csvText);
+
+  if (!parsed.success) {
+    return parsed;
+  }
+
+  const userRow = await db
+    .prepare("SELECT subdomain, plan FROM users WHERE clerk_user_id = ?")
+    .bind(userId)
+    .first<{ subdomain: string | null; plan: string }>();
+
+  const permissions = getTierPermissions(userRow?.plan);
+
+  const urlCountRow = await db
+    .prepare("SELECT COUNT(*) as count FROM urls WHERE user_id = ?")
+    .bind(userId)
+    .first<{ count: number }>();
+
+  const remainingSlots = Math.max(
+    0,
+    permissions.maxUrls - (urlCountRow?.count ?? 0)
+  );
+
+  const rows = validateImportRows(parsed.rows, userRow?.subdomain ?? null);
+
+  // --- Custom shortcodes already taken in D1 ---
+  const customRows = rows.filter(
+    (row) => row.status === "ready" && row.shortcode !== null
+  );
+  const takenKeys = await findTakenShortcodes(
+    db,
+    customRows.map((row) => row.shortcode!)
+  );
+
+  for (const row of customRows) {
+    if (takenKeys.has(scopeKey(row.subdomain, row.shortcode!))) {
+      markError(row, `Shortcode "${row.shortcode}" is already taken.`);
+    }
+  }
+
+  // --- Plan limit: rows past the remaining slots can't be created ---
+  let slotsLeft = remainingSlots;
+
+  for (const row of rows) {
+    if (row.status !== "ready") {
+      continue;
+    }
+
+    if (slotsLeft === 0) {
+      markError(row, `Over your limit of ${permissions.maxUrls} URLs.`);
+    } else {
+      slotsLeft--;
+    }
+  }
+
+  const readyCount = rows.filter((row) => row.status === "ready").length;
+
+  return {
+    success: true,
+    preview: {
+      rows,
+      readyCount,
+      errorCount: rows.length - readyCount,
+      remainingSlots,
+    },
+  };
+}
+
+/**
+ * Creates every row the preview marks ready, in one D1 batch, and
+ * returns a per-row result plus the result CSV for download.
+ */
+export async function commitImport(
+  env: UrlMutationEnv,
+  userId: string,
+  csvText: string
+): Promise<ImportCommitResult> {
+  const { db } = env;
+  const previewResult = await previewImport(db, userId, csvText);
+
+  if (!previewResult.success) {
+    return previewResult;
+  }
+
+  const { rows } = previewResult.preview;
+  const readyRows = rows.filter((row) => row.status === "ready");
+
+  const userRow = await db
+    .prepare("SELECT plan FROM users WHERE clerk_user_id = ?")
+    .bind(userId)
+    .first<{ plan: string }>();
+
+  const permissions = getTierPermissions(userRow?.plan);
+
+  // --- Assign shortcodes to auto rows ---
+  const assigned = await assignShortcodes(db, readyRows);
+
+  if (!assigned) {
+    return {
+      success: false,
+      error: "Failed to generate unique shortcodes. Please try again.",
+    };
+  }
+
+  const statements = readyRows.map((row) =>
+    db
+      .prepare(
+        `INSERT OR IGNORE INTO urls (user_id, shortcode, original_url, subdomain)
+         SELECT ?, ?, ?, ?
+         WHERE (SELECT COUNT(*) FROM urls WHERE user_id = ?) < ?`
+      )
+      .bind(
+        userId,
+        row.shortcode,
+        row.normalizedUrl,
+        row.subdomain,
+        userId,
+        permissions.maxUrls
+      )
+  );
+
+  const batchResults = statements.length > 0 ? await db.batch(statements) : [];
+
+  // --- Work out why skipped rows weren't inserted ---
+  const skippedRows = readyRows.filter(
+    (_, index) => batchResults[index].meta.changes === 0
+  );
+  const takenKeys = await findTakenShortcodes(
+    db,
+    skippedRows.map((row) => row.shortcode!)
+  );
+
+  const createdRows = new Set<ImportRowPreview>();
+
+  readyRows.forEach((row, index) => {
+    if (batchResults[index].meta.changes > 0) {
+      createdRows.add(row);
+    } else if (takenKeys.has(scopeKey(row.subdomain, row.shortcode!))) {
+      markError(row, `Shortcode "${row.shortcode}" was taken during the import.`);
+    } else {
+      markError(row, `Over your limit of ${permissions.maxUrls} URLs.`);
+    }
+  });
+
+  // --- Clear negative cache entries left by visits before creation ---
+  await Promise.all(
+    [...createdRows].map((row) =>
+      invalidateRedirect(env.cacheKv, row.subdomain, row.shortcode!)
+    )
+  );
+
+  const results: ImportRowResult[] = rows.map((row) => ({
+    line: row.line,
+    url: row.url,
+    customShortcode: row.customShortcode,
+    format: row.format,
+    status: createdRows.has(row) ? "created" : "error",
+    shortUrl: createdRows.has(row)
+      ? buildFullShortUrl(row.subdomain, row.shortcode!)
+      : null,
+    error: createdRows.has(row) ? null : row.error,
+  }));
+
+  return {
+    success: true,
+    results,
+    createdCount: createdRows.size,
+    resultCsv: buildResultCsv(results),
+  };
+}
+
+/**
+ * Splits CSV text into data rows. The header row is optional; when
+ * present it must be the documented one.
+ */
+export function parseImportCsv(
+  csvText: string
+): { success: true; rows: ImportRow[] } | { success: false; error: string } {
+  const cells = parseCsv(csvText);
+
+  const firstCell = cells[0]?.[0]?.trim().toLowerCase();
+  const hasHeader = firstCell === IMPORT_CSV_HEADER[0];
+  const dataRows = hasHeader ? cells.slice(1) : cells;
+
+  if (dataRows.length === 0) {
+    return { success: false, error: "The file has no rows to import." };
+  }
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    return {
+      success: false,
+      error: `Imports are limited to ${MAX_IMPORT_ROWS} rows (this file has ${dataRows.length}).`,
+    };
+  }
+
+  const lineOffset = hasHeader ? 2 : 1;
+
+  return {
+    success: true,
+    rows: dataRows.map((row, index) => ({
+      line: index + lineOffset,
+      url: (row[0] ?? "").trim(),
+      customShortcode: (row[1] ?? "").trim(),
+      format: (row[2] ?? "").trim().toLowerCase(),
+    })),
+  };
+}
+
+export function buildResultCsv(results: ImportRowResult[]): string {
+  return toCsv([
+    ["line", ...IMPORT_CSV_HEADER, "status", "short_url", "error"],
+    ...results.map((row) => [
+      row.line,
+      row.url,
+      row.customShortcode,
+      row.format,
+      row.status,
+      row.shortUrl,
+      row.error,
+    ]),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Per-row checks that don't need the database, including
+ * duplicates within the file.
+ */
+function validateImportRows(
+  rows: ImportRow[],
+  userSubdomain: string | null
+): ImportRowPreview[] {
+  const seen = new Map<string, number>();
+
+  return rows.map((row) => {
+    const preview: ImportRowPreview = {
+      ...row,
+      status: "ready",
+      error: null,
+      normalizedUrl: null,
+      shortcode: null,
+      subdomain: null,
+    };
+
+    const urlValidation = validateUrl(row.url);
+
+    if (!urlValidation.isValid) {
+      return markError(preview, urlValidation.error);
+    }
+
+    preview.normalizedUrl = urlValidation.normalizedUrl;
+
+    if (row.format !== "" && row.format !== "short" && row.format !== "branded") {
+      return markError(preview, 'Format must be "short" or "branded".');
+    }
+
+    if (row.format === "branded") {
+      if (!userSubdomain) {
+        return markError(
+          preview,
+          "You need to set up a subdomain before creating branded URLs."
+        );
+      }
+      preview.subdomain = userSubdomain;
+    }
+
+    if (row.customShortcode !== "") {
+      const cleaned = row.customShortcode.toLowerCase();
+      const shortcodeValidation = validateCustomShortcode(cleaned);
+
+      if (!shortcodeValidation.isValid) {
+        return markError(preview, shortcodeValidation.error ?? "Invalid shortcode.");
+      }
+
+      const key = scopeKey(preview.subdomain, cleaned);
+      const firstLine = seen.get(key);
+
+      if (firstLine !== undefined) {
+        return markError(preview, `Same shortcode as line ${firstLine}.`);
+      }
+
+      seen.set(key, row.line);
+      preview.shortcode = cleaned;
+    }
+
+    return preview;
+  });
+}
+
+/**
+ * Gives every row without a custom shortcode a random one that's
+ * free in D1 and unique within the import. Returns false if
+ * collisions persist (practically impossible with 56B combinations).
+ */
+async function assignShortcodes(
+  db: D1Database,
+  rows: ImportRowPreview[]
+): Promise<boolean> {
+  const usedKeys = new Set(
+    rows
+      .filter((row) => row.shortcode !== null)
+      .map((row) => scopeKey(row.subdomain, row.shortcode!))
+  );
+
+  let pending = rows.filter((row) => row.shortcode === null);
+
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS && pending.length > 0; attempt++) {
+    const candidates = pending.map((row) => {
+      let candidate = generateShortcode();
+
+      while (usedKeys.has(scopeKey(row.subdomain, candidate))) {
+        candidate = generateShortcode();
+      }
+
+      usedKeys.add(scopeKey(row.subdomain, candidate));
+      return candidate;
+    });
+
+    const takenKeys = await findTakenShortcodes(db, candidates);
+
+    pending = pending.filter((row, index) => {
+      if (takenKeys.has(scopeKey(row.subdomain, candidates[index]))) {
+        return true;
+      }
+
+      row.shortcode = candidates[index];
+      return false;
+    });
+  }
+
+  return pending.length === 0;
+}
+
+/**
+ * Returns "subdomain|shortcode" keys for every existing URL using
+ * one of the given shortcodes. Queried in chunks to stay under
+ * D1's bound-parameter limit.
+ */
+async function findTakenShortcodes(
+  db: D1Database,
+  shortcodes: string[]
+): Promise<Set<string>> {
+  const taken = new Set<string>();
+  const unique = [...new Set(shortcodes)];
+
+  for (let i = 0; i < unique.length; i += MAX_BIND_PARAMS) {
+    const chunk = unique.slice(i, i + MAX_BIND_PARAMS);
+    const placeholders = chunk.map(() => "?").join(", ");
+
+    const existing = await db
+      .prepare(
+        `SELECT subdomain, shortcode FROM urls WHERE shortcode IN (${placeholders})`
+      )
+      .bind(...chunk)
+      .all<{ subdomain: string | null; shortcode: string }>();
+
+    for (const row of existing.results ?? []) {
+      taken.add(scopeKey(row.subdomain, row.shortcode));
+    }
+  }
+
+  return taken;
+}
+
+/** Shortcodes are unique per (subdomain, shortcode), NULL = short format */
+function scopeKey(subdomain: string | null, shortcode: string): string {
+  return `${subdomain ?? ""}|${shortcode}`;
+}
+
+function markError(row: ImportRowPreview, error: string): ImportRowPreview {
+  row.status = "error";
+  row.error = error;
+  return row;
+}
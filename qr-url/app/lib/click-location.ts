@@ -0,0 +1,97 @@
+/**
+ * click-location.ts
+ *
+ * How precisely a user's clicks are located (users.click_location), an
+ * account-wide privacy setting:
+ *
+ *   country  country and continent only (default)
+ *   region   + region (state, province) and timezone
+ *   city     + city and the visitor's network (ASN and its owner)
+ *
+ * Cloudflare geolocates every request from its IP (request.cf, see
+ * extractLocation in click-tracking.ts). The redirect worker reads the
+ * owner's setting and drops what it doesn't allow BEFORE the click is
+ * stored — finer data is never written, so lowering the setting can't
+ * be undone later by someone with database access. Clicks stored while
+ * it was higher keep their detail.
+ *
+ * A city plus a network is close to identifying a visitor at a small
+ * company, which is why it's opt-in.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Options for the dashboard setting, least detailed first */
+export const CLICK_LOCATION_LEVELS = [
+  {
+    value: "country",
+    label: "Country",
+    description: "Country and continent only.",
+  },
+  {
+    value: "region",
+    label: "Region",
+    description: "Also the state or province, and the timezone.",
+  },
+  {
+    value: "city",
+    label: "City",
+    description: "Also the city and the visitor's network (internet provider or company).",
+  },
+] as const;
+
+export type ClickLocationLevel = (typeof CLICK_LOCATION_LEVELS)[number]["value"];
+
+export const DEFAULT_CLICK_LOCATION_LEVEL: ClickLocationLevel = "country";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Where a click came from; null = unknown, or not allowed by the setting */
+export interface ClickLocation {
+  /** ISO 3166-1 alpha-2, e.g. "DE" */
+  country: string | null;
+  /** Two-letter continent code, e.g. "EU" */
+  continent: string | null;
+  /** Region name, e.g. "Bavaria" */
+  region: string | null;
+  /** IANA timezone, e.g. "Europe/Berlin" */
+  timezone: string | null;
+  city: string | null;
+  /** Autonomous system number of the visitor's network */
+  asn: number | null;
+  /** Who runs that network, e.g. "Deutsche Telekom AG" */
+  asOrganization: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function isClickLocationLevel(value: unknown): value is ClickLocationLevel {
+  return CLICK_LOCATION_LEVELS.some((level) => level.value === value);
+}
+
+/**
+ * Clears the fields the setting doesn't allow.
+ */
+export function limitLocation(
+  location: ClickLocation,
+  level: ClickLocationLevel
+): ClickLocation {
+  const allowsRegion = level === "region" || level === "city";
+  const allowsCity = level === "city";
+
+  return {
+    country: location.country,
+    continent: location.continent,
+    region: allowsRegion ? location.region : null,
+    timezone: allowsRegion ? location.timezone : null,
+    city: allowsCity ? location.city : null,
+    asn: allowsCity ? location.asn : null,
+    asOrganization: allowsCity ? location.asOrganization : null,
+  };
+}
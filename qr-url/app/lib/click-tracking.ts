@@ -15,6 +15,9 @@
  *   - Worker-safe: no dependencies on React or browser APIs
  */
 
+import { isbot } from "isbot";
+import type { ClickLocation } from "~/lib/click-location";
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -32,6 +35,11 @@ export interface ClickRecord {
   country: string | null;
   /** "mobile", "desktop", or "tablet" */
   deviceType: string;
+  /** parseBrowser's family and major version */
+  browser: BrowserFamily;
+  browserVersion: number | null;
+  /** parseOperatingSystem's result */
+  os: OperatingSystem;
   /**
    * SHA-256 hash of (IP + date + salt).
    * Used to count unique visitors without storing the raw IP.
@@ -39,8 +47,86 @@ export interface ClickRecord {
    * each day, preventing long-term tracking.
    */
   visitorHash: string;
+  /** Crawler or link-preview fetcher rather than a person (detectBot) */
+  isBot: boolean;
+  /** e.g. "Slack", "Google"; null for people */
+  botFamily: string | null;
+}
+
+/** Browsers told apart in analytics (parseBrowser) */
+export type BrowserFamily =
+  | "chrome"
+  | "safari"
+  | "firefox"
+  | "edge"
+  | "opera"
+  | "samsung"
+  | "other";
+
+export interface BrowserInfo {
+  family: BrowserFamily;
+  /** e.g. 124 for "Chrome/124.0.6367.91"; null when the UA doesn't say */
+  majorVersion: number | null;
+}
+
+/** detectBot's verdict on a User-Agent */
+export interface BotDetection {
+  isBot: boolean;
+  /** One of BOT_FAMILIES' names, "Other" for unrecognised bots, null for people */
+  botFamily: string | null;
 }
 
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Bot families shown in analytics, checked in order against the
+ * User-Agent. Only consulted once isbot has said it's a bot.
+ *
+ * Order matters: Apple's iMessage preview sends
+ * "facebookexternalhit/1.1 Facebot Twitterbot/1.0", so it's checked
+ * before Facebook and Twitter; Telegram says "like TwitterBot".
+ */
+const BOT_FAMILIES: { name: string; pattern: RegExp }[] = [
+  { name: "Slack", pattern: /slackbot|slack-imgproxy/i },
+  { name: "Discord", pattern: /discordbot/i },
+  { name: "Telegram", pattern: /telegrambot/i },
+  { name: "WhatsApp", pattern: /whatsapp/i },
+  { name: "iMessage", pattern: /facebookexternalhit.*twitterbot/i },
+  { name: "Facebook", pattern: /facebookexternalhit|facebot|meta-externalagent/i },
+  { name: "Twitter", pattern: /twitterbot/i },
+  { name: "LinkedIn", pattern: /linkedinbot/i },
+  { name: "Microsoft Teams", pattern: /skypeuripreview|teams/i },
+  { name: "Google", pattern: /google/i },
+  { name: "Bing", pattern: /bingbot|bingpreview|msnbot/i },
+  { name: "Apple", pattern: /applebot/i },
+  { name: "AI crawler", pattern: /gptbot|chatgpt|oai-searchbot|claudebot|perplexitybot|ccbot|bytespider/i },
+  { name: "Monitoring", pattern: /uptimerobot|pingdom|statuscake|site24x7|uptime/i },
+  { name: "HTTP client", pattern: /curl|wget|python|go-http-client|okhttp|axios|node-fetch|java\//i },
+];
+
+/**
+ * Version tokens for each browser family, checked in order. The first
+ * capture group that matched is the major version.
+ *
+ * Order matters — most browsers also claim to be the ones after them:
+ *   1. Edge, Opera and Samsung Internet all say "Chrome/" as well.
+ *   2. Chrome says "Safari/"; on iOS every browser is Safari
+ *      underneath and names itself with its own token (CriOS, FxiOS,
+ *      EdgiOS, OPiOS), so those are matched with their families.
+ *   3. Safari last: "Version/17.4 ... Safari/" (in-app web views
+ *      often leave out "Version/" and land in "other").
+ */
+const BROWSER_TOKENS: { family: BrowserFamily; pattern: RegExp }[] = [
+  { family: "edge", pattern: /\bEdg(?:e|A|iOS)?\/(\d+)/ },
+  { family: "opera", pattern: /\bOPR\/(\d+)|\bOPiOS\/(\d+)/ },
+  { family: "samsung", pattern: /\bSamsungBrowser\/(\d+)/ },
+  { family: "firefox", pattern: /\bFirefox\/(\d+)|\bFxiOS\/(\d+)/ },
+  { family: "chrome", pattern: /\bChrome\/(\d+)|\bCriOS\/(\d+)/ },
+  { family: "safari", pattern: /\bVersion\/(\d+)[^ ]* (?:Mobile\/\S+ )?Safari\// },
+];
+
 // ---------------------------------------------------------------------------
 // Device type parsing
 // ---------------------------------------------------------------------------
@@ -56,8 +142,8 @@ export interface ClickRecord {
  *      some configurations, but "iPad" is unique to tablets.
  *   2. Check mobile — "Mobile", "Android", "iPhone" cover 95%+ of phones.
  *   3. Everything else is desktop — including bots and unknown UAs.
- *      This is an intentional simplification. Bots are a tiny percentage
- *      and treating them as "desktop" is a reasonable default.
+ *      This is an intentional simplification: bot clicks are flagged
+ *      separately (detectBot) and left out of analytics anyway.
  *
  * Accuracy: ~95%+ for real user traffic. Good enough for analytics
  * where exact precision isn't critical.
@@ -93,6 +179,121 @@ export function parseDeviceType(userAgent: string | null): string {
   return "desktop";
 }
 
+// ---------------------------------------------------------------------------
+// Operating system parsing
+// ---------------------------------------------------------------------------
+
+/** Operating systems the redirect worker can route on (device-rules.ts) */
+export type OperatingSystem =
+  | "ios"
+  | "android"
+  | "windows"
+  | "macos"
+  | "chromeos"
+  | "linux"
+  | "other";
+
+/**
+ * Determines the operating system from the User-Agent header.
+ *
+ * Same keyword approach as parseDeviceType. Order matters here too:
+ *   1. iOS before macOS — iPhone UAs say "like Mac OS X".
+ *   2. Android and ChromeOS ("CrOS") before Linux — both say "Linux".
+ *
+ * Known blind spot: iPads on iPadOS 13+ send a desktop Mac UA by
+ * default, so they come out as "macos". Nothing in the UA tells them
+ * apart; a rule for macOS will catch them.
+ */
+export function parseOperatingSystem(userAgent: string | null): OperatingSystem {
+  if (!userAgent) {
+    return "other";
+  }
+
+  const ua = userAgent.toLowerCase();
+
+  if (ua.includes("iphone") || ua.includes("ipad") || ua.includes("ipod")) {
+    return "ios";
+  }
+
+  if (ua.includes("android")) {
+    return "android";
+  }
+
+  if (ua.includes("windows")) {
+    return "windows";
+  }
+
+  if (ua.includes("macintosh") || ua.includes("mac os x")) {
+    return "macos";
+  }
+
+  if (ua.includes("cros")) {
+    return "chromeos";
+  }
+
+  if (ua.includes("linux")) {
+    return "linux";
+  }
+
+  return "other";
+}
+
+// ---------------------------------------------------------------------------
+// Bot detection
+// ---------------------------------------------------------------------------
+
+/**
+ * Flags crawlers and link-preview fetchers. Pasting a short link into
+ * Slack, iMessage or Twitter makes their servers fetch it to build a
+ * preview — a "click" nobody made. Those are still recorded (bot
+ * traffic is worth seeing on its own), but analytics leave them out
+ * by default.
+ *
+ * isbot (the same library entry.server.tsx uses) decides whether it's
+ * a bot; BOT_FAMILIES only names it. A missing User-Agent isn't
+ * treated as a bot — isbot doesn't, and some privacy tools strip it.
+ */
+export function detectBot(userAgent: string | null): BotDetection {
+  if (!userAgent || !isbot(userAgent)) {
+    return { isBot: false, botFamily: null };
+  }
+
+  const family = BOT_FAMILIES.find(({ pattern }) => pattern.test(userAgent));
+
+  return { isBot: true, botFamily: family?.name ?? "Other" };
+}
+
+// ---------------------------------------------------------------------------
+// Browser parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Determines the browser family and its major version from the
+ * User-Agent header.
+ *
+ * Same trade-off as parseDeviceType: a handful of regular expressions
+ * instead of a full UA parsing library, which would add bundle size
+ * to the redirect worker for browsers nobody clicks from. Anything
+ * not listed (in-app browsers, bots, consoles) is "other".
+ */
+export function parseBrowser(userAgent: string | null): BrowserInfo {
+  if (!userAgent) {
+    return { family: "other", majorVersion: null };
+  }
+
+  for (const { family, pattern } of BROWSER_TOKENS) {
+    const match = pattern.exec(userAgent);
+
+    if (match) {
+      const version = match.slice(1).find((group) => group !== undefined);
+
+      return { family, majorVersion: version ? Number(version) : null };
+    }
+  }
+
+  return { family: "other", majorVersion: null };
+}
+
 // ---------------------------------------------------------------------------
 // Referrer cleaning
 // ---------------------------------------------------------------------------
@@ -207,4 +408,39 @@ export function extractCountry(request: Request): string | null {
   }
 
   return cf.country;
-}
\ No newline at end of file
+}
+
+/**
+ * Extracts everything Cloudflare knows about where the visitor is:
+ * country, continent, region, city, timezone and network (ASN).
+ *
+ * Same source and caveats as extractCountry. Region and city are
+ * much less reliable than the country — mobile carriers and VPNs
+ * often place visitors in the wrong city, or give none at all.
+ *
+ * Returns all of it; the owner's privacy setting decides what is kept
+ * (limitLocation in click-location.ts).
+ */
+export function extractLocation(request: Request): ClickLocation {
+  const cf = (request as any).cf as
+    | {
+        country?: string;
+        continent?: string;
+        region?: string;
+        timezone?: string;
+        city?: string;
+        asn?: number;
+        asOrganization?: string;
+      }
+    | undefined;
+
+  return {
+    country: cf?.country || null,
+    continent: cf?.continent || null,
+    region: cf?.region || null,
+    timezone: cf?.timezone || null,
+    city: cf?.city || null,
+    asn: cf?.asn ?? null,
+    asOrganization: cf?.asOrganization || null,
+  };
+}
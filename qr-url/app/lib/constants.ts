@@ -21,6 +21,12 @@ export const FREE_MAX_URLS = 10;
  */
 export const FREE_MAX_QR_CODES = 10;
 
+/**
+ * Longest date range (in days) a free-tier user can view analytics
+ * for. Paid-tier users have no limit.
+ */
+export const FREE_MAX_ANALYTICS_DAYS = 30;
+
 /**
  * Maximum URLs per paid-tier user.
  */
@@ -0,0 +1,107 @@
+/**
+ * csv.ts
+ *
+ * Minimal RFC 4180 CSV reading and writing for imports and exports.
+ * Pure functions — runs in the browser and the Worker.
+ *
+ * Why not a CSV library?
+ *   We only need quoted fields, escaped quotes ("") and CRLF/LF line
+ *   endings. That's ~60 lines; a dependency would be larger than the
+ *   feature and ship to the client too.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Cells starting with these are treated as formulas by Excel and
+ * Google Sheets ("CSV injection"). Written cells get a leading
+ * apostrophe so a downloaded file can't run anything when opened.
+ */
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses CSV text into rows of cells.
+ * Blank lines are skipped; a UTF-8 BOM (Excel adds one) is ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      pushRow(rows, row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  pushRow(rows, row);
+
+  return rows;
+}
+
+/**
+ * Serializes rows to CSV with CRLF line endings (what spreadsheet
+ * apps expect). Cells are quoted only when needed.
+ */
+export function toCsv(rows: ReadonlyArray<ReadonlyArray<string | number | null>>): string {
+  return rows.map((row) => row.map(formatCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function pushRow(rows: string[][], row: string[]): void {
+  const isBlank = row.length === 1 && row[0].trim() === "";
+
+  if (!isBlank) {
+    rows.push(row);
+  }
+}
+
+function formatCell(value: string | number | null): string {
+  let text = value === null ? "" : String(value);
+
+  if (FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
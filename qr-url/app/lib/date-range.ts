@@ -0,0 +1,279 @@
+/**
+ * date-range.ts
+ *
+ * The date range the analytics page (and the API's analytics endpoint)
+ * covers. Pure logic — no database, no framework imports.
+ *
+ * A range is picked from a preset or as two custom dates and lives in
+ * the URL, so it survives reloads and can be shared:
+ *
+ *   ?range=7d | 30d (default) | 90d | ytd
+ *   ?range=custom&from=2026-01-01&to=2026-03-31
+ *
+ * Ranges are whole UTC days, both ends included — the same days
+ * url_clicks.clicked_at (UTC) falls on. "7d" is today and the six days
+ * before it.
+ *
+ * How long a range may be depends on the plan (maxAnalyticsDays in
+ * tier.ts). The timeline's bucket size follows from the length
+ * (pickTimelineInterval): days for short ranges, then weeks, then months.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Presets offered by the picker, shortest first */
+export const DATE_RANGE_PRESETS = [
+  { value: "7d", label: "7 days", days: 7 },
+  { value: "30d", label: "30 days", days: 30 },
+  { value: "90d", label: "90 days", days: 90 },
+  { value: "ytd", label: "Year to date", days: null },
+  { value: "custom", label: "Custom", days: null },
+] as const;
+
+export const DEFAULT_DATE_RANGE_PRESET: FixedPreset = "30d";
+
+/** Longest range still shown day by day; up to a year goes by week */
+const MAX_DAILY_DAYS = 62;
+const MAX_WEEKLY_DAYS = 366;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DateRangePreset = (typeof DATE_RANGE_PRESETS)[number]["value"];
+
+/** Presets whose dates follow from today */
+type FixedPreset = Exclude<DateRangePreset, "custom">;
+
+export interface DateRange {
+  preset: DateRangePreset;
+  /** First day, "YYYY-MM-DD" (UTC) */
+  from: string;
+  /** Last day, included, "YYYY-MM-DD" (UTC) */
+  to: string;
+}
+
+/** Bucket size of the timeline chart */
+export type TimelineInterval = "day" | "week" | "month";
+
+export type DateRangeResult =
+  | { isValid: true; error: null; range: DateRange }
+  | { isValid: false; error: string; range: null };
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads ?range (and ?from/?to for custom) into a DateRange.
+ *
+ * @param maxDays - Longest range the user's plan allows; null = any
+ */
+export function resolveDateRange(
+  searchParams: URLSearchParams,
+  maxDays: number | null,
+  now: Date = new Date()
+): DateRangeResult {
+  const preset = searchParams.get("range") || DEFAULT_DATE_RANGE_PRESET;
+
+  if (!isDateRangePreset(preset)) {
+    return { isValid: false, error: "Unknown date range.", range: null };
+  }
+
+  const today = toIsoDate(now);
+  let range: DateRange;
+
+  if (preset === "custom") {
+    const from = searchParams.get("from") ?? "";
+    const to = searchParams.get("to") ?? "";
+
+    if (!isIsoDate(from) || !isIsoDate(to)) {
+      return {
+        isValid: false,
+        error: "Pick both a start and an end date.",
+        range: null,
+      };
+    }
+
+    if (from > to) {
+      return {
+        isValid: false,
+        error: "The start date can't be after the end date.",
+        range: null,
+      };
+    }
+
+    if (to > today) {
+      return {
+        isValid: false,
+        error: "The end date can't be in the future.",
+        range: null,
+      };
+    }
+
+    range = { preset, from, to };
+  } else {
+    range = { preset, from: presetStart(preset, now), to: today };
+  }
+
+  if (maxDays !== null && rangeDays(range) > maxDays) {
+    return {
+      isValid: false,
+      error: `Your plan covers up to ${maxDays} days at a time.`,
+      range: null,
+    };
+  }
+
+  return { isValid: true, error: null, range };
+}
+
+/**
+ * The range used when none (or an invalid one) is asked for.
+ */
+export function defaultDateRange(now: Date = new Date()): DateRange {
+  return {
+    preset: DEFAULT_DATE_RANGE_PRESET,
+    from: presetStart(DEFAULT_DATE_RANGE_PRESET, now),
+    to: toIsoDate(now),
+  };
+}
+
+export function isDateRangePreset(value: unknown): value is DateRangePreset {
+  return DATE_RANGE_PRESETS.some((preset) => preset.value === value);
+}
+
+/**
+ * Whether a preset fits within the plan's limit, for greying out the
+ * picker's longer presets. Custom always fits — its dates are checked
+ * when submitted.
+ */
+export function presetFits(
+  preset: DateRangePreset,
+  maxDays: number | null,
+  now: Date = new Date()
+): boolean {
+  if (maxDays === null || preset === "custom") {
+    return true;
+  }
+
+  return rangeDays({ preset, from: presetStart(preset, now), to: toIsoDate(now) }) <= maxDays;
+}
+
+/** Number of days in the range, both ends included */
+export function rangeDays(range: DateRange): number {
+  return Math.round((parseIsoDate(range.to) - parseIsoDate(range.from)) / DAY_MS) + 1;
+}
+
+/**
+ * Bucket size for the timeline: at most ~60 points whatever the range.
+ */
+export function pickTimelineInterval(range: DateRange): TimelineInterval {
+  const days = rangeDays(range);
+
+  if (days <= MAX_DAILY_DAYS) {
+    return "day";
+  }
+
+  return days <= MAX_WEEKLY_DAYS ? "week" : "month";
+}
+
+/**
+ * The first day of the bucket a date falls in: the date itself, the
+ * Monday of its week, or the 1st of its month.
+ */
+export function bucketStart(isoDate: string, interval: TimelineInterval): string {
+  if (interval === "day") {
+    return isoDate;
+  }
+
+  if (interval === "month") {
+    return `${isoDate.slice(0, 7)}-01`;
+  }
+
+  const date = new Date(parseIsoDate(isoDate));
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+
+  return toIsoDate(date);
+}
+
+/**
+ * Every bucket start from the range's first day to its last, so the
+ * timeline can show empty buckets as zero. The first bucket may start
+ * before the range does (a week or month already under way).
+ */
+export function listBuckets(range: DateRange, interval: TimelineInterval): string[] {
+  const buckets: string[] = [];
+  let current = bucketStart(range.from, interval);
+
+  while (current <= range.to) {
+    buckets.push(current);
+
+    const next = new Date(parseIsoDate(current));
+
+    if (interval === "day") {
+      next.setUTCDate(next.getUTCDate() + 1);
+    } else if (interval === "week") {
+      next.setUTCDate(next.getUTCDate() + 7);
+    } else {
+      next.setUTCMonth(next.getUTCMonth() + 1);
+    }
+
+    current = toIsoDate(next);
+  }
+
+  return buckets;
+}
+
+/**
+ * The day after the range's last, for `clicked_at < ?` — clicked_at
+ * carries a time, so "<= to" would miss everything after midnight.
+ */
+export function rangeEndExclusive(range: DateRange): string {
+  const date = new Date(parseIsoDate(range.to));
+  date.setUTCDate(date.getUTCDate() + 1);
+
+  return toIsoDate(date);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function presetStart(preset: FixedPreset, now: Date): string {
+  if (preset === "ytd") {
+    return `${now.getUTCFullYear()}-01-01`;
+  }
+
+  const days = DATE_RANGE_PRESETS.find((entry) => entry.value === preset)?.days ?? 30;
+  const date = new Date(now);
+  date.setUTCDate(date.getUTCDate() - (days - 1));
+
+  return toIsoDate(date);
+}
+
+/** A real calendar date in "YYYY-MM-DD" form ("2026-02-30" isn't) */
+function isIsoDate(value: string): boolean {
+  if (!ISO_DATE_PATTERN.test(value)) {
+    return false;
+  }
+
+  const ms = parseIsoDate(value);
+
+  return !Number.isNaN(ms) && toIsoDate(new Date(ms)) === value;
+}
+
+/** "YYYY-MM-DD" → UTC midnight in ms (NaN if unparseable) */
+function parseIsoDate(isoDate: string): number {
+  return Date.parse(`${isoDate}T00:00:00Z`);
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
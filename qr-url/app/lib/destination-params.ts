@@ -0,0 +1,178 @@
+/**
+ * destination-params.ts
+ *
+ * What the redirect worker adds to a link's destination on the way out:
+ *
+ *   - UTM tags: source, medium and campaign are stored as separate
+ *     columns (urls.utm_source, utm_medium, utm_campaign) instead of
+ *     being baked into original_url, so they can be edited on their own
+ *     and apply to every destination the link sends people to — routing
+ *     rules and A/B variants included.
+ *
+ *   - Passthrough (urls.passthrough): the query string and any path
+ *     after the shortcode are forwarded. With it on, one printed link
+ *     serves many campaigns: short.link/promo?utm_campaign=flyer and
+ *     short.link/promo/de both work, the latter landing on
+ *     destination/de.
+ *
+ * Incoming parameters win over stored UTM tags with the same name —
+ * the more specific link is the one the visitor actually followed.
+ * The fallback URL gets neither; it isn't a visit to the link.
+ *
+ * Pure logic, shared by the forms, url-mutations.ts and the worker.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const MAX_UTM_VALUE_LENGTH = 100;
+
+/** Form field name, query parameter and label for each UTM tag */
+export const UTM_FIELDS = [
+  { key: "source", param: "utm_source", label: "Source", placeholder: "newsletter" },
+  { key: "medium", param: "utm_medium", label: "Medium", placeholder: "email" },
+  { key: "campaign", param: "utm_campaign", label: "Campaign", placeholder: "spring_sale" },
+] as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** null = tag not set */
+export interface UtmParams {
+  source: string | null;
+  medium: string | null;
+  campaign: string | null;
+}
+
+export const NO_UTM_PARAMS: UtmParams = { source: null, medium: null, campaign: null };
+
+export type UtmParamsResult =
+  | { isValid: true; error: null; utm: UtmParams }
+  | { isValid: false; error: string; utm: null };
+
+// ---------------------------------------------------------------------------
+// Validation (forms, route actions, API)
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates the raw UTM fields. Empty values mean "not set".
+ *
+ * Analytics tools group campaign traffic by source first, so medium or
+ * campaign without a source is rejected rather than stored half-done.
+ */
+export function parseUtmParams(
+  rawSource: string | null,
+  rawMedium: string | null,
+  rawCampaign: string | null
+): UtmParamsResult {
+  const utm: UtmParams = {
+    source: rawSource?.trim() || null,
+    medium: rawMedium?.trim() || null,
+    campaign: rawCampaign?.trim() || null,
+  };
+
+  for (const field of UTM_FIELDS) {
+    const value = utm[field.key];
+
+    if (value !== null && value.length > MAX_UTM_VALUE_LENGTH) {
+      return {
+        isValid: false,
+        error: `UTM ${field.label.toLowerCase()} must be ${MAX_UTM_VALUE_LENGTH} characters or fewer.`,
+        utm: null,
+      };
+    }
+  }
+
+  if (utm.source === null && (utm.medium !== null || utm.campaign !== null)) {
+    return {
+      isValid: false,
+      error: "Add a UTM source — medium and campaign need one.",
+      utm: null,
+    };
+  }
+
+  return { isValid: true, error: null, utm };
+}
+
+export function hasUtmParams(utm: UtmParams): boolean {
+  return utm.source !== null || utm.medium !== null || utm.campaign !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Building the destination (redirect worker, form preview)
+// ---------------------------------------------------------------------------
+
+/**
+ * Sets the link's UTM tags on a destination, replacing any utm_*
+ * parameters of the same name already in it.
+ *
+ * Destinations are validated URLs, but an unparseable one is returned
+ * unchanged rather than breaking the redirect.
+ */
+export function applyUtmParams(destination: string, utm: UtmParams): string {
+  if (!hasUtmParams(utm)) {
+    return destination;
+  }
+
+  try {
+    const url = new URL(destination);
+
+    for (const field of UTM_FIELDS) {
+      const value = utm[field.key];
+
+      if (value !== null) {
+        url.searchParams.set(field.param, value);
+      }
+    }
+
+    return url.toString();
+  } catch {
+    return destination;
+  }
+}
+
+/**
+ * Forwards the short URL's extra path and query string to the
+ * destination (passthrough links only).
+ *
+ * @param extraPath - Path after the shortcode, e.g. "/de/shoes", or ""
+ * @param search - The short URL's query string, e.g. "?ref=flyer", or ""
+ *
+ * Examples (destination "https://shop.example/sale?lang=en"):
+ *   extraPath "/de", search ""          → https://shop.example/sale/de?lang=en
+ *   extraPath "",    search "?lang=de"  → https://shop.example/sale?lang=de
+ */
+export function forwardRequestParts(
+  destination: string,
+  extraPath: string,
+  search: string
+): string {
+  const incoming = new URLSearchParams(search);
+
+  if (extraPath === "" && incoming.size === 0) {
+    return destination;
+  }
+
+  try {
+    const url = new URL(destination);
+
+    if (extraPath !== "") {
+      url.pathname = url.pathname.replace(/\/+$/, "") + extraPath;
+    }
+
+    // Incoming values replace the destination's, repeated keys included
+    for (const key of new Set(incoming.keys())) {
+      url.searchParams.delete(key);
+    }
+
+    for (const [key, value] of incoming) {
+      url.searchParams.append(key, value);
+    }
+
+    return url.toString();
+  } catch {
+    return destination;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * device-rules.ts
+ *
+ * Per-device destination overrides for a short link: one QR code that
+ * sends iPhones to the App Store, Android phones to Google Play and
+ * everyone else to the website. The link's original_url stays the
+ * default.
+ *
+ * A rule targets either an operating system (parseOperatingSystem) or
+ * a device type (parseDeviceType), both read from the User-Agent in
+ * click-tracking.ts. Rules are checked in DEVICE_RULE_TARGETS order and
+ * the first match wins, so OS rules beat the broader device types:
+ * with an "iOS" and a "Phones" rule, iPhones take the iOS one and
+ * other phones the Phones one.
+ *
+ * Device rules are checked before geo rules (geo-rules.ts). A store
+ * link only works on its own platform, wherever the visitor is; a
+ * country rule is the finer choice among links that all work.
+ *
+ * Storage and caching work like geo rules: url_device_rules, one row
+ * per (url, target), loaded with the link and kept in its redirect
+ * cache entry. Each click records the target of the rule it matched
+ * (url_clicks.matched_device_rule), NULL if none did.
+ */
+
+import { validateUrl } from "~/lib/url-validation";
+import { invalidateRedirect } from "~/lib/redirect-cache";
+import { findOwnedUrl } from "~/lib/url-mutations";
+import type { MutationResult, UrlMutationEnv } from "~/lib/url-mutations";
+import type { OperatingSystem } from "~/lib/click-tracking";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * What a rule can target, in matching order. Also the options shown
+ * in the dashboard and the labels analytics uses for each branch.
+ */
+export const DEVICE_RULE_TARGETS = [
+  { value: "ios", label: "iPhone & iPad (iOS)", kind: "os" },
+  { value: "android", label: "Android", kind: "os" },
+  { value: "windows", label: "Windows", kind: "os" },
+  { value: "macos", label: "Mac (macOS)", kind: "os" },
+  { value: "chromeos", label: "ChromeOS", kind: "os" },
+  { value: "linux", label: "Linux", kind: "os" },
+  { value: "mobile", label: "Phones (any other OS)", kind: "device" },
+  { value: "tablet", label: "Tablets (any other OS)", kind: "device" },
+  { value: "desktop", label: "Computers (any other OS)", kind: "device" },
+] as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DeviceRuleTarget = (typeof DEVICE_RULE_TARGETS)[number]["value"];
+
+export interface DeviceRule {
+  id: number;
+  target: DeviceRuleTarget;
+  destinationUrl: string;
+  createdAt: string;
+}
+
+/** Target → destination, the shape the redirect worker uses */
+export type DeviceRuleMap = Partial<Record<DeviceRuleTarget, string>>;
+
+// ---------------------------------------------------------------------------
+// Matching (redirect worker)
+// ---------------------------------------------------------------------------
+
+/**
+ * Picks the first rule that applies to the visitor.
+ *
+ * @param os - From parseOperatingSystem
+ * @param deviceType - From parseDeviceType ("mobile" | "tablet" | "desktop")
+ * @returns The matched target and its destination, or null to fall
+ *          through to geo rules and the default destination
+ */
+export function matchDeviceRule(
+  rules: DeviceRuleMap,
+  os: OperatingSystem,
+  deviceType: string
+): { target: DeviceRuleTarget; destinationUrl: string } | null {
+  for (const target of DEVICE_RULE_TARGETS) {
+    const destinationUrl = rules[target.value];
+
+    if (destinationUrl === undefined) {
+      continue;
+    }
+
+    const visitorValue = target.kind === "os" ? os : deviceType;
+
+    if (visitorValue === target.value) {
+      return { target: target.value, destinationUrl };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses the JSON object the worker's lookup query builds with
+ * json_group_object. Unknown targets and unreadable JSON are dropped —
+ * the link still redirects to its default destination.
+ */
+export function parseDeviceRuleMap(json: string | null): DeviceRuleMap {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(json);
+
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return {};
+    }
+
+    const rules: DeviceRuleMap = {};
+
+    for (const [target, destination] of Object.entries(parsed)) {
+      if (isDeviceRuleTarget(target) && typeof destination === "string") {
+        rules[target] = destination;
+      }
+    }
+
+    return rules;
+  } catch {
+    return {};
+  }
+}
+
+export function isDeviceRuleTarget(value: string): value is DeviceRuleTarget {
+  return DEVICE_RULE_TARGETS.some((target) => target.value === value);
+}
+
+/** "ios" → "iPhone & iPad (iOS)"; unknown values are shown as-is */
+export function deviceRuleLabel(target: string): string {
+  return DEVICE_RULE_TARGETS.find((t) => t.value === target)?.label ?? target;
+}
+
+// ---------------------------------------------------------------------------
+// D1 (routing page)
+// ---------------------------------------------------------------------------
+
+/** A URL's rules, in matching order */
+export async function fetchDeviceRules(
+  db: D1Database,
+  urlId: number
+): Promise<DeviceRule[]> {
+  const rows = await db
+    .prepare(
+      `SELECT id, target, destination_url, created_at
+       FROM url_device_rules
+       WHERE url_id = ?`
+    )
+    .bind(urlId)
+    .all<{
+      id: number;
+      target: string;
+      destination_url: string;
+      created_at: string;
+    }>();
+
+  const order: string[] = DEVICE_RULE_TARGETS.map((target) => target.value);
+
+  return (rows.results ?? [])
+    .filter((row) => isDeviceRuleTarget(row.target))
+    .map((row) => ({
+      id: row.id,
+      target: row.target as DeviceRuleTarget,
+      destinationUrl: row.destination_url,
+      createdAt: row.created_at,
+    }))
+    .sort((a, b) => order.indexOf(a.target) - order.indexOf(b.target));
+}
+
+/**
+ * Adds a rule, or replaces the destination of the target's existing
+ * rule. There is at most one rule per target, so no separate limit.
+ */
+export async function saveDeviceRule(
+  env: UrlMutationEnv,
+  userId: string,
+  urlId: number,
+  rawTarget: string,
+  rawDestinationUrl: string
+): Promise<MutationResult<{}>> {
+  if (!isDeviceRuleTarget(rawTarget)) {
+    return { success: false, error: "Choose a device.", status: 400 };
+  }
+
+  const destination = validateUrl(rawDestinationUrl);
+
+  if (!destination.isValid) {
+    return { success: false, error: destination.error, status: 400 };
+  }
+
+  const { db } = env;
+  const url = await findOwnedUrl(db, userId, urlId);
+
+  if (!url) {
+    return { success: false, error: "URL not found.", status: 404 };
+  }
+
+  await db
+    .prepare(
+      `INSERT INTO url_device_rules (url_id, target, destination_url)
+       VALUES (?, ?, ?)
+       ON CONFLICT (url_id, target)
+       DO UPDATE SET destination_url = excluded.destination_url`
+    )
+    .bind(urlId, rawTarget, destination.normalizedUrl)
+    .run();
+
+  await invalidateRedirect(env.cacheKv, url.subdomain, url.shortcode);
+
+  return { success: true };
+}
+
+/** Removes one rule; those visitors fall through to the next match */
+export async function deleteDeviceRule(
+  env: UrlMutationEnv,
+  userId: string,
+  urlId: number,
+  ruleId: number
+): Promise<MutationResult<{}>> {
+  const { db } = env;
+  const url = await findOwnedUrl(db, userId, urlId);
+
+  if (!url) {
+    return { success: false, error: "URL not found.", status: 404 };
+  }
+
+  const result = await db
+    .prepare("DELETE FROM url_device_rules WHERE id = ? AND url_id = ?")
+    .bind(ruleId, urlId)
+    .run();
+
+  if (result.meta.changes === 0) {
+    return { success: false, error: "Rule not found.", status: 404 };
+  }
+
+  await invalidateRedirect(env.cacheKv, url.subdomain, url.shortcode);
+
+  return { success: true };
+}
@@ -15,6 +15,17 @@
  *
  * The chart component files also avoid importing from echarts —
  * they define their option objects using a local type alias.
+ *
+ * WORLD MAP:
+ * loadEcharts() also registers the "world" map used by map series
+ * (CountryBreakdownChart's map view). Its outlines are bundled in
+ * world-countries.geo.json, so nothing is fetched at runtime. The file
+ * is Natural Earth's 1:110m countries (public domain, via the
+ * world-atlas package), converted to GeoJSON with each feature named
+ * by its ISO 3166-1 alpha-2 code — the same codes url_clicks.country
+ * stores, so map series data is keyed by them directly. Coordinates
+ * are rounded to 0.01°, plenty at dashboard size. It's imported
+ * alongside echarts, so it stays out of the server bundle too.
  */
 
 // No echarts imports here — not even `import type`!
@@ -40,11 +51,13 @@ export async function loadEcharts(): Promise<any> {
     charts,
     components,
     renderers,
+    worldGeoJson,
   ] = await Promise.all([
     import("echarts/core"),
     import("echarts/charts"),
     import("echarts/components"),
     import("echarts/renderers"),
+    import("./world-countries.geo.json"),
   ]);
 
   core.use([
@@ -52,6 +65,7 @@ export async function loadEcharts(): Promise<any> {
     charts.PieChart,
     charts.BarChart,
     charts.HeatmapChart,
+    charts.MapChart,
     components.TooltipComponent,
     components.GridComponent,
     components.LegendComponent,
@@ -59,6 +73,8 @@ export async function loadEcharts(): Promise<any> {
     renderers.CanvasRenderer,
   ]);
 
+  core.registerMap("world", worldGeoJson.default as any);
+
   echartsCore = core;
   return core;
 }
\ No newline at end of file
@@ -0,0 +1,255 @@
+/**
+ * geo-rules.ts
+ *
+ * Per-country destination overrides for a short link: "visitors from
+ * DE go to the German store, everyone else to the default". The
+ * link's original_url is the default; a rule only replaces it for
+ * one country.
+ *
+ * The visitor's country comes from Cloudflare (request.cf.country,
+ * see extractCountry in click-tracking.ts) — the same value analytics
+ * records, so the country chart shows who each rule applies to.
+ *
+ * Storage: url_geo_rules, one row per (url, country). The redirect
+ * worker loads a link's rules together with the link itself (a JSON
+ * object in the same query) and caches them in the redirect cache
+ * entry, so matching costs nothing extra per visit. Every change here
+ * invalidates that cache entry.
+ *
+ * Each click records the country of the rule it matched
+ * (url_clicks.matched_geo_rule), NULL for the default destination.
+ */
+
+import { validateUrl } from "~/lib/url-validation";
+import { invalidateRedirect } from "~/lib/redirect-cache";
+import { findOwnedUrl } from "~/lib/url-mutations";
+import type { MutationResult, UrlMutationEnv } from "~/lib/url-mutations";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Far more than any real campaign; keeps the cached entry small */
+export const MAX_GEO_RULES_PER_URL = 50;
+
+/**
+ * ISO 3166-1 alpha-2. Cloudflare also sends "XX" (unknown) and "T1"
+ * (Tor); the first is useless as a rule and the second never matches
+ * this pattern.
+ */
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface GeoRule {
+  id: number;
+  /** "DE" */
+  countryCode: string;
+  destinationUrl: string;
+  createdAt: string;
+}
+
+/** Country code → destination, the shape the redirect worker uses */
+export type GeoRuleMap = Record<string, string>;
+
+export type CountryCodeValidation =
+  | { isValid: true; error: null; countryCode: string }
+  | { isValid: false; error: string; countryCode: null };
+
+// ---------------------------------------------------------------------------
+// Matching (redirect worker)
+// ---------------------------------------------------------------------------
+
+/**
+ * Picks the rule for the visitor's country, if there is one.
+ *
+ * @returns The matched country code and its destination, or null to
+ *          use the link's default destination
+ */
+export function matchGeoRule(
+  rules: GeoRuleMap,
+  country: string | null
+): { countryCode: string; destinationUrl: string } | null {
+  if (country === null || !Object.hasOwn(rules, country)) {
+    return null;
+  }
+
+  return { countryCode: country, destinationUrl: rules[country] };
+}
+
+/**
+ * Parses the JSON object the worker's lookup query builds with
+ * json_group_object. Anything unreadable means "no rules" — the link
+ * still redirects to its default destination.
+ */
+export function parseGeoRuleMap(json: string | null): GeoRuleMap {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(json);
+
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as GeoRuleMap)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Validation (forms, route action)
+// ---------------------------------------------------------------------------
+
+export function validateCountryCode(raw: string): CountryCodeValidation {
+  const countryCode = raw.trim().toUpperCase();
+
+  if (!COUNTRY_CODE_PATTERN.test(countryCode) || countryCode === "XX") {
+    return {
+      isValid: false,
+      error: "Enter a two-letter country code, like DE or US.",
+      countryCode: null,
+    };
+  }
+
+  return { isValid: true, error: null, countryCode };
+}
+
+/**
+ * "DE" → "Germany", in the given locale. Falls back to the code for
+ * anything Intl doesn't know.
+ */
+export function countryName(countryCode: string, locale = "en"): string {
+  try {
+    return new Intl.DisplayNames([locale], { type: "region" }).of(countryCode) ?? countryCode;
+  } catch {
+    return countryCode;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// D1 (routing page)
+// ---------------------------------------------------------------------------
+
+/** A URL's rules, alphabetical by country code */
+export async function fetchGeoRules(
+  db: D1Database,
+  urlId: number
+): Promise<GeoRule[]> {
+  const rows = await db
+    .prepare(
+      `SELECT id, country_code, destination_url, created_at
+       FROM url_geo_rules
+       WHERE url_id = ?
+       ORDER BY country_code`
+    )
+    .bind(urlId)
+    .all<{
+      id: number;
+      country_code: string;
+      destination_url: string;
+      created_at: string;
+    }>();
+
+  return (rows.results ?? []).map((row) => ({
+    id: row.id,
+    countryCode: row.country_code,
+    destinationUrl: row.destination_url,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Adds a rule, or replaces the destination of the country's existing
+ * rule. The per-URL maximum is enforced in the INSERT itself, like the
+ * tier URL limit in createUrl.
+ */
+export async function saveGeoRule(
+  env: UrlMutationEnv,
+  userId: string,
+  urlId: number,
+  rawCountryCode: string,
+  rawDestinationUrl: string
+): Promise<MutationResult<{}>> {
+  const country = validateCountryCode(rawCountryCode);
+
+  if (!country.isValid) {
+    return { success: false, error: country.error, status: 400 };
+  }
+
+  const destination = validateUrl(rawDestinationUrl);
+
+  if (!destination.isValid) {
+    return { success: false, error: destination.error, status: 400 };
+  }
+
+  const { db } = env;
+  const url = await findOwnedUrl(db, userId, urlId);
+
+  if (!url) {
+    return { success: false, error: "URL not found.", status: 404 };
+  }
+
+  const result = await db
+    .prepare(
+      `INSERT INTO url_geo_rules (url_id, country_code, destination_url)
+       SELECT ?, ?, ?
+       WHERE (SELECT COUNT(*) FROM url_geo_rules WHERE url_id = ?) < ?
+          OR EXISTS (SELECT 1 FROM url_geo_rules WHERE url_id = ? AND country_code = ?)
+       ON CONFLICT (url_id, country_code)
+       DO UPDATE SET destination_url = excluded.destination_url`
+    )
+    .bind(
+      urlId,
+      country.countryCode,
+      destination.normalizedUrl,
+      urlId,
+      MAX_GEO_RULES_PER_URL,
+      urlId,
+      country.countryCode
+    )
+    .run();
+
+  if (result.meta.changes === 0) {
+    return {
+      success: false,
+      error: `A link can have at most ${MAX_GEO_RULES_PER_URL} country rules.`,
+      status: 403,
+    };
+  }
+
+  await invalidateRedirect(env.cacheKv, url.subdomain, url.shortcode);
+
+  return { success: true };
+}
+
+/** Removes one rule; its country goes back to the default destination */
+export async function deleteGeoRule(
+  env: UrlMutationEnv,
+  userId: string,
+  urlId: number,
+  ruleId: number
+): Promise<MutationResult<{}>> {
+  const { db } = env;
+  const url = await findOwnedUrl(db, userId, urlId);
+
+  if (!url) {
+    return { success: false, error: "URL not found.", status: 404 };
+  }
+
+  const result = await db
+    .prepare("DELETE FROM url_geo_rules WHERE id = ? AND url_id = ?")
+    .bind(ruleId, urlId)
+    .run();
+
+  if (result.meta.changes === 0) {
+    return { success: false, error: "Rule not found.", status: 404 };
+  }
+
+  await invalidateRedirect(env.cacheKv, url.subdomain, url.shortcode);
+
+  return { success: true };
+}
@@ -0,0 +1,137 @@
+/**
+ * link-limits.ts
+ *
+ * Availability rules on top of expiry (url-expiration.ts):
+ *   - starts_at    → the link only redirects from this time on
+ *   - max_clicks   → only the first N redirects go through
+ *   - fallback_url → where visitors go instead when the link is not
+ *                    (or no longer) available; without one they get
+ *                    a status page (link-status-page.ts)
+ *
+ * Together with expires_at as the end, starts_at gives a date window —
+ * event tickets, a giveaway that opens at noon. Pure logic, shared by
+ * the forms, url-mutations.ts and the redirect worker.
+ *
+ * Clicks are counted in urls.click_count by the redirect worker with a
+ * single conditional UPDATE, so concurrent visitors can't overshoot
+ * the limit (see claimLimitedClick in workers/redirect.ts). Bots and
+ * link previews are never counted.
+ */
+
+import { validateUrl } from "~/lib/url-validation";
+import { parseDbDate, toDbDate } from "~/lib/url-expiration";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const MAX_CLICK_LIMIT = 1_000_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LinkLimits {
+  /** SQLite datetime (UTC), or null = available right away */
+  startsAt: string | null;
+  /** null = unlimited */
+  maxClicks: number | null;
+  /** null = show the status page */
+  fallbackUrl: string | null;
+}
+
+export type LinkLimitsResult =
+  | { isValid: true; error: null; limits: LinkLimits }
+  | { isValid: false; error: string; limits: null };
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates the raw limit fields. Empty values mean "no limit".
+ *
+ * @param rawStartsAt - ISO date string (the form converts its local
+ *                      datetime, like the expiry field)
+ * @param rawMaxClicks - Positive whole number as a string
+ * @param rawFallbackUrl - http(s) URL
+ */
+export function parseLinkLimits(
+  rawStartsAt: string | null,
+  rawMaxClicks: string | null,
+  rawFallbackUrl: string | null
+): LinkLimitsResult {
+  // --- Start time ---
+  let startsAt: string | null = null;
+  const trimmedStart = rawStartsAt?.trim() ?? "";
+
+  if (trimmedStart !== "") {
+    const time = new Date(trimmedStart).getTime();
+
+    if (Number.isNaN(time)) {
+      return invalid("Start date is not a valid date.");
+    }
+
+    // A start in the past is fine — it just means "already open"
+    startsAt = toDbDate(new Date(time));
+  }
+
+  // --- Click limit ---
+  let maxClicks: number | null = null;
+  const trimmedMax = rawMaxClicks?.trim() ?? "";
+
+  if (trimmedMax !== "") {
+    const parsed = Number(trimmedMax);
+
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_CLICK_LIMIT) {
+      return invalid(
+        `Click limit must be a whole number from 1 to ${MAX_CLICK_LIMIT.toLocaleString("en-US")}.`
+      );
+    }
+
+    maxClicks = parsed;
+  }
+
+  // --- Fallback ---
+  let fallbackUrl: string | null = null;
+  const trimmedFallback = rawFallbackUrl?.trim() ?? "";
+
+  if (trimmedFallback !== "") {
+    const validation = validateUrl(trimmedFallback);
+
+    if (!validation.isValid) {
+      return invalid(`Fallback URL: ${validation.error}`);
+    }
+
+    fallbackUrl = validation.normalizedUrl;
+  }
+
+  return { isValid: true, error: null, limits: { startsAt, maxClicks, fallbackUrl } };
+}
+
+/**
+ * A window that closes before it opens would never redirect.
+ * Returns an error message, or null if the pair is fine.
+ */
+export function checkDateWindow(
+  startsAt: string | null,
+  expiresAt: string | null
+): string | null {
+  if (startsAt !== null && expiresAt !== null && parseDbDate(startsAt) >= parseDbDate(expiresAt)) {
+    return "The start date must be before the expiration date.";
+  }
+
+  return null;
+}
+
+export function hasNotStarted(startsAt: string | null, now: number = Date.now()): boolean {
+  return startsAt !== null && parseDbDate(startsAt) > now;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function invalid(error: string): LinkLimitsResult {
+  return { isValid: false, error, limits: null };
+}
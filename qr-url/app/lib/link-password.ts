@@ -0,0 +1,310 @@
+/**
+ * link-password.ts
+ *
+ * Optional password on a short link, for links to internal documents.
+ * The redirect worker shows a password form instead of redirecting
+ * (see handlePasswordGate in workers/redirect.ts) and sets a signed
+ * cookie once the visitor gets it right, so they aren't asked again.
+ *
+ * Storage: urls.password_hash holds
+ *   "pbkdf2-sha256:{iterations}:{salt hex}:{hash hex}"
+ * Unlike API tokens (api-tokens.ts), link passwords are chosen by
+ * people and can be short, so they get a salted, deliberately slow
+ * hash. 100,000 iterations is the most PBKDF2 Workers' Web Crypto
+ * accepts. Keeping the parameters in the stored value means they can
+ * change later without breaking existing links.
+ *
+ * Cookie: "{expiry}.{signature}", one cookie per link, signed with
+ * HMAC-SHA256 under LINK_PASSWORD_SECRET. The signed message includes
+ * the password hash, so changing or removing the password logs out
+ * everyone who entered the old one.
+ *
+ * Only Web Crypto — the form helpers at the bottom also run in the
+ * browser for client-side validation.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const HASH_SCHEME = "pbkdf2-sha256";
+
+const PBKDF2_ITERATIONS = 100_000;
+
+const SALT_BYTES = 16;
+
+/** 256-bit derived key */
+const HASH_BITS = 256;
+
+export const MIN_LINK_PASSWORD_LENGTH = 4;
+
+export const MAX_LINK_PASSWORD_LENGTH = 128;
+
+/** How long a correct password is remembered */
+const UNLOCK_COOKIE_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+const UNLOCK_COOKIE_PREFIX = "qrurl_unlock_";
+
+/**
+ * Form values for the password mode select, same idea as the expiry
+ * select (url-expiration.ts):
+ *   "none" → no password (removes one when editing)
+ *   "set"  → set or replace it with the linkPassword field
+ *   "keep" → leave it as it is (edit form only)
+ */
+export const PASSWORD_NONE = "none";
+export const PASSWORD_SET = "set";
+export const PASSWORD_KEEP = "keep";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * When isValid is true, password is the new plaintext password, null
+ * to remove it, or undefined to leave it unchanged.
+ */
+export type PasswordChangeResult =
+  | { isValid: true; error: null; password: string | null | undefined }
+  | { isValid: false; error: string; password: null };
+
+// ---------------------------------------------------------------------------
+// Hashing (url-mutations.ts, redirect worker)
+// ---------------------------------------------------------------------------
+
+/** Plaintext password → value for urls.password_hash */
+export async function hashLinkPassword(password: string): Promise<string> {
+  const salt = new Uint8Array(SALT_BYTES);
+  crypto.getRandomValues(salt);
+
+  const hash = await deriveHash(password, salt, PBKDF2_ITERATIONS);
+
+  return [HASH_SCHEME, PBKDF2_ITERATIONS, toHex(salt), toHex(hash)].join(":");
+}
+
+/**
+ * Checks a submitted password against a stored hash. An unreadable
+ * stored value never matches.
+ */
+export async function verifyLinkPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [scheme, iterationsRaw, saltHex, hashHex] = storedHash.split(":");
+  const iterations = Number(iterationsRaw);
+
+  if (scheme !== HASH_SCHEME || !Number.isInteger(iterations) || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const hash = await deriveHash(password, fromHex(saltHex), iterations);
+
+  return constantTimeEqual(toHex(hash), hashHex);
+}
+
+// ---------------------------------------------------------------------------
+// Unlock cookie (redirect worker)
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether the request carries a valid, unexpired unlock cookie for
+ * this link and its current password.
+ */
+export async function hasUnlockCookie(
+  request: Request,
+  secret: string,
+  urlId: number,
+  passwordHash: string
+): Promise<boolean> {
+  const value = readCookie(request, UNLOCK_COOKIE_PREFIX + urlId);
+
+  if (!value) {
+    return false;
+  }
+
+  const [expiresRaw, signature] = value.split(".");
+  const expires = Number(expiresRaw);
+
+  if (!Number.isInteger(expires) || !signature || expires * 1000 <= Date.now()) {
+    return false;
+  }
+
+  const expected = await signUnlock(secret, urlId, passwordHash, expires);
+
+  return constantTimeEqual(expected, signature);
+}
+
+/**
+ * Set-Cookie header value remembering a correct password.
+ * Scoped to the link's path on its own host, so it unlocks this link
+ * only, and HttpOnly so page scripts elsewhere can't read it.
+ */
+export async function buildUnlockCookie(
+  secret: string,
+  urlId: number,
+  passwordHash: string,
+  shortcode: string
+): Promise<string> {
+  const expires = Math.floor(Date.now() / 1000) + UNLOCK_COOKIE_MAX_AGE_SECONDS;
+  const signature = await signUnlock(secret, urlId, passwordHash, expires);
+
+  return [
+    `${UNLOCK_COOKIE_PREFIX}${urlId}=${expires}.${signature}`,
+    `Path=/${shortcode}`,
+    `Max-Age=${UNLOCK_COOKIE_MAX_AGE_SECONDS}`,
+    "HttpOnly",
+    "Secure",
+    "SameSite=Lax",
+  ].join("; ");
+}
+
+// ---------------------------------------------------------------------------
+// Form values (forms, route actions)
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves the password form fields into a change for updateUrl /
+ * createUrl.
+ *
+ * @param mode - "none", "set" or "keep"; empty means "keep", so forms
+ *               without the fields leave the password alone
+ * @param rawPassword - Only read when mode is "set". Not trimmed:
+ *                      spaces are part of a password.
+ */
+export function resolvePasswordChange(
+  mode: string | null,
+  rawPassword: string | null
+): PasswordChangeResult {
+  if (!mode || mode === PASSWORD_KEEP) {
+    return { isValid: true, error: null, password: undefined };
+  }
+
+  if (mode === PASSWORD_NONE) {
+    return { isValid: true, error: null, password: null };
+  }
+
+  if (mode !== PASSWORD_SET) {
+    return { isValid: false, error: "Invalid password option.", password: null };
+  }
+
+  const error = validateLinkPassword(rawPassword ?? "");
+
+  return error
+    ? { isValid: false, error, password: null }
+    : { isValid: true, error: null, password: rawPassword ?? "" };
+}
+
+/** Returns an error message, or null if the password is acceptable */
+export function validateLinkPassword(password: string): string | null {
+  if (password.length < MIN_LINK_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_LINK_PASSWORD_LENGTH} characters.`;
+  }
+
+  if (password.length > MAX_LINK_PASSWORD_LENGTH) {
+    return `Password must be at most ${MAX_LINK_PASSWORD_LENGTH} characters.`;
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function deriveHash(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<Uint8Array<ArrayBuffer>> {
+  const keyMaterial = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    keyMaterial,
+    HASH_BITS
+  );
+
+  return new Uint8Array(bits);
+}
+
+/** Hex HMAC-SHA256 over everything the cookie vouches for */
+async function signUnlock(
+  secret: string,
+  urlId: number,
+  passwordHash: string,
+  expires: number
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${urlId}:${expires}:${passwordHash}`)
+  );
+
+  return toHex(new Uint8Array(signature));
+}
+
+function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get("Cookie");
+
+  if (!header) {
+    return null;
+  }
+
+  for (const part of header.split(";")) {
+    const separator = part.indexOf("=");
+
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return part.slice(separator + 1).trim();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compares two strings without stopping at the first difference, so
+ * response timing doesn't reveal how much of a hash matched.
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return difference === 0;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2);
+
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+
+  return bytes;
+}
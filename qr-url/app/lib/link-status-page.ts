@@ -0,0 +1,288 @@
+/**
+ * link-status-page.ts
+ *
+ * The pages a visitor sees when a short link doesn't redirect:
+ *   - 404 "Link not found"     — no such shortcode (or it was deleted)
+ *   - 410 "Link expired"       — the link exists but its expires_at passed
+ *   - 410 "No longer available" — its click limit is used up
+ *   - 403 "Not available yet"  — its date window hasn't opened. Neither
+ *     404 nor 410 fits something that will work later; 403 says "it
+ *     exists, but not for you right now" without being cached as gone.
+ *
+ * Links with a fallback URL (link-limits.ts) redirect there instead
+ * of showing the last three.
+ *
+ * Also renders the password prompt for protected links
+ * (link-password.ts) and the interstitial page of links that redirect
+ * that way (redirect-type.ts), which share the same look and branding.
+ *
+ * Rendered by the redirect worker as a plain HTML string. Going
+ * through React Router would mean loading the whole app bundle for
+ * what is usually a bot or a stale printed QR code, and the status
+ * code matters more than the markup: 410 tells search engines to drop
+ * the URL for good, and uptime monitors can tell "gone on purpose"
+ * from "broken".
+ *
+ * Branding: on a claimed subdomain (acme.qrurl.dev/...) the page
+ * leads with the owner's subdomain, so visitors know whose link it
+ * was. Everything else gets the site's own name.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Short, so a link that gets created, edited or revived is reachable
+ * again within a minute. Same as the redirect cache's negative TTL.
+ */
+const CACHE_CONTROL = "public, max-age=60";
+
+/**
+ * Self-contained page: inline styles, no scripts, no external
+ * requests. The strict CSP costs nothing and rules out injection.
+ */
+const PAGE_HEADERS: Record<string, string> = {
+  "Content-Type": "text/html; charset=utf-8",
+  "Cache-Control": CACHE_CONTROL,
+  "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'",
+  "X-Robots-Tag": "noindex",
+};
+
+/**
+ * The password prompt posts back to the same URL and must never be
+ * cached — whether it shows depends on the visitor's cookie.
+ */
+const PASSWORD_PAGE_HEADERS: Record<string, string> = {
+  ...PAGE_HEADERS,
+  "Cache-Control": "private, no-store",
+  "Content-Security-Policy":
+    "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'",
+};
+
+/**
+ * The interstitial page is one visitor's redirect — never cached. Its
+ * only script carries a per-response nonce. The page itself sends the
+ * short domain as referrer, which is why it exists (the origin only:
+ * the shortcode stays private, as with any cross-site link).
+ */
+const INTERSTITIAL_PAGE_HEADERS: Record<string, string> = {
+  ...PAGE_HEADERS,
+  "Cache-Control": "private, no-store",
+  "Referrer-Policy": "strict-origin-when-cross-origin",
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LinkStatus =
+  | { kind: "not-found" }
+  | { kind: "expired"; expiresAt: string }
+  | { kind: "not-started"; startsAt: string }
+  | { kind: "limit-reached" };
+
+export interface LinkStatusPageInput {
+  status: LinkStatus;
+  shortcode: string;
+  /** The request's subdomain, or null for short-format links */
+  subdomain: string | null;
+  /** Whether that subdomain belongs to a user (shows their branding) */
+  isBranded: boolean;
+  siteDomain: string;
+}
+
+export interface PasswordPageInput {
+  shortcode: string;
+  subdomain: string | null;
+  isBranded: boolean;
+  siteDomain: string;
+  /** Shown above the form after a wrong password or too many tries */
+  error: string | null;
+  /** 200 for the first prompt, 401 after a wrong password, 429 when locked out */
+  httpStatus: number;
+}
+
+export interface InterstitialPageInput {
+  shortcode: string;
+  subdomain: string | null;
+  isBranded: boolean;
+  siteDomain: string;
+  /** Where the page sends the visitor */
+  location: string;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the status page response for a short link that doesn't redirect.
+ */
+export function renderLinkStatusPage(input: LinkStatusPageInput): Response {
+  const { status, shortcode, subdomain, isBranded, siteDomain } = input;
+
+  const { heading, message, httpStatus } = describeStatus(
+    status,
+    `<code>${escapeHtml(buildShortUrl(subdomain, shortcode, siteDomain))}</code>`
+  );
+
+  const html = renderPage(input, heading, `<p>${message}</p>`);
+
+  return new Response(html, { status: httpStatus, headers: PAGE_HEADERS });
+}
+
+/**
+ * Builds the password prompt for a protected link. The form posts to
+ * the short URL itself, where the redirect worker checks it.
+ */
+export function renderPasswordPage(input: PasswordPageInput): Response {
+  const { shortcode, subdomain, siteDomain, error } = input;
+  const shortUrl = buildShortUrl(subdomain, shortcode, siteDomain);
+
+  const body = `<p><code>${escapeHtml(shortUrl)}</code> is password protected.</p>
+  ${error ? `<p class="error" role="alert">${escapeHtml(error)}</p>` : ""}
+  <form method="post">
+    <input type="password" name="password" aria-label="Password" placeholder="Password" autocomplete="current-password" required autofocus>
+    <button type="submit">Continue</button>
+  </form>`;
+
+  const html = renderPage(input, "Enter the password", body);
+
+  return new Response(html, { status: input.httpStatus, headers: PASSWORD_PAGE_HEADERS });
+}
+
+/**
+ * Builds the interstitial page: a meta refresh for browsers without
+ * script, location.replace() so the page stays out of the back-button
+ * history, and a plain link if both are blocked.
+ */
+export function renderInterstitialPage(input: InterstitialPageInput): Response {
+  const { location } = input;
+  const nonce = crypto.randomUUID();
+
+  // JSON is valid JavaScript; escaping "<" keeps "</script>" out of it
+  const locationJs = JSON.stringify(location).replace(/</g, "\\u003c");
+
+  const body = `<meta http-equiv="refresh" content="0; url=${escapeHtml(location)}">
+  <p><a href="${escapeHtml(location)}">Continue to ${escapeHtml(location)}</a></p>
+  <script nonce="${nonce}">location.replace(${locationJs});</script>`;
+
+  const html = renderPage(input, "Redirecting…", body);
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      ...INTERSTITIAL_PAGE_HEADERS,
+      "Content-Security-Policy": `default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}'`,
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The shared page shell: branding, heading, body HTML, footer */
+function renderPage(
+  branding: { subdomain: string | null; isBranded: boolean; siteDomain: string },
+  heading: string,
+  bodyHtml: string
+): string {
+  const { subdomain, isBranded, siteDomain } = branding;
+  const brandName = isBranded && subdomain ? subdomain : siteDomain;
+
+  const footer = isBranded
+    ? `Short link by ${escapeHtml(brandName)} · powered by <a href="https://${escapeHtml(siteDomain)}/">${escapeHtml(siteDomain)}</a>`
+    : `<a href="https://${escapeHtml(siteDomain)}/">Create your own short links</a>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(heading)} · ${escapeHtml(brandName)}</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: #f9fafb; color: #111827; }
+  main { max-width: 32rem; padding: 2rem; text-align: center; }
+  .brand { font-size: 0.875rem; font-weight: 600; letter-spacing: 0.05em; text-transform: uppercase; color: #6b7280; }
+  h1 { margin: 0.75rem 0; font-size: 1.5rem; }
+  code { word-break: break-all; }
+  footer { margin-top: 2rem; font-size: 0.75rem; color: #6b7280; }
+  a { color: #2563eb; }
+  form { display: flex; gap: 0.5rem; justify-content: center; }
+  input, button { font: inherit; padding: 0.5rem 0.75rem; }
+  .error { color: #b91c1c; }
+</style>
+</head>
+<body>
+<main>
+  <div class="brand">${escapeHtml(brandName)}</div>
+  <h1>${escapeHtml(heading)}</h1>
+  ${bodyHtml}
+  <footer>${footer}</footer>
+</main>
+</body>
+</html>`;
+}
+
+function buildShortUrl(
+  subdomain: string | null,
+  shortcode: string,
+  siteDomain: string
+): string {
+  const host = subdomain ? `${subdomain}.${siteDomain}` : siteDomain;
+  return `${host}/${shortcode}`;
+}
+
+/** Heading, message (HTML) and status code per kind */
+function describeStatus(
+  status: LinkStatus,
+  linkHtml: string
+): { heading: string; message: string; httpStatus: number } {
+  switch (status.kind) {
+    case "expired":
+      return {
+        heading: "This link has expired",
+        message: `${linkHtml} stopped working on ${escapeHtml(formatDbDate(status.expiresAt))}.`,
+        httpStatus: 410,
+      };
+    case "limit-reached":
+      return {
+        heading: "This link is no longer available",
+        message: `${linkHtml} was only available to a limited number of visitors, and they've all been used.`,
+        httpStatus: 410,
+      };
+    case "not-started":
+      return {
+        heading: "This link isn't available yet",
+        message: `${linkHtml} opens on ${escapeHtml(formatDbDate(status.startsAt))}. Try again then.`,
+        httpStatus: 403,
+      };
+    case "not-found":
+      return {
+        heading: "Link not found",
+        message: `There's no link at ${linkHtml}. Check it for typos, or ask whoever shared it for a new one.`,
+        httpStatus: 404,
+      };
+  }
+}
+
+/**
+ * "2026-02-15 14:30:00" → "2026-02-15 14:30 UTC". The visitor's
+ * timezone is unknown on the server, so say which one it is.
+ */
+function formatDbDate(dbDate: string): string {
+  return `${dbDate.slice(0, 16)} UTC`;
+}
+
+/** Shortcodes come from the request path, so never trust them */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
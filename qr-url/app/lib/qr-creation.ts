@@ -0,0 +1,251 @@
+/**
+ * qr-creation.ts
+ *
+ * Saves a QR code to the user's library. Server-side only.
+ *
+ * Shared by the QR generation page ("save-qr" intent) and the public
+ * REST API, so a code created from a script goes through exactly the
+ * same checks as one saved from the dashboard:
+ *   1. URL ownership + encoded URL resolution (original/branded/shortest)
+ *   2. Logo ownership (the R2 key comes from the client)
+ *   3. Server-side render (qr-svg.ts) and scannability check
+ *   4. Size limit, then the tier limit reserved atomically in D1
+ *   5. Upload to R2
+ *
+ * The caller is responsible for parsing the customization
+ * (parseQrCustomization) — form posts and API bodies carry it differently.
+ */
+
+import { MAX_QR_IMAGE_SIZE_BYTES } from "~/lib/qr-generation";
+import type { QrCustomization } from "~/lib/qr-customization";
+import { renderQrSvg } from "~/lib/qr-svg";
+import { uploadQrImage, fetchLogoDataUrl } from "~/lib/qr-storage";
+import { resolveShortestUrl } from "~/lib/qr-shortest";
+import { checkScannability } from "~/lib/qr-scannability";
+import { getTierPermissions } from "~/lib/tier";
+import { SITE_DOMAIN } from "~/lib/constants";
+import type { MutationResult, UrlMutationEnv } from "~/lib/url-mutations";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const QR_URL_TYPES = ["original", "branded", "shortest"] as const;
+
+export type QrUrlType = (typeof QR_URL_TYPES)[number];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SaveQrCodeInput {
+  urlId: number;
+  urlType: QrUrlType;
+  customization: QrCustomization;
+}
+
+export interface SavedQrCode {
+  id: number;
+  urlId: number;
+  urlType: QrUrlType;
+  encodedUrl: string;
+  storagePath: string;
+  /** The stored image, for callers that hand it back (bulk ZIP) */
+  svg: Uint8Array<ArrayBuffer>;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function isQrUrlType(value: unknown): value is QrUrlType {
+  return QR_URL_TYPES.includes(value as QrUrlType);
+}
+
+/**
+ * Renders, checks and stores a QR code for one of the user's URLs.
+ */
+export async function saveQrCode(
+  env: UrlMutationEnv,
+  userId: string,
+  input: SaveQrCodeInput
+): Promise<MutationResult<{ qrCode: SavedQrCode }>> {
+  const { db, r2 } = env;
+  const { urlId, urlType, customization } = input;
+
+  // --- Fetch user's plan for tier-aware limits ---
+  const userRow = await db
+    .prepare("SELECT plan FROM users WHERE clerk_user_id = ?")
+    .bind(userId)
+    .first<{ plan: string }>();
+
+  const permissions = getTierPermissions(userRow?.plan);
+
+  // --- Load the logo, if any ---
+  // The key comes from the client, so make sure it's this user's upload.
+  let logoDataUrl: string | null = null;
+
+  if (customization.logo) {
+    if (!customization.logo.storagePath.startsWith(`qr-logos/${userId}/`)) {
+      return { success: false, error: "Logo not found.", status: 404 };
+    }
+
+    logoDataUrl = await fetchLogoDataUrl(r2, customization.logo.storagePath);
+
+    if (!logoDataUrl) {
+      return {
+        success: false,
+        error: "Logo not found. Please upload it again.",
+        status: 404,
+      };
+    }
+  }
+
+  // --- Verify URL ownership ---
+  const urlRecord = await db
+    .prepare(
+      `SELECT id, shortcode, original_url, subdomain
+       FROM urls WHERE id = ? AND user_id = ?`
+    )
+    .bind(urlId, userId)
+    .first<{
+      id: number;
+      shortcode: string;
+      original_url: string;
+      subdomain: string | null;
+    }>();
+
+  if (!urlRecord) {
+    return { success: false, error: "URL not found.", status: 404 };
+  }
+
+  // --- Resolve the encoded URL based on type ---
+  let encodedUrl: string;
+
+  if (urlType === "original") {
+    encodedUrl = urlRecord.original_url;
+  } else if (urlType === "branded") {
+    if (!urlRecord.subdomain) {
+      return {
+        success: false,
+        error: "This URL doesn't have a branded format.",
+        status: 400,
+      };
+    }
+    encodedUrl = `${urlRecord.subdomain}.${SITE_DOMAIN}/${urlRecord.shortcode}`;
+  } else {
+    // "shortest" — may auto-create a short URL
+    const urlCountRow = await db
+      .prepare("SELECT COUNT(*) as count FROM urls WHERE user_id = ?")
+      .bind(userId)
+      .first<{ count: number }>();
+
+    const shortestResult = await resolveShortestUrl(
+      db,
+      env.cacheKv,
+      userId,
+      urlRecord,
+      urlCountRow?.count ?? 0,
+      permissions.maxUrls
+    );
+
+    if (shortestResult.error) {
+      return { success: false, error: shortestResult.error, status: 400 };
+    }
+
+    encodedUrl = shortestResult.encodedUrl;
+  }
+
+  // --- Render the SVG on the server ---
+  let svgBytes: Uint8Array<ArrayBuffer>;
+
+  try {
+    svgBytes = new TextEncoder().encode(
+      renderQrSvg(encodedUrl, customization, logoDataUrl)
+    );
+  } catch {
+    // QRCode.create throws when the text doesn't fit in any QR version
+    return {
+      success: false,
+      error: "This URL is too long to encode as a QR code.",
+      status: 400,
+    };
+  }
+
+  // --- Refuse codes that won't scan ---
+  // The dashboard preview shows the same report, so from there this
+  // only trips if the client skipped it.
+  const scannability = checkScannability(encodedUrl, customization);
+
+  if (scannability.isBlocking) {
+    const blockingIssue = scannability.issues.find(
+      (issue) => issue.severity === "error"
+    );
+
+    return {
+      success: false,
+      error: blockingIssue?.message ?? "This QR code won't scan.",
+      status: 400,
+    };
+  }
+
+  if (svgBytes.length > MAX_QR_IMAGE_SIZE_BYTES) {
+    return {
+      success: false,
+      error: `Image exceeds the 200KB size limit (${Math.round(svgBytes.length / 1024)}KB).`,
+      status: 413,
+    };
+  }
+
+  // Reserve the slot atomically. If count is already at the limit,
+  // changes === 0 and we return before uploading anything to R2.
+  const insertResult = await db
+    .prepare(
+      `INSERT INTO qr_codes (user_id, url_id, url_type, encoded_url, storage_path, customization)
+       SELECT ?, ?, ?, ?, 'pending', ?
+       WHERE (SELECT COUNT(*) FROM qr_codes WHERE user_id = ?) < ?`
+    )
+    .bind(
+      userId,
+      urlId,
+      urlType,
+      encodedUrl,
+      JSON.stringify(customization),
+      userId,
+      permissions.maxQrCodes
+    )
+    .run();
+
+  if (insertResult.meta.changes === 0) {
+    return {
+      success: false,
+      error: `You've reached the limit of ${permissions.maxQrCodes} QR codes.`,
+      status: 403,
+    };
+  }
+
+  const newRowId = insertResult.meta.last_row_id;
+
+  // Slot is reserved in D1. Now upload the image.
+  // If this fails, we clean up the D1 row so the user's slot is freed.
+  let storagePath: string;
+
+  try {
+    storagePath = await uploadQrImage(r2, userId, svgBytes, "svg");
+  } catch (uploadError: unknown) {
+    await db.prepare("DELETE FROM qr_codes WHERE id = ?").bind(newRowId).run();
+
+    throw uploadError;
+  }
+
+  // Update the placeholder storage_path with the real R2 path.
+  await db
+    .prepare("UPDATE qr_codes SET storage_path = ? WHERE id = ?")
+    .bind(storagePath, newRowId)
+    .run();
+
+  return {
+    success: true,
+    qrCode: { id: newRowId, urlId, urlType, encodedUrl, storagePath, svg: svgBytes },
+  };
+}
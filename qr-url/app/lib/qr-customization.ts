@@ -0,0 +1,400 @@
+/**
+ * qr-customization.ts
+ *
+ * The QR customization model: the type, defaults, UI options, and
+ * a parser that turns untrusted JSON into a valid customization.
+ *
+ * Pure logic — no canvas, no database, no framework imports.
+ * Shared by the browser (form + preview) and the Worker, which renders
+ * the saved image from the stored customization instead of trusting
+ * client-uploaded bytes.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export type ModuleShape = "square" | "dot" | "rounded" | "classy";
+
+/** Shape of a finder pattern ("eye") ring or center */
+export type EyeShape = "square" | "rounded" | "circle";
+
+export type GradientType = "linear" | "radial";
+
+export interface QrCustomization {
+  /**
+   * Foreground (dark module) color. Hex with alpha: "#000000FF".
+   * With a gradient, this is the gradient's start color.
+   */
+  foregroundColor: string;
+  /** Optional gradient across the data modules, or null for solid */
+  foregroundGradient: QrGradient | null;
+  /**
+   * Background (light module) color. Hex with alpha: "#FFFFFFFF".
+   * Alpha "00" gives a transparent background.
+   */
+  backgroundColor: string;
+  /** Image width in pixels: 256, 512, or 1024 */
+  size: number;
+  /** Error correction level: L (7%), M (15%), Q (25%), H (30%) */
+  errorCorrection: ErrorCorrectionLevel;
+  /** Shape of the data modules */
+  moduleShape: ModuleShape;
+  /** Shape of the three finder pattern rings */
+  eyeOuterShape: EyeShape;
+  /** Shape of the three finder pattern centers */
+  eyeInnerShape: EyeShape;
+  /** Finder ring color. Hex with alpha: "#000000FF" */
+  eyeOuterColor: string;
+  /** Finder center color. Hex with alpha: "#000000FF" */
+  eyeInnerColor: string;
+  /** Optional logo composited into the center, or null */
+  logo: QrLogo | null;
+}
+
+/**
+ * A two-stop gradient from foregroundColor to endColor, spanning the
+ * whole code (not each module), so it reads as one sweep of color.
+ */
+export interface QrGradient {
+  type: GradientType;
+  /** Hex with alpha: "#0000FFFF" */
+  endColor: string;
+  /** Linear only: direction in degrees, 0 = left → right, 90 = top → bottom */
+  rotation: number;
+}
+
+/**
+ * A logo reference. The image itself lives in R2 (see qr-storage.ts);
+ * only its key and placement are stored in the customization JSON.
+ */
+export interface QrLogo {
+  /** R2 key: "qr-logos/{userId}/{randomId}.{png|jpg|webp}" */
+  storagePath: string;
+  /** Logo width as a fraction of the code width (without quiet zone) */
+  sizeRatio: number;
+  /** Modules cleared around the logo on every side */
+  padding: number;
+}
+
+export type QrCustomizationParseResult =
+  | { isValid: true; error: null; customization: QrCustomization }
+  | { isValid: false; error: string; customization: null };
+
+// ---------------------------------------------------------------------------
+// Defaults and UI options
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_CUSTOMIZATION: QrCustomization = {
+  foregroundColor: "#000000FF",
+  foregroundGradient: null,
+  backgroundColor: "#FFFFFFFF",
+  size: 512,
+  errorCorrection: "M",
+  moduleShape: "square",
+  eyeOuterShape: "square",
+  eyeInnerShape: "square",
+  eyeOuterColor: "#000000FF",
+  eyeInnerColor: "#000000FF",
+  logo: null,
+};
+
+/** Available size options for the UI */
+export const SIZE_OPTIONS = [
+  { value: 256, label: "256px (small)" },
+  { value: 512, label: "512px (medium)" },
+  { value: 1024, label: "1024px (large)" },
+] as const;
+
+/** Available error correction levels for the UI */
+export const ERROR_CORRECTION_OPTIONS = [
+  { value: "L" as const, label: "Low (7%)" },
+  { value: "M" as const, label: "Medium (15%)" },
+  { value: "Q" as const, label: "Quartile (25%)" },
+  { value: "H" as const, label: "High (30%)" },
+] as const;
+
+/** Available module shapes for the UI */
+export const MODULE_SHAPE_OPTIONS = [
+  { value: "square" as const, label: "Square" },
+  { value: "dot" as const, label: "Dots" },
+  { value: "rounded" as const, label: "Rounded" },
+  { value: "classy" as const, label: "Classy" },
+] as const;
+
+/** Available finder pattern ("eye") shapes for the UI */
+export const EYE_SHAPE_OPTIONS = [
+  { value: "square" as const, label: "Square" },
+  { value: "rounded" as const, label: "Rounded" },
+  { value: "circle" as const, label: "Circle" },
+] as const;
+
+/** Available gradient types for the UI */
+export const GRADIENT_TYPE_OPTIONS = [
+  { value: "linear" as const, label: "Linear" },
+  { value: "radial" as const, label: "Radial" },
+] as const;
+
+/** Available linear gradient directions for the UI, in degrees */
+export const GRADIENT_ROTATION_OPTIONS = [
+  { value: 0, label: "Left → right" },
+  { value: 45, label: "Diagonal ↘" },
+  { value: 90, label: "Top → bottom" },
+  { value: 135, label: "Diagonal ↙" },
+] as const;
+
+/** Available logo sizes for the UI, as a fraction of the code width */
+export const LOGO_SIZE_OPTIONS = [
+  { value: 0.15, label: "Small" },
+  { value: 0.2, label: "Medium" },
+  { value: 0.25, label: "Large" },
+] as const;
+
+/** Available logo padding for the UI, in modules */
+export const LOGO_PADDING_OPTIONS = [
+  { value: 0, label: "None" },
+  { value: 1, label: "1 module" },
+  { value: 2, label: "2 modules" },
+] as const;
+
+/**
+ * A logo hides part of the code, which the scanner has to rebuild from
+ * error correction data. L and M don't leave enough redundancy for that.
+ */
+export const LOGO_ERROR_CORRECTION: readonly ErrorCorrectionLevel[] = ["Q", "H"];
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** "#RRGGBB" or "#RRGGBBAA" */
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/;
+
+const VALID_SIZES = new Set<number>(SIZE_OPTIONS.map((option) => option.value));
+
+const VALID_ERROR_CORRECTION = new Set<string>(
+  ERROR_CORRECTION_OPTIONS.map((option) => option.value)
+);
+
+const VALID_MODULE_SHAPES = new Set<string>(
+  MODULE_SHAPE_OPTIONS.map((option) => option.value)
+);
+
+const VALID_EYE_SHAPES = new Set<string>(
+  EYE_SHAPE_OPTIONS.map((option) => option.value)
+);
+
+const VALID_GRADIENT_TYPES = new Set<string>(
+  GRADIENT_TYPE_OPTIONS.map((option) => option.value)
+);
+
+const VALID_GRADIENT_ROTATIONS = new Set<number>(
+  GRADIENT_ROTATION_OPTIONS.map((option) => option.value)
+);
+
+const VALID_LOGO_SIZES = new Set<number>(
+  LOGO_SIZE_OPTIONS.map((option) => option.value)
+);
+
+const VALID_LOGO_PADDING = new Set<number>(
+  LOGO_PADDING_OPTIONS.map((option) => option.value)
+);
+
+/** Matches the keys written by uploadLogoImage */
+const LOGO_PATH_PATTERN = /^qr-logos\/[^/]+\/[A-Za-z0-9]{12}\.(png|jpg|webp)$/;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses and validates a customization JSON string from a form submission.
+ *
+ * The server renders the QR image from this object, so every field is
+ * checked against the same options the UI offers. Colors are normalized
+ * to 8-digit uppercase hex ("#000000FF") so stored JSON is consistent.
+ */
+export function parseQrCustomization(
+  json: string
+): QrCustomizationParseResult {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return invalid("Invalid customization data.");
+  }
+
+  if (typeof raw !== "object" || raw === null) {
+    return invalid("Invalid customization data.");
+  }
+
+  const input = raw as Record<string, unknown>;
+
+  const foregroundColor = normalizeHexColor(input.foregroundColor);
+  const backgroundColor = normalizeHexColor(input.backgroundColor);
+
+  if (!foregroundColor || !backgroundColor) {
+    return invalid("Colors must be hex values like #000000.");
+  }
+
+  if (typeof input.size !== "number" || !VALID_SIZES.has(input.size)) {
+    return invalid("Invalid QR code size.");
+  }
+
+  if (
+    typeof input.errorCorrection !== "string" ||
+    !VALID_ERROR_CORRECTION.has(input.errorCorrection)
+  ) {
+    return invalid("Invalid error correction level.");
+  }
+
+  const errorCorrection = input.errorCorrection as ErrorCorrectionLevel;
+
+  let foregroundGradient: QrGradient | null = null;
+
+  if (input.foregroundGradient !== undefined && input.foregroundGradient !== null) {
+    foregroundGradient = parseGradient(input.foregroundGradient);
+
+    if (!foregroundGradient) {
+      return invalid("Invalid gradient settings.");
+    }
+  }
+
+  // Styling fields were added later; older customizations are plain
+  // squares with eyes in the foreground color.
+  const moduleShape = input.moduleShape ?? "square";
+  const eyeOuterShape = input.eyeOuterShape ?? "square";
+  const eyeInnerShape = input.eyeInnerShape ?? "square";
+
+  if (typeof moduleShape !== "string" || !VALID_MODULE_SHAPES.has(moduleShape)) {
+    return invalid("Invalid module shape.");
+  }
+
+  if (
+    typeof eyeOuterShape !== "string" ||
+    !VALID_EYE_SHAPES.has(eyeOuterShape) ||
+    typeof eyeInnerShape !== "string" ||
+    !VALID_EYE_SHAPES.has(eyeInnerShape)
+  ) {
+    return invalid("Invalid finder pattern shape.");
+  }
+
+  const eyeOuterColor =
+    input.eyeOuterColor === undefined
+      ? foregroundColor
+      : normalizeHexColor(input.eyeOuterColor);
+  const eyeInnerColor =
+    input.eyeInnerColor === undefined
+      ? foregroundColor
+      : normalizeHexColor(input.eyeInnerColor);
+
+  if (!eyeOuterColor || !eyeInnerColor) {
+    return invalid("Colors must be hex values like #000000.");
+  }
+  let logo: QrLogo | null = null;
+
+  // Customizations saved before logo support have no "logo" key
+  if (input.logo !== undefined && input.logo !== null) {
+    logo = parseLogo(input.logo);
+
+    if (!logo) {
+      return invalid("Invalid logo settings.");
+    }
+
+    if (!LOGO_ERROR_CORRECTION.includes(errorCorrection)) {
+      return invalid("QR codes with a logo need error correction Q or H.");
+    }
+  }
+
+  return {
+    isValid: true,
+    error: null,
+    customization: {
+      foregroundColor,
+      foregroundGradient,
+      backgroundColor,
+      size: input.size,
+      errorCorrection,
+      moduleShape: moduleShape as ModuleShape,
+      eyeOuterShape: eyeOuterShape as EyeShape,
+      eyeInnerShape: eyeInnerShape as EyeShape,
+      eyeOuterColor,
+      eyeInnerColor,
+      logo,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * "#abc123" → "#ABC123FF", "#abc12380" → "#ABC12380", anything else → null
+ */
+function normalizeHexColor(value: unknown): string | null {
+  if (typeof value !== "string" || !HEX_COLOR_PATTERN.test(value)) {
+    return null;
+  }
+
+  const upper = value.toUpperCase();
+
+  return upper.length === 7 ? upper + "FF" : upper;
+}
+
+function parseGradient(value: unknown): QrGradient | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const input = value as Record<string, unknown>;
+  const endColor = normalizeHexColor(input.endColor);
+
+  if (
+    typeof input.type !== "string" ||
+    !VALID_GRADIENT_TYPES.has(input.type) ||
+    !endColor ||
+    typeof input.rotation !== "number" ||
+    !VALID_GRADIENT_ROTATIONS.has(input.rotation)
+  ) {
+    return null;
+  }
+
+  return {
+    type: input.type as GradientType,
+    endColor,
+    rotation: input.rotation,
+  };
+}
+
+function parseLogo(value: unknown): QrLogo | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const input = value as Record<string, unknown>;
+
+  if (
+    typeof input.storagePath !== "string" ||
+    !LOGO_PATH_PATTERN.test(input.storagePath) ||
+    typeof input.sizeRatio !== "number" ||
+    !VALID_LOGO_SIZES.has(input.sizeRatio) ||
+    typeof input.padding !== "number" ||
+    !VALID_LOGO_PADDING.has(input.padding)
+  ) {
+    return null;
+  }
+
+  return {
+    storagePath: input.storagePath,
+    sizeRatio: input.sizeRatio,
+    padding: input.padding,
+  };
+}
+
+function invalid(error: string): QrCustomizationParseResult {
+  return { isValid: false, error, customization: null };
+}
@@ -0,0 +1,569 @@
+/**
+ * qr-export.ts
+ *
+ * Renders a saved QR code into downloadable file formats:
+ *   - svg → vector, for the web and most design tools
+ *   - pdf → vector, for print shops
+ *   - eps → vector PostScript, for older print/design pipelines
+ *   - png → raster, at 1× or 2× the saved pixel size for high-DPI use
+ *
+ * Pure TypeScript, no canvas — runs inside the Worker. Every format is
+ * built from the same shapes (qr-shapes.ts), so all exports of a saved
+ * code — module shapes and eye styles included — are the same code,
+ * just in a different container.
+ *
+ * Logos:
+ *   Only SVG can carry a logo — it embeds the image as-is. Drawing a
+ *   PNG/JPEG/WebP logo into PDF, EPS or our indexed PNG would mean
+ *   decoding it, which needs an image library we don't ship to the
+ *   Worker. Callers must not request other formats for logo codes; the
+ *   dashboard rasterizes their PNGs in the browser from the SVG export
+ *   (QrListItem), and doesn't offer PDF or EPS for them.
+ *
+ * Transparency:
+ *   SVG, PDF and PNG keep color alpha. EPS has no transparency model,
+ *   so colors are drawn opaque and a fully transparent background is
+ *   simply left out.
+ *
+ * Gradients:
+ *   SVG, PDF (shading pattern) and EPS (Level 3 shfill) draw smooth
+ *   gradients; PNG quantizes them into palette steps. PDF applies the
+ *   start color's opacity to the whole gradient — per-stop opacity
+ *   would need a soft mask.
+ */
+
+import type { QrCustomization } from "~/lib/qr-customization";
+import {
+  buildQrMatrix,
+  renderQrSvg,
+  splitHexColor,
+  QR_MARGIN_MODULES,
+} from "~/lib/qr-svg";
+import type { QrMatrix } from "~/lib/qr-svg";
+import {
+  buildShapeLayers,
+  createPointClassifier,
+  isBlockStyle,
+  traceShape,
+} from "~/lib/qr-shapes";
+import type { QrLayer, QrShape, ShapePen } from "~/lib/qr-shapes";
+import {
+  computeGradientGeometry,
+  gradientPositionAt,
+  interpolateColor,
+} from "~/lib/qr-gradient";
+import type { GradientGeometry } from "~/lib/qr-gradient";
+import { crc32, concatBytes } from "~/lib/binary";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const EXPORT_FORMATS = ["svg", "png", "pdf", "eps"] as const;
+
+export type QrExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Scale cap for the vector formats, where scale only sets the nominal
+ * page size — rendering costs the same at any scale.
+ */
+export const MAX_EXPORT_SCALE = 4;
+
+/**
+ * PNG scale cap. Every pixel is classified in JS (renderPng) and
+ * nothing is cached, so the cost grows with the square of the scale:
+ * 1024px × 2 = 2048px per side is ~4M pixels per request. 4× would be
+ * four times that.
+ */
+export const MAX_PNG_EXPORT_SCALE = 2;
+
+/** CSS pixels are 1/96 inch, PDF/PostScript points are 1/72 inch. */
+const POINTS_PER_PIXEL = 72 / 96;
+
+/**
+ * Palette entries for a gradient, after the 4 fixed layer colors.
+ * 252 steps is as smooth as an 8-bit palette allows.
+ */
+const PNG_GRADIENT_STEPS = 256 - 4;
+
+/** PNG palette index (= pixel value) per layer */
+const PNG_PALETTE_INDEX: Record<QrLayer, number> = {
+  background: 0,
+  module: 1,
+  eyeOuter: 2,
+  eyeInner: 3,
+};
+
+const CONTENT_TYPES: Record<QrExportFormat, string> = {
+  svg: "image/svg+xml",
+  png: "image/png",
+  pdf: "application/pdf",
+  eps: "application/postscript",
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface QrExportResult {
+  body: Uint8Array<ArrayBuffer>;
+  contentType: string;
+  /** File extension without the dot: "svg", "pdf", ... */
+  extension: QrExportFormat;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function isExportFormat(value: string): value is QrExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/** Largest scale renderQrExport accepts for a format */
+export function maxExportScale(format: QrExportFormat): number {
+  return format === "png" ? MAX_PNG_EXPORT_SCALE : MAX_EXPORT_SCALE;
+}
+
+/**
+ * Renders a QR code in the requested format.
+ *
+ * @param text - The encoded URL (qr_codes.encoded_url)
+ * @param customization - The saved customization (qr_codes.customization)
+ * @param format - Output format
+ * @param scale - Size multiplier, 1 to maxExportScale(format). For PNG
+ *                this is pixel density; for vector formats it only
+ *                changes the nominal page/canvas size.
+ * @param logoDataUrl - The logo as a data URI, for codes with a logo
+ */
+export async function renderQrExport(
+  text: string,
+  customization: QrCustomization,
+  format: QrExportFormat,
+  scale: number,
+  logoDataUrl: string | null = null
+): Promise<QrExportResult> {
+  if (customization.logo && format !== "svg") {
+    throw new Error("QR codes with a logo can only be exported as SVG.");
+  }
+
+  const scaled: QrCustomization = {
+    ...customization,
+    size: customization.size * scale,
+  };
+
+  let body: Uint8Array<ArrayBuffer>;
+
+  if (format === "svg") {
+    body = new TextEncoder().encode(renderQrSvg(text, scaled, logoDataUrl));
+  } else {
+    const matrix = buildQrMatrix(text, customization.errorCorrection);
+
+    if (format === "pdf") {
+      body = renderPdf(matrix, scaled);
+    } else if (format === "eps") {
+      body = renderEps(matrix, scaled);
+    } else {
+      body = await renderPng(matrix, scaled);
+    }
+  }
+
+  return { body, contentType: CONTENT_TYPES[format], extension: format };
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds a single-page PDF with the code drawn as filled paths.
+ *
+ * Structure (the smallest valid PDF that viewers and RIPs accept):
+ *   1 Catalog → 2 Pages → 3 Page → 4 content stream
+ *   5–8 ExtGState objects carrying each color's opacity
+ *       (background, modules, eye rings, eye centers)
+ *   9   shading pattern, only with a gradient foreground
+ *
+ * The content stream flips the y-axis and scales 1 unit = 1 module,
+ * so the shape coordinates match the SVG viewBox exactly.
+ */
+function renderPdf(matrix: QrMatrix, customization: QrCustomization): Uint8Array<ArrayBuffer> {
+  const modules = matrix.size + QR_MARGIN_MODULES * 2;
+  const pageSize = formatNumber(customization.size * POINTS_PER_PIXEL);
+  const moduleSize = formatNumber((customization.size * POINTS_PER_PIXEL) / modules);
+
+  const background = toRgb(customization.backgroundColor);
+  const fills = layerFills(matrix, customization);
+
+  const transform = `${moduleSize} 0 0 -${moduleSize} 0 ${pageSize}`;
+  const gradientFill = fills.find((fill) => fill.gradient);
+
+  const content = [
+    `${transform} cm`,
+    `/GS0 gs ${background.pdf} rg 0 0 ${modules} ${modules} re f`,
+    ...fills.flatMap((fill, index) => [
+      fill.gradient
+        ? `/GS${index + 1} gs /Pattern cs /P0 scn`
+        : `/GS${index + 1} gs ${fill.color.pdf} rg`,
+      ...tracePath(fill.shapes, { move: "m", line: "l", curve: "c", close: "h" }),
+      "f*",
+    ]),
+  ].join("\n");
+
+  const opacities = [background, ...fills.map((fill) => fill.color)];
+  const graphicsStates = opacities
+    .map((color, index) => `/GS${index} ${index + 5} 0 R`)
+    .join(" ");
+  const patternObjectNumber = opacities.length + 5;
+  const patterns = gradientFill ? ` /Pattern << /P0 ${patternObjectNumber} 0 R >>` : "";
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageSize} ${pageSize}] /Contents 4 0 R /Resources << /ExtGState << ${graphicsStates} >>${patterns} >> >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    ...opacities.map((color) => `<< /Type /ExtGState /ca ${color.alpha} >>`),
+  ];
+
+  if (gradientFill?.gradient) {
+    // Patterns ignore the content stream's cm, so the pattern gets the
+    // same transform in /Matrix to keep its coordinates in module units.
+    objects.push(
+      `<< /PatternType 2 /Matrix [${transform}] /Shading ${shadingDictionary(gradientFill.color, gradientFill.gradient)} >>`
+    );
+  }
+
+  // The xref table needs each object's byte offset. Everything here is
+  // ASCII, so string length === byte length.
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
+
+// ---------------------------------------------------------------------------
+// EPS
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds an Encapsulated PostScript file (EPSF-3.0).
+ * Same paths and even-odd fill as the PDF, in PostScript operators.
+ * A gradient is drawn by clipping to the module path and painting a
+ * shading over it (shfill), which needs LanguageLevel 3.
+ */
+function renderEps(matrix: QrMatrix, customization: QrCustomization): Uint8Array<ArrayBuffer> {
+  const modules = matrix.size + QR_MARGIN_MODULES * 2;
+  const pageSizeExact = customization.size * POINTS_PER_PIXEL;
+  const moduleSize = formatNumber(pageSizeExact / modules);
+
+  const background = toRgb(customization.backgroundColor);
+
+  const lines = [
+    "%!PS-Adobe-3.0 EPSF-3.0",
+    `%%BoundingBox: 0 0 ${Math.ceil(pageSizeExact)} ${Math.ceil(pageSizeExact)}`,
+    `%%HiResBoundingBox: 0 0 ${formatNumber(pageSizeExact)} ${formatNumber(pageSizeExact)}`,
+    "%%Title: QR code",
+    `%%LanguageLevel: ${customization.foregroundGradient ? 3 : 2}`,
+    "%%Pages: 1",
+    "%%EndComments",
+    "gsave",
+    `0 ${formatNumber(pageSizeExact)} translate`,
+    `${moduleSize} -${moduleSize} scale`,
+  ];
+
+  if (background.alpha > 0) {
+    lines.push(`${background.pdf} setrgbcolor 0 0 ${modules} ${modules} rectfill`);
+  }
+
+  for (const fill of layerFills(matrix, customization)) {
+    if (fill.gradient) {
+      lines.push(
+        "gsave newpath",
+        ...tracePath(fill.shapes, {
+          move: "moveto",
+          line: "lineto",
+          curve: "curveto",
+          close: "closepath",
+        }),
+        "eoclip",
+        `${shadingDictionary(fill.color, fill.gradient)} shfill`,
+        "grestore"
+      );
+      continue;
+    }
+
+    lines.push(
+      `${fill.color.pdf} setrgbcolor newpath`,
+      ...tracePath(fill.shapes, {
+        move: "moveto",
+        line: "lineto",
+        curve: "curveto",
+        close: "closepath",
+      }),
+      "eofill"
+    );
+  }
+
+  lines.push("grestore", "showpage", "%%EOF", "");
+
+  return new TextEncoder().encode(lines.join("\n"));
+}
+
+// ---------------------------------------------------------------------------
+// PNG
+// ---------------------------------------------------------------------------
+
+/**
+ * Rasterizes the code into an indexed PNG.
+ *
+ * A solid code has at most four colors (background, modules, eye
+ * rings, eye centers), so a 4-entry palette with a tRNS chunk (for
+ * alpha) is both the smallest PNG and the cheapest to build: two bits
+ * per pixel, no per-pixel color math. A gradient adds up to 252
+ * palette steps and switches to eight bits per pixel.
+ *
+ * Each pixel takes the layer under its center. Edges
+ * are hard, not anti-aliased — scanners prefer that, and at 2× the
+ * steps on curves are invisible.
+ */
+async function renderPng(
+  matrix: QrMatrix,
+  customization: QrCustomization
+): Promise<Uint8Array<ArrayBuffer>> {
+  const width = customization.size;
+  const modules = matrix.size + QR_MARGIN_MODULES * 2;
+  const unitsPerPixel = modules / width;
+
+  const colors = [
+    customization.backgroundColor,
+    customization.foregroundColor,
+    customization.eyeOuterColor,
+    customization.eyeInnerColor,
+  ];
+
+  const gradient = customization.foregroundGradient;
+  const gradientGeometry = gradient
+    ? computeGradientGeometry(gradient, modules)
+    : null;
+
+  if (gradient) {
+    for (let step = 0; step < PNG_GRADIENT_STEPS; step++) {
+      colors.push(
+        interpolateColor(
+          customization.foregroundColor,
+          gradient.endColor,
+          step / (PNG_GRADIENT_STEPS - 1)
+        )
+      );
+    }
+  }
+
+  const bitDepth = gradient ? 8 : 2;
+  const pixelsPerByte = 8 / bitDepth;
+  const bytesPerRow = Math.ceil(width / pixelsPerByte);
+
+  // Pixel centers in viewBox units, plus the module each falls in
+  const center = new Float64Array(width);
+  const moduleIndex = new Int32Array(width);
+  for (let px = 0; px < width; px++) {
+    center[px] = (px + 0.5) * unitsPerPixel;
+    moduleIndex[px] = Math.floor(center[px]);
+  }
+
+  // With only squares and solid colors, a pixel's color depends on its
+  // module alone, so consecutive scanlines in the same module row are
+  // identical.
+  const canCopyRows = isBlockStyle(customization) && !gradient;
+  const classify = createPointClassifier(matrix, customization);
+
+  // Each scanline: 1 filter byte (0 = none) + packed pixels
+  const raw = new Uint8Array((bytesPerRow + 1) * width);
+
+  for (let py = 0; py < width; py++) {
+    const rowStart = py * (bytesPerRow + 1);
+
+    if (canCopyRows && py > 0 && moduleIndex[py - 1] === moduleIndex[py]) {
+      raw.copyWithin(rowStart, rowStart - (bytesPerRow + 1), rowStart);
+      continue;
+    }
+
+    for (let px = 0; px < width; px++) {
+      let index = PNG_PALETTE_INDEX[classify(center[px], center[py])];
+
+      if (index === PNG_PALETTE_INDEX.module && gradientGeometry) {
+        const t = gradientPositionAt(gradientGeometry, center[px], center[py]);
+        index = 4 + Math.round(t * (PNG_GRADIENT_STEPS - 1));
+      }
+
+      if (index > 0) {
+        const shift = 8 - bitDepth * ((px % pixelsPerByte) + 1);
+        raw[rowStart + 1 + Math.floor(px / pixelsPerByte)] |= index << shift;
+      }
+    }
+  }
+
+  const palette = colors.map(toRgb);
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, width);
+  header[8] = bitDepth;
+  header[9] = 3; // color type: indexed
+  // bytes 10-12: compression, filter, interlace — all 0
+
+  const paletteBytes = new Uint8Array(palette.flatMap((color) => color.bytes));
+  const transparency = new Uint8Array(
+    palette.map((color) => Math.round(color.alpha * 255))
+  );
+
+  return concatBytes([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("PLTE", paletteBytes),
+    pngChunk("tRNS", transparency),
+    pngChunk("IDAT", await zlibCompress(raw)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ]);
+}
+
+/** length (4) + type (4) + data + CRC-32 of type+data (4) */
+function pngChunk(type: string, chunkData: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + chunkData.length);
+  const view = new DataView(chunk.buffer);
+
+  view.setUint32(0, chunkData.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(chunkData, 8);
+  view.setUint32(8 + chunkData.length, crc32(chunk.subarray(4, 8 + chunkData.length)));
+
+  return chunk;
+}
+
+/**
+ * PNG's IDAT is a zlib stream. CompressionStream("deflate") produces
+ * exactly that (zlib header + deflate + adler32) and is built into
+ * Workers and browsers — no compression library needed.
+ */
+async function zlibCompress(input: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([input]).stream().pipeThrough(
+    new CompressionStream("deflate")
+  );
+
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface LayerFill {
+  shapes: QrShape[];
+  /** Solid color, or the gradient's start color */
+  color: ReturnType<typeof toRgb>;
+  gradient: { geometry: GradientGeometry; end: ReturnType<typeof toRgb> } | null;
+}
+
+/** The three drawn layers with their colors, in paint order. */
+function layerFills(matrix: QrMatrix, customization: QrCustomization): LayerFill[] {
+  const layers = buildShapeLayers(matrix, customization);
+  const modules = matrix.size + QR_MARGIN_MODULES * 2;
+  const gradient = customization.foregroundGradient;
+
+  return [
+    {
+      shapes: layers.modules,
+      color: toRgb(customization.foregroundColor),
+      gradient: gradient
+        ? {
+            geometry: computeGradientGeometry(gradient, modules),
+            end: toRgb(gradient.endColor),
+          }
+        : null,
+    },
+    { shapes: layers.eyeOuter, color: toRgb(customization.eyeOuterColor), gradient: null },
+    { shapes: layers.eyeInner, color: toRgb(customization.eyeInnerColor), gradient: null },
+  ];
+}
+
+/**
+ * Axial (type 2) or radial (type 3) shading dictionary. PDF and
+ * PostScript Level 3 share this syntax, so both exports use it.
+ * The function linearly blends start → end; Extend pads both ends.
+ */
+function shadingDictionary(
+  start: LayerFill["color"],
+  gradient: NonNullable<LayerFill["gradient"]>
+): string {
+  const { geometry, end } = gradient;
+  const coords =
+    geometry.type === "linear"
+      ? [geometry.x1, geometry.y1, geometry.x2, geometry.y2]
+      : [geometry.cx, geometry.cy, 0, geometry.cx, geometry.cy, geometry.r];
+
+  return [
+    `<< /ShadingType ${geometry.type === "linear" ? 2 : 3}`,
+    "/ColorSpace /DeviceRGB",
+    `/Coords [${coords.map(formatNumber).join(" ")}]`,
+    `/Function << /FunctionType 2 /Domain [0 1] /C0 [${start.pdf}] /C1 [${end.pdf}] /N 1 >>`,
+    "/Extend [true true] >>",
+  ].join(" ");
+}
+
+/**
+ * Shapes → postfix path operators ("x y m", "x y l", ...). PDF and
+ * PostScript share the operand order, only the operator names differ.
+ */
+function tracePath(
+  shapes: QrShape[],
+  operators: { move: string; line: string; curve: string; close: string }
+): string[] {
+  const lines: string[] = [];
+  const point = (...values: number[]) => values.map(formatNumber).join(" ");
+
+  const pen: ShapePen = {
+    moveTo: (x, y) => lines.push(`${point(x, y)} ${operators.move}`),
+    lineTo: (x, y) => lines.push(`${point(x, y)} ${operators.line}`),
+    curveTo: (x1, y1, x2, y2, x, y) =>
+      lines.push(`${point(x1, y1, x2, y2, x, y)} ${operators.curve}`),
+    close: () => lines.push(operators.close),
+  };
+
+  for (const shape of shapes) {
+    traceShape(shape, pen);
+  }
+
+  return lines;
+}
+
+/**
+ * "#RRGGBBAA" → RGB bytes, PDF/PS operand string ("0.5 0 1") and 0–1 alpha.
+ */
+function toRgb(color: string): { bytes: number[]; pdf: string; alpha: number } {
+  const { hex, opacity } = splitHexColor(color);
+  const bytes = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+  return {
+    bytes,
+    pdf: bytes.map((b) => formatNumber(b / 255)).join(" "),
+    alpha: opacity,
+  };
+}
+
+/** Up to 4 decimals, no trailing zeros — keeps PDF/EPS output compact. */
+function formatNumber(n: number): string {
+  return String(Math.round(n * 10000) / 10000);
+}
@@ -0,0 +1,105 @@
+/**
+ * qr-gradient.ts
+ *
+ * Geometry and color math for gradient foregrounds. Pure logic, shared
+ * by every renderer so SVG, PDF, EPS and PNG put the gradient in the
+ * same place:
+ *   - SVG uses the geometry for <linearGradient>/<radialGradient>
+ *   - PDF/EPS use it for axial/radial shading dictionaries
+ *   - PNG samples gradientPositionAt() per pixel
+ *
+ * Geometry is in viewBox units (1 unit = 1 module, quiet zone included)
+ * and always spans the whole code, so the gradient covers every corner.
+ */
+
+import type { QrGradient } from "~/lib/qr-customization";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type GradientGeometry =
+  | { type: "linear"; x1: number; y1: number; x2: number; y2: number }
+  | { type: "radial"; cx: number; cy: number; r: number };
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Where the gradient starts and ends for a code `viewBoxSize` wide.
+ *
+ * Linear: a line through the center along `rotation`, long enough that
+ *         perpendiculars through the far corners land on its ends.
+ * Radial: centered, reaching the corners (half the diagonal).
+ */
+export function computeGradientGeometry(
+  gradient: QrGradient,
+  viewBoxSize: number
+): GradientGeometry {
+  const center = viewBoxSize / 2;
+
+  if (gradient.type === "radial") {
+    return { type: "radial", cx: center, cy: center, r: center * Math.SQRT2 };
+  }
+
+  const angle = (gradient.rotation * Math.PI) / 180;
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  const halfLength = center * (Math.abs(dx) + Math.abs(dy));
+
+  return {
+    type: "linear",
+    x1: round(center - dx * halfLength),
+    y1: round(center - dy * halfLength),
+    x2: round(center + dx * halfLength),
+    y2: round(center + dy * halfLength),
+  };
+}
+
+/**
+ * Gradient position (0 = start color, 1 = end color) at a point.
+ * Matches SVG/PDF "pad" behavior: clamped at both ends.
+ */
+export function gradientPositionAt(
+  geometry: GradientGeometry,
+  x: number,
+  y: number
+): number {
+  let t: number;
+
+  if (geometry.type === "radial") {
+    t = Math.hypot(x - geometry.cx, y - geometry.cy) / geometry.r;
+  } else {
+    const vx = geometry.x2 - geometry.x1;
+    const vy = geometry.y2 - geometry.y1;
+    t = ((x - geometry.x1) * vx + (y - geometry.y1) * vy) / (vx * vx + vy * vy);
+  }
+
+  return Math.min(1, Math.max(0, t));
+}
+
+/**
+ * Blends two "#RRGGBBAA" colors. t = 0 → start, t = 1 → end.
+ */
+export function interpolateColor(start: string, end: string, t: number): string {
+  const channel = (color: string, i: number) => parseInt(color.slice(i, i + 2), 16);
+
+  let result = "#";
+
+  for (const i of [1, 3, 5, 7]) {
+    const value = Math.round(channel(start, i) + (channel(end, i) - channel(start, i)) * t);
+    result += value.toString(16).padStart(2, "0").toUpperCase();
+  }
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** 4 decimals is plenty for module units and keeps output stable */
+function round(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
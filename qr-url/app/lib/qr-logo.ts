@@ -0,0 +1,164 @@
+/**
+ * qr-logo.ts
+ *
+ * Logo support for QR codes: upload validation and placement geometry.
+ * Pure logic — shared by the browser (preview) and the Worker (save,
+ * upload, export).
+ *
+ * How a logo fits into a QR code:
+ *   The logo covers the center of the code. Modules under it (plus
+ *   `padding` modules around it) are cleared to the background color so
+ *   the logo sits on a clean area instead of a noisy pattern. Scanners
+ *   treat the cleared modules as damage and recover them through error
+ *   correction — which is why a logo requires level Q or H.
+ *
+ * Function patterns (finders, timing, the corner alignment pattern) are
+ * not covered by error correction, so the cleared area is clamped to
+ * stay clear of them. Tiny codes (versions 1–4) don't have enough room
+ * between them, so codes with a logo are bumped to at least version 5.
+ */
+
+import type { QrLogo } from "~/lib/qr-customization";
+import type { QrMatrix } from "~/lib/qr-svg";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Logo files are embedded in the saved SVG as base64 (~33% larger),
+ * and the whole SVG must stay under MAX_QR_IMAGE_SIZE_BYTES (200KB).
+ */
+export const MAX_LOGO_SIZE_BYTES = 100 * 1024;
+
+/** File extension per accepted content type */
+export const LOGO_CONTENT_TYPES = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+} as const;
+
+export type LogoContentType = keyof typeof LOGO_CONTENT_TYPES;
+
+/** Version 5 = 37×37 modules, enough room for the largest logo option */
+export const LOGO_MIN_QR_VERSION = 5;
+
+/**
+ * Modules kept clear of the cleared area on each edge: the 7-module
+ * finder pattern, its 1-module separator, plus one more module so the
+ * bottom-right alignment pattern stays intact.
+ */
+const FUNCTION_PATTERN_MARGIN = 9;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Where the logo goes, in matrix coordinates (no quiet zone).
+ * The logo is centered, so one start/end pair covers both axes.
+ */
+export interface LogoLayout {
+  /** Top-left of the logo image */
+  imageStart: number;
+  /** Width and height of the logo image, in modules */
+  imageSize: number;
+  /** Cleared area: modules overlapping [clearStart, clearEnd) are hidden */
+  clearStart: number;
+  clearEnd: number;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Identifies a logo file by its magic bytes. The browser-reported
+ * content type is not trusted — only PNG, JPEG and WebP are accepted.
+ * SVG logos are deliberately excluded: they can carry scripts.
+ */
+export function detectLogoContentType(bytes: Uint8Array): LogoContentType | null {
+  if (
+    bytes.length >= 8 &&
+    bytes[0] === 0x89 &&
+    bytes[1] === 0x50 &&
+    bytes[2] === 0x4e &&
+    bytes[3] === 0x47
+  ) {
+    return "image/png";
+  }
+
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+
+  if (
+    bytes.length >= 12 &&
+    readAscii(bytes, 0, 4) === "RIFF" &&
+    readAscii(bytes, 8, 4) === "WEBP"
+  ) {
+    return "image/webp";
+  }
+
+  return null;
+}
+
+/**
+ * Computes logo placement for a matrix of the given size.
+ * The requested size is shrunk if it would reach a function pattern.
+ */
+export function computeLogoLayout(matrixSize: number, logo: QrLogo): LogoLayout {
+  const maxClearSize = Math.max(0, matrixSize - FUNCTION_PATTERN_MARGIN * 2);
+  const clearSize = Math.min(matrixSize * logo.sizeRatio + logo.padding * 2, maxClearSize);
+  const imageSize = Math.max(0, clearSize - logo.padding * 2);
+
+  const center = matrixSize / 2;
+
+  return {
+    imageStart: center - imageSize / 2,
+    imageSize,
+    clearStart: center - clearSize / 2,
+    clearEnd: center + clearSize / 2,
+  };
+}
+
+/**
+ * Wraps a matrix so every module overlapping the cleared area reads
+ * as light. All renderers go through isDark(), so they pick this up
+ * without knowing about logos.
+ */
+export function clearLogoArea(matrix: QrMatrix, layout: LogoLayout): QrMatrix {
+  const isCleared = (index: number) =>
+    index + 1 > layout.clearStart && index < layout.clearEnd;
+
+  return {
+    size: matrix.size,
+    isDark: (row, col) =>
+      !(isCleared(row) && isCleared(col)) && matrix.isDark(row, col),
+  };
+}
+
+/**
+ * Raw image bytes → "data:image/png;base64,..." for embedding in SVG.
+ * Stored SVGs must be self-contained: an external href wouldn't load
+ * when the file is downloaded or opened in a design tool.
+ */
+export function bytesToDataUrl(bytes: Uint8Array, contentType: string): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+
+  // String.fromCharCode with a spread blows the stack on large arrays
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return `data:${contentType};base64,${btoa(binary)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function readAscii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
@@ -0,0 +1,208 @@
+/**
+ * qr-scannability.ts
+ *
+ * Estimates whether a customized QR code will scan reliably.
+ * Pure logic — runs in the preview (warnings) and in the save-qr
+ * action (hard block), so both apply the same rules.
+ *
+ * Checks:
+ *   - Contrast: WCAG relative-luminance contrast ratio between the
+ *     background and every color drawn on it (modules, gradient end,
+ *     eye ring, eye center). The worst pair counts.
+ *   - Inverted colors: light modules on a dark background. The spec
+ *     allows it but many older scanner apps can't read it.
+ *   - Quiet zone: the visible margin is compared with the 4 modules
+ *     the spec asks for. The built-in margin is only 2 modules, so
+ *     the rest has to come from plain space around the placed code;
+ *     with a transparent background even the built-in margin is
+ *     invisible and all of it depends on the artwork behind.
+ *   - Module size: modules only a few pixels wide blur when the
+ *     image is scaled or printed.
+ *
+ * Transparent colors are composited over white first — the usual case
+ * (paper, light web pages). Artwork behind a transparent code isn't
+ * known here, which is exactly what the quiet-zone warning is about.
+ */
+
+import type { QrCustomization } from "~/lib/qr-customization";
+import { buildQrMatrix, QR_MARGIN_MODULES } from "~/lib/qr-svg";
+import { LOGO_MIN_QR_VERSION } from "~/lib/qr-logo";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Below this, saving is refused: most phone cameras can't separate the colors. */
+export const MIN_CONTRAST_RATIO = 2.5;
+
+/** Below this, the code saves but may fail in poor light or on matte print. */
+export const RECOMMENDED_CONTRAST_RATIO = 4.5;
+
+/** Quiet zone the QR spec asks for, in modules */
+const SPEC_QUIET_ZONE_MODULES = 4;
+
+/** Smallest module size (in pixels) we consider comfortable to scan */
+const MIN_MODULE_PIXELS = 4;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ScannabilityIssue {
+  /** "error" blocks saving, "warning" is advice */
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface ScannabilityReport {
+  /** Worst contrast ratio between the background and any drawn color, 1–21 */
+  contrastRatio: number;
+  /** True when drawn colors are lighter than the background */
+  isInverted: boolean;
+  /** Visible quiet zone in modules (0 when the background is transparent) */
+  quietZoneModules: number;
+  /** Width of one module in the saved image, in pixels */
+  modulePixels: number;
+  issues: ScannabilityIssue[];
+  /** True when any issue is an error — save-qr refuses these codes */
+  isBlocking: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks a customization for the given encoded text.
+ * Throws like buildQrMatrix if the text is too long to encode.
+ */
+export function checkScannability(
+  text: string,
+  customization: QrCustomization
+): ScannabilityReport {
+  const matrix = buildQrMatrix(
+    text,
+    customization.errorCorrection,
+    customization.logo ? LOGO_MIN_QR_VERSION : 1
+  );
+
+  const background = compositeOverWhite(customization.backgroundColor);
+  const drawnColors = [
+    customization.foregroundColor,
+    customization.eyeOuterColor,
+    customization.eyeInnerColor,
+  ];
+
+  if (customization.foregroundGradient) {
+    drawnColors.push(customization.foregroundGradient.endColor);
+  }
+
+  const backgroundLuminance = relativeLuminance(background);
+  const drawnLuminances = drawnColors.map((color) =>
+    relativeLuminance(compositeOver(color, background))
+  );
+
+  const contrastRatio = Math.min(
+    ...drawnLuminances.map((luminance) => contrast(luminance, backgroundLuminance))
+  );
+  const isInverted = drawnLuminances.some((luminance) => luminance > backgroundLuminance);
+
+  const isTransparent = alphaOf(customization.backgroundColor) < 1;
+  const quietZoneModules = isTransparent ? 0 : QR_MARGIN_MODULES;
+  const modulePixels =
+    customization.size / (matrix.size + QR_MARGIN_MODULES * 2);
+
+  const issues: ScannabilityIssue[] = [];
+  const ratioLabel = `${contrastRatio.toFixed(1)}:1`;
+
+  if (contrastRatio < MIN_CONTRAST_RATIO) {
+    issues.push({
+      severity: "error",
+      message: `Contrast is too low to scan (${ratioLabel}). Use colors with at least ${MIN_CONTRAST_RATIO}:1 contrast.`,
+    });
+  } else if (contrastRatio < RECOMMENDED_CONTRAST_RATIO) {
+    issues.push({
+      severity: "warning",
+      message: `Contrast is low (${ratioLabel}). ${RECOMMENDED_CONTRAST_RATIO}:1 or more scans reliably.`,
+    });
+  }
+
+  if (isInverted) {
+    issues.push({
+      severity: "warning",
+      message:
+        "Colors are inverted (light code on a dark background). Some scanner apps can't read this.",
+    });
+  }
+
+  if (quietZoneModules < SPEC_QUIET_ZONE_MODULES) {
+    const missingModules = SPEC_QUIET_ZONE_MODULES - quietZoneModules;
+    const missingLabel = `${missingModules} modules (${Math.ceil(modulePixels * missingModules)}px)`;
+
+    issues.push({
+      severity: "warning",
+      message: isTransparent
+        ? `The background is transparent. Leave at least ${missingLabel} of plain, light space around the code.`
+        : `The code's margin is ${quietZoneModules} modules; scanners expect ${SPEC_QUIET_ZONE_MODULES}. Leave at least ${missingLabel} more of plain, light space around it.`,
+    });
+  }
+
+  if (modulePixels < MIN_MODULE_PIXELS) {
+    issues.push({
+      severity: "warning",
+      message: `Modules are only ${modulePixels.toFixed(1)}px wide at this size. Choose a larger size for print.`,
+    });
+  }
+
+  return {
+    contrastRatio,
+    isInverted,
+    quietZoneModules,
+    modulePixels,
+    issues,
+    isBlocking: issues.some((issue) => issue.severity === "error"),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type Rgb = [number, number, number];
+
+/** "#RRGGBBAA" → 0–255 channels */
+function parseChannels(color: string): Rgb {
+  return [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16)) as Rgb;
+}
+
+function alphaOf(color: string): number {
+  return color.length === 9 ? parseInt(color.slice(7, 9), 16) / 255 : 1;
+}
+
+function compositeOverWhite(color: string): Rgb {
+  return compositeOver(color, [255, 255, 255]);
+}
+
+/** Alpha-blends a "#RRGGBBAA" color over an opaque backdrop */
+function compositeOver(color: string, backdrop: Rgb): Rgb {
+  const alpha = alphaOf(color);
+
+  return parseChannels(color).map(
+    (channel, i) => channel * alpha + backdrop[i] * (1 - alpha)
+  ) as Rgb;
+}
+
+/** WCAG 2.x relative luminance of an sRGB color */
+function relativeLuminance(rgb: Rgb): number {
+  const [r, g, b] = rgb.map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** WCAG contrast ratio: (lighter + 0.05) / (darker + 0.05), 1–21 */
+function contrast(a: number, b: number): number {
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
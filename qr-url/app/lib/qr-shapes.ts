@@ -0,0 +1,380 @@
+/**
+ * qr-shapes.ts
+ *
+ * Turns a QR module matrix into drawable shapes, honoring the module
+ * shape and finder "eye" styles from QrCustomization.
+ *
+ * Every shape is a rectangle with an independent radius per corner:
+ *   - square module run → radii 0
+ *   - dot               → 1×1 with every radius 0.5 (a circle)
+ *   - rounded / classy  → radius 0.5 on exposed corners only
+ *   - eyes              → 7×7 ring (outer rect + hole) and 3×3 ball
+ * One primitive keeps SVG, PDF, EPS and PNG output identical: the
+ * vector renderers draw the shapes, the PNG renderer asks
+ * createPointClassifier() which layer a pixel falls in, using the same rules.
+ *
+ * Layers are drawn with the even-odd fill rule, which is what turns
+ * an eye's outer rect + hole into a ring.
+ *
+ * Coordinates are viewBox units: 1 unit = 1 module, quiet zone included.
+ */
+
+import type {
+  QrCustomization,
+  ModuleShape,
+  EyeShape,
+} from "~/lib/qr-customization";
+import type { QrMatrix } from "~/lib/qr-svg";
+import { QR_MARGIN_MODULES } from "~/lib/qr-svg";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Finder patterns are 7×7: a 1-module ring, a gap, and a 3×3 center */
+const EYE_SIZE = 7;
+const EYE_BALL_OFFSET = 2;
+const EYE_BALL_SIZE = 3;
+
+/** Corner radii per eye style: outer edge, hole, and center ball */
+const EYE_RADII: Record<EyeShape, { outer: number; hole: number; ball: number }> = {
+  square: { outer: 0, hole: 0, ball: 0 },
+  rounded: { outer: 2, hole: 1, ball: 1 },
+  circle: { outer: 3.5, hole: 2.5, ball: 1.5 },
+};
+
+/** Which corners each module shape may round: [tl, tr, br, bl] */
+const ROUNDABLE_CORNERS: Record<ModuleShape, [boolean, boolean, boolean, boolean]> = {
+  square: [false, false, false, false],
+  dot: [true, true, true, true],
+  rounded: [true, true, true, true],
+  classy: [true, false, true, false],
+};
+
+const MODULE_RADIUS = 0.5;
+
+/** Bezier control distance for a quarter circle: 4/3 · (√2 − 1) */
+const KAPPA = 0.5523;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A rectangle with corner radii in clockwise order: [tl, tr, br, bl] */
+export interface QrShape {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radii: [number, number, number, number];
+}
+
+export interface QrShapeLayers {
+  /** Data modules, drawn in foregroundColor */
+  modules: QrShape[];
+  /** Eye rings (outer rect + hole per eye), drawn in eyeOuterColor */
+  eyeOuter: QrShape[];
+  /** Eye centers, drawn in eyeInnerColor */
+  eyeInner: QrShape[];
+}
+
+/** What a point belongs to — also the PNG palette index */
+export type QrLayer = "background" | "module" | "eyeOuter" | "eyeInner";
+
+/** Drawing callbacks for traceShape, one per path operator */
+export interface ShapePen {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  curveTo(x1: number, y1: number, x2: number, y2: number, x: number, y: number): void;
+  close(): void;
+}
+
+type ShapeStyle = Pick<QrCustomization, "moduleShape" | "eyeOuterShape" | "eyeInnerShape">;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the shapes for every layer.
+ *
+ * Square, rounded and classy modules are merged into horizontal runs
+ * (rounding only ever applies to a run's end corners), which keeps
+ * vector output small. Dots stay one shape per module.
+ */
+export function buildShapeLayers(matrix: QrMatrix, style: ShapeStyle): QrShapeLayers {
+  const modules: QrShape[] = [];
+
+  for (const run of collectModuleRuns(matrix)) {
+    const row = run.y - QR_MARGIN_MODULES;
+    const firstCol = run.x - QR_MARGIN_MODULES;
+    const lastCol = firstCol + run.length - 1;
+
+    if (style.moduleShape === "dot") {
+      for (let i = 0; i < run.length; i++) {
+        modules.push(rect(run.x + i, run.y, 1, 1, MODULE_RADIUS));
+      }
+      continue;
+    }
+
+    const first = moduleRadii(matrix, row, firstCol, style.moduleShape);
+    const last = moduleRadii(matrix, row, lastCol, style.moduleShape);
+
+    modules.push({
+      x: run.x,
+      y: run.y,
+      width: run.length,
+      height: 1,
+      radii: [first[0], last[1], last[2], first[3]],
+    });
+  }
+
+  const eyeOuter: QrShape[] = [];
+  const eyeInner: QrShape[] = [];
+  const outerRadii = EYE_RADII[style.eyeOuterShape];
+  const ballRadius = EYE_RADII[style.eyeInnerShape].ball;
+
+  for (const eye of eyeOrigins(matrix.size)) {
+    const x = eye.col + QR_MARGIN_MODULES;
+    const y = eye.row + QR_MARGIN_MODULES;
+
+    eyeOuter.push(rect(x, y, EYE_SIZE, EYE_SIZE, outerRadii.outer));
+    eyeOuter.push(rect(x + 1, y + 1, EYE_SIZE - 2, EYE_SIZE - 2, outerRadii.hole));
+    eyeInner.push(
+      rect(x + EYE_BALL_OFFSET, y + EYE_BALL_OFFSET, EYE_BALL_SIZE, EYE_BALL_SIZE, ballRadius)
+    );
+  }
+
+  return { modules, eyeOuter, eyeInner };
+}
+
+/**
+ * Returns a function telling which layer covers the point (x, y), in
+ * viewBox units. The raster counterpart of buildShapeLayers — same
+ * shapes, same rules.
+ *
+ * Built once per image: eye shapes and per-module corner radii are
+ * worked out up front, since a 4096px PNG asks about 16M points.
+ */
+export function createPointClassifier(
+  matrix: QrMatrix,
+  style: ShapeStyle
+): (x: number, y: number) => QrLayer {
+  const outerRadii = EYE_RADII[style.eyeOuterShape];
+  const eyeBall = rect(EYE_BALL_OFFSET, EYE_BALL_OFFSET, EYE_BALL_SIZE, EYE_BALL_SIZE, EYE_RADII[style.eyeInnerShape].ball);
+  const eyeOuter = rect(0, 0, EYE_SIZE, EYE_SIZE, outerRadii.outer);
+  const eyeHole = rect(1, 1, EYE_SIZE - 2, EYE_SIZE - 2, outerRadii.hole);
+
+  // Corner radii for every dark data module, indexed row * size + col
+  const moduleShapes: (QrShape | null)[] = new Array(matrix.size * matrix.size).fill(null);
+
+  for (let row = 0; row < matrix.size; row++) {
+    for (let col = 0; col < matrix.size; col++) {
+      if (matrix.isDark(row, col) && !isInEye(matrix.size, row, col)) {
+        moduleShapes[row * matrix.size + col] =
+          style.moduleShape === "dot"
+            ? rect(col, row, 1, 1, MODULE_RADIUS)
+            : { x: col, y: row, width: 1, height: 1, radii: moduleRadii(matrix, row, col, style.moduleShape) };
+      }
+    }
+  }
+
+  return (x, y) => {
+    const mx = x - QR_MARGIN_MODULES;
+    const my = y - QR_MARGIN_MODULES;
+    const row = Math.floor(my);
+    const col = Math.floor(mx);
+
+    if (row < 0 || col < 0 || row >= matrix.size || col >= matrix.size) {
+      return "background";
+    }
+
+    if (isInEye(matrix.size, row, col)) {
+      // Eyes sit in three corners, so the origin is 0 or size - 7 per axis
+      const ex = col < EYE_SIZE ? mx : mx - (matrix.size - EYE_SIZE);
+      const ey = row < EYE_SIZE ? my : my - (matrix.size - EYE_SIZE);
+
+      if (isInside(eyeBall, ex, ey)) {
+        return "eyeInner";
+      }
+
+      if (isInside(eyeOuter, ex, ey) && !isInside(eyeHole, ex, ey)) {
+        return "eyeOuter";
+      }
+
+      return "background";
+    }
+
+    const shape = moduleShapes[row * matrix.size + col];
+
+    return shape && isInside(shape, mx, my) ? "module" : "background";
+  };
+}
+
+/**
+ * Traces a shape's outline clockwise with cubic Beziers for the
+ * rounded corners. PDF has no arc operator, so this is how the PDF
+ * export draws corners; EPS uses it too so the two match exactly.
+ * (SVG has a compact arc command and uses that — see qr-svg.ts.)
+ */
+export function traceShape(shape: QrShape, pen: ShapePen): void {
+  const { x, y, width: w, height: h } = shape;
+  const [tl, tr, br, bl] = shape.radii;
+
+  pen.moveTo(x + tl, y);
+  pen.lineTo(x + w - tr, y);
+  if (tr > 0) {
+    pen.curveTo(x + w - tr + KAPPA * tr, y, x + w, y + tr - KAPPA * tr, x + w, y + tr);
+  }
+  pen.lineTo(x + w, y + h - br);
+  if (br > 0) {
+    pen.curveTo(x + w, y + h - br + KAPPA * br, x + w - br + KAPPA * br, y + h, x + w - br, y + h);
+  }
+  pen.lineTo(x + bl, y + h);
+  if (bl > 0) {
+    pen.curveTo(x + bl - KAPPA * bl, y + h, x, y + h - bl + KAPPA * bl, x, y + h - bl);
+  }
+  pen.lineTo(x, y + tl);
+  if (tl > 0) {
+    pen.curveTo(x, y + tl - KAPPA * tl, x + tl - KAPPA * tl, y, x + tl, y);
+  }
+  pen.close();
+}
+
+/**
+ * True when every shape is a plain square, so output depends only on
+ * which module a point is in. Lets the PNG renderer copy scanlines.
+ */
+export function isBlockStyle(style: ShapeStyle): boolean {
+  return (
+    style.moduleShape === "square" &&
+    style.eyeOuterShape === "square" &&
+    style.eyeInnerShape === "square"
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Horizontal runs of dark data modules (finder patterns excluded —
+ * they're drawn as eyes), in viewBox coordinates.
+ */
+function collectModuleRuns(
+  matrix: QrMatrix
+): { x: number; y: number; length: number }[] {
+  const runs: { x: number; y: number; length: number }[] = [];
+  const isDataDark = (row: number, col: number) =>
+    matrix.isDark(row, col) && !isInEye(matrix.size, row, col);
+
+  for (let row = 0; row < matrix.size; row++) {
+    let col = 0;
+
+    while (col < matrix.size) {
+      if (!isDataDark(row, col)) {
+        col++;
+        continue;
+      }
+
+      const runStart = col;
+
+      while (col < matrix.size && isDataDark(row, col)) {
+        col++;
+      }
+
+      runs.push({
+        x: runStart + QR_MARGIN_MODULES,
+        y: row + QR_MARGIN_MODULES,
+        length: col - runStart,
+      });
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Corner radii for one data module. A corner is rounded only when
+ * both modules touching it from outside (the one beside and the one
+ * above/below) are light — so connected modules stay connected.
+ */
+function moduleRadii(
+  matrix: QrMatrix,
+  row: number,
+  col: number,
+  shape: ModuleShape
+): QrShape["radii"] {
+  const [tl, tr, br, bl] = ROUNDABLE_CORNERS[shape];
+  const dark = (r: number, c: number) =>
+    r >= 0 && c >= 0 && r < matrix.size && c < matrix.size && matrix.isDark(r, c);
+
+  const up = dark(row - 1, col);
+  const down = dark(row + 1, col);
+  const left = dark(row, col - 1);
+  const right = dark(row, col + 1);
+
+  return [
+    tl && !up && !left ? MODULE_RADIUS : 0,
+    tr && !up && !right ? MODULE_RADIUS : 0,
+    br && !down && !right ? MODULE_RADIUS : 0,
+    bl && !down && !left ? MODULE_RADIUS : 0,
+  ];
+}
+
+/** Top-left, top-right and bottom-left finder pattern origins */
+function eyeOrigins(size: number): { row: number; col: number }[] {
+  return [
+    { row: 0, col: 0 },
+    { row: 0, col: size - EYE_SIZE },
+    { row: size - EYE_SIZE, col: 0 },
+  ];
+}
+
+function isInEye(size: number, row: number, col: number): boolean {
+  const top = row < EYE_SIZE;
+  const bottom = row >= size - EYE_SIZE;
+  const left = col < EYE_SIZE;
+  const right = col >= size - EYE_SIZE;
+
+  return (top && left) || (top && right) || (bottom && left);
+}
+
+function rect(x: number, y: number, width: number, height: number, radius: number): QrShape {
+  return { x, y, width, height, radii: [radius, radius, radius, radius] };
+}
+
+/**
+ * Point-in-shape test, treating each rounded corner as a quarter circle.
+ * Runs once per PNG pixel, so it avoids allocating.
+ */
+function isInside(shape: QrShape, px: number, py: number): boolean {
+  const { x, y, width, height, radii } = shape;
+
+  if (px < x || py < y || px >= x + width || py >= y + height) {
+    return false;
+  }
+
+  const [tl, tr, br, bl] = radii;
+  const right = x + width;
+  const bottom = y + height;
+
+  if (tl > 0 && px < x + tl && py < y + tl) {
+    return isInCircle(px, py, x + tl, y + tl, tl);
+  }
+  if (tr > 0 && px > right - tr && py < y + tr) {
+    return isInCircle(px, py, right - tr, y + tr, tr);
+  }
+  if (br > 0 && px > right - br && py > bottom - br) {
+    return isInCircle(px, py, right - br, bottom - br, br);
+  }
+  if (bl > 0 && px < x + bl && py > bottom - bl) {
+    return isInCircle(px, py, x + bl, bottom - bl, bl);
+  }
+
+  return true;
+}
+
+function isInCircle(px: number, py: number, cx: number, cy: number, r: number): boolean {
+  return (px - cx) ** 2 + (py - cy) ** 2 <= r * r;
+}
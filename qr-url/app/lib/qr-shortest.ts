@@ -26,6 +26,7 @@
  */
 
 import { generateUniqueShortcode } from "~/lib/shortcode";
+import { invalidateRedirect } from "~/lib/redirect-cache";
 
 import { SITE_DOMAIN } from "~/lib/constants";
 
@@ -58,6 +59,7 @@ interface ShortestUrlResult {
  * May auto-create a short-format URL if one doesn't exist.
  *
  * @param db - D1 database binding
+ * @param redirectCache - KV redirect cache (cleared for auto-created URLs)
  * @param userId - Clerk user ID (owner of the URL)
  * @param urlRecord - The URL the user wants a QR code for
  * @param currentUrlCount - User's current URL count (for limit check)
@@ -66,6 +68,7 @@ interface ShortestUrlResult {
  */
 export async function resolveShortestUrl(
   db: D1Database,
+  redirectCache: KVNamespace,
   userId: string,
   urlRecord: UrlRecord,
   currentUrlCount: number,
@@ -181,6 +184,9 @@ export async function resolveShortestUrl(
     };
   }
 
+  // The new shortcode may have a negative cache entry from earlier visits
+  await invalidateRedirect(redirectCache, null, newShortcode);
+
   return {
     encodedUrl: `${SITE_DOMAIN}/${newShortcode}`,
     autoCreated: true,
@@ -10,7 +10,12 @@
  *   - Local emulation in wrangler dev
  *
  * Storage path convention:
- *   qr-codes/{userId}/{randomId}.png
+ *   qr-codes/{userId}/{randomId}.svg   (server-rendered, current)
+ *   qr-codes/{userId}/{randomId}.png   (client-uploaded, older codes)
+ *   qr-logos/{userId}/{randomId}.png   (uploaded logos, also .jpg/.webp)
+ *
+ * Logos are kept when a QR code is deleted: one upload can be reused
+ * by several saved codes, and exports re-read it from here.
  *
  * Why include userId in the path?
  *   - Organized by user (easy to browse in R2 dashboard)
@@ -18,29 +23,52 @@
  *   - No collision between users even if random IDs overlap
  */
 
+import { LOGO_CONTENT_TYPES, bytesToDataUrl } from "~/lib/qr-logo";
+import type { LogoContentType } from "~/lib/qr-logo";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type QrImageFormat = "png" | "svg";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const CONTENT_TYPES: Record<QrImageFormat, string> = {
+  png: "image/png",
+  svg: "image/svg+xml",
+};
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
 /**
- * Uploads a QR code PNG image to R2.
+ * Uploads a QR code image to R2.
+ *
+ * The content type is stored as R2 httpMetadata, so the image route
+ * can serve old PNGs and new SVGs without guessing from the extension.
  *
  * @param r2 - R2 bucket binding from env
  * @param userId - Clerk user ID (for path organization)
- * @param pngBytes - Raw PNG image data as Uint8Array
+ * @param imageBytes - Raw image data as Uint8Array
+ * @param format - "svg" for server-rendered codes, "png" for raster
  * @returns The R2 storage key (path) for the uploaded object
  */
 export async function uploadQrImage(
   r2: R2Bucket,
   userId: string,
-  pngBytes: Uint8Array
+  imageBytes: Uint8Array,
+  format: QrImageFormat
 ): Promise<string> {
   const randomId = generateRandomId();
-  const storagePath = `qr-codes/${userId}/${randomId}.png`;
+  const storagePath = `qr-codes/${userId}/${randomId}.${format}`;
 
-  await r2.put(storagePath, pngBytes, {
+  await r2.put(storagePath, imageBytes, {
     httpMetadata: {
-      contentType: "image/png",
+      contentType: CONTENT_TYPES[format],
       /**
        * Cache the image for 1 year. QR codes are immutable — once
        * generated, the image never changes. If the user wants different
@@ -53,6 +81,52 @@ export async function uploadQrImage(
   return storagePath;
 }
 
+/**
+ * Uploads a logo image to R2.
+ *
+ * The caller must have validated the bytes (detectLogoContentType and
+ * MAX_LOGO_SIZE_BYTES) — this only stores them.
+ *
+ * @returns The R2 storage key, saved as customization.logo.storagePath
+ */
+export async function uploadLogoImage(
+  r2: R2Bucket,
+  userId: string,
+  imageBytes: Uint8Array,
+  contentType: LogoContentType
+): Promise<string> {
+  const randomId = generateRandomId();
+  const storagePath = `qr-logos/${userId}/${randomId}.${LOGO_CONTENT_TYPES[contentType]}`;
+
+  await r2.put(storagePath, imageBytes, {
+    httpMetadata: {
+      contentType,
+      cacheControl: "public, max-age=31536000, immutable",
+    },
+  });
+
+  return storagePath;
+}
+
+/**
+ * Reads a logo from R2 as a data URI, ready for renderQrSvg.
+ * Returns null if the object no longer exists.
+ */
+export async function fetchLogoDataUrl(
+  r2: R2Bucket,
+  storagePath: string
+): Promise<string | null> {
+  const object = await r2.get(storagePath);
+
+  if (!object) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(await object.arrayBuffer());
+
+  return bytesToDataUrl(bytes, object.httpMetadata?.contentType ?? "image/png");
+}
+
 /**
  * Deletes a QR code image from R2.
  *
@@ -76,9 +150,9 @@ export async function deleteQrImage(
  *
  * In production, you have two options:
  *   1. Enable r2.dev public access in the Cloudflare dashboard
- *      → https://pub-{hash}.r2.dev/qr-codes/{userId}/{id}.png
+ *      → https://pub-{hash}.r2.dev/qr-codes/{userId}/{id}.svg
  *   2. Custom domain (recommended for production)
- *      → https://images.yourdomain.com/qr-codes/{userId}/{id}.png
+ *      → https://images.yourdomain.com/qr-codes/{userId}/{id}.svg
  *
  * For now, we return the storage path and serve it via a route.
  * This keeps development simple and avoids public URL config issues.
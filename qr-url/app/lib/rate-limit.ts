@@ -1,8 +1,9 @@
 /**
  * rate-limit.ts
  *
- * Per-IP daily rate limiting for anonymous URL creation.
- * Uses Cloudflare Workers KV for storage.
+ * Per-IP daily rate limiting for anonymous URL creation, and per-IP
+ * hourly limiting of wrong passwords on protected links
+ * (link-password.ts). Uses Cloudflare Workers KV for storage.
  *
  * Why KV instead of D1?
  *   KV supports automatic TTL (time-to-live) on keys. We set each
@@ -39,6 +40,17 @@ const KEY_PREFIX = "ratelimit";
  */
 const TTL_SECONDS = 25 * 60 * 60; // 25 hours
 
+/**
+ * Wrong passwords allowed per IP, per link, per hour. Plenty for a
+ * person with a typo; a guessing script gets 10 tries an hour.
+ */
+const MAX_FAILED_PASSWORD_ATTEMPTS_PER_HOUR = 10;
+
+const PASSWORD_KEY_PREFIX = "ratelimit-password";
+
+/** Hour in the key + 1 hour buffer, same reasoning as TTL_SECONDS */
+const PASSWORD_TTL_SECONDS = 2 * 60 * 60; // 2 hours
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -112,6 +124,60 @@ export async function incrementRateLimit(
   return MAX_ANONYMOUS_URLS_PER_DAY - newCount;
 }
 
+/**
+ * Checks whether an IP may still try passwords on a protected link
+ * this hour. Like checkRateLimit, doesn't count anything itself —
+ * only failed attempts are counted (recordFailedPasswordAttempt), so
+ * visitors who know the password are never locked out by others.
+ *
+ * Key format: "ratelimit-password:{urlId}:{ip}:{YYYY-MM-DDTHH}"
+ */
+export async function checkPasswordAttempts(
+  kv: KVNamespace,
+  clientIp: string,
+  urlId: number
+): Promise<RateLimitResult> {
+  const key = buildPasswordKey(clientIp, urlId);
+
+  const currentCountRaw = await kv.get(key);
+  const currentCount = currentCountRaw ? parseInt(currentCountRaw, 10) : 0;
+
+  if (currentCount >= MAX_FAILED_PASSWORD_ATTEMPTS_PER_HOUR) {
+    return {
+      allowed: false,
+      remaining: 0,
+      error: "Too many wrong passwords. Try again in an hour.",
+    };
+  }
+
+  return {
+    allowed: true,
+    remaining: MAX_FAILED_PASSWORD_ATTEMPTS_PER_HOUR - currentCount,
+    error: null,
+  };
+}
+
+/**
+ * Counts a wrong password against the IP's hourly allowance.
+ *
+ * @returns The attempts left this hour
+ */
+export async function recordFailedPasswordAttempt(
+  kv: KVNamespace,
+  clientIp: string,
+  urlId: number
+): Promise<number> {
+  const key = buildPasswordKey(clientIp, urlId);
+
+  const currentCountRaw = await kv.get(key);
+  const currentCount = currentCountRaw ? parseInt(currentCountRaw, 10) : 0;
+  const newCount = currentCount + 1;
+
+  await kv.put(key, String(newCount), { expirationTtl: PASSWORD_TTL_SECONDS });
+
+  return MAX_FAILED_PASSWORD_ATTEMPTS_PER_HOUR - newCount;
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -125,6 +191,11 @@ function buildKey(clientIp: string): string {
   return `${KEY_PREFIX}:${clientIp}:${today}`;
 }
 
+function buildPasswordKey(clientIp: string, urlId: number): string {
+  const hour = new Date().toISOString().slice(0, 13); // "2026-02-13T09"
+  return `${PASSWORD_KEY_PREFIX}:${urlId}:${clientIp}:${hour}`;
+}
+
 /**
  * Extracts the client IP from a Cloudflare Worker request.
  *
@@ -0,0 +1,397 @@
+/**
+ * redirect-cache.ts
+ *
+ * Read-through KV cache for short URL lookups.
+ * Used by the redirect worker (reads) and by route actions (invalidation).
+ *
+ * Why cache at all?
+ *   Every short URL visit runs a D1 query. D1 lives in one region, so
+ *   a visitor far from it pays a full round-trip before getting their
+ *   302. KV is replicated to every Cloudflare location and reads are
+ *   served from the edge, so a cache hit skips D1 entirely.
+ *
+ * Key format: "redirect:{subdomain}:{shortcode}"
+ *   Short format:   "redirect::abc123"       (empty subdomain segment,
+ *                                             same idea as COALESCE(subdomain, ''))
+ *   Branded format: "redirect:step:my-page"
+ *
+ * Values:
+ *   Hit:     JSON { urlId, originalUrl, expiresAt, startsAt, maxClicks,
+ *                   fallbackUrl, hasPassword, deviceRules, geoRules,
+ *                   variants, utm, passthrough, redirectType }
+ *   Miss:    the literal string "-" (negative cache entry)
+ *   Expired: "expired:" + JSON { expiresAt, fallbackUrl }, so the worker
+ *            can answer 410 (or send visitors to the fallback) instead
+ *            of 404 without asking D1
+ *
+ * Click counts are never cached: click-limited links are counted in D1
+ * on every visit (see link-limits.ts), the entry only says they have a
+ * limit. Likewise, password hashes stay in D1 — the entry only says
+ * whether the link has a password.
+ *
+ * Negative caching stops repeated requests for unknown shortcodes
+ * (typos, bots probing random paths) from hammering D1. Misses get
+ * the shortest TTL KV allows, and every code path that creates a URL
+ * invalidates the key so a freshly-created link never 404s.
+ *
+ * Consistency: KV is eventually consistent — a delete can take up to
+ * ~60 seconds to reach every location. After an edit or delete, some
+ * visitors may still be redirected to the old destination for that long.
+ */
+
+import type { VariantChoice } from "~/lib/ab-variants";
+import type { UtmParams } from "~/lib/destination-params";
+import type { RedirectType } from "~/lib/redirect-type";
+import { isExpired, parseDbDate } from "~/lib/url-expiration";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const KEY_PREFIX = "redirect";
+
+const STATS_KEY_PREFIX = "redirect-cache-stats";
+
+/** Marker value for "this shortcode doesn't exist". */
+const MISS_MARKER = "-";
+
+/** Prefix for "this link exists but has expired", followed by JSON */
+const EXPIRED_MARKER_PREFIX = "expired:";
+
+/**
+ * TTL for positive entries. Edits and deletes invalidate explicitly,
+ * so this is only a safety net against missed invalidations.
+ */
+const HIT_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+
+/** TTL for negative entries. 60 seconds is the minimum KV accepts. */
+const MISS_TTL_SECONDS = 60;
+
+/** Stats keys are kept for a week, then cleaned up by KV. */
+const STATS_TTL_SECONDS = 8 * 24 * 60 * 60;
+
+/**
+ * One lookup in this many is recorded, and each recorded one counts
+ * for this many. Keeps stats to a KV write per ~100 redirects.
+ */
+const STATS_SAMPLE_RATE = 100;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * The cached shape of a URL lookup. Mirrors what lookupUrl in
+ * workers/redirect.ts needs, plus expires_at so an entry can never
+ * outlive the link it describes.
+ */
+export interface CachedRedirect {
+  urlId: number;
+  originalUrl: string;
+  /** D1 datetime string ("2026-02-15 14:30:00", UTC) or null */
+  expiresAt: string | null;
+  /** Same format; the link doesn't redirect before this */
+  startsAt: string | null;
+  maxClicks: number | null;
+  fallbackUrl: string | null;
+  hasPassword: boolean;
+  /** Target → destination (device-rules.ts); empty = no rules */
+  deviceRules: Record<string, string>;
+  /** Country code → destination (geo-rules.ts); empty = no rules */
+  geoRules: Record<string, string>;
+  /** A/B destinations (ab-variants.ts); empty = no split */
+  variants: VariantChoice[];
+  /** Tags and passthrough setting (destination-params.ts) */
+  utm: UtmParams;
+  passthrough: boolean;
+  /** 301/302/307/308 or "interstitial" (redirect-type.ts) */
+  redirectType: RedirectType;
+}
+
+/** What an expired link still needs: when it expired, where to send visitors */
+export interface ExpiredRedirect {
+  expiresAt: string;
+  fallbackUrl: string | null;
+}
+
+/**
+ * Result of a cache read:
+ *   - "hit"     → cached URL is valid, use it
+ *   - "miss"    → negative entry, the shortcode doesn't exist
+ *   - "expired" → the link exists but its expires_at has passed
+ *   - "empty"   → nothing cached, ask D1
+ */
+export type CacheLookupResult =
+  | { status: "hit"; redirect: CachedRedirect }
+  | { status: "miss" }
+  | { status: "expired"; expired: ExpiredRedirect }
+  | { status: "empty" };
+
+export interface RedirectCacheStats {
+  /** Date string: "2026-02-15" */
+  date: string;
+  hits: number;
+  misses: number;
+}
+
+// ---------------------------------------------------------------------------
+// Reads / writes (redirect worker)
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads a cached lookup for a (subdomain, shortcode) pair.
+ *
+ * A positive entry whose expires_at has passed is reported as
+ * "expired" — the entry itself says when the link stopped working,
+ * so there's nothing D1 could add.
+ */
+export async function getCachedRedirect(
+  kv: KVNamespace,
+  subdomain: string | null,
+  shortcode: string
+): Promise<CacheLookupResult> {
+  const raw = await kv.get(buildKey(subdomain, shortcode));
+
+  if (raw === null) {
+    return { status: "empty" };
+  }
+
+  if (raw === MISS_MARKER) {
+    return { status: "miss" };
+  }
+
+  try {
+    if (raw.startsWith(EXPIRED_MARKER_PREFIX)) {
+      const expired = JSON.parse(
+        raw.slice(EXPIRED_MARKER_PREFIX.length)
+      ) as ExpiredRedirect;
+
+      return { status: "expired", expired };
+    }
+
+    // Entries written before limits, passwords, routing rules,
+    // variants, destination parameters and redirect types existed
+    // lack those fields
+    const redirect: CachedRedirect = {
+      startsAt: null,
+      maxClicks: null,
+      fallbackUrl: null,
+      hasPassword: false,
+      deviceRules: {},
+      geoRules: {},
+      variants: [],
+      utm: { source: null, medium: null, campaign: null },
+      passthrough: false,
+      redirectType: "302",
+      ...(JSON.parse(raw) as Partial<CachedRedirect>),
+    } as CachedRedirect;
+
+    if (redirect.expiresAt && isExpired(redirect.expiresAt)) {
+      return {
+        status: "expired",
+        expired: { expiresAt: redirect.expiresAt, fallbackUrl: redirect.fallbackUrl },
+      };
+    }
+
+    return { status: "hit", redirect };
+  } catch {
+    // Corrupt entry — ignore it, D1 will repopulate
+    return { status: "empty" };
+  }
+}
+
+/**
+ * Stores a successful lookup. If the link expires sooner than the
+ * normal TTL, the entry expires with it.
+ */
+export async function cacheRedirect(
+  kv: KVNamespace,
+  subdomain: string | null,
+  shortcode: string,
+  redirect: CachedRedirect
+): Promise<void> {
+  let ttl = HIT_TTL_SECONDS;
+
+  if (redirect.expiresAt) {
+    const secondsLeft = Math.floor(
+      (parseDbDate(redirect.expiresAt) - Date.now()) / 1000
+    );
+
+    // Nothing to cache for a link that's about to expire
+    if (secondsLeft < MISS_TTL_SECONDS) {
+      return;
+    }
+
+    ttl = Math.min(ttl, secondsLeft);
+  }
+
+  await kv.put(buildKey(subdomain, shortcode), JSON.stringify(redirect), {
+    expirationTtl: ttl,
+  });
+}
+
+/**
+ * Stores a negative entry for a shortcode that doesn't exist.
+ */
+export async function cacheMiss(
+  kv: KVNamespace,
+  subdomain: string | null,
+  shortcode: string
+): Promise<void> {
+  await kv.put(buildKey(subdomain, shortcode), MISS_MARKER, {
+    expirationTtl: MISS_TTL_SECONDS,
+  });
+}
+
+/**
+ * Stores an "expired" entry. Expiry is final until the owner edits
+ * the link (which invalidates the key), so this gets the hit TTL.
+ */
+export async function cacheExpired(
+  kv: KVNamespace,
+  subdomain: string | null,
+  shortcode: string,
+  expired: ExpiredRedirect
+): Promise<void> {
+  await kv.put(
+    buildKey(subdomain, shortcode),
+    EXPIRED_MARKER_PREFIX + JSON.stringify(expired),
+    { expirationTtl: HIT_TTL_SECONDS }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Invalidation (route actions)
+// ---------------------------------------------------------------------------
+
+/**
+ * Removes the cached entry for one short URL.
+ *
+ * Call this whenever a URL row is created, edited, expired or deleted.
+ * Creation matters too: the shortcode may have a negative entry from
+ * someone visiting it before it existed.
+ */
+export async function invalidateRedirect(
+  kv: KVNamespace,
+  subdomain: string | null,
+  shortcode: string
+): Promise<void> {
+  await kv.delete(buildKey(subdomain, shortcode));
+}
+
+/**
+ * Removes every cached entry under a subdomain.
+ *
+ * Used when a user claims or changes a subdomain: entries under the
+ * old subdomain must stop resolving, and entries under the new one
+ * may hold negative markers from before it was claimed.
+ *
+ * KV list() is paginated (1000 keys per page), so we follow the cursor.
+ */
+export async function invalidateSubdomain(
+  kv: KVNamespace,
+  subdomain: string
+): Promise<void> {
+  const prefix = `${KEY_PREFIX}:${subdomain}:`;
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix, cursor });
+
+    await Promise.all(page.keys.map((key) => kv.delete(key.name)));
+
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+}
+
+// ---------------------------------------------------------------------------
+// Hit / miss stats
+// ---------------------------------------------------------------------------
+
+/**
+ * Samples a cache hit or miss into today's stats.
+ *
+ * "hit"  = answered from KV (including negative entries)
+ * "miss" = had to query D1
+ *
+ * A shared counter doesn't work in KV: there's no atomic increment,
+ * reads are eventually consistent and a key takes about one write a
+ * second, so under real traffic most increments would be lost — and
+ * every redirect would pay for a write. Instead one lookup in
+ * STATS_SAMPLE_RATE writes a key of its own
+ * ("redirect-cache-stats:2026-02-15:hit:{uuid}"), which nothing else
+ * ever writes, and fetchCacheStats counts them. The numbers are
+ * estimates — good enough to see the hit ratio, not for billing, and
+ * noisy on quiet days. Always call this from ctx.waitUntil() so it
+ * never delays a redirect.
+ */
+export async function recordCacheResult(
+  kv: KVNamespace,
+  result: "hit" | "miss"
+): Promise<void> {
+  if (Math.random() >= 1 / STATS_SAMPLE_RATE) {
+    return;
+  }
+
+  const key = `${STATS_KEY_PREFIX}:${todayUtc()}:${result}:${crypto.randomUUID()}`;
+
+  await kv.put(key, "", { expirationTtl: STATS_TTL_SECONDS });
+}
+
+/**
+ * Estimates hits/misses for the last N days (oldest first) from the
+ * sampled keys.
+ */
+export async function fetchCacheStats(
+  kv: KVNamespace,
+  days: number
+): Promise<RedirectCacheStats[]> {
+  const dates: string[] = [];
+
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date();
+    date.setUTCDate(date.getUTCDate() - i);
+    dates.push(date.toISOString().split("T")[0]);
+  }
+
+  return Promise.all(
+    dates.map(async (date) => {
+      const [hitSamples, missSamples] = await Promise.all([
+        countKeys(kv, `${STATS_KEY_PREFIX}:${date}:hit:`),
+        countKeys(kv, `${STATS_KEY_PREFIX}:${date}:miss:`),
+      ]);
+
+      return {
+        date,
+        hits: hitSamples * STATS_SAMPLE_RATE,
+        misses: missSamples * STATS_SAMPLE_RATE,
+      };
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function buildKey(subdomain: string | null, shortcode: string): string {
+  return `${KEY_PREFIX}:${subdomain ?? ""}:${shortcode}`;
+}
+
+/** Number of keys under a prefix, following list()'s cursor */
+async function countKeys(kv: KVNamespace, prefix: string): Promise<number> {
+  let count = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix, cursor });
+    count += page.keys.length;
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return count;
+}
+
+function todayUtc(): string {
+  return new Date().toISOString().split("T")[0];
+}
@@ -0,0 +1,159 @@
+/**
+ * redirect-type.ts
+ *
+ * How a short link sends visitors on (urls.redirect_type):
+ *
+ *   302  temporary (default) — every visit reaches the worker
+ *   301  permanent — for links that will never change; browsers and
+ *        search engines may remember the destination
+ *   307  temporary, and the browser must keep the request method
+ *   308  permanent, method-preserving
+ *   interstitial — a tiny HTML page that moves on by meta refresh and
+ *        script. Slower, but the destination sees the short domain as
+ *        the referrer, which a plain redirect never gives it (QR scans
+ *        and typed links arrive with no referrer at all).
+ *
+ * Cache headers follow the type (redirectCacheControl). They're always
+ * "private": the destination can depend on the visitor — routing rules,
+ * A/B variants, passthrough — so no shared cache may store one
+ * visitor's answer for the next. A permanent type only lets the browser
+ * remember the redirect if nothing has to be checked on each visit: a
+ * link with a password, an expiry or start date, a click limit or A/B
+ * variants is never cached.
+ *
+ * After a correct link password the worker answers 303 whatever the
+ * type: the form was a POST, and 307/308 would re-send it (password
+ * included) to the destination.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Options for the forms, in the order they're offered */
+export const REDIRECT_TYPES = [
+  {
+    value: "302",
+    label: "302 Found — temporary (default)",
+    shortLabel: "302",
+  },
+  {
+    value: "301",
+    label: "301 Moved Permanently",
+    shortLabel: "301",
+  },
+  {
+    value: "307",
+    label: "307 Temporary Redirect — keeps the request method",
+    shortLabel: "307",
+  },
+  {
+    value: "308",
+    label: "308 Permanent Redirect — keeps the request method",
+    shortLabel: "308",
+  },
+  {
+    value: "interstitial",
+    label: "Interstitial page — destination sees a referrer",
+    shortLabel: "Interstitial",
+  },
+] as const;
+
+export type RedirectType = (typeof REDIRECT_TYPES)[number]["value"];
+
+export const DEFAULT_REDIRECT_TYPE: RedirectType = "302";
+
+/**
+ * Permanent redirects are remembered by the browser for a day, so
+ * repeat visits skip the worker (and aren't counted) — but an edited
+ * destination still reaches everyone by the next day. Only for links
+ * without per-visit checks (see redirectCacheControl).
+ */
+const PERMANENT_CACHE_CONTROL = "private, max-age=86400";
+
+/** Temporary redirects and the interstitial page: ask the worker every time */
+const TEMPORARY_CACHE_CONTROL = "private, no-store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * The settings of a link that the worker has to enforce on every
+ * visit. Matches the redirect worker's lookup result.
+ */
+export interface PerVisitChecks {
+  hasPassword: boolean;
+  expiresAt: string | null;
+  startsAt: string | null;
+  maxClicks: number | null;
+  variants: readonly unknown[];
+}
+
+export type RedirectTypeResult =
+  | { isValid: true; error: null; redirectType: RedirectType }
+  | { isValid: false; error: string; redirectType: null };
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function isRedirectType(value: unknown): value is RedirectType {
+  return REDIRECT_TYPES.some((type) => type.value === value);
+}
+
+/** Empty or missing means the default (302) */
+export function parseRedirectType(raw: string | null): RedirectTypeResult {
+  const trimmed = raw?.trim() ?? "";
+
+  if (trimmed === "") {
+    return { isValid: true, error: null, redirectType: DEFAULT_REDIRECT_TYPE };
+  }
+
+  if (!isRedirectType(trimmed)) {
+    return {
+      isValid: false,
+      error: "Redirect type must be 301, 302, 307, 308 or interstitial.",
+      redirectType: null,
+    };
+  }
+
+  return { isValid: true, error: null, redirectType: trimmed };
+}
+
+/** "interstitial" → "Interstitial"; the numeric types are their code */
+export function redirectTypeLabel(type: string): string {
+  return REDIRECT_TYPES.find((option) => option.value === type)?.shortLabel ?? type;
+}
+
+/** HTTP status for the numeric types; null for the interstitial page */
+export function redirectStatus(type: RedirectType): 301 | 302 | 307 | 308 | null {
+  return type === "interstitial" ? null : (Number(type) as 301 | 302 | 307 | 308);
+}
+
+/**
+ * A remembered redirect would skip the password prompt, the date
+ * window, click counting and variant assignment, so a link with any of
+ * them gets no-store even with a permanent type.
+ */
+export function redirectCacheControl(type: RedirectType, link: PerVisitChecks): string {
+  const isPermanent = type === "301" || type === "308";
+
+  return isPermanent && !hasPerVisitChecks(link)
+    ? PERMANENT_CACHE_CONTROL
+    : TEMPORARY_CACHE_CONTROL;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function hasPerVisitChecks(link: PerVisitChecks): boolean {
+  return (
+    link.hasPassword ||
+    link.expiresAt !== null ||
+    link.startsAt !== null ||
+    link.maxClicks !== null ||
+    link.variants.length > 0
+  );
+}
@@ -21,6 +21,7 @@
 import {
   FREE_MAX_URLS,
   FREE_MAX_QR_CODES,
+  FREE_MAX_ANALYTICS_DAYS,
   PRO_MAX_URLS,
   PRO_MAX_QR_CODES,
 } from "~/lib/constants";
@@ -42,6 +43,8 @@ export interface TierPermissions {
   maxQrCodes: number;
 
   // --- Analytics features ---
+  /** Longest date range the analytics page covers; null = no limit (see date-range.ts) */
+  maxAnalyticsDays: number | null;
   /** Summary stats: total clicks + last clicked (everyone gets this) */
   hasBasicAnalytics: boolean;
   /** Unique visitors count in summary */
@@ -52,8 +55,12 @@ export interface TierPermissions {
   hasReferrers: boolean;
   /** Device breakdown donut chart */
   hasDeviceBreakdown: boolean;
+  /** Browser (with major versions) and operating system charts */
+  hasBrowserOsBreakdown: boolean;
   /** Country breakdown bar chart */
   hasCountryBreakdown: boolean;
+  /** Country → region → city drill-down (needs click_location above "country") */
+  hasLocationDrilldown: boolean;
   /** Activity heatmap (day × hour) */
   hasActivityHeatmap: boolean;
 }
@@ -66,12 +73,15 @@ const FREE_PERMISSIONS: TierPermissions = {
   plan: "free",
   maxUrls: FREE_MAX_URLS,
   maxQrCodes: FREE_MAX_QR_CODES,
+  maxAnalyticsDays: FREE_MAX_ANALYTICS_DAYS,
   hasBasicAnalytics: true,
   hasUniqueVisitors: false,
   hasTimelineUniqueOverlay: false,
   hasReferrers: true,
   hasDeviceBreakdown: false,
+  hasBrowserOsBreakdown: false,
   hasCountryBreakdown: false,
+  hasLocationDrilldown: false,
   hasActivityHeatmap: false,
 };
 
@@ -79,12 +89,15 @@ const PRO_PERMISSIONS: TierPermissions = {
   plan: "pro",
   maxUrls: PRO_MAX_URLS,
   maxQrCodes: PRO_MAX_QR_CODES,
+  maxAnalyticsDays: null,
   hasBasicAnalytics: true,
   hasUniqueVisitors: true,
   hasTimelineUniqueOverlay: true,
   hasReferrers: true,
   hasDeviceBreakdown: true,
+  hasBrowserOsBreakdown: true,
   hasCountryBreakdown: true,
+  hasLocationDrilldown: true,
   hasActivityHeatmap: true,
 };
 
@@ -0,0 +1,204 @@
+/**
+ * url-expiration.ts
+ *
+ * Expiry settings for signed-in users' links.
+ * Pure logic — no database, no framework imports. Used by the forms
+ * (UrlCreationForm, the dashboard edit form), url-mutations.ts and
+ * the dashboard list's countdown.
+ *
+ * Users pick either a relative duration ("7 days from now") or an
+ * exact date. Both end up as urls.expires_at in SQLite's datetime
+ * format (UTC, "YYYY-MM-DD HH:MM:SS") so the redirect worker's
+ * `expires_at > datetime('now')` check compares like with like.
+ *
+ * Exact dates are picked in the browser's local time, so the client
+ * converts them to an ISO string (with offset) before submitting —
+ * the server has no way to know the user's timezone. Relative
+ * durations are sent as-is and resolved against the server clock.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Relative durations offered in the forms, keyed by form value */
+export const EXPIRATION_DURATIONS = [
+  { value: "1h", label: "1 hour", ms: HOUR_MS },
+  { value: "1d", label: "1 day", ms: DAY_MS },
+  { value: "7d", label: "7 days", ms: 7 * DAY_MS },
+  { value: "30d", label: "30 days", ms: 30 * DAY_MS },
+  { value: "90d", label: "90 days", ms: 90 * DAY_MS },
+  { value: "365d", label: "1 year", ms: 365 * DAY_MS },
+] as const;
+
+/**
+ * Form values for the expiry mode select:
+ *   "never"  → expires_at NULL
+ *   "custom" → exact date from the expiresAt field
+ *   "keep"   → leave expires_at as it is (edit form only)
+ *   "1h"...  → one of EXPIRATION_DURATIONS
+ */
+export const EXPIRATION_NEVER = "never";
+export const EXPIRATION_CUSTOM = "custom";
+export const EXPIRATION_KEEP = "keep";
+
+/** Far enough for any campaign, and keeps typos like year 20250 out */
+const MAX_EXPIRATION_MS = 10 * 365 * DAY_MS;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * When isValid is true, expiresAt is a SQLite datetime string, or
+ * null for a link that never expires.
+ */
+export type ExpirationResult =
+  | { isValid: true; error: null; expiresAt: string | null }
+  | { isValid: false; error: string; expiresAt: null };
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves the expiry form fields into an expires_at value.
+ *
+ * @param mode - "never", "custom" or a duration value ("7d"); empty
+ *               means "never", so forms without the fields still work
+ * @param customDate - ISO date string, only read when mode is "custom"
+ */
+export function resolveExpiration(
+  mode: string | null,
+  customDate: string | null,
+  now: Date = new Date()
+): ExpirationResult {
+  if (!mode || mode === EXPIRATION_NEVER) {
+    return { isValid: true, error: null, expiresAt: null };
+  }
+
+  if (mode === EXPIRATION_CUSTOM) {
+    return parseExpirationDate(customDate, now);
+  }
+
+  const duration = EXPIRATION_DURATIONS.find((d) => d.value === mode);
+
+  if (!duration) {
+    return { isValid: false, error: "Invalid expiration.", expiresAt: null };
+  }
+
+  return {
+    isValid: true,
+    error: null,
+    expiresAt: toDbDate(new Date(now.getTime() + duration.ms)),
+  };
+}
+
+/**
+ * Validates an exact expiry date (ISO 8601, e.g. from the API or the
+ * form's converted datetime-local value). Must be in the future.
+ */
+export function parseExpirationDate(
+  rawDate: string | null,
+  now: Date = new Date()
+): ExpirationResult {
+  const trimmed = rawDate?.trim() ?? "";
+
+  if (trimmed.length === 0) {
+    return {
+      isValid: false,
+      error: "Choose an expiration date.",
+      expiresAt: null,
+    };
+  }
+
+  const time = new Date(trimmed).getTime();
+
+  if (Number.isNaN(time)) {
+    return {
+      isValid: false,
+      error: "Expiration date is not a valid date.",
+      expiresAt: null,
+    };
+  }
+
+  if (time <= now.getTime()) {
+    return {
+      isValid: false,
+      error: "Expiration date must be in the future.",
+      expiresAt: null,
+    };
+  }
+
+  if (time - now.getTime() > MAX_EXPIRATION_MS) {
+    return {
+      isValid: false,
+      error: "Expiration date must be within 10 years.",
+      expiresAt: null,
+    };
+  }
+
+  return { isValid: true, error: null, expiresAt: toDbDate(new Date(time)) };
+}
+
+/** SQLite datetime string (UTC) → epoch milliseconds */
+export function parseDbDate(dbDate: string): number {
+  return new Date(dbDate.replace(" ", "T") + "Z").getTime();
+}
+
+/** Date → SQLite datetime string (UTC), matching datetime('now') */
+export function toDbDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+export function isExpired(expiresAt: string | null, now: number = Date.now()): boolean {
+  return expiresAt !== null && parseDbDate(expiresAt) <= now;
+}
+
+/**
+ * Short countdown for the dashboard: "3 days", "5 hours", "12 minutes".
+ * Rounds down, so "1 day" means at least 24 hours are left.
+ * Returns null once the link has expired.
+ */
+export function formatTimeRemaining(
+  expiresAt: string,
+  now: number = Date.now()
+): string | null {
+  const remainingMs = parseDbDate(expiresAt) - now;
+
+  if (remainingMs <= 0) {
+    return null;
+  }
+
+  if (remainingMs >= DAY_MS) {
+    return pluralize(Math.floor(remainingMs / DAY_MS), "day");
+  }
+
+  if (remainingMs >= HOUR_MS) {
+    return pluralize(Math.floor(remainingMs / HOUR_MS), "hour");
+  }
+
+  return pluralize(Math.max(1, Math.floor(remainingMs / 60_000)), "minute");
+}
+
+/**
+ * SQLite datetime → value for <input type="datetime-local">, in the
+ * browser's local time. Client-side only (depends on the timezone).
+ */
+export function toDateTimeLocalValue(dbDate: string): string {
+  const date = new Date(parseDbDate(dbDate));
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function pluralize(count: number, unit: string): string {
+  return `${count} ${unit}${count !== 1 ? "s" : ""}`;
+}
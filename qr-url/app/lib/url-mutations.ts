@@ -0,0 +1,541 @@
+/**
+ * url-mutations.ts
+ *
+ * Creating, editing and deleting a user's short URLs.
+ * Server-side only — needs D1, R2 and the redirect cache.
+ *
+ * Why not keep this in the route actions?
+ *   The dashboard (form actions) and the public REST API (api.v1.*)
+ *   both change URLs. Sharing one implementation means both enforce
+ *   the same validation, tier limits, ownership checks and cache
+ *   invalidation — an API client can't do anything the dashboard
+ *   wouldn't allow.
+ *
+ * Results carry an HTTP status instead of a Response, so each caller
+ * wraps them in its own shape (form action data vs. API JSON).
+ */
+
+import { validateUrl } from "~/lib/url-validation";
+import {
+  generateUniqueShortcode,
+  validateCustomShortcode,
+} from "~/lib/shortcode";
+import { deleteQrImage } from "~/lib/qr-storage";
+import { invalidateRedirect } from "~/lib/redirect-cache";
+import { getTierPermissions } from "~/lib/tier";
+import { checkDateWindow } from "~/lib/link-limits";
+import type { LinkLimits } from "~/lib/link-limits";
+import { hashLinkPassword, validateLinkPassword } from "~/lib/link-password";
+import type { UtmParams } from "~/lib/destination-params";
+import type { RedirectType } from "~/lib/redirect-type";
+import { SITE_DOMAIN } from "~/lib/constants";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Bindings a URL change touches */
+export interface UrlMutationEnv {
+  db: D1Database;
+  r2: R2Bucket;
+  cacheKv: KVNamespace;
+}
+
+export type MutationResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; status: number };
+
+/**
+ * "short"   → yourdomain.com/abc123
+ * "branded" → name.yourdomain.com/abc123 (needs a claimed subdomain)
+ */
+export type UrlFormat = "short" | "branded";
+
+export interface CreateUrlInput {
+  originalUrl: string;
+  format: UrlFormat;
+  /** null = auto-generate a 6-character shortcode */
+  customShortcode: string | null;
+  /**
+   * SQLite datetime (UTC), or null for a link that never expires.
+   * Resolved by the caller with url-expiration.ts — forms send a
+   * duration or a local date, the API an ISO string.
+   */
+  expiresAt: string | null;
+  /** Start time, click limit and fallback, parsed by link-limits.ts */
+  limits: LinkLimits;
+  /** Plaintext; hashed here before it's stored. null = no password */
+  password: string | null;
+  /** Added to the destination on redirect (destination-params.ts) */
+  utm: UtmParams;
+  /** Forward the short URL's query string and extra path */
+  passthrough: boolean;
+  /** How visitors are sent on (redirect-type.ts) */
+  redirectType: RedirectType;
+}
+
+/** Fields of an existing URL that can change; omitted = unchanged */
+export interface UrlChanges {
+  originalUrl?: string;
+  /** Same format as CreateUrlInput.expiresAt; null removes the expiry */
+  expiresAt?: string | null;
+  /**
+   * Replaces all three limits at once. The click count is kept, so
+   * raising a limit lets that many more visitors through.
+   */
+  limits?: LinkLimits;
+  /** Plaintext new password; null removes it */
+  password?: string | null;
+  /** Replaces all three tags at once; nulls remove them */
+  utm?: UtmParams;
+  passthrough?: boolean;
+  redirectType?: RedirectType;
+}
+
+export interface CreatedUrl {
+  id: number;
+  shortcode: string;
+  subdomain: string | null;
+  originalUrl: string;
+  fullShortUrl: string;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates and inserts a new URL for a user.
+ *
+ * The tier limit is enforced inside the INSERT itself
+ * (INSERT ... SELECT ... WHERE count < max), so two concurrent
+ * requests can't both take the last slot.
+ */
+export async function createUrl(
+  env: UrlMutationEnv,
+  userId: string,
+  input: CreateUrlInput
+): Promise<MutationResult<{ url: CreatedUrl }>> {
+  const { db } = env;
+
+  // --- Validate URL ---
+  const urlValidation = validateUrl(input.originalUrl);
+
+  if (!urlValidation.isValid) {
+    return { success: false, error: urlValidation.error, status: 400 };
+  }
+
+  const windowError = checkDateWindow(input.limits.startsAt, input.expiresAt);
+
+  if (windowError) {
+    return { success: false, error: windowError, status: 400 };
+  }
+
+  const passwordError =
+    input.password !== null ? validateLinkPassword(input.password) : null;
+
+  if (passwordError) {
+    return { success: false, error: passwordError, status: 400 };
+  }
+
+  const userRow = await db
+    .prepare("SELECT subdomain, plan FROM users WHERE clerk_user_id = ?")
+    .bind(userId)
+    .first<{ subdomain: string | null; plan: string }>();
+
+  const permissions = getTierPermissions(userRow?.plan);
+
+  // --- Determine subdomain for this URL ---
+  let urlSubdomain: string | null = null;
+
+  if (input.format === "branded") {
+    if (!userRow?.subdomain) {
+      return {
+        success: false,
+        error: "You need to set up a subdomain before creating branded URLs.",
+        status: 400,
+      };
+    }
+
+    urlSubdomain = userRow.subdomain;
+  }
+
+  // --- Resolve shortcode (auto-generate or validate custom) ---
+  let shortcode: string;
+
+  if (input.customShortcode !== null) {
+    const cleaned = input.customShortcode.trim().toLowerCase();
+
+    const shortcodeValidation = validateCustomShortcode(cleaned);
+
+    if (!shortcodeValidation.isValid) {
+      return {
+        success: false,
+        error: shortcodeValidation.error ?? "Invalid shortcode.",
+        status: 400,
+      };
+    }
+
+    // Check uniqueness in the correct scope
+    const existingRow = await db
+      .prepare(
+        `SELECT 1 FROM urls
+         WHERE COALESCE(subdomain, '') = COALESCE(?, '')
+           AND shortcode = ?
+         LIMIT 1`
+      )
+      .bind(urlSubdomain, cleaned)
+      .first();
+
+    if (existingRow) {
+      return {
+        success: false,
+        error: shortcodeTakenMessage(cleaned, urlSubdomain),
+        status: 409,
+      };
+    }
+
+    shortcode = cleaned;
+  } else {
+    const generated = await generateUniqueShortcode(db, urlSubdomain);
+
+    if (!generated) {
+      return {
+        success: false,
+        error:
+          "Failed to generate a unique shortcode after multiple attempts. Please try again.",
+        status: 500,
+      };
+    }
+
+    shortcode = generated;
+  }
+
+  const passwordHash =
+    input.password !== null ? await hashLinkPassword(input.password) : null;
+
+  // --- Insert the URL ---
+  let insertResult: Awaited<ReturnType<D1PreparedStatement["run"]>>;
+
+  try {
+    insertResult = await db
+      .prepare(
+        `INSERT INTO urls (user_id, shortcode, original_url, subdomain, expires_at,
+                           starts_at, max_clicks, fallback_url, password_hash,
+                           utm_source, utm_medium, utm_campaign, passthrough,
+                           redirect_type)
+         SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+         WHERE (SELECT COUNT(*) FROM urls WHERE user_id = ?) < ?`
+      )
+      .bind(
+        userId,
+        shortcode,
+        urlValidation.normalizedUrl,
+        urlSubdomain,
+        input.expiresAt,
+        input.limits.startsAt,
+        input.limits.maxClicks,
+        input.limits.fallbackUrl,
+        passwordHash,
+        input.utm.source,
+        input.utm.medium,
+        input.utm.campaign,
+        input.passthrough ? 1 : 0,
+        input.redirectType,
+        userId,
+        permissions.maxUrls
+      )
+      .run();
+  } catch (error: unknown) {
+    const isUniqueConstraintError =
+      error instanceof Error &&
+      error.message.includes("UNIQUE constraint failed");
+
+    if (isUniqueConstraintError) {
+      return {
+        success: false,
+        error: shortcodeTakenMessage(shortcode, urlSubdomain),
+        status: 409,
+      };
+    }
+
+    throw error;
+  }
+
+  if (insertResult.meta.changes === 0) {
+    return {
+      success: false,
+      error: `You've reached the limit of ${permissions.maxUrls} URLs. Delete an existing URL to create a new one.`,
+      status: 403,
+    };
+  }
+
+  // --- Clear any negative cache entry left by visits before creation ---
+  await invalidateRedirect(env.cacheKv, urlSubdomain, shortcode);
+
+  return {
+    success: true,
+    url: {
+      id: insertResult.meta.last_row_id,
+      shortcode,
+      subdomain: urlSubdomain,
+      originalUrl: urlValidation.normalizedUrl,
+      fullShortUrl: buildFullShortUrl(urlSubdomain, shortcode),
+    },
+  };
+}
+
+/**
+ * Changes the destination, expiry, limits, password, UTM tags,
+ * passthrough setting and/or redirect type of a URL the user owns.
+ *
+ * The row keeps its id, shortcode and subdomain, so the short link,
+ * its click history and any saved QR codes that encode the short link
+ * all keep working — printed codes simply start pointing at the new
+ * destination. Moving expires_at into the future revives an expired
+ * link the same way.
+ *
+ * QR codes saved with url_type "original" encode the old destination
+ * directly in the image, so they are NOT updated by this.
+ */
+export async function updateUrl(
+  env: UrlMutationEnv,
+  userId: string,
+  urlId: number,
+  changes: UrlChanges
+): Promise<MutationResult<{}>> {
+  const assignments: string[] = [];
+  const values: (string | number | null)[] = [];
+
+  if (changes.originalUrl !== undefined) {
+    const urlValidation = validateUrl(changes.originalUrl);
+
+    if (!urlValidation.isValid) {
+      return { success: false, error: urlValidation.error, status: 400 };
+    }
+
+    assignments.push("original_url = ?");
+    values.push(urlValidation.normalizedUrl);
+  }
+
+  if (changes.expiresAt !== undefined) {
+    assignments.push("expires_at = ?");
+    values.push(changes.expiresAt);
+  }
+
+  if (changes.limits !== undefined) {
+    assignments.push("starts_at = ?", "max_clicks = ?", "fallback_url = ?");
+    values.push(
+      changes.limits.startsAt,
+      changes.limits.maxClicks,
+      changes.limits.fallbackUrl
+    );
+  }
+
+  if (changes.password !== undefined) {
+    const passwordError =
+      changes.password !== null ? validateLinkPassword(changes.password) : null;
+
+    if (passwordError) {
+      return { success: false, error: passwordError, status: 400 };
+    }
+
+    assignments.push("password_hash = ?");
+    values.push(
+      changes.password !== null ? await hashLinkPassword(changes.password) : null
+    );
+  }
+
+  if (changes.utm !== undefined) {
+    assignments.push("utm_source = ?", "utm_medium = ?", "utm_campaign = ?");
+    values.push(changes.utm.source, changes.utm.medium, changes.utm.campaign);
+  }
+
+  if (changes.passthrough !== undefined) {
+    assignments.push("passthrough = ?");
+    values.push(changes.passthrough ? 1 : 0);
+  }
+
+  if (changes.redirectType !== undefined) {
+    assignments.push("redirect_type = ?");
+    values.push(changes.redirectType);
+  }
+
+  const { db } = env;
+
+  // SECURITY: same ownership check as deleteUrl.
+  const urlOwnership = await findOwnedUrl(db, userId, urlId);
+
+  if (!urlOwnership) {
+    return { success: false, error: "URL not found.", status: 404 };
+  }
+
+  // The window is checked on the values the row will end up with
+  const windowError = checkDateWindow(
+    changes.limits !== undefined ? changes.limits.startsAt : urlOwnership.starts_at,
+    changes.expiresAt !== undefined ? changes.expiresAt : urlOwnership.expires_at
+  );
+
+  if (windowError) {
+    return { success: false, error: windowError, status: 400 };
+  }
+
+  if (assignments.length === 0) {
+    return { success: true };
+  }
+
+  await db
+    .prepare(
+      `UPDATE urls SET ${assignments.join(", ")} WHERE id = ? AND user_id = ?`
+    )
+    .bind(...values, urlId, userId)
+    .run();
+
+  await invalidateRedirect(
+    env.cacheKv,
+    urlOwnership.subdomain,
+    urlOwnership.shortcode
+  );
+
+  return { success: true };
+}
+
+/**
+ * Deletes a URL the user owns, with its QR codes, click history,
+ * routing rules and A/B variants.
+ *
+ * After deletion, the shortcode becomes available again:
+ *   - Short format: globally available (anyone can claim it)
+ *   - Branded format: available within that subdomain
+ */
+export async function deleteUrl(
+  env: UrlMutationEnv,
+  userId: string,
+  urlId: number
+): Promise<MutationResult<{}>> {
+  const { db, r2 } = env;
+
+  /**
+   * SECURITY: Verify the URL belongs to this user BEFORE deleting
+   * any associated data. Without this check, an attacker could submit
+   * someone else's URL ID and wipe their click data and QR codes
+   * even though the URL itself wouldn't be deleted (the final DELETE
+   * checks user_id, but the child data would already be gone).
+   */
+  const urlOwnership = await findOwnedUrl(db, userId, urlId);
+
+  if (!urlOwnership) {
+    return { success: false, error: "URL not found.", status: 404 };
+  }
+
+  /**
+   * Now that we've confirmed ownership, clean up child data:
+   * 1. Delete QR code images from R2 (not connected to D1)
+   * 2. Delete QR code rows from D1
+   * 3. Delete click analytics rows, routing rules and variants from D1
+   * 4. Delete the URL itself
+   * 5. Drop the cached redirect so the short link stops resolving
+   */
+  const qrRows = await db
+    .prepare(
+      "SELECT storage_path FROM qr_codes WHERE url_id = ? AND user_id = ?"
+    )
+    .bind(urlId, userId)
+    .all<{ storage_path: string }>();
+
+  for (const row of qrRows.results ?? []) {
+    await deleteQrImage(r2, row.storage_path);
+  }
+
+  await db
+    .prepare("DELETE FROM qr_codes WHERE url_id = ? AND user_id = ?")
+    .bind(urlId, userId)
+    .run();
+
+  await db
+    .prepare("DELETE FROM url_clicks WHERE url_id = ?")
+    .bind(urlId)
+    .run();
+
+  await db
+    .prepare("DELETE FROM url_device_rules WHERE url_id = ?")
+    .bind(urlId)
+    .run();
+
+  await db
+    .prepare("DELETE FROM url_geo_rules WHERE url_id = ?")
+    .bind(urlId)
+    .run();
+
+  await db
+    .prepare("DELETE FROM url_variants WHERE url_id = ?")
+    .bind(urlId)
+    .run();
+
+  await db
+    .prepare("DELETE FROM urls WHERE id = ? AND user_id = ?")
+    .bind(urlId, userId)
+    .run();
+
+  await invalidateRedirect(
+    env.cacheKv,
+    urlOwnership.subdomain,
+    urlOwnership.shortcode
+  );
+
+  return { success: true };
+}
+
+/** The columns URL changes need, from a URL the user owns */
+export interface OwnedUrl {
+  id: number;
+  shortcode: string;
+  subdomain: string | null;
+  starts_at: string | null;
+  expires_at: string | null;
+}
+
+/**
+ * Looks up a URL by ID, but only if it belongs to the user. Everything
+ * that changes a URL or its rules checks this first.
+ */
+export async function findOwnedUrl(
+  db: D1Database,
+  userId: string,
+  urlId: number
+): Promise<OwnedUrl | null> {
+  return db
+    .prepare(
+      `SELECT id, shortcode, subdomain, starts_at, expires_at
+       FROM urls WHERE id = ? AND user_id = ?`
+    )
+    .bind(urlId, userId)
+    .first<OwnedUrl>();
+}
+
+/**
+ * "yourdomain.com/abc123" or "name.yourdomain.com/abc123".
+ * No protocol, matching how short links are shown everywhere else.
+ */
+export function buildFullShortUrl(
+  subdomain: string | null,
+  shortcode: string
+): string {
+  return subdomain === null
+    ? `${SITE_DOMAIN}/${shortcode}`
+    : `${subdomain}.${SITE_DOMAIN}/${shortcode}`;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function shortcodeTakenMessage(
+  shortcode: string,
+  subdomain: string | null
+): string {
+  const scopeDescription =
+    subdomain === null ? "globally" : `under ${subdomain}.${SITE_DOMAIN}`;
+
+  return `Shortcode "${shortcode}" is already taken ${scopeDescription}.`;
+}
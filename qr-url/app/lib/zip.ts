@@ -0,0 +1,181 @@
+/**
+ * zip.ts
+ *
+ * Builds ZIP archives in memory. Used for bulk QR downloads, where
+ * the Worker returns many images as one file.
+ *
+ * Why hand-written?
+ *   A ZIP is a list of (header + data) records followed by a central
+ *   directory — about 100 lines. Compression comes from the built-in
+ *   CompressionStream("deflate-raw"), so there's no library to ship
+ *   and no other service involved.
+ *
+ * Limits: no ZIP64, so the archive and every entry must stay under
+ * 4GB and 65535 entries — far above anything we produce.
+ */
+
+import { crc32, concatBytes } from "~/lib/binary";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+/** Version 2.0: the minimum that supports deflate */
+const VERSION_NEEDED = 20;
+
+/** General purpose flag bit 11: file names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ZipEntry {
+  /** Path inside the archive, "/"-separated */
+  name: string;
+  data: Uint8Array;
+}
+
+interface PreparedEntry {
+  nameBytes: Uint8Array;
+  method: number;
+  crc: number;
+  compressed: Uint8Array;
+  uncompressedSize: number;
+  offset: number;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Packs the entries into a ZIP archive.
+ *
+ * Each entry is deflated, but stored as-is when deflating doesn't
+ * help — PNGs are already compressed, SVG and text shrink a lot.
+ */
+export async function createZip(
+  entries: ZipEntry[],
+  modifiedAt: Date = new Date()
+): Promise<Uint8Array<ArrayBuffer>> {
+  const encoder = new TextEncoder();
+  const { dosTime, dosDate } = toDosDateTime(modifiedAt);
+
+  const parts: Uint8Array[] = [];
+  const prepared: PreparedEntry[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const deflated = await deflateRaw(entry.data);
+    const useDeflate = deflated.length < entry.data.length;
+
+    const item: PreparedEntry = {
+      nameBytes: encoder.encode(entry.name),
+      method: useDeflate ? METHOD_DEFLATE : METHOD_STORE,
+      crc: crc32(entry.data),
+      compressed: useDeflate ? deflated : entry.data,
+      uncompressedSize: entry.data.length,
+      offset,
+    };
+
+    const header = new Uint8Array(30 + item.nameBytes.length);
+    const view = new DataView(header.buffer);
+
+    view.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+    view.setUint16(4, VERSION_NEEDED, true);
+    view.setUint16(6, FLAG_UTF8, true);
+    view.setUint16(8, item.method, true);
+    view.setUint16(10, dosTime, true);
+    view.setUint16(12, dosDate, true);
+    view.setUint32(14, item.crc, true);
+    view.setUint32(18, item.compressed.length, true);
+    view.setUint32(22, item.uncompressedSize, true);
+    view.setUint16(26, item.nameBytes.length, true);
+    view.setUint16(28, 0, true); // extra field length
+    header.set(item.nameBytes, 30);
+
+    parts.push(header, item.compressed);
+    prepared.push(item);
+    offset += header.length + item.compressed.length;
+  }
+
+  // --- Central directory: one record per entry, pointing at its header ---
+  const centralDirectoryOffset = offset;
+  let centralDirectorySize = 0;
+
+  for (const item of prepared) {
+    const record = new Uint8Array(46 + item.nameBytes.length);
+    const view = new DataView(record.buffer);
+
+    view.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(4, VERSION_NEEDED, true); // version made by
+    view.setUint16(6, VERSION_NEEDED, true);
+    view.setUint16(8, FLAG_UTF8, true);
+    view.setUint16(10, item.method, true);
+    view.setUint16(12, dosTime, true);
+    view.setUint16(14, dosDate, true);
+    view.setUint32(16, item.crc, true);
+    view.setUint32(20, item.compressed.length, true);
+    view.setUint32(24, item.uncompressedSize, true);
+    view.setUint16(28, item.nameBytes.length, true);
+    // 30–41: extra/comment length, disk number, attributes — all zero
+    view.setUint32(42, item.offset, true);
+    record.set(item.nameBytes, 46);
+
+    parts.push(record);
+    centralDirectorySize += record.length;
+  }
+
+  // --- End of central directory ---
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, prepared.length, true); // entries on this disk
+  endView.setUint16(10, prepared.length, true); // entries total
+  endView.setUint32(12, centralDirectorySize, true);
+  endView.setUint32(16, centralDirectoryOffset, true);
+
+  parts.push(end);
+
+  return concatBytes(parts);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** ZIP's deflate entries are raw deflate: no zlib header or checksum */
+async function deflateRaw(input: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([input as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * MS-DOS date/time, which ZIP headers still use: 2-second resolution,
+ * years from 1980. Uses UTC so the result doesn't depend on where
+ * the Worker runs.
+ */
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getUTCFullYear(), 1980);
+
+  return {
+    dosTime:
+      (date.getUTCHours() << 11) |
+      (date.getUTCMinutes() << 5) |
+      Math.floor(date.getUTCSeconds() / 2),
+    dosDate:
+      ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
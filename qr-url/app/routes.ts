@@ -5,7 +5,16 @@ export default [
   route("dashboard", "routes/dashboard.tsx"),
   route("dashboard/create", "routes/dashboard.create.tsx"),
   route("dashboard/qr/new", "routes/dashboard.qr.new.tsx"),
+  route("dashboard/qr/bulk", "routes/dashboard.qr.bulk.tsx"),
   route("dashboard/analytics/:urlId", "routes/dashboard.analytics.$urlId.tsx"),
+  route("dashboard/routing/:urlId", "routes/dashboard.routing.$urlId.tsx"),
+  route("dashboard/api-tokens", "routes/dashboard.api-tokens.tsx"),
   route("api/qr-image/*", "routes/api.qr-image.$.tsx"),
+  route("api/qr-bulk", "routes/api.qr-bulk.tsx"),
+  route("api/redirect-cache-stats", "routes/api.redirect-cache-stats.tsx"),
+  route("api/v1/urls", "routes/api.v1.urls.tsx"),
+  route("api/v1/urls/:urlId", "routes/api.v1.urls.$urlId.tsx"),
+  route("api/v1/urls/:urlId/analytics", "routes/api.v1.urls.$urlId.analytics.tsx"),
+  route("api/v1/qr-codes", "routes/api.v1.qr-codes.tsx"),
 
 ] satisfies RouteConfig;
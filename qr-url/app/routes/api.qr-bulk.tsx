@@ -0,0 +1,94 @@
+/**
+ *
+ * Generates QR codes for many URLs at once and returns them as a ZIP.
+ *
+ *   POST /api/qr-bulk
+ *     urlIds            one field per URL (repeated)
+ *     urlType           original | branded | shortest
+ *     format            png | svg
+ *     customizationJson the preset applied to every code
+ *
+ * Every code is saved to the library like a single one, so it counts
+ * against maxQrCodes (see qr-bulk.ts). Success returns application/zip;
+ * errors return JSON { error } with the matching status, which the
+ * bulk page shows inline.
+ *
+ * A resource route rather than a page action: actions return data to
+ * the page, and the browser needs the ZIP bytes as a download.
+ */
+
+import { getAuth } from "@clerk/react-router/ssr.server";
+import type { Route } from "./+types/api.qr-bulk";
+import { parseQrCustomization } from "~/lib/qr-customization";
+import { isQrUrlType } from "~/lib/qr-creation";
+import { buildBulkQrZip, isBulkQrFormat } from "~/lib/qr-bulk";
+
+// ---------------------------------------------------------------------------
+// Action (POST request handler)
+// ---------------------------------------------------------------------------
+
+export async function action(args: Route.ActionArgs) {
+  const { userId } = await getAuth(args);
+
+  if (!userId) {
+    return Response.json({ error: "Not authenticated." }, { status: 401 });
+  }
+
+  const formData = await args.request.formData();
+
+  const urlIds = formData.getAll("urlIds").map(Number);
+  const urlType = (formData.get("urlType") as string) ?? "shortest";
+  const format = (formData.get("format") as string) ?? "png";
+  const customizationJson =
+    (formData.get("customizationJson") as string) ?? "{}";
+
+  if (urlIds.some((id) => !Number.isInteger(id) || id <= 0)) {
+    return Response.json({ error: "Invalid URL selection." }, { status: 400 });
+  }
+
+  if (!isQrUrlType(urlType)) {
+    return Response.json({ error: "Invalid URL type." }, { status: 400 });
+  }
+
+  if (!isBulkQrFormat(format)) {
+    return Response.json({ error: "Invalid format." }, { status: 400 });
+  }
+
+  const customizationResult = parseQrCustomization(customizationJson);
+
+  if (!customizationResult.isValid) {
+    return Response.json(
+      { error: customizationResult.error },
+      { status: 400 }
+    );
+  }
+
+  const env = args.context.cloudflare.env;
+
+  const result = await buildBulkQrZip(
+    { db: env.qr_url_db, r2: env.QR_IMAGES, cacheKv: env.REDIRECT_CACHE_KV },
+    userId,
+    {
+      urlIds,
+      urlType,
+      format,
+      customization: customizationResult.customization,
+    }
+  );
+
+  if (!result.success) {
+    return Response.json({ error: result.error }, { status: result.status });
+  }
+
+  const fileName = `qr-codes-${new Date().toISOString().slice(0, 10)}.zip`;
+
+  return new Response(result.zip, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "no-store",
+      "X-Qr-Created-Count": String(result.createdCount),
+      "X-Qr-Failed-Count": String(result.failedCount),
+    },
+  });
+}
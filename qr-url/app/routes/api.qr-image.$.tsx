@@ -1,6 +1,6 @@
 /**
  *
- * Serves QR code PNG images from R2 storage.
+ * Serves QR code images (SVG, or PNG for older codes) from R2 storage.
  *
  * Why a route instead of direct R2 public URLs?
  *   - Works in local development (no public R2 access locally)
@@ -12,12 +12,53 @@
  *   /api/qr-image/qr-codes/user_abc/xyz123.png
  *   → storagePath = "qr-codes/user_abc/xyz123.png"
  *
+ * Only qr-codes/ keys are served. The bucket also holds uploaded logos
+ * (qr-logos/, see qr-storage.ts), which are private to their owner and
+ * only ever read server-side.
+ *
+ * Export formats:
+ *   Without query params, the stored object is served as-is.
+ *   With ?format=svg|png|pdf|eps (and optional &scale=1-4, 1-2 for PNG),
+ *   the code is rendered on demand from the saved encoded_url +
+ *   customization:
+ *     /api/qr-image/qr-codes/user_abc/xyz123.svg?format=pdf
+ *     /api/qr-image/qr-codes/user_abc/xyz123.svg?format=png&scale=2
+ *   Saved codes never change, so exports are cached like the originals.
+ *   Codes with a logo can only be exported as SVG (see qr-export.ts);
+ *   the dashboard turns that SVG into a PNG in the browser.
+ *
  * For now this is public (no auth check). QR code images don't
  * contain sensitive data — they're just encoded URLs that are
  * already public. If needed, we could add owner-only access later.
  */
 
 import type { Route } from "./+types/api.qr-image.$";
+import { parseQrCustomization } from "~/lib/qr-customization";
+import { fetchLogoDataUrl } from "~/lib/qr-storage";
+import {
+  renderQrExport,
+  isExportFormat,
+  maxExportScale,
+} from "~/lib/qr-export";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** The only R2 prefix this route serves */
+const QR_IMAGE_PREFIX = "qr-codes/";
+
+const IMAGE_HEADERS: Record<string, string> = {
+  "Cache-Control": "public, max-age=31536000, immutable",
+  /**
+   * SVG is a document format and can carry scripts. Ours are
+   * generated server-side and contain none, but this makes sure
+   * nothing in an image could ever run if opened directly.
+   * img-src data: lets an embedded logo (a data URI) render.
+   */
+  "Content-Security-Policy":
+    "default-src 'none'; style-src 'unsafe-inline'; img-src data:",
+};
 
 // ---------------------------------------------------------------------------
 // Loader (GET request handler)
@@ -34,10 +75,17 @@ export async function loader(args: Route.LoaderArgs) {
    */
   const storagePath = args.params["*"];
 
-  if (!storagePath) {
+  if (!storagePath || !storagePath.startsWith(QR_IMAGE_PREFIX)) {
     return new Response("Not found", { status: 404 });
   }
 
+  const url = new URL(args.request.url);
+  const format = url.searchParams.get("format");
+
+  if (format !== null) {
+    return renderExport(args, storagePath, format, url.searchParams.get("scale"));
+  }
+
   /** Read the object from R2 */
   const object = await r2.get(storagePath);
 
@@ -48,11 +96,102 @@ export async function loader(args: Route.LoaderArgs) {
   /**
    * Return the image with proper headers.
    * R2 objects have a body that implements ReadableStream.
+   *
+   * The content type comes from the metadata set at upload time.
+   * Objects uploaded before SVG support have "image/png" there too,
+   * so the fallback only matters for objects with no metadata at all.
    */
   return new Response(object.body, {
     headers: {
-      "Content-Type": "image/png",
-      "Cache-Control": "public, max-age=31536000, immutable",
+      ...IMAGE_HEADERS,
+      "Content-Type": object.httpMetadata?.contentType ?? "image/png",
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// On-demand export
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders a saved QR code in another format.
+ *
+ * The qr_codes row (not the stored image) is the source of truth:
+ * we re-render from encoded_url + customization, so a PDF export of
+ * an old PNG-era code is still a true vector file.
+ */
+async function renderExport(
+  args: Route.LoaderArgs,
+  storagePath: string,
+  format: string,
+  scaleParam: string | null
+) {
+  if (!isExportFormat(format)) {
+    return new Response("Unsupported format", { status: 400 });
+  }
+
+  const scale = scaleParam === null ? 1 : Number(scaleParam);
+  const maxScale = maxExportScale(format);
+
+  if (!Number.isInteger(scale) || scale < 1 || scale > maxScale) {
+    return new Response(`Scale must be an integer from 1 to ${maxScale}`, {
+      status: 400,
+    });
+  }
+
+  const db = args.context.cloudflare.env.qr_url_db;
+
+  const qrRow = await db
+    .prepare(
+      "SELECT id, encoded_url, customization FROM qr_codes WHERE storage_path = ?"
+    )
+    .bind(storagePath)
+    .first<{ id: number; encoded_url: string; customization: string }>();
+
+  if (!qrRow) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const customizationResult = parseQrCustomization(qrRow.customization);
+
+  if (!customizationResult.isValid) {
+    return new Response("Stored customization is invalid", { status: 422 });
+  }
+
+  const customization = customizationResult.customization;
+  let logoDataUrl: string | null = null;
+
+  if (customization.logo) {
+    if (format !== "svg") {
+      return new Response("QR codes with a logo can only be exported as SVG", {
+        status: 409,
+      });
+    }
+
+    logoDataUrl = await fetchLogoDataUrl(
+      args.context.cloudflare.env.QR_IMAGES,
+      customization.logo.storagePath
+    );
+  }
+
+  const result = await renderQrExport(
+    qrRow.encoded_url,
+    customization,
+    format,
+    scale,
+    logoDataUrl
+  );
+
+  const fileName =
+    scale === 1
+      ? `qr-${qrRow.id}.${result.extension}`
+      : `qr-${qrRow.id}@${scale}x.${result.extension}`;
+
+  return new Response(result.body, {
+    headers: {
+      ...IMAGE_HEADERS,
+      "Content-Type": result.contentType,
+      "Content-Disposition": `inline; filename="${fileName}"`,
     },
   });
 }
@@ -0,0 +1,86 @@
+/**
+ *
+ * Exposes the redirect cache hit/miss counters as JSON.
+ *
+ *   GET /api/redirect-cache-stats          → last 7 days
+ *   GET /api/redirect-cache-stats?days=30  → last 30 days (max 7 kept)
+ *
+ * Response:
+ *   {
+ *     "days": [{ "date": "2026-02-15", "hits": 1200, "misses": 40 }, ...],
+ *     "totals": { "hits": 8400, "misses": 310, "hitRatio": 0.96 }
+ *   }
+ *
+ * Counts are estimated from a 1-in-100 sample (see recordCacheResult in
+ * redirect-cache.ts), so they come in steps of 100.
+ * Site-wide traffic numbers, so only for admins: signed-in users listed
+ * in the ADMIN_USER_IDS env var (see app/types/clerk-env.d.ts).
+ */
+
+import { getAuth } from "@clerk/react-router/ssr.server";
+import type { Route } from "./+types/api.redirect-cache-stats";
+import { fetchCacheStats } from "~/lib/redirect-cache";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_DAYS = 7;
+
+/** Stats keys live for ~8 days in KV, so older days would always be 0. */
+const MAX_DAYS = 7;
+
+// ---------------------------------------------------------------------------
+// Loader (GET request handler)
+// ---------------------------------------------------------------------------
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args);
+
+  if (!userId) {
+    return Response.json({ error: "Not authenticated." }, { status: 401 });
+  }
+
+  if (!isAdmin(userId, args.context.cloudflare.env.ADMIN_USER_IDS)) {
+    return Response.json({ error: "Not allowed." }, { status: 403 });
+  }
+
+  const url = new URL(args.request.url);
+  const requestedDays = Number(url.searchParams.get("days") ?? DEFAULT_DAYS);
+  const days =
+    Number.isInteger(requestedDays) && requestedDays > 0
+      ? Math.min(requestedDays, MAX_DAYS)
+      : DEFAULT_DAYS;
+
+  const stats = await fetchCacheStats(
+    args.context.cloudflare.env.REDIRECT_CACHE_KV,
+    days
+  );
+
+  const hits = stats.reduce((sum, day) => sum + day.hits, 0);
+  const misses = stats.reduce((sum, day) => sum + day.misses, 0);
+  const lookups = hits + misses;
+
+  return Response.json(
+    {
+      days: stats,
+      totals: {
+        hits,
+        misses,
+        hitRatio: lookups > 0 ? Math.round((hits / lookups) * 100) / 100 : 0,
+      },
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isAdmin(userId: string, adminUserIds: string | undefined): boolean {
+  return (adminUserIds ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .includes(userId);
+}
@@ -0,0 +1,164 @@
+/**
+ * api.v1.qr-codes.tsx — /api/v1/qr-codes
+ *
+ * Public API: list and create the token owner's QR codes.
+ *
+ *   GET  /api/v1/qr-codes
+ *     → 200 { "qrCodes": [{ id, urlId, urlType, encodedUrl, imageUrl, createdAt }] }
+ *
+ *   POST /api/v1/qr-codes
+ *     { "urlId": 42,
+ *       "urlType": "original" | "branded" | "shortest",   (optional, default "shortest")
+ *       "customization": { "foregroundColor": "#1A1A2E", "size": 1024, ... } }
+ *     → 201 { "qrCode": {...} }
+ *
+ * customization takes the same fields the dashboard saves (see
+ * qr-customization.ts); omitted fields use DEFAULT_CUSTOMIZATION.
+ * Logos must be uploaded from the dashboard first — pass the returned
+ * storagePath in customization.logo.
+ *
+ * imageUrl is relative to the site origin and accepts the same
+ * ?format=svg|png|pdf|eps&scale=1-4 (1-2 for PNG) export options as the
+ * dashboard.
+ * Codes with a logo export as SVG only (409 otherwise); rasterize the
+ * SVG for a PNG, as the dashboard does.
+ * Saving goes through saveQrCode (qr-creation.ts): same scannability
+ * check and tier QR code limit (403 at the limit).
+ */
+
+import type { Route } from "./+types/api.v1.qr-codes";
+import { parseQrCustomization, DEFAULT_CUSTOMIZATION } from "~/lib/qr-customization";
+import { saveQrCode, isQrUrlType } from "~/lib/qr-creation";
+import { buildQrPublicPath } from "~/lib/qr-storage";
+import {
+  requireApiUser,
+  apiJson,
+  apiError,
+  apiMethodNotAllowed,
+  readJsonBody,
+  buildMutationEnv,
+} from "~/lib/api-v1";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface QrCodeRow {
+  id: number;
+  url_id: number;
+  url_type: string;
+  encoded_url: string;
+  storage_path: string;
+  created_at: string;
+}
+
+const QR_CODE_COLUMNS =
+  "id, url_id, url_type, encoded_url, storage_path, created_at";
+
+// ---------------------------------------------------------------------------
+// Loader (GET)
+// ---------------------------------------------------------------------------
+
+export async function loader(args: Route.LoaderArgs) {
+  const db = args.context.cloudflare.env.qr_url_db;
+  const auth = await requireApiUser(db, args.request);
+
+  if (!auth.authenticated) {
+    return auth.response;
+  }
+
+  const qrRows = await db
+    .prepare(
+      `SELECT ${QR_CODE_COLUMNS}
+       FROM qr_codes
+       WHERE user_id = ?
+       ORDER BY created_at DESC`
+    )
+    .bind(auth.userId)
+    .all<QrCodeRow>();
+
+  return apiJson({ qrCodes: (qrRows.results ?? []).map(toApiQrCode) });
+}
+
+// ---------------------------------------------------------------------------
+// Action (POST)
+// ---------------------------------------------------------------------------
+
+export async function action(args: Route.ActionArgs) {
+  if (args.request.method !== "POST") {
+    return apiMethodNotAllowed(["GET", "POST"]);
+  }
+
+  const env = args.context.cloudflare.env;
+  const auth = await requireApiUser(env.qr_url_db, args.request);
+
+  if (!auth.authenticated) {
+    return auth.response;
+  }
+
+  const body = await readJsonBody(args.request);
+
+  if (!body) {
+    return apiError(400, "Request body must be a JSON object.");
+  }
+
+  if (typeof body.urlId !== "number" || !Number.isInteger(body.urlId)) {
+    return apiError(400, "urlId must be an integer.");
+  }
+
+  const urlType = body.urlType ?? "shortest";
+
+  if (!isQrUrlType(urlType)) {
+    return apiError(400, 'urlType must be "original", "branded" or "shortest".');
+  }
+
+  const customizationInput = body.customization ?? {};
+
+  if (typeof customizationInput !== "object" || customizationInput === null) {
+    return apiError(400, "customization must be an object.");
+  }
+
+  const customizationResult = parseQrCustomization(
+    JSON.stringify({ ...DEFAULT_CUSTOMIZATION, ...customizationInput })
+  );
+
+  if (!customizationResult.isValid) {
+    return apiError(400, customizationResult.error);
+  }
+
+  const result = await saveQrCode(buildMutationEnv(env), auth.userId, {
+    urlId: body.urlId,
+    urlType,
+    customization: customizationResult.customization,
+  });
+
+  if (!result.success) {
+    return apiError(result.status, result.error);
+  }
+
+  const row = await env.qr_url_db
+    .prepare(`SELECT ${QR_CODE_COLUMNS} FROM qr_codes WHERE id = ?`)
+    .bind(result.qrCode.id)
+    .first<QrCodeRow>();
+
+  if (!row) {
+    return apiError(500, "QR code was created but could not be read back.");
+  }
+
+  return apiJson({ qrCode: toApiQrCode(row) }, 201);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toApiQrCode(row: QrCodeRow) {
+  return {
+    id: row.id,
+    urlId: row.url_id,
+    urlType: row.url_type,
+    encodedUrl: row.encoded_url,
+    imageUrl: buildQrPublicPath(row.storage_path),
+    createdAt: row.created_at,
+  };
+}
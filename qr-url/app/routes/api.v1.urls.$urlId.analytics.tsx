@@ -0,0 +1,146 @@
+/**
+ * api.v1.urls.$urlId.analytics.tsx — /api/v1/urls/:urlId/analytics
+ *
+ * Public API: click analytics for one of the token owner's URLs.
+ *
+ *   GET /api/v1/urls/42/analytics[?range=...][&traffic=bots]
+ *   → 200 {
+ *       "url":       { ... },
+ *       "range":     { from, to, interval },
+ *       "summary":   { totalClicks, uniqueVisitors, lastClickedAt },
+ *       "timeline":  [{ date, clicks, uniqueVisitors }],   (one per interval)
+ *       "referrers": [{ source, clicks, percentage }] | null,
+ *       "devices":   [{ device, clicks, percentage }] | null,
+ *       "countries": [{ country, clicks, percentage }] | null,
+ *       "heatmap":   [{ dayOfWeek, hour, clicks }] | null,
+ *       "browsers":  [{ browser, clicks, percentage, versions }] | null,
+ *       "systems":   [{ os, clicks, percentage }] | null,
+ *       "bots":      [{ family, clicks, percentage }]
+ *     }
+ *
+ * Every section covers the date range, given like on the analytics
+ * page: ?range=7d | 30d | 90d | ytd, or ?range=custom&from=YYYY-MM-DD
+ * &to=YYYY-MM-DD (UTC days, both included; see date-range.ts). The
+ * default is the last 30 days. Timeline entries are days, weeks or
+ * months depending on its length ("interval"; "date" is the first day
+ * of each). An invalid range, or one longer than the plan allows, is
+ * a 400.
+ *
+ * Bot clicks (link previews, crawlers) are left out of every section;
+ * with ?traffic=bots the sections count only them instead. "bots"
+ * breaks bot clicks down by family either way.
+ *
+ * Tier gating matches the analytics page: sections the plan can't see
+ * are null (not empty arrays, so "no data" and "not on your plan" stay
+ * distinguishable), and unique visitor counts are null without
+ * hasUniqueVisitors. Gated queries are skipped, not just hidden.
+ */
+
+import type { Route } from "./+types/api.v1.urls.$urlId.analytics";
+import {
+  fetchSummary,
+  fetchTimeline,
+  fetchTopReferrers,
+  fetchDeviceBreakdown,
+  fetchCountryBreakdown,
+  fetchActivityHeatmap,
+  fetchBotBreakdown,
+  fetchBrowserBreakdown,
+  fetchOsBreakdown,
+} from "~/lib/analytics-queries";
+import type { ClickTraffic } from "~/lib/analytics-queries";
+import { getTierPermissions } from "~/lib/tier";
+import { resolveDateRange, pickTimelineInterval } from "~/lib/date-range";
+import {
+  requireApiUser,
+  apiJson,
+  apiError,
+  parseIdParam,
+  fetchApiUrl,
+} from "~/lib/api-v1";
+
+// ---------------------------------------------------------------------------
+// Loader (GET)
+// ---------------------------------------------------------------------------
+
+export async function loader(args: Route.LoaderArgs) {
+  const db = args.context.cloudflare.env.qr_url_db;
+  const auth = await requireApiUser(db, args.request);
+
+  if (!auth.authenticated) {
+    return auth.response;
+  }
+
+  const urlId = parseIdParam(args.params.urlId);
+
+  // --- Fetch user's plan and URL info in parallel ---
+  const [url, userRow] = await Promise.all([
+    urlId === null ? null : fetchApiUrl(db, auth.userId, urlId),
+    db
+      .prepare("SELECT plan FROM users WHERE clerk_user_id = ?")
+      .bind(auth.userId)
+      .first<{ plan: string }>(),
+  ]);
+
+  if (!url) {
+    return apiError(404, "URL not found.");
+  }
+
+  const permissions = getTierPermissions(userRow?.plan);
+
+  const searchParams = new URL(args.request.url).searchParams;
+
+  const traffic: ClickTraffic = searchParams.get("traffic") === "bots" ? "bots" : "humans";
+
+  const rangeResult = resolveDateRange(searchParams, permissions.maxAnalyticsDays);
+
+  if (!rangeResult.isValid) {
+    return apiError(400, rangeResult.error);
+  }
+
+  const range = rangeResult.range;
+
+  const [
+    summary,
+    timeline,
+    referrers,
+    devices,
+    countries,
+    heatmap,
+    browsers,
+    systems,
+    bots,
+  ] = await Promise.all([
+    fetchSummary(db, url.id, range, traffic),
+    fetchTimeline(db, url.id, range, traffic),
+    permissions.hasReferrers ? fetchTopReferrers(db, url.id, range, traffic) : null,
+    permissions.hasDeviceBreakdown ? fetchDeviceBreakdown(db, url.id, range, traffic) : null,
+    permissions.hasCountryBreakdown ? fetchCountryBreakdown(db, url.id, range, traffic) : null,
+    permissions.hasActivityHeatmap ? fetchActivityHeatmap(db, url.id, range, traffic) : null,
+    permissions.hasBrowserOsBreakdown ? fetchBrowserBreakdown(db, url.id, range, traffic) : null,
+    permissions.hasBrowserOsBreakdown ? fetchOsBreakdown(db, url.id, range, traffic) : null,
+    fetchBotBreakdown(db, url.id, range),
+  ]);
+
+  return apiJson({
+    url,
+    range: { from: range.from, to: range.to, interval: pickTimelineInterval(range) },
+    summary: {
+      ...summary,
+      uniqueVisitors: permissions.hasUniqueVisitors ? summary.uniqueVisitors : null,
+    },
+    timeline: timeline.map((day) => ({
+      ...day,
+      uniqueVisitors: permissions.hasTimelineUniqueOverlay
+        ? day.uniqueVisitors
+        : null,
+    })),
+    referrers,
+    devices,
+    countries,
+    heatmap,
+    browsers,
+    systems,
+    bots,
+  });
+}
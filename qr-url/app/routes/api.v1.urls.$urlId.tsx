@@ -0,0 +1,179 @@
+/**
+ * api.v1.urls.$urlId.tsx — /api/v1/urls/:urlId
+ *
+ * Public API: read, update and delete one of the token owner's URLs.
+ *
+ *   GET    /api/v1/urls/42                       → 200 { "url": {...} }
+ *   PATCH  /api/v1/urls/42  { "originalUrl": "https://new.example.com",
+ *                            "expiresAt": "2026-12-31T23:59:59Z" | null,
+ *                            "startsAt": "2026-06-01T12:00:00Z" | null,
+ *                            "maxClicks": 100 | null,
+ *                            "fallbackUrl": "https://example.com" | null,
+ *                            "password": "s3cret" | null,
+ *                            "utm": { "source": "newsletter", ... } | null,
+ *                            "passthrough": true | false,
+ *                            "redirectType": "301" | "302" | "307" | "308" | "interstitial" }
+ *                                                 → 200 { "url": {...} }
+ *   DELETE /api/v1/urls/42                       → 204
+ *
+ * PATCH fields are optional; omitted ones stay as they are, and null
+ * removes an expiry, limit, password or the UTM tags. The destination,
+ * expiry, limits, password, UTM tags, passthrough setting and redirect
+ * type are all that can change — same as "edit-url" in the dashboard
+ * (see updateUrl in url-mutations.ts). Deleting
+ * also removes the URL's QR codes and click history.
+ * URLs owned by someone else answer 404, never 403.
+ */
+
+import type { Route } from "./+types/api.v1.urls.$urlId";
+import { updateUrl, deleteUrl } from "~/lib/url-mutations";
+import { isRedirectType } from "~/lib/redirect-type";
+import {
+  requireApiUser,
+  apiJson,
+  apiError,
+  apiMethodNotAllowed,
+  readJsonBody,
+  parseIdParam,
+  buildMutationEnv,
+  fetchApiUrl,
+  parseApiExpiresAt,
+  parseApiLimits,
+  parseApiPassword,
+  parseApiUtm,
+} from "~/lib/api-v1";
+
+// ---------------------------------------------------------------------------
+// Loader (GET)
+// ---------------------------------------------------------------------------
+
+export async function loader(args: Route.LoaderArgs) {
+  const db = args.context.cloudflare.env.qr_url_db;
+  const auth = await requireApiUser(db, args.request);
+
+  if (!auth.authenticated) {
+    return auth.response;
+  }
+
+  const urlId = parseIdParam(args.params.urlId);
+  const url = urlId === null ? null : await fetchApiUrl(db, auth.userId, urlId);
+
+  if (!url) {
+    return apiError(404, "URL not found.");
+  }
+
+  return apiJson({ url });
+}
+
+// ---------------------------------------------------------------------------
+// Action (PATCH, DELETE)
+// ---------------------------------------------------------------------------
+
+export async function action(args: Route.ActionArgs) {
+  const method = args.request.method;
+
+  if (method !== "PATCH" && method !== "DELETE") {
+    return apiMethodNotAllowed(["GET", "PATCH", "DELETE"]);
+  }
+
+  const env = args.context.cloudflare.env;
+  const auth = await requireApiUser(env.qr_url_db, args.request);
+
+  if (!auth.authenticated) {
+    return auth.response;
+  }
+
+  const urlId = parseIdParam(args.params.urlId);
+
+  if (urlId === null) {
+    return apiError(404, "URL not found.");
+  }
+
+  if (method === "DELETE") {
+    const result = await deleteUrl(buildMutationEnv(env), auth.userId, urlId);
+
+    if (!result.success) {
+      return apiError(result.status, result.error);
+    }
+
+    return new Response(null, { status: 204 });
+  }
+
+  const body = await readJsonBody(args.request);
+
+  if (!body) {
+    return apiError(400, "Request body must be a JSON object.");
+  }
+
+  if (body.originalUrl !== undefined && typeof body.originalUrl !== "string") {
+    return apiError(400, "originalUrl must be a string.");
+  }
+
+  const expiration = parseApiExpiresAt(body.expiresAt);
+
+  if (!expiration.isValid) {
+    return apiError(400, expiration.error);
+  }
+
+  const current = await fetchApiUrl(env.qr_url_db, auth.userId, urlId);
+
+  if (!current) {
+    return apiError(404, "URL not found.");
+  }
+
+  // Omitted limit fields keep their current value within the group
+  const limits = parseApiLimits(body, current);
+
+  if (!limits.isValid) {
+    return apiError(400, limits.error);
+  }
+
+  const password = parseApiPassword(body.password);
+
+  if (!password.isValid) {
+    return apiError(400, password.error);
+  }
+
+  const utm = parseApiUtm(body.utm);
+
+  if (!utm.isValid) {
+    return apiError(400, utm.error);
+  }
+
+  if (body.passthrough !== undefined && typeof body.passthrough !== "boolean") {
+    return apiError(400, "passthrough must be a boolean.");
+  }
+
+  if (body.redirectType !== undefined && !isRedirectType(body.redirectType)) {
+    return apiError(
+      400,
+      'redirectType must be "301", "302", "307", "308" or "interstitial".'
+    );
+  }
+
+  const changesLimits = ["startsAt", "maxClicks", "fallbackUrl"].some(
+    (field) => body[field] !== undefined
+  );
+
+  const result = await updateUrl(buildMutationEnv(env), auth.userId, urlId, {
+    originalUrl: body.originalUrl,
+    expiresAt: expiration.expiresAt,
+    limits: changesLimits ? limits.limits : undefined,
+    password: password.password,
+    utm: utm.utm,
+    passthrough: body.passthrough,
+    redirectType: body.redirectType,
+  });
+
+  if (!result.success) {
+    return apiError(result.status, result.error);
+  }
+
+  const url = await fetchApiUrl(env.qr_url_db, auth.userId, urlId);
+
+  if (!url) {
+    return apiError(404, "URL not found.");
+  }
+
+  return apiJson({ url });
+}
@@ -0,0 +1,173 @@
+/**
+ * api.v1.urls.tsx — /api/v1/urls
+ *
+ * Public API: list and create the token owner's URLs.
+ *
+ *   GET  /api/v1/urls
+ *     → 200 { "urls": [{ id, shortcode, subdomain, originalUrl, shortUrl, createdAt,
+ *                        expiresAt, startsAt, maxClicks, clickCount, fallbackUrl,
+ *                        hasPassword, utm, passthrough, redirectType }] }
+ *
+ *   POST /api/v1/urls
+ *     { "originalUrl": "https://example.com",
+ *       "format": "short" | "branded",   (optional, default "short")
+ *       "shortcode": "my-page",           (optional, auto-generated if omitted)
+ *       "expiresAt": "2026-12-31T23:59:59Z",  (optional, ISO 8601; never if omitted)
+ *       "startsAt": "2026-06-01T12:00:00Z",   (optional, no redirects before this)
+ *       "maxClicks": 100,                      (optional, only the first N visitors)
+ *       "fallbackUrl": "https://example.com",  (optional, for everyone else)
+ *       "password": "s3cret",                  (optional, asked before redirecting)
+ *       "utm": { "source": "newsletter",       (optional, added to the destination)
+ *                "medium": "email",
+ *                "campaign": "spring" },
+ *       "passthrough": true,                   (optional, forward query and extra path)
+ *       "redirectType": "301" }                (optional, "301" | "302" | "307" | "308" |
+ *                                               "interstitial"; default "302")
+ *     → 201 { "url": {...} }
+ *
+ * Creation goes through createUrl (url-mutations.ts), so the same
+ * validation and tier URL limit as the dashboard apply (403 at the limit).
+ * See api-v1.ts for auth and error conventions.
+ */
+
+import type { Route } from "./+types/api.v1.urls";
+import { createUrl } from "~/lib/url-mutations";
+import { NO_UTM_PARAMS } from "~/lib/destination-params";
+import { isRedirectType, DEFAULT_REDIRECT_TYPE } from "~/lib/redirect-type";
+import {
+  requireApiUser,
+  apiJson,
+  apiError,
+  apiMethodNotAllowed,
+  readJsonBody,
+  buildMutationEnv,
+  fetchApiUrl,
+  toApiUrl,
+  parseApiExpiresAt,
+  parseApiLimits,
+  parseApiPassword,
+  parseApiUtm,
+  API_URL_COLUMNS,
+} from "~/lib/api-v1";
+import type { ApiUrlRow } from "~/lib/api-v1";
+
+// ---------------------------------------------------------------------------
+// Loader (GET)
+// ---------------------------------------------------------------------------
+
+export async function loader(args: Route.LoaderArgs) {
+  const db = args.context.cloudflare.env.qr_url_db;
+  const auth = await requireApiUser(db, args.request);
+
+  if (!auth.authenticated) {
+    return auth.response;
+  }
+
+  const urlRows = await db
+    .prepare(
+      `SELECT ${API_URL_COLUMNS}
+       FROM urls
+       WHERE user_id = ?
+       ORDER BY created_at DESC`
+    )
+    .bind(auth.userId)
+    .all<ApiUrlRow>();
+
+  return apiJson({ urls: (urlRows.results ?? []).map(toApiUrl) });
+}
+
+// ---------------------------------------------------------------------------
+// Action (POST)
+// ---------------------------------------------------------------------------
+
+export async function action(args: Route.ActionArgs) {
+  if (args.request.method !== "POST") {
+    return apiMethodNotAllowed(["GET", "POST"]);
+  }
+
+  const env = args.context.cloudflare.env;
+  const auth = await requireApiUser(env.qr_url_db, args.request);
+
+  if (!auth.authenticated) {
+    return auth.response;
+  }
+
+  const body = await readJsonBody(args.request);
+
+  if (!body) {
+    return apiError(400, "Request body must be a JSON object.");
+  }
+
+  const format = body.format ?? "short";
+
+  if (format !== "short" && format !== "branded") {
+    return apiError(400, 'format must be "short" or "branded".');
+  }
+
+  if (body.shortcode !== undefined && typeof body.shortcode !== "string") {
+    return apiError(400, "shortcode must be a string.");
+  }
+
+  const expiration = parseApiExpiresAt(body.expiresAt);
+
+  if (!expiration.isValid) {
+    return apiError(400, expiration.error);
+  }
+
+  const limits = parseApiLimits(body, {
+    startsAt: null,
+    maxClicks: null,
+    fallbackUrl: null,
+  });
+
+  if (!limits.isValid) {
+    return apiError(400, limits.error);
+  }
+
+  const password = parseApiPassword(body.password);
+
+  if (!password.isValid) {
+    return apiError(400, password.error);
+  }
+
+  const utm = parseApiUtm(body.utm);
+
+  if (!utm.isValid) {
+    return apiError(400, utm.error);
+  }
+
+  if (body.passthrough !== undefined && typeof body.passthrough !== "boolean") {
+    return apiError(400, "passthrough must be a boolean.");
+  }
+
+  if (body.redirectType !== undefined && !isRedirectType(body.redirectType)) {
+    return apiError(
+      400,
+      'redirectType must be "301", "302", "307", "308" or "interstitial".'
+    );
+  }
+
+  const result = await createUrl(buildMutationEnv(env), auth.userId, {
+    originalUrl: typeof body.originalUrl === "string" ? body.originalUrl : "",
+    format,
+    customShortcode: body.shortcode ?? null,
+    expiresAt: expiration.expiresAt ?? null,
+    limits: limits.limits,
+    password: password.password ?? null,
+    utm: utm.utm ?? NO_UTM_PARAMS,
+    passthrough: body.passthrough ?? false,
+    redirectType: body.redirectType ?? DEFAULT_REDIRECT_TYPE,
+  });
+
+  if (!result.success) {
+    return apiError(result.status, result.error);
+  }
+
+  const url = await fetchApiUrl(env.qr_url_db, auth.userId, result.url.id);
+
+  if (!url) {
+    return apiError(500, "URL was created but could not be read back.");
+  }
+
+  return apiJson({ url }, 201);
+}
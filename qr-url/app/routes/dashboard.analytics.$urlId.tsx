@@ -4,14 +4,32 @@
  * Per-URL analytics page with tier gating.
  *
  * Free tier sees: summary stats (total clicks + last clicked),
- *   30-day timeline, top 5 referrers
+ *   click timeline, top 5 referrers, which routing rule each click
+ *   matched (only shown for links with matched rules), and the A/B
+ *   variant comparison (only shown for links with variants), for
+ *   ranges of up to 30 days
  *
  * Pro tier sees: all of the above PLUS unique visitors, device
- *   breakdown, country breakdown, activity heatmap
+ *   breakdown, country breakdown (bars or world map), activity
+ *   heatmap, browser and OS breakdowns, and the country → region →
+ *   city drill-down, for any range
+ *
+ * Every card covers the date range in the URL (?range=7d, ?range=custom
+ * &from=...&to=..., see date-range.ts; 30 days by default), picked with
+ * DateRangePicker. A range longer than the plan allows falls back to
+ * the default, with the reason shown above the cards.
+ *
+ * Bot clicks (link previews, crawlers) are left out of everything;
+ * ?traffic=bots shows only them instead (BotTrafficToggle).
+ *
+ * The drill-down level is in the URL too: ?country=DE lists Germany's
+ * regions, ?country=DE&region=Bavaria the cities in Bavaria
+ * (LocationDrilldown). Without ?country no drill-down query runs.
  *
  * The loader checks the user's plan and skips queries for features
- * the user can't see. This saves ~3 D1 queries per page load for
- * free users (devices, countries, heatmap).
+ * the user can't see. This saves ~6 D1 queries per page load for
+ * free users (devices, countries, country map, heatmap, browsers,
+ * systems).
  */
 
 import { getAuth } from "@clerk/react-router/ssr.server";
@@ -25,26 +43,54 @@ import {
   fetchTopReferrers,
   fetchDeviceBreakdown,
   fetchCountryBreakdown,
+  fetchCountryMap,
   fetchActivityHeatmap,
+  fetchRoutingBreakdown,
+  fetchVariantStats,
+  fetchBotBreakdown,
+  fetchBrowserBreakdown,
+  fetchOsBreakdown,
+  fetchLocationDrilldown,
 } from "~/lib/analytics-queries";
 import type {
   UrlInfo,
   AnalyticsSummary as SummaryData,
-  TimelineDay,
+  TimelinePoint,
   ReferrerEntry,
   DeviceEntry,
   CountryEntry,
   HeatmapCell,
+  RoutingBranchEntry,
+  VariantStatsEntry,
+  BotFamilyEntry,
+  BrowserEntry,
+  OsEntry,
+  LocationEntry,
+  LocationScope,
+  ClickTraffic,
 } from "~/lib/analytics-queries";
 import { getTierPermissions } from "~/lib/tier";
 import type { TierPermissions } from "~/lib/tier";
+import { DEFAULT_CLICK_LOCATION_LEVEL } from "~/lib/click-location";
+import {
+  resolveDateRange,
+  defaultDateRange,
+  pickTimelineInterval,
+} from "~/lib/date-range";
 import { SITE_DOMAIN } from "~/lib/constants";
 import { AnalyticsSummary } from "~/components/analytics/AnalyticsSummary";
 import { ClickTimelineChart } from "~/components/analytics/ClickTimelineChart";
 import { ReferrerList } from "~/components/analytics/ReferrerList";
+import { RoutingBreakdownList } from "~/components/analytics/RoutingBreakdownList";
+import { VariantComparisonTable } from "~/components/analytics/VariantComparisonTable";
+import { BotTrafficToggle } from "~/components/analytics/BotTrafficToggle";
+import { DateRangePicker } from "~/components/analytics/DateRangePicker";
 import { DeviceBreakdownChart } from "~/components/analytics/DeviceBreakdownChart";
 import { CountryBreakdownChart } from "~/components/analytics/CountryBreakdownChart";
 import { ActivityHeatmapChart } from "~/components/analytics/ActivityHeatmapChart";
+import { BrowserBreakdownChart } from "~/components/analytics/BrowserBreakdownChart";
+import { OsBreakdownChart } from "~/components/analytics/OsBreakdownChart";
+import { LocationDrilldown } from "~/components/analytics/LocationDrilldown";
 import { UpgradePrompt } from "~/components/UpgradePrompt";
 
 // ---------------------------------------------------------------------------
@@ -59,11 +105,23 @@ export async function loader(args: Route.LoaderArgs) {
       authenticated: false as const,
       urlInfo: null,
       summary: null,
-      timeline: [] as TimelineDay[],
+      timeline: [] as TimelinePoint[],
       referrers: [] as ReferrerEntry[],
       devices: [] as DeviceEntry[],
       countries: [] as CountryEntry[],
+      countryMap: [] as CountryEntry[],
       heatmap: [] as HeatmapCell[],
+      routing: [] as RoutingBranchEntry[],
+      variants: [] as VariantStatsEntry[],
+      bots: [] as BotFamilyEntry[],
+      browsers: [] as BrowserEntry[],
+      systems: [] as OsEntry[],
+      locations: [] as LocationEntry[],
+      locationScope: null as LocationScope | null,
+      clickLocation: DEFAULT_CLICK_LOCATION_LEVEL as string,
+      traffic: "humans" as ClickTraffic,
+      range: defaultDateRange(),
+      rangeError: null as string | null,
       permissions: getTierPermissions("free"),
     };
   }
@@ -79,9 +137,9 @@ export async function loader(args: Route.LoaderArgs) {
   const [urlInfo, userRow] = await Promise.all([
     fetchUrlInfo(db, urlId, userId),
     db
-      .prepare("SELECT plan FROM users WHERE clerk_user_id = ?")
+      .prepare("SELECT plan, click_location FROM users WHERE clerk_user_id = ?")
       .bind(userId)
-      .first<{ plan: string }>(),
+      .first<{ plan: string; click_location: string }>(),
   ]);
 
   if (!urlInfo) {
@@ -90,20 +148,40 @@ export async function loader(args: Route.LoaderArgs) {
 
   const permissions = getTierPermissions(userRow?.plan);
 
+  const searchParams = new URL(args.request.url).searchParams;
+
+  const traffic: ClickTraffic =
+    searchParams.get("traffic") === "bots" ? "bots" : "humans";
+
+  const country = searchParams.get("country");
+
+  const locationScope: LocationScope | null = country
+    ? { country, region: searchParams.get("region") || null }
+    : null;
+
+  // An invalid or too-long range shows the default, not an error page
+  const rangeResult = resolveDateRange(searchParams, permissions.maxAnalyticsDays);
+  const range = rangeResult.isValid ? rangeResult.range : defaultDateRange();
+
   /**
    * Build the list of queries to run based on the user's tier.
    *
-   * Free users get: summary, timeline, referrers (3 queries)
-   * Pro users get: all 6 queries
+   * Free users get: summary, timeline, referrers, routing, variants,
+   *   bots (6 queries)
+   * Pro users get: all 12 queries, plus the location drill-down
+   *   when a country is picked
    *
    * We always run the core queries. Paid-tier queries are only
    * added if the user has permission, saving ~15ms of D1 time
    * per page load for free users.
    */
   const coreQueries = Promise.all([
-    fetchSummary(db, urlId),
-    fetchTimeline(db, urlId),
-    fetchTopReferrers(db, urlId),
+    fetchSummary(db, urlId, range, traffic),
+    fetchTimeline(db, urlId, range, traffic),
+    fetchTopReferrers(db, urlId, range, traffic),
+    fetchRoutingBreakdown(db, urlId, range, traffic),
+    fetchVariantStats(db, urlId, range, traffic),
+    fetchBotBreakdown(db, urlId, range),
   ]);
 
   const shouldFetchPaid =
@@ -111,16 +189,41 @@ export async function loader(args: Route.LoaderArgs) {
     permissions.hasCountryBreakdown ||
     permissions.hasActivityHeatmap;
 
-  const paidQueries: Promise<[DeviceEntry[], CountryEntry[], HeatmapCell[]]> = shouldFetchPaid
+  const paidQueries: Promise<
+    [DeviceEntry[], CountryEntry[], CountryEntry[], HeatmapCell[]]
+  > = shouldFetchPaid
     ? Promise.all([
-        fetchDeviceBreakdown(db, urlId),
-        fetchCountryBreakdown(db, urlId),
-        fetchActivityHeatmap(db, urlId),
+        fetchDeviceBreakdown(db, urlId, range, traffic),
+        fetchCountryBreakdown(db, urlId, range, traffic),
+        fetchCountryMap(db, urlId, range, traffic),
+        fetchActivityHeatmap(db, urlId, range, traffic),
       ])
-    : Promise.resolve<[DeviceEntry[], CountryEntry[], HeatmapCell[]]>([[], [], []]);
+    : Promise.resolve<[DeviceEntry[], CountryEntry[], CountryEntry[], HeatmapCell[]]>([
+        [],
+        [],
+        [],
+        [],
+      ]);
+
+  const userAgentQueries: Promise<[BrowserEntry[], OsEntry[]]> =
+    permissions.hasBrowserOsBreakdown
+      ? Promise.all([
+          fetchBrowserBreakdown(db, urlId, range, traffic),
+          fetchOsBreakdown(db, urlId, range, traffic),
+        ])
+      : Promise.resolve<[BrowserEntry[], OsEntry[]]>([[], []]);
 
-  const [[summary, timeline, referrers], [devices, countries, heatmap]] =
-    await Promise.all([coreQueries, paidQueries]);
+  const locationQuery: Promise<LocationEntry[]> =
+    permissions.hasLocationDrilldown && locationScope
+      ? fetchLocationDrilldown(db, urlId, locationScope, range, traffic)
+      : Promise.resolve([]);
+
+  const [
+    [summary, timeline, referrers, routing, variants, bots],
+    [devices, countries, countryMap, heatmap],
+    [browsers, systems],
+    locations,
+  ] = await Promise.all([coreQueries, paidQueries, userAgentQueries, locationQuery]);
 
   return {
     authenticated: true as const,
@@ -130,7 +233,19 @@ export async function loader(args: Route.LoaderArgs) {
     referrers,
     devices,
     countries,
+    countryMap,
     heatmap,
+    routing,
+    variants,
+    bots,
+    browsers,
+    systems,
+    locations,
+    locationScope,
+    clickLocation: userRow?.click_location ?? DEFAULT_CLICK_LOCATION_LEVEL,
+    traffic,
+    range,
+    rangeError: rangeResult.error,
     permissions,
   };
 }
@@ -153,10 +268,24 @@ export default function DashboardAnalytics({
     referrers,
     devices,
     countries,
+    countryMap,
     heatmap,
+    routing,
+    variants,
+    bots,
+    browsers,
+    systems,
+    locations,
+    locationScope,
+    clickLocation,
+    traffic,
+    range,
+    rangeError,
     permissions,
   } = loaderData;
 
+  const hasRoutedClicks = routing.some((entry) => entry.ruleType !== null);
+
   if (!urlInfo || !summary) {
     return <p>URL not found.</p>;
   }
@@ -169,6 +298,16 @@ export default function DashboardAnalytics({
 
       <UrlHeader urlInfo={urlInfo} />
 
+      {/* --- Date range: every card below covers it --- */}
+      <DateRangePicker
+        range={range}
+        maxDays={permissions.maxAnalyticsDays}
+        error={rangeError}
+      />
+
+      {/* --- Bot clicks: left out, or the only thing shown --- */}
+      <BotTrafficToggle families={bots} showingBots={traffic === "bots"} />
+
       {/* --- Summary stats --- */}
       <AnalyticsSummary
         summary={summary}
@@ -178,9 +317,21 @@ export default function DashboardAnalytics({
       {/* --- Click timeline --- */}
       <ClickTimelineChart
         timeline={timeline}
+        interval={pickTimelineInterval(range)}
         showUniqueOverlay={permissions.hasTimelineUniqueOverlay}
       />
 
+      {/* --- Routing rules (only once a rule has matched) --- */}
+      {hasRoutedClicks && <RoutingBreakdownList branches={routing} />}
+
+      {/* --- A/B variants (only for split links) --- */}
+      {variants.length > 0 && (
+        <VariantComparisonTable
+          variants={variants}
+          showUniqueVisitors={permissions.hasUniqueVisitors}
+        />
+      )}
+
       {/* --- Row 1: Referrers + Devices --- */}
       <div
         style={{
@@ -212,7 +363,7 @@ export default function DashboardAnalytics({
         }}
       >
         {permissions.hasCountryBreakdown ? (
-          <CountryBreakdownChart countries={countries} />
+          <CountryBreakdownChart countries={countries} mapCountries={countryMap} />
         ) : (
           <UpgradePrompt
             featureTitle="Countries"
@@ -229,6 +380,41 @@ export default function DashboardAnalytics({
           />
         )}
       </div>
+
+      {/* --- Location drill-down: country → region → city --- */}
+      {permissions.hasLocationDrilldown ? (
+        <LocationDrilldown
+          countries={countries}
+          scope={locationScope}
+          places={locations}
+          clickLocation={clickLocation}
+        />
+      ) : (
+        <UpgradePrompt
+          featureTitle="Regions & Cities"
+          description="Drill down from a country to the regions and cities your visitors are in."
+        />
+      )}
+
+      {/* --- Row 3: Browsers + Operating systems --- */}
+      {permissions.hasBrowserOsBreakdown ? (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "1fr 1fr",
+            gap: "1.5rem",
+            marginBottom: "1.5rem",
+          }}
+        >
+          <BrowserBreakdownChart browsers={browsers} />
+          <OsBreakdownChart systems={systems} />
+        </div>
+      ) : (
+        <UpgradePrompt
+          featureTitle="Browsers & Operating Systems"
+          description="See which browsers and versions your visitors use, and on which systems."
+        />
+      )}
     </div>
   );
 }
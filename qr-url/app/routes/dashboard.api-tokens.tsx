@@ -0,0 +1,144 @@
+/**
+ * dashboard.api-tokens.tsx — /dashboard/api-tokens
+ *
+ * Create and revoke personal API tokens for the public REST API
+ * (/api/v1/*, see api-v1.ts).
+ *
+ * Loader: lists the user's tokens (name, prefix, dates — never secrets)
+ * Action: "create-api-token" returns the new token ONCE in the action
+ *         data; "revoke-api-token" marks a token revoked.
+ */
+
+import { getAuth } from "@clerk/react-router/ssr.server";
+import { RedirectToSignIn } from "@clerk/react-router";
+import { data, Link } from "react-router";
+import type { Route } from "./+types/dashboard.api-tokens";
+import { ApiTokenManager } from "~/components/ApiTokenManager";
+import {
+  createApiToken,
+  revokeApiToken,
+  fetchApiTokens,
+  MAX_API_TOKENS_PER_USER,
+} from "~/lib/api-tokens";
+import styles from "./dashboard.module.css";
+
+// ---------------------------------------------------------------------------
+// Loader
+// ---------------------------------------------------------------------------
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args);
+
+  if (!userId) {
+    return {
+      authenticated: false as const,
+      tokens: [],
+      maxTokens: MAX_API_TOKENS_PER_USER,
+    };
+  }
+
+  const tokens = await fetchApiTokens(
+    args.context.cloudflare.env.qr_url_db,
+    userId,
+  );
+
+  return {
+    authenticated: true as const,
+    tokens,
+    maxTokens: MAX_API_TOKENS_PER_USER,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Action
+// ---------------------------------------------------------------------------
+
+/**
+ * Current intents:
+ *   - "create-api-token" — create a token; the plaintext is in the response
+ *   - "revoke-api-token" — revoke a token the user owns
+ */
+export async function action(args: Route.ActionArgs) {
+  const { userId } = await getAuth(args);
+
+  if (!userId) {
+    return data(
+      { intent: "unknown", success: false, error: "Not authenticated." },
+      { status: 401 },
+    );
+  }
+
+  const db = args.context.cloudflare.env.qr_url_db;
+  const formData = await args.request.formData();
+  const intent = formData.get("intent") as string;
+
+  if (intent === "create-api-token") {
+    const name = (formData.get("name") as string) ?? "";
+    const result = await createApiToken(db, userId, name);
+
+    if (!result.success) {
+      return data(
+        { intent: "create-api-token", success: false, error: result.error },
+        { status: 400 },
+      );
+    }
+
+    return data({
+      intent: "create-api-token",
+      success: true,
+      token: result.token,
+      tokenName: result.name,
+    });
+  }
+
+  if (intent === "revoke-api-token") {
+    const tokenId = Number(formData.get("tokenId"));
+    const revoked = await revokeApiToken(db, userId, tokenId);
+
+    if (!revoked) {
+      return data(
+        { intent: "revoke-api-token", success: false, error: "Token not found." },
+        { status: 404 },
+      );
+    }
+
+    return data({ intent: "revoke-api-token", success: true });
+  }
+
+  return data(
+    { intent: "unknown", success: false, error: "Unknown action." },
+    { status: 400 },
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function DashboardApiTokens({
+  loaderData,
+}: Route.ComponentProps) {
+  if (!loaderData.authenticated) {
+    return <RedirectToSignIn />;
+  }
+
+  return (
+    <section>
+      <div className={styles.UrlQrCreationHeader}>
+        <h1>API Tokens</h1>
+        <Link to="/dashboard">&larr; Back to Dashboard</Link>
+      </div>
+
+      <p>
+        Use a token to create and manage links from scripts and CI. Send it as{" "}
+        <code>Authorization: Bearer &lt;token&gt;</code> to the endpoints under{" "}
+        <code>/api/v1</code>. Your plan's URL and QR code limits apply.
+      </p>
+
+      <ApiTokenManager
+        tokens={loaderData.tokens}
+        maxTokens={loaderData.maxTokens}
+      />
+    </section>
+  );
+}
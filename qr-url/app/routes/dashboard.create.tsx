@@ -7,7 +7,8 @@
  *   - Create = form + creation logic
  *
  * Loader: fetches user's subdomain and URL count (needed by the form)
- * Action: validates input, generates/validates shortcode, inserts URL
+ * Action: reads the form and creates the URL via createUrl (url-mutations.ts),
+ *         or previews/commits a CSV import (bulk-import.ts)
  */
 
 import { getAuth } from "@clerk/react-router/ssr.server";
@@ -18,13 +19,19 @@ import {
   UrlCreationForm,
   UrlCreatedSuccess,
 } from "~/components/UrlCreationForm";
-import { validateUrl } from "~/lib/url-validation";
-import {
-  generateUniqueShortcode,
-  validateCustomShortcode,
-} from "~/lib/shortcode";
-import { SITE_DOMAIN } from "~/lib/constants";
 import { getTierPermissions } from "~/lib/tier";
+import { createUrl } from "~/lib/url-mutations";
+import { resolveExpiration } from "~/lib/url-expiration";
+import { parseLinkLimits } from "~/lib/link-limits";
+import { resolvePasswordChange } from "~/lib/link-password";
+import { parseUtmParams } from "~/lib/destination-params";
+import { parseRedirectType } from "~/lib/redirect-type";
+import {
+  previewImport,
+  commitImport,
+  MAX_IMPORT_FILE_BYTES,
+} from "~/lib/bulk-import";
+import { BulkImportForm } from "~/components/BulkImportForm";
 import styles from "./dashboard.module.css";
 
 // ---------------------------------------------------------------------------
@@ -101,8 +108,13 @@ export async function action(args: Route.ActionArgs) {
     );
   }
 
-  const db = args.context.cloudflare.env.qr_url_db;
+  const env = args.context.cloudflare.env;
   const formData = await args.request.formData();
+  const intent = formData.get("intent") as string | null;
+
+  if (intent === "import-preview" || intent === "import-commit") {
+    return handleImport(args, userId, intent, formData);
+  }
 
   // --- Extract form fields ---
   const originalUrl = (formData.get("originalUrl") as string) ?? "";
@@ -110,166 +122,145 @@ export async function action(args: Route.ActionArgs) {
   const useCustomShortcode = formData.get("useCustomShortcode") === "true";
   const customShortcode = (formData.get("customShortcode") as string) ?? "";
 
-  // --- Validate URL ---
-  const urlValidation = validateUrl(originalUrl);
+  const expiration = resolveExpiration(
+    formData.get("expiresIn") as string | null,
+    formData.get("expiresAt") as string | null
+  );
 
-  if (!urlValidation.isValid) {
+  if (!expiration.isValid) {
     return data(
-      { success: false, error: urlValidation.error },
+      { success: false, error: expiration.error },
       { status: 400 }
     );
   }
 
-  // --- Enforce URL limit based on user's tier ---
-  const userRow = await db
-    .prepare("SELECT subdomain, plan FROM users WHERE clerk_user_id = ?")
-    .bind(userId)
-    .first<{ subdomain: string; plan: string }>();
+  const limits = parseLinkLimits(
+    formData.get("startsAt") as string | null,
+    formData.get("maxClicks") as string | null,
+    formData.get("fallbackUrl") as string | null
+  );
 
-  const permissions = getTierPermissions(userRow?.plan);
+  if (!limits.isValid) {
+    return data({ success: false, error: limits.error }, { status: 400 });
+  }
 
-  // --- Determine subdomain for this URL ---
-  let urlSubdomain: string | null = null;
-
-  if (urlFormat === "branded") {
-    if (!userRow?.subdomain) {
-      return data(
-        {
-          success: false,
-          error: "You need to set up a subdomain before creating branded URLs.",
-        },
-        { status: 400 }
-      );
-    }
+  const password = resolvePasswordChange(
+    formData.get("passwordMode") as string | null,
+    formData.get("linkPassword") as string | null
+  );
 
-    urlSubdomain = userRow.subdomain;
+  if (!password.isValid) {
+    return data({ success: false, error: password.error }, { status: 400 });
   }
 
-  // --- Resolve shortcode (auto-generate or validate custom) ---
-  let shortcode: string;
-
-  if (useCustomShortcode) {
-    const cleaned = customShortcode.trim().toLowerCase();
+  const utm = parseUtmParams(
+    formData.get("utmSource") as string | null,
+    formData.get("utmMedium") as string | null,
+    formData.get("utmCampaign") as string | null
+  );
 
-    const shortcodeValidation = validateCustomShortcode(cleaned);
+  if (!utm.isValid) {
+    return data({ success: false, error: utm.error }, { status: 400 });
+  }
 
-    if (!shortcodeValidation.isValid) {
-      return data(
-        { success: false, error: shortcodeValidation.error },
-        { status: 400 }
-      );
-    }
+  const redirectType = parseRedirectType(formData.get("redirectType") as string | null);
 
-    // Check uniqueness in the correct scope
-    const existingRow = await db
-      .prepare(
-        `SELECT 1 FROM urls
-         WHERE COALESCE(subdomain, '') = COALESCE(?, '')
-           AND shortcode = ?
-         LIMIT 1`
-      )
-      .bind(urlSubdomain, cleaned)
-      .first();
-
-    if (existingRow) {
-      const scopeDescription =
-        urlSubdomain === null
-          ? "globally"
-          : `under ${urlSubdomain}.${SITE_DOMAIN}`;
-
-      return data(
-        {
-          success: false,
-          error: `Shortcode "${cleaned}" is already taken ${scopeDescription}.`,
-        },
-        { status: 409 }
-      );
-    }
+  if (!redirectType.isValid) {
+    return data({ success: false, error: redirectType.error }, { status: 400 });
+  }
 
-    shortcode = cleaned;
-  } else {
-    const generated = await generateUniqueShortcode(db, urlSubdomain);
-
-    if (!generated) {
-      return data(
-        {
-          success: false,
-          error:
-            "Failed to generate a unique shortcode after multiple attempts. Please try again.",
-        },
-        { status: 500 }
-      );
+  // Validation, tier limit and the insert live in url-mutations.ts,
+  // shared with the public API.
+  const result = await createUrl(
+    { db: env.qr_url_db, r2: env.QR_IMAGES, cacheKv: env.REDIRECT_CACHE_KV },
+    userId,
+    {
+      originalUrl,
+      format: urlFormat === "branded" ? "branded" : "short",
+      customShortcode: useCustomShortcode ? customShortcode : null,
+      expiresAt: expiration.expiresAt,
+      limits: limits.limits,
+      password: password.password ?? null,
+      utm: utm.utm,
+      passthrough: formData.get("passthrough") === "true",
+      redirectType: redirectType.redirectType,
     }
+  );
 
-    shortcode = generated;
+  if (!result.success) {
+    return data(
+      { success: false, error: result.error },
+      { status: result.status }
+    );
   }
 
-  // --- Insert the URL ---
-let insertResult: Awaited<ReturnType<D1PreparedStatement["run"]>>;
-
-try {
-  insertResult = await db
-    .prepare(
-      `INSERT INTO urls (user_id, shortcode, original_url, subdomain)
-       SELECT ?, ?, ?, ?
-       WHERE (SELECT COUNT(*) FROM urls WHERE user_id = ?) < ?`
-    )
-    .bind(
-      userId,
+  const { shortcode, subdomain, originalUrl: normalizedUrl, fullShortUrl } =
+    result.url;
+
+  return data({
+    success: true,
+    createdUrl: {
       shortcode,
-      urlValidation.normalizedUrl,
-      urlSubdomain,
-      userId,
-      permissions.maxUrls
-    )
-    .run();
-} catch (error: unknown) {
-  const isUniqueConstraintError =
-    error instanceof Error &&
-    error.message.includes("UNIQUE constraint failed");
-
-  if (isUniqueConstraintError) {
-    const scopeDescription =
-      urlSubdomain === null
-        ? "globally"
-        : `under ${urlSubdomain}.${SITE_DOMAIN}`;
+      subdomain,
+      originalUrl: normalizedUrl,
+      fullShortUrl,
+    },
+  });
+}
 
+/**
+ * Handles the CSV import intents (submitted by BulkImportForm's fetcher):
+ *   - "import-preview" — per-row validation, nothing written
+ *   - "import-commit"  — creates the ready rows in one D1 batch
+ * Both receive the raw CSV text; commit re-validates it from scratch.
+ */
+async function handleImport(
+  args: Route.ActionArgs,
+  userId: string,
+  intent: "import-preview" | "import-commit",
+  formData: FormData
+) {
+  const csvText = (formData.get("csv") as string) ?? "";
+
+  if (new TextEncoder().encode(csvText).length > MAX_IMPORT_FILE_BYTES) {
     return data(
       {
+        intent,
         success: false,
-        error: `Shortcode "${shortcode}" is already taken ${scopeDescription}.`,
+        error: `The file must be ${MAX_IMPORT_FILE_BYTES / 1024 / 1024}MB or smaller.`,
       },
-      { status: 409 }
+      { status: 413 }
     );
   }
 
-  throw error;
-}
+  const env = args.context.cloudflare.env;
 
-if (insertResult.meta.changes === 0) {
-  return data(
-    {
-      success: false,
-      error: `You've reached the limit of ${permissions.maxUrls} URLs. Delete an existing URL to create a new one.`,
-    },
-    { status: 403 }
+  if (intent === "import-preview") {
+    const result = await previewImport(env.qr_url_db, userId, csvText);
+
+    if (!result.success) {
+      return data({ intent, success: false, error: result.error }, { status: 400 });
+    }
+
+    return data({ intent, success: true, preview: result.preview });
+  }
+
+  const result = await commitImport(
+    { db: env.qr_url_db, r2: env.QR_IMAGES, cacheKv: env.REDIRECT_CACHE_KV },
+    userId,
+    csvText
   );
-}
 
-  // --- Build the full short URL for display ---
-  const fullShortUrl =
-    urlSubdomain === null
-      ? `${SITE_DOMAIN}/${shortcode}`
-      : `${urlSubdomain}.${SITE_DOMAIN}/${shortcode}`;
+  if (!result.success) {
+    return data({ intent, success: false, error: result.error }, { status: 400 });
+  }
 
   return data({
+    intent,
     success: true,
-    createdUrl: {
-      shortcode,
-      subdomain: urlSubdomain,
-      originalUrl: urlValidation.normalizedUrl,
-      fullShortUrl,
-    },
+    results: result.results,
+    createdCount: result.createdCount,
+    resultCsv: result.resultCsv,
   });
 }
 
@@ -314,6 +305,8 @@ export default function DashboardCreate({
         urlCount={urlCount}
         maxUrls={maxUrls}
       />
+
+      <BulkImportForm urlCount={urlCount} maxUrls={maxUrls} />
     </section>
   );
 }
\ No newline at end of file
@@ -0,0 +1,401 @@
+/**
+ * Bulk QR code generation page.
+ *
+ * Flow:
+ *   1. User ticks the URLs to generate codes for
+ *   2. Configures one preset with the usual customization form; the
+ *      URL picked there is only used for the preview
+ *   3. Picks PNG or SVG and clicks "Download ZIP"
+ *   4. POST /api/qr-bulk saves a code per URL to the library and
+ *      returns them as one ZIP (files named by shortcode + manifest.csv)
+ *
+ * The download goes through fetch() rather than a form post so errors
+ * (limit reached, invalid preset) can be shown on the page instead of
+ * navigating to a JSON response.
+ */
+
+import { useState } from "react";
+import { getAuth } from "@clerk/react-router/ssr.server";
+import { RedirectToSignIn } from "@clerk/react-router";
+import { Link, useRevalidator } from "react-router";
+import type { Route } from "./+types/dashboard.qr.bulk";
+import { QrCustomizationForm } from "~/components/QR/QRCustomizationForm";
+import type { UrlOption } from "~/components/QR/QRCustomizationForm";
+import type { QrCustomization } from "~/lib/qr-customization";
+import { renderQrSvg, svgToDataUrl } from "~/lib/qr-svg";
+import { checkScannability } from "~/lib/qr-scannability";
+import {
+  BULK_QR_FORMATS,
+  MAX_BULK_QR_CODES,
+  MAX_BULK_PNG_QR_CODES,
+  maxBulkQrCodes,
+} from "~/lib/qr-bulk";
+import type { BulkQrFormat } from "~/lib/qr-bulk";
+import { SITE_DOMAIN } from "~/lib/constants";
+import { getTierPermissions } from "~/lib/tier";
+import styles from "./dashboard.module.css";
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args);
+
+  if (!userId) {
+    return {
+      authenticated: false as const,
+      urls: [],
+      qrCount: 0,
+      maxQrCodes: getTierPermissions("free").maxQrCodes,
+    };
+  }
+
+  const db = args.context.cloudflare.env.qr_url_db;
+
+  /** Fetch user's plan for tier-aware limits */
+  const userRow = await db
+    .prepare("SELECT plan FROM users WHERE clerk_user_id = ?")
+    .bind(userId)
+    .first<{ plan: string }>();
+
+  const permissions = getTierPermissions(userRow?.plan);
+
+  const urlRows = await db
+    .prepare(
+      `SELECT id, shortcode, original_url, subdomain
+       FROM urls
+       WHERE user_id = ?
+       ORDER BY created_at DESC`,
+    )
+    .bind(userId)
+    .all<{
+      id: number;
+      shortcode: string;
+      original_url: string;
+      subdomain: string | null;
+    }>();
+
+  const qrCountRow = await db
+    .prepare("SELECT COUNT(*) as count FROM qr_codes WHERE user_id = ?")
+    .bind(userId)
+    .first<{ count: number }>();
+
+  return {
+    authenticated: true as const,
+    urls: urlRows.results ?? [],
+    qrCount: qrCountRow?.count ?? 0,
+    maxQrCodes: permissions.maxQrCodes,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function DashboardQrBulk({ loaderData }: Route.ComponentProps) {
+  if (!loaderData.authenticated) {
+    return <RedirectToSignIn />;
+  }
+
+  const { urls, qrCount, maxQrCodes } = loaderData;
+  const revalidator = useRevalidator();
+
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [preset, setPreset] = useState<{
+    svgMarkup: string;
+    encodedUrl: string;
+    urlType: string;
+    customization: QrCustomization;
+  } | null>(null);
+  const [format, setFormat] = useState<BulkQrFormat>("png");
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [downloadSummary, setDownloadSummary] = useState<string | null>(null);
+
+  const remainingSlots = Math.max(0, maxQrCodes - qrCount);
+  // The whole list can be picked for SVG; PNG is checked at download
+  const selectionLimit = Math.min(MAX_BULK_QR_CODES, remainingSlots);
+  const formatLimit = maxBulkQrCodes(format);
+  const hasLogo = preset?.customization.logo != null;
+  const scannability = preset
+    ? checkScannability(preset.encodedUrl, preset.customization)
+    : null;
+
+  function toggleUrl(urlId: number) {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+
+      if (next.has(urlId)) {
+        next.delete(urlId);
+      } else if (next.size < selectionLimit) {
+        next.add(urlId);
+      }
+
+      return next;
+    });
+  }
+
+  function selectAll() {
+    setSelectedIds(new Set(urls.slice(0, selectionLimit).map((u) => u.id)));
+  }
+
+  /** Same preview as the single QR page, without the save button */
+  function handleGenerate(
+    urlId: number,
+    urlType: string,
+    customization: QrCustomization,
+    logoDataUrl: string | null,
+  ) {
+    const previewUrl = urls.find((u) => u.id === urlId);
+
+    if (!previewUrl) {
+      return;
+    }
+
+    const encodedUrl = previewEncodedUrl(previewUrl, urlType);
+
+    setPreset({
+      svgMarkup: renderQrSvg(encodedUrl, customization, logoDataUrl),
+      encodedUrl,
+      urlType,
+      customization,
+    });
+
+    // Logos are only embedded in SVG (see qr-export.ts)
+    if (customization.logo) {
+      setFormat("svg");
+    }
+  }
+
+  async function handleDownload() {
+    if (!preset || selectedIds.size === 0) {
+      return;
+    }
+
+    setIsDownloading(true);
+    setDownloadError(null);
+    setDownloadSummary(null);
+
+    const formData = new FormData();
+
+    for (const urlId of selectedIds) {
+      formData.append("urlIds", String(urlId));
+    }
+
+    formData.set("urlType", preset.urlType);
+    formData.set("format", format);
+    formData.set("customizationJson", JSON.stringify(preset.customization));
+
+    try {
+      const response = await fetch("/api/qr-bulk", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as {
+          error?: string;
+        } | null;
+        setDownloadError(body?.error ?? "Failed to generate QR codes.");
+        return;
+      }
+
+      const createdCount = Number(response.headers.get("X-Qr-Created-Count"));
+      const failedCount = Number(response.headers.get("X-Qr-Failed-Count"));
+
+      downloadBlob(
+        await response.blob(),
+        `qr-codes-${new Date().toISOString().slice(0, 10)}.zip`,
+      );
+
+      setDownloadSummary(
+        `Created ${createdCount} QR code${createdCount !== 1 ? "s" : ""}` +
+          (failedCount > 0
+            ? `, ${failedCount} failed — see manifest.csv in the ZIP.`
+            : "."),
+      );
+      setSelectedIds(new Set());
+
+      // The new codes are in the library now; refresh the usage count
+      revalidator.revalidate();
+    } catch (err) {
+      setDownloadError("Failed to generate QR codes. Please try again.");
+      console.error("Bulk QR error:", err);
+    } finally {
+      setIsDownloading(false);
+    }
+  }
+
+  const urlOptions: UrlOption[] = urls.map((u) => ({
+    id: u.id,
+    shortcode: u.shortcode,
+    originalUrl: u.original_url,
+    subdomain: u.subdomain,
+  }));
+
+  return (
+    <section>
+      <div className={styles.UrlQrCreationHeader}>
+        <h1>Bulk QR Codes</h1>
+
+        <Link to="/dashboard/qr/new">&larr; Single QR Code</Link>
+      </div>
+
+      <p>
+        {qrCount} of {maxQrCodes} QR codes used. Each generated code is saved
+        to your library. Up to {MAX_BULK_QR_CODES} SVG or{" "}
+        {MAX_BULK_PNG_QR_CODES} PNG codes per download.
+      </p>
+
+      {remainingSlots === 0 ? (
+        <p>
+          You've reached the limit of {maxQrCodes} QR codes. Delete some
+          existing QR codes to create new ones.
+        </p>
+      ) : (
+        <>
+          {/* --- URL selection --- */}
+          <fieldset>
+            <legend>
+              URLs ({selectedIds.size} of {selectionLimit} selected)
+            </legend>
+
+            <div>
+              <button type="button" onClick={selectAll}>
+                Select {Math.min(urls.length, selectionLimit)}
+              </button>
+              <button type="button" onClick={() => setSelectedIds(new Set())}>
+                Clear
+              </button>
+            </div>
+
+            <ul style={{ listStyle: "none", padding: 0 }}>
+              {urls.map((u) => (
+                <li key={u.id}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(u.id)}
+                      onChange={() => toggleUrl(u.id)}
+                      disabled={
+                        !selectedIds.has(u.id) &&
+                        selectedIds.size >= selectionLimit
+                      }
+                    />{" "}
+                    <code>{u.shortcode}</code> — {u.original_url}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </fieldset>
+
+          {/* --- Preset --- */}
+          <QrCustomizationForm
+            urls={urlOptions}
+            preselectedUrlId={null}
+            onGenerate={handleGenerate}
+            isGenerating={false}
+          />
+
+          {preset && scannability && (
+            <div>
+              <img
+                src={svgToDataUrl(preset.svgMarkup)}
+                alt={`QR code preview for ${preset.encodedUrl}`}
+                style={{ maxWidth: "192px" }}
+              />
+
+              <p>
+                Contrast: {scannability.contrastRatio.toFixed(1)}:1
+              </p>
+
+              {scannability.issues.length > 0 && (
+                <ul>
+                  {scannability.issues.map((issue) => (
+                    <li
+                      key={issue.message}
+                      role={issue.severity === "error" ? "alert" : undefined}
+                    >
+                      {issue.severity === "error" ? "Error: " : "Warning: "}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <label>
+                Format{" "}
+                <select
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as BulkQrFormat)}
+                >
+                  {BULK_QR_FORMATS.map((f) => (
+                    <option key={f} value={f} disabled={hasLogo && f !== "svg"}>
+                      {f.toUpperCase()}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <button
+                type="button"
+                onClick={handleDownload}
+                disabled={
+                  isDownloading ||
+                  selectedIds.size === 0 ||
+                  selectedIds.size > formatLimit ||
+                  scannability.isBlocking
+                }
+              >
+                {isDownloading
+                  ? "Generating..."
+                  : `Download ZIP (${selectedIds.size})`}
+              </button>
+
+              {selectedIds.size > formatLimit && (
+                <p>
+                  Up to {formatLimit} {format.toUpperCase()} codes per
+                  download — select fewer URLs or pick SVG.
+                </p>
+              )}
+            </div>
+          )}
+
+          {downloadSummary && <p role="status">{downloadSummary}</p>}
+          {downloadError && <p role="alert">{downloadError}</p>}
+        </>
+      )}
+    </section>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Best guess of what the preview URL will encode. The server resolves
+ * each URL authoritatively ("shortest" may auto-create one).
+ */
+function previewEncodedUrl(
+  url: { shortcode: string; original_url: string; subdomain: string | null },
+  urlType: string,
+): string {
+  if (urlType === "original") {
+    return url.original_url;
+  }
+
+  if (urlType === "branded" && url.subdomain) {
+    return `${url.subdomain}.${SITE_DOMAIN}/${url.shortcode}`;
+  }
+
+  return `${SITE_DOMAIN}/${url.shortcode}`;
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+
+  link.href = objectUrl;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(objectUrl);
+}
@@ -7,14 +7,22 @@
  *
  * Flow:
  *   1. User configures settings (URL, type, colors, size, EC)
- *   2. Clicks "Generate Preview" → QR generated client-side via Canvas
+ *   2. Clicks "Generate Preview" → SVG rendered client-side (qr-svg.ts)
  *   3. Sees preview → clicks "Save to Library"
- *   4. Client submits base64 PNG + metadata to this route's action
- *   5. Action: resolves encoded URL, uploads PNG to R2, saves to D1
+ *   4. Client submits the customization JSON + metadata (no image bytes)
+ *   5. Action: validates customization, resolves encoded URL, renders
+ *      the SVG on the server, refuses unscannable codes
+ *      (qr-scannability.ts), uploads it to R2, saves to D1 — all in
+ *      saveQrCode (qr-creation.ts), which the public API shares
  *
- * Why client-side generation?
- *   The `qrcode` npm package needs canvas to render PNGs.
- *   So we generate in the browser, then send the image to the server.
+ * Logos are uploaded separately ("upload-logo" intent) as soon as the
+ * user picks a file. The customization only carries the R2 key; on
+ * save the server reads the logo back from R2 and embeds it.
+ *
+ * Why render on the server?
+ *   The stored image is built from the stored customization, so the
+ *   library can never contain an image that doesn't match its metadata.
+ *   The preview uses the same renderer, so what you see is what's saved.
  */
 
 import { useState } from "react";
@@ -25,14 +33,12 @@ import type { Route } from "./+types/dashboard.qr.new";
 import { QrCustomizationForm } from "~/components/QR/QRCustomizationForm";
 import type { UrlOption } from "~/components/QR/QRCustomizationForm";
 import { QrPreview } from "~/components/QR/QrPreview";
-import {
-  generateQrDataUrl,
-  dataUrlToBytes,
-  MAX_QR_IMAGE_SIZE_BYTES,
-} from "~/lib/qr-generation";
-import type { QrCustomization } from "~/lib/qr-generation";
-import { uploadQrImage } from "~/lib/qr-storage";
-import { resolveShortestUrl } from "~/lib/qr-shortest";
+import { parseQrCustomization } from "~/lib/qr-customization";
+import type { QrCustomization } from "~/lib/qr-customization";
+import { renderQrSvg } from "~/lib/qr-svg";
+import { uploadLogoImage } from "~/lib/qr-storage";
+import { detectLogoContentType, MAX_LOGO_SIZE_BYTES } from "~/lib/qr-logo";
+import { saveQrCode, isQrUrlType } from "~/lib/qr-creation";
 import { SITE_DOMAIN } from "~/lib/constants";
 import { getTierPermissions } from "~/lib/tier";
 import styles from "./dashboard.module.css";
@@ -112,179 +118,109 @@ export async function action(args: Route.ActionArgs) {
   const formData = await args.request.formData();
   const intent = formData.get("intent") as string;
 
+  if (intent === "upload-logo") {
+    return handleUploadLogo(args, userId, formData);
+  }
+
   if (intent !== "save-qr") {
     return data({ success: false, error: "Unknown action." }, { status: 400 });
   }
 
-  const db = args.context.cloudflare.env.qr_url_db;
-  const r2 = args.context.cloudflare.env.QR_IMAGES;
-
-  // --- Fetch user's plan for tier-aware limits ---
-  const userRow = await db
-    .prepare("SELECT plan FROM users WHERE clerk_user_id = ?")
-    .bind(userId)
-    .first<{ plan: string }>();
-
-  const permissions = getTierPermissions(userRow?.plan);
+  const env = args.context.cloudflare.env;
 
   // --- Extract form fields ---
   const urlId = Number(formData.get("urlId"));
   const urlType = (formData.get("urlType") as string) ?? "shortest";
   const customizationJson =
     (formData.get("customizationJson") as string) ?? "{}";
-  const imageDataUrl = (formData.get("imageDataUrl") as string) ?? "";
 
-  const VALID_URL_TYPES = ["original", "branded", "shortest"] as const;
-  type UrlType = (typeof VALID_URL_TYPES)[number];
-
-  if (!VALID_URL_TYPES.includes(urlType as UrlType)) {
+  if (!isQrUrlType(urlType)) {
     return data(
       { success: false, error: "Invalid URL type." },
       { status: 400 },
     );
   }
 
-  // --- Validate image data ---
-  if (!imageDataUrl || !imageDataUrl.startsWith("data:image/png")) {
+  // --- Validate customization ---
+  // The server renders the image from this, so it must be well-formed.
+  const customizationResult = parseQrCustomization(customizationJson);
+
+  if (!customizationResult.isValid) {
     return data(
-      { success: false, error: "Invalid image data." },
+      { success: false, error: customizationResult.error },
       { status: 400 },
     );
   }
 
-  // Decode to bytes here so we can:
-  //   a) check the actual size (base64 is ~33% larger than the real PNG)
-  //   b) reuse pngBytes later for the R2 upload, avoiding a second decode
-  const pngBytes = dataUrlToBytes(imageDataUrl);
+  // --- Render, check and store (qr-creation.ts, shared with the API) ---
+  const result = await saveQrCode(
+    { db: env.qr_url_db, r2: env.QR_IMAGES, cacheKv: env.REDIRECT_CACHE_KV },
+    userId,
+    { urlId, urlType, customization: customizationResult.customization },
+  );
 
-  if (pngBytes.length > MAX_QR_IMAGE_SIZE_BYTES) {
+  if (!result.success) {
     return data(
-      {
-        success: false,
-        error: `Image exceeds the 200KB size limit (${Math.round(pngBytes.length / 1024)}KB received).`,
-      },
-      { status: 413 },
+      { success: false, error: result.error },
+      { status: result.status },
     );
   }
 
-  // --- Verify URL ownership ---
-  const urlRecord = await db
-    .prepare(
-      `SELECT id, shortcode, original_url, subdomain
-       FROM urls WHERE id = ? AND user_id = ?`,
-    )
-    .bind(urlId, userId)
-    .first<{
-      id: number;
-      shortcode: string;
-      original_url: string;
-      subdomain: string | null;
-    }>();
-
-  if (!urlRecord) {
-    return data({ success: false, error: "URL not found." }, { status: 404 });
-  }
+  return data({ success: true });
+}
 
-  // --- Resolve the encoded URL based on type ---
-  let encodedUrl: string;
-
-  if (urlType === "original") {
-    encodedUrl = urlRecord.original_url;
-  } else if (urlType === "branded") {
-    if (!urlRecord.subdomain) {
-      return data(
-        {
-          success: false,
-          error: "This URL doesn't have a branded format.",
-        },
-        { status: 400 },
-      );
-    }
-    encodedUrl = `${urlRecord.subdomain}.${SITE_DOMAIN}/${urlRecord.shortcode}`;
-  } else {
-    // "shortest" — may auto-create a short URL
-    const urlCountRow = await db
-      .prepare("SELECT COUNT(*) as count FROM urls WHERE user_id = ?")
-      .bind(userId)
-      .first<{ count: number }>();
-
-    const shortestResult = await resolveShortestUrl(
-      db,
-      userId,
-      urlRecord,
-      urlCountRow?.count ?? 0,
-      permissions.maxUrls,
+/**
+ * Handles the "upload-logo" intent.
+ * Validates the file by its bytes (not the browser-reported type),
+ * stores it in R2 and returns the key for the customization JSON.
+ */
+async function handleUploadLogo(
+  args: Route.ActionArgs,
+  userId: string,
+  formData: FormData,
+) {
+  const file = formData.get("logo");
+
+  if (!(file instanceof File) || file.size === 0) {
+    return data(
+      { intent: "upload-logo", success: false, error: "Please choose an image." },
+      { status: 400 },
     );
-
-    if (shortestResult.error) {
-      return data(
-        { success: false, error: shortestResult.error },
-        { status: 400 },
-      );
-    }
-
-    encodedUrl = shortestResult.encodedUrl;
-  }
-
-  // --- Upload PNG to R2 ---
-
-  // Reserve the slot atomically. If count is already at the limit,
-  // changes === 0 and we return before uploading anything to R2.
-  let insertResult: Awaited<ReturnType<D1PreparedStatement["run"]>>;
-
-  try {
-    insertResult = await db
-      .prepare(
-        `INSERT INTO qr_codes (user_id, url_id, url_type, encoded_url, storage_path, customization)
-       SELECT ?, ?, ?, ?, 'pending', ?
-       WHERE (SELECT COUNT(*) FROM qr_codes WHERE user_id = ?) < ?`,
-      )
-      .bind(
-        userId,
-        urlId,
-        urlType,
-        encodedUrl,
-        customizationJson,
-        userId,
-        permissions.maxQrCodes,
-      )
-      .run();
-  } catch (error: unknown) {
-    // UNIQUE constraints on qr_codes are unlikely but handle cleanly
-    throw error;
   }
 
-  if (insertResult.meta.changes === 0) {
+  if (file.size > MAX_LOGO_SIZE_BYTES) {
     return data(
       {
+        intent: "upload-logo",
         success: false,
-        error: `You've reached the limit of ${permissions.maxQrCodes} QR codes.`,
+        error: `Logo must be ${MAX_LOGO_SIZE_BYTES / 1024}KB or smaller.`,
       },
-      { status: 403 },
+      { status: 413 },
     );
   }
 
-  const newRowId = insertResult.meta.last_row_id;
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const contentType = detectLogoContentType(bytes);
 
-  // Slot is reserved in D1. Now upload the image.
-  // If this fails, we clean up the D1 row so the user's slot is freed.
-  let storagePath: string;
-
-  try {
-    storagePath = await uploadQrImage(r2, userId, pngBytes);
-  } catch (uploadError: unknown) {
-    await db.prepare("DELETE FROM qr_codes WHERE id = ?").bind(newRowId).run();
-
-    throw uploadError;
+  if (!contentType) {
+    return data(
+      {
+        intent: "upload-logo",
+        success: false,
+        error: "Logo must be a PNG, JPEG or WebP image.",
+      },
+      { status: 415 },
+    );
   }
 
-  // Update the placeholder storage_path with the real R2 path.
-  await db
-    .prepare("UPDATE qr_codes SET storage_path = ? WHERE id = ?")
-    .bind(storagePath, newRowId)
-    .run();
+  const storagePath = await uploadLogoImage(
+    args.context.cloudflare.env.QR_IMAGES,
+    userId,
+    bytes,
+    contentType,
+  );
 
-  return data({ success: true });
+  return data({ intent: "upload-logo", success: true, storagePath });
 }
 
 // ---------------------------------------------------------------------------
@@ -300,11 +236,11 @@ export default function DashboardQrNew({ loaderData }: Route.ComponentProps) {
 
   /** Client-side state for the generated QR preview */
   const [previewState, setPreviewState] = useState<{
-    dataUrl: string;
+    svgMarkup: string;
     encodedUrl: string;
     urlType: string;
     urlId: number;
-    customizationJson: string;
+    customization: QrCustomization;
   } | null>(null);
 
   const [isGenerating, setIsGenerating] = useState(false);
@@ -314,12 +250,14 @@ export default function DashboardQrNew({ loaderData }: Route.ComponentProps) {
 
   /**
    * Handles the "Generate Preview" button.
-   * Runs entirely client-side — uses browser Canvas via qrcode package.
+   * Runs entirely client-side with the same SVG renderer the server
+   * uses on save, so the preview matches the stored image.
    */
   async function handleGenerate(
     urlId: number,
     urlType: string,
     customization: QrCustomization,
+    logoDataUrl: string | null,
   ) {
     setIsGenerating(true);
     setGenerateError(null);
@@ -349,14 +287,14 @@ export default function DashboardQrNew({ loaderData }: Route.ComponentProps) {
         encodedUrl = `${SITE_DOMAIN}/${selectedUrl.shortcode}`;
       }
 
-      const dataUrl = await generateQrDataUrl(encodedUrl, customization);
+      const svgMarkup = renderQrSvg(encodedUrl, customization, logoDataUrl);
 
       setPreviewState({
-        dataUrl,
+        svgMarkup,
         encodedUrl,
         urlType,
         urlId,
-        customizationJson: JSON.stringify(customization),
+        customization,
       });
     } catch (err) {
       setGenerateError("Failed to generate QR code. Please try again.");
@@ -390,7 +328,8 @@ export default function DashboardQrNew({ loaderData }: Route.ComponentProps) {
       )}
 
       <p>
-        {qrCount} of {maxQrCodes} QR codes used
+        {qrCount} of {maxQrCodes} QR codes used.{" "}
+        <Link to="/dashboard/qr/bulk">Generate for many URLs at once</Link>
       </p>
 
       {!isAtLimit && (
@@ -406,11 +345,11 @@ export default function DashboardQrNew({ loaderData }: Route.ComponentProps) {
 
       {previewState && !isAtLimit && (
         <QrPreview
-          dataUrl={previewState.dataUrl}
+          svgMarkup={previewState.svgMarkup}
+          customization={previewState.customization}
           encodedUrl={previewState.encodedUrl}
           urlType={previewState.urlType}
           urlId={previewState.urlId}
-          customizationJson={previewState.customizationJson}
         />
       )}
     </section>
@@ -0,0 +1,302 @@
+/**
+ * dashboard.routing.$urlId.tsx — /dashboard/routing/:urlId
+ *
+ * Per-link routing rules: send visitors on some devices, or from some
+ * countries, to a different destination than the link's default (see
+ * device-rules.ts and geo-rules.ts). Device rules are checked first.
+ * Everyone else can be split across weighted A/B variants
+ * (ab-variants.ts).
+ *
+ * Loader: the link (ownership-checked), its device rules, geo rules
+ *         and variants
+ * Action: "save-device-rule" / "save-geo-rule" / "save-variant" add a
+ *         rule or variant, or replace an existing one;
+ *         "delete-device-rule" / "delete-geo-rule" / "delete-variant"
+ *         remove one.
+ */
+
+import { getAuth } from "@clerk/react-router/ssr.server";
+import { RedirectToSignIn } from "@clerk/react-router";
+import { data, Link } from "react-router";
+import type { Route } from "./+types/dashboard.routing.$urlId";
+import { fetchUrlInfo } from "~/lib/analytics-queries";
+import {
+  fetchGeoRules,
+  saveGeoRule,
+  deleteGeoRule,
+  MAX_GEO_RULES_PER_URL,
+} from "~/lib/geo-rules";
+import type { GeoRule } from "~/lib/geo-rules";
+import {
+  fetchDeviceRules,
+  saveDeviceRule,
+  deleteDeviceRule,
+} from "~/lib/device-rules";
+import type { DeviceRule } from "~/lib/device-rules";
+import {
+  fetchVariants,
+  saveVariant,
+  deleteVariant,
+  MAX_VARIANTS_PER_URL,
+} from "~/lib/ab-variants";
+import type { Variant } from "~/lib/ab-variants";
+import { buildFullShortUrl } from "~/lib/url-mutations";
+import { GeoRulesManager } from "~/components/GeoRulesManager";
+import { DeviceRulesManager } from "~/components/DeviceRulesManager";
+import { VariantsManager } from "~/components/VariantsManager";
+import styles from "./dashboard.module.css";
+
+// ---------------------------------------------------------------------------
+// Loader
+// ---------------------------------------------------------------------------
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args);
+
+  if (!userId) {
+    return {
+      authenticated: false as const,
+      urlInfo: null,
+      deviceRules: [] as DeviceRule[],
+      geoRules: [] as GeoRule[],
+      maxGeoRules: MAX_GEO_RULES_PER_URL,
+      variants: [] as Variant[],
+      maxVariants: MAX_VARIANTS_PER_URL,
+    };
+  }
+
+  const db = args.context.cloudflare.env.qr_url_db;
+  const urlId = Number(args.params.urlId);
+
+  if (isNaN(urlId)) {
+    throw data({ error: "Invalid URL ID" }, { status: 400 });
+  }
+
+  const urlInfo = await fetchUrlInfo(db, urlId, userId);
+
+  if (!urlInfo) {
+    throw data({ error: "URL not found" }, { status: 404 });
+  }
+
+  const [deviceRules, geoRules, variants] = await Promise.all([
+    fetchDeviceRules(db, urlId),
+    fetchGeoRules(db, urlId),
+    fetchVariants(db, urlId),
+  ]);
+
+  return {
+    authenticated: true as const,
+    urlInfo,
+    deviceRules,
+    geoRules,
+    maxGeoRules: MAX_GEO_RULES_PER_URL,
+    variants,
+    maxVariants: MAX_VARIANTS_PER_URL,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Action
+// ---------------------------------------------------------------------------
+
+/**
+ * Current intents:
+ *   - "save-device-rule"   — add a device rule, or change its destination
+ *   - "delete-device-rule" — remove a device rule
+ *   - "save-geo-rule"      — add a country rule, or change its destination
+ *   - "delete-geo-rule"    — remove a country rule
+ *   - "save-variant"       — add an A/B variant, or change one by name
+ *   - "delete-variant"     — remove an A/B variant
+ */
+export async function action(args: Route.ActionArgs) {
+  const { userId } = await getAuth(args);
+
+  if (!userId) {
+    return data(
+      { intent: "unknown", success: false, error: "Not authenticated." },
+      { status: 401 },
+    );
+  }
+
+  const env = args.context.cloudflare.env;
+  const mutationEnv = {
+    db: env.qr_url_db,
+    r2: env.QR_IMAGES,
+    cacheKv: env.REDIRECT_CACHE_KV,
+  };
+  const urlId = Number(args.params.urlId);
+  const formData = await args.request.formData();
+  const intent = formData.get("intent") as string;
+
+  if (intent === "save-device-rule") {
+    const result = await saveDeviceRule(
+      mutationEnv,
+      userId,
+      urlId,
+      (formData.get("target") as string) ?? "",
+      (formData.get("destinationUrl") as string) ?? "",
+    );
+
+    if (!result.success) {
+      return data(
+        { intent, success: false, error: result.error },
+        { status: result.status },
+      );
+    }
+
+    return data({ intent, success: true });
+  }
+
+  if (intent === "delete-device-rule") {
+    const result = await deleteDeviceRule(
+      mutationEnv,
+      userId,
+      urlId,
+      Number(formData.get("ruleId")),
+    );
+
+    if (!result.success) {
+      return data(
+        { intent, success: false, error: result.error },
+        { status: result.status },
+      );
+    }
+
+    return data({ intent, success: true });
+  }
+
+  if (intent === "save-geo-rule") {
+    const result = await saveGeoRule(
+      mutationEnv,
+      userId,
+      urlId,
+      (formData.get("countryCode") as string) ?? "",
+      (formData.get("destinationUrl") as string) ?? "",
+    );
+
+    if (!result.success) {
+      return data(
+        { intent, success: false, error: result.error },
+        { status: result.status },
+      );
+    }
+
+    return data({ intent, success: true });
+  }
+
+  if (intent === "delete-geo-rule") {
+    const result = await deleteGeoRule(
+      mutationEnv,
+      userId,
+      urlId,
+      Number(formData.get("ruleId")),
+    );
+
+    if (!result.success) {
+      return data(
+        { intent, success: false, error: result.error },
+        { status: result.status },
+      );
+    }
+
+    return data({ intent, success: true });
+  }
+
+  if (intent === "save-variant") {
+    const result = await saveVariant(
+      mutationEnv,
+      userId,
+      urlId,
+      (formData.get("label") as string) ?? "",
+      (formData.get("destinationUrl") as string) ?? "",
+      (formData.get("weight") as string) ?? "",
+    );
+
+    if (!result.success) {
+      return data(
+        { intent, success: false, error: result.error },
+        { status: result.status },
+      );
+    }
+
+    return data({ intent, success: true });
+  }
+
+  if (intent === "delete-variant") {
+    const result = await deleteVariant(
+      mutationEnv,
+      userId,
+      urlId,
+      Number(formData.get("variantId")),
+    );
+
+    if (!result.success) {
+      return data(
+        { intent, success: false, error: result.error },
+        { status: result.status },
+      );
+    }
+
+    return data({ intent, success: true });
+  }
+
+  return data(
+    { intent: "unknown", success: false, error: "Unknown action." },
+    { status: 400 },
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function DashboardRouting({ loaderData }: Route.ComponentProps) {
+  if (!loaderData.authenticated) {
+    return <RedirectToSignIn />;
+  }
+
+  const { urlInfo, deviceRules, geoRules, maxGeoRules, variants, maxVariants } =
+    loaderData;
+
+  return (
+    <section>
+      <div className={styles.UrlQrCreationHeader}>
+        <h1>Routing</h1>
+        <Link to="/dashboard">&larr; Back to Dashboard</Link>
+      </div>
+
+      <p>
+        <code>{buildFullShortUrl(urlInfo.subdomain, urlInfo.shortcode)}</code>{" "}
+        normally goes to <code>{urlInfo.originalUrl}</code>.
+      </p>
+
+      <h2>By device</h2>
+      <p>
+        Visitors on a device with a rule go to its destination instead —
+        for example iPhones to the App Store and Android phones to Google
+        Play. Operating-system rules win over the broader phone, tablet
+        and computer rules. Device rules are checked before country rules.
+      </p>
+
+      <DeviceRulesManager rules={deviceRules} />
+
+      <h2>By country</h2>
+      <p>
+        Visitors from a country with a rule go to its destination instead.
+        Everyone else gets the default above.
+      </p>
+
+      <GeoRulesManager rules={geoRules} maxRules={maxGeoRules} />
+
+      <h2>A/B split</h2>
+      <p>
+        Spread everyone a rule doesn't catch across several destinations
+        by weight — 50/30/20, say. Once a link has variants they replace
+        the default destination, so add it as a variant to keep it in
+        the test. Each visitor keeps the same variant for the day.
+      </p>
+
+      <VariantsManager variants={variants} maxVariants={maxVariants} />
+    </section>
+  );
+}
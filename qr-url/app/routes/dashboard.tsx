@@ -2,21 +2,39 @@
  * Dashboard route — the main authenticated user page.
  *
  * Loader: fetches subdomain, URL count, and all user URLs from D1.
- * Action: handles subdomain set/edit and URL deletion via "intent" field.
- * Component: renders subdomain picker, URL list, and create link.
+ * Action: handles subdomain set/edit, the click location setting, URL
+ *   editing and deletion via "intent" field.
+ * Component: renders subdomain picker, URL list, click location setting,
+ *   and create link.
  */
 
 import { getAuth } from "@clerk/react-router/ssr.server";
 import { useUser, RedirectToSignIn } from "@clerk/react-router";
-import { data } from "react-router";
+import { data, Link } from "react-router";
 import type { Route } from "./+types/dashboard";
 import { SubdomainPicker } from "~/components/SubdomainPicker";
 import { UrlList } from "~/components/UrlList";
+import { ClickLocationSetting } from "~/components/ClickLocationSetting";
 import {
   validateSubdomainFormat,
   cleanSubdomain,
 } from "~/lib/subdomain-validation";
 import { deleteQrImage } from "~/lib/qr-storage";
+import { invalidateSubdomain } from "~/lib/redirect-cache";
+import { updateUrl, deleteUrl } from "~/lib/url-mutations";
+import type { UrlMutationEnv } from "~/lib/url-mutations";
+import { resolveExpiration, EXPIRATION_KEEP } from "~/lib/url-expiration";
+import { parseLinkLimits } from "~/lib/link-limits";
+import type { LinkLimits } from "~/lib/link-limits";
+import { resolvePasswordChange } from "~/lib/link-password";
+import { parseUtmParams } from "~/lib/destination-params";
+import type { UtmParams } from "~/lib/destination-params";
+import { parseRedirectType } from "~/lib/redirect-type";
+import type { RedirectType } from "~/lib/redirect-type";
+import {
+  isClickLocationLevel,
+  DEFAULT_CLICK_LOCATION_LEVEL,
+} from "~/lib/click-location";
 import { fetchTotalClicksForUser } from "~/lib/analytics-queries";
 import { getTierPermissions } from "~/lib/tier";
 import styles from "./dashboard.module.css";
@@ -33,6 +51,7 @@ export async function loader(args: Route.LoaderArgs) {
     return {
       authenticated: false as const,
       subdomain: null,
+      clickLocation: DEFAULT_CLICK_LOCATION_LEVEL as string,
       urlCount: 0,
       urls: [],
       qrCodes: [],
@@ -46,20 +65,23 @@ export async function loader(args: Route.LoaderArgs) {
   const db = args.context.cloudflare.env.qr_url_db;
 
   /**
-   * Fetch user row (subdomain + plan) in one query.
+   * Fetch user row (subdomain + plan + click location) in one query.
    * Previously we only fetched subdomain. Now we also need the plan
    * to determine limits and permissions.
    */
   const userRow = await db
-    .prepare("SELECT subdomain, plan FROM users WHERE clerk_user_id = ?")
+    .prepare("SELECT subdomain, plan, click_location FROM users WHERE clerk_user_id = ?")
     .bind(userId)
-    .first<{ subdomain: string; plan: string }>();
+    .first<{ subdomain: string; plan: string; click_location: string }>();
 
   const permissions = getTierPermissions(userRow?.plan);
 
   const urlRows = await db
     .prepare(
-      `SELECT id, shortcode, original_url, subdomain, created_at
+      `SELECT id, shortcode, original_url, subdomain, created_at, expires_at,
+              starts_at, max_clicks, click_count, fallback_url,
+              password_hash IS NOT NULL AS has_password,
+              utm_source, utm_medium, utm_campaign, passthrough, redirect_type
        FROM urls
        WHERE user_id = ?
        ORDER BY created_at DESC`,
@@ -71,6 +93,17 @@ export async function loader(args: Route.LoaderArgs) {
       original_url: string;
       subdomain: string | null;
       created_at: string;
+      expires_at: string | null;
+      starts_at: string | null;
+      max_clicks: number | null;
+      click_count: number;
+      fallback_url: string | null;
+      has_password: number;
+      utm_source: string | null;
+      utm_medium: string | null;
+      utm_campaign: string | null;
+      passthrough: number;
+      redirect_type: string;
     }>();
 
   const urls = urlRows.results ?? [];
@@ -100,6 +133,7 @@ export async function loader(args: Route.LoaderArgs) {
   return {
     authenticated: true as const,
     subdomain: userRow?.subdomain ?? null,
+    clickLocation: userRow?.click_location ?? DEFAULT_CLICK_LOCATION_LEVEL,
     urlCount: urls.length,
     urls,
     qrCodes,
@@ -119,6 +153,8 @@ export async function loader(args: Route.LoaderArgs) {
  *
  * Current intents:
  *   - "set-subdomain" — claim or change a subdomain
+ *   - "set-click-location" — how precisely clicks are located (click-location.ts)
+ *   - "edit-url"      — change the destination, expiry, limits or password of a URL the user owns
  *   - "delete-url"    — delete a URL the user owns
  *   - "delete-qr"     — delete a QR code (R2 image + D1 metadata)
  */
@@ -139,6 +175,14 @@ export async function action(args: Route.ActionArgs) {
     return handleSetSubdomain(args, userId, formData);
   }
 
+  if (intent === "set-click-location") {
+    return handleSetClickLocation(args, userId, formData);
+  }
+
+  if (intent === "edit-url") {
+    return handleEditUrl(args, userId, formData);
+  }
+
   if (intent === "delete-url") {
     return handleDeleteUrl(args, userId, formData);
   }
@@ -210,6 +254,11 @@ async function handleSetSubdomain(
     );
   }
 
+  const previousRow = await db
+    .prepare("SELECT subdomain FROM users WHERE clerk_user_id = ?")
+    .bind(userId)
+    .first<{ subdomain: string | null }>();
+
   await db
     .prepare(
       `INSERT INTO users (clerk_user_id, subdomain)
@@ -219,92 +268,222 @@ async function handleSetSubdomain(
     .bind(userId, cleaned, cleaned)
     .run();
 
+  /**
+   * Drop cached redirects for both subdomains: the old one must stop
+   * resolving from cache, and the new one may hold negative entries
+   * from visits before it was claimed.
+   */
+  const kv = args.context.cloudflare.env.REDIRECT_CACHE_KV;
+  const previousSubdomain = previousRow?.subdomain ?? null;
+
+  if (previousSubdomain && previousSubdomain !== cleaned) {
+    await invalidateSubdomain(kv, previousSubdomain);
+  }
+
+  await invalidateSubdomain(kv, cleaned);
+
   return data({ intent: "set-subdomain", success: true });
 }
 
 /**
- * Handles the "delete-url" intent.
- *
- * Verifies that the URL belongs to the requesting user before
- * deleting. This prevents one user from deleting another user's
- * URLs by crafting a form submission with a different urlId.
- *
- * After deletion, the shortcode becomes available again:
- *   - Short format: globally available (anyone can claim it)
- *   - Branded format: available within that subdomain
- *
- * The user is warned about this in the confirmation dialog
- * (see DeleteButton in url-list-item.tsx).
+ * Handles the "set-click-location" intent.
+ * Upserts users.click_location. Nothing cached depends on it: the
+ * redirect worker looks the setting up per click.
  */
-async function handleDeleteUrl(
+async function handleSetClickLocation(
+  args: Route.ActionArgs,
+  userId: string,
+  formData: FormData,
+) {
+  const level = formData.get("clickLocation");
+
+  if (!isClickLocationLevel(level)) {
+    return data(
+      {
+        intent: "set-click-location",
+        success: false,
+        error: "Pick country, region or city.",
+      },
+      { status: 400 },
+    );
+  }
+
+  await args.context.cloudflare.env.qr_url_db
+    .prepare(
+      `INSERT INTO users (clerk_user_id, click_location)
+       VALUES (?, ?)
+       ON CONFLICT (clerk_user_id) DO UPDATE SET click_location = ?`,
+    )
+    .bind(userId, level, level)
+    .run();
+
+  return data({ intent: "set-click-location", success: true });
+}
+
+/**
+ * Handles the "edit-url" intent.
+ * See updateUrl (url-mutations.ts) for what changes and what doesn't.
+ * Without an expiresIn field (or with "keep"), the expiry is left alone;
+ * without a maxClicks field, so are the limits; without a passwordMode
+ * field (or with "keep"), so is the password; without a passthrough
+ * field, so are the UTM tags and passthrough setting; without a
+ * redirectType field, so is the redirect type.
+ */
+async function handleEditUrl(
   args: Route.ActionArgs,
   userId: string,
   formData: FormData,
 ) {
   const urlId = formData.get("urlId") as string;
+  const originalUrl = (formData.get("originalUrl") as string) ?? "";
+  const expiresIn = formData.get("expiresIn") as string | null;
 
   if (!urlId) {
     return data(
-      { intent: "delete-url", success: false, error: "URL ID is required." },
+      { intent: "edit-url", success: false, error: "URL ID is required." },
       { status: 400 },
     );
   }
 
-  const db = args.context.cloudflare.env.qr_url_db;
-  const r2 = args.context.cloudflare.env.QR_IMAGES;
-  const numericUrlId = Number(urlId);
+  let expiresAt: string | null | undefined;
 
-  /**
-   * SECURITY: Verify the URL belongs to this user BEFORE deleting
-   * any associated data. Without this check, an attacker could submit
-   * someone else's URL ID and wipe their click data and QR codes
-   * even though the URL itself wouldn't be deleted (the final DELETE
-   * checks user_id, but the child data would already be gone).
-   */
-  const urlOwnership = await db
-    .prepare("SELECT id FROM urls WHERE id = ? AND user_id = ?")
-    .bind(numericUrlId, userId)
-    .first<{ id: number }>();
+  if (expiresIn !== null && expiresIn !== EXPIRATION_KEEP) {
+    const expiration = resolveExpiration(
+      expiresIn,
+      formData.get("expiresAt") as string | null,
+    );
+
+    if (!expiration.isValid) {
+      return data(
+        { intent: "edit-url", success: false, error: expiration.error },
+        { status: 400 },
+      );
+    }
+
+    expiresAt = expiration.expiresAt;
+  }
+
+  let limits: LinkLimits | undefined;
+
+  if (formData.has("maxClicks")) {
+    const limitsResult = parseLinkLimits(
+      formData.get("startsAt") as string | null,
+      formData.get("maxClicks") as string | null,
+      formData.get("fallbackUrl") as string | null,
+    );
+
+    if (!limitsResult.isValid) {
+      return data(
+        { intent: "edit-url", success: false, error: limitsResult.error },
+        { status: 400 },
+      );
+    }
+
+    limits = limitsResult.limits;
+  }
 
-  if (!urlOwnership) {
+  const password = resolvePasswordChange(
+    formData.get("passwordMode") as string | null,
+    formData.get("linkPassword") as string | null,
+  );
+
+  if (!password.isValid) {
     return data(
-      { intent: "delete-url", success: false, error: "URL not found." },
-      { status: 404 },
+      { intent: "edit-url", success: false, error: password.error },
+      { status: 400 },
     );
   }
 
-  /**
-   * Now that we've confirmed ownership, clean up child data:
-   * 1. Delete QR code images from R2 (not connected to D1)
-   * 2. Delete QR code rows from D1
-   * 3. Delete click analytics rows from D1
-   * 4. Delete the URL itself
-   */
-  const qrRows = await db
-    .prepare(
-      "SELECT storage_path FROM qr_codes WHERE url_id = ? AND user_id = ?",
-    )
-    .bind(numericUrlId, userId)
-    .all<{ storage_path: string }>();
+  let utm: UtmParams | undefined;
+  let passthrough: boolean | undefined;
+
+  if (formData.has("passthrough")) {
+    const utmResult = parseUtmParams(
+      formData.get("utmSource") as string | null,
+      formData.get("utmMedium") as string | null,
+      formData.get("utmCampaign") as string | null,
+    );
 
-  for (const row of qrRows.results ?? []) {
-    await deleteQrImage(r2, row.storage_path);
+    if (!utmResult.isValid) {
+      return data(
+        { intent: "edit-url", success: false, error: utmResult.error },
+        { status: 400 },
+      );
+    }
+
+    utm = utmResult.utm;
+    passthrough = formData.get("passthrough") === "true";
   }
 
-  await db
-    .prepare("DELETE FROM qr_codes WHERE url_id = ? AND user_id = ?")
-    .bind(numericUrlId, userId)
-    .run();
+  let redirectType: RedirectType | undefined;
 
-  await db
-    .prepare("DELETE FROM url_clicks WHERE url_id = ?")
-    .bind(numericUrlId)
-    .run();
+  if (formData.has("redirectType")) {
+    const redirectTypeResult = parseRedirectType(
+      formData.get("redirectType") as string | null,
+    );
 
-  await db
-    .prepare("DELETE FROM urls WHERE id = ? AND user_id = ?")
-    .bind(numericUrlId, userId)
-    .run();
+    if (!redirectTypeResult.isValid) {
+      return data(
+        { intent: "edit-url", success: false, error: redirectTypeResult.error },
+        { status: 400 },
+      );
+    }
+
+    redirectType = redirectTypeResult.redirectType;
+  }
+
+  const result = await updateUrl(buildMutationEnv(args), userId, Number(urlId), {
+    originalUrl,
+    expiresAt,
+    limits,
+    password: password.password,
+    utm,
+    passthrough,
+    redirectType,
+  });
+
+  if (!result.success) {
+    return data(
+      { intent: "edit-url", success: false, error: result.error },
+      { status: result.status },
+    );
+  }
+
+  return data({ intent: "edit-url", success: true });
+}
+
+/**
+ * Handles the "delete-url" intent.
+ *
+ * deleteUrl verifies that the URL belongs to the requesting user
+ * before deleting. This prevents one user from deleting another
+ * user's URLs by crafting a form submission with a different urlId.
+ *
+ * The freed shortcode can be claimed again; the user is warned about
+ * this in the confirmation dialog (see DeleteButton in url-list-item.tsx).
+ */
+async function handleDeleteUrl(
+  args: Route.ActionArgs,
+  userId: string,
+  formData: FormData,
+) {
+  const urlId = formData.get("urlId") as string;
+
+  if (!urlId) {
+    return data(
+      { intent: "delete-url", success: false, error: "URL ID is required." },
+      { status: 400 },
+    );
+  }
+
+  const result = await deleteUrl(buildMutationEnv(args), userId, Number(urlId));
+
+  if (!result.success) {
+    return data(
+      { intent: "delete-url", success: false, error: result.error },
+      { status: result.status },
+    );
+  }
 
   return data({ intent: "delete-url", success: true });
 }
@@ -357,6 +536,11 @@ async function handleDeleteQr(
   return data({ intent: "delete-qr", success: true });
 }
 
+function buildMutationEnv(args: Route.ActionArgs): UrlMutationEnv {
+  const env = args.context.cloudflare.env;
+  return { db: env.qr_url_db, r2: env.QR_IMAGES, cacheKv: env.REDIRECT_CACHE_KV };
+}
+
 //
 // Component (client-side)
 //
@@ -368,6 +552,7 @@ export default function Dashboard({ loaderData }: Route.ComponentProps) {
 
   const {
     subdomain,
+    clickLocation,
     urlCount,
     urls,
     qrCodes,
@@ -418,6 +603,13 @@ export default function Dashboard({ loaderData }: Route.ComponentProps) {
         maxUrls={maxUrls}
         qrCodes={qrCodes}
       />
+
+      <ClickLocationSetting current={clickLocation} />
+
+      <p>
+        <Link to="/dashboard/api-tokens">API tokens</Link> — create links
+        from scripts and CI.
+      </p>
     </section>
   );
 }
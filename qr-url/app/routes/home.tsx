@@ -30,6 +30,7 @@ import {
   getClientIp,
 } from "~/lib/rate-limit";
 import { SITE_DOMAIN } from "~/lib/constants";
+import { invalidateRedirect } from "~/lib/redirect-cache";
 
 // ---------------------------------------------------------------------------
 // Action result types
@@ -217,7 +218,14 @@ try {
   throw error;
 }
 
-  // --- 6. Increment rate limit (only after successful creation) ---
+  // --- 6. Clear any negative cache entry for this shortcode ---
+  await invalidateRedirect(
+    args.context.cloudflare.env.REDIRECT_CACHE_KV,
+    null,
+    shortcode
+  );
+
+  // --- 7. Increment rate limit (only after successful creation) ---
   const newRemaining = await incrementRateLimit(kv, clientIp);
 
   const fullShortUrl = `${SITE_DOMAIN}/${shortcode}`;
@@ -32,6 +32,23 @@ interface Env {
    */
   CLICK_HASH_SALT: string;
 
+  /**
+   * Secret key for signing the cookie that remembers a correct link
+   * password (see app/lib/link-password.ts). Changing it makes every
+   * visitor enter link passwords again.
+   *
+   * Generate one with:
+   *   openssl rand -hex 32
+   */
+  LINK_PASSWORD_SECRET: string;
+
+  /**
+   * Comma-separated Clerk user IDs allowed to read site-wide stats
+   * (/api/redirect-cache-stats), e.g. "user_2abc,user_2def". Unset
+   * means nobody can.
+   */
+  ADMIN_USER_IDS?: string;
+
   /**
    * Workers KV namespace for anonymous rate limiting.
    * Bound via wrangler.jsonc kv_namespaces config.
@@ -43,6 +60,13 @@ interface Env {
    */
   RATE_LIMIT_KV: KVNamespace;
 
+  /**
+   * Workers KV namespace caching short URL lookups in front of D1.
+   * Bound via wrangler.jsonc kv_namespaces config.
+   * See app/lib/redirect-cache.ts for the key format.
+   */
+  REDIRECT_CACHE_KV: KVNamespace;
+
     /**
    * R2 bucket for QR code PNG images.
    * Bound via wrangler.jsonc r2_buckets config.
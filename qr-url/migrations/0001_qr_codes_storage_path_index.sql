@@ -0,0 +1,5 @@
+-- Migration 0001: on-demand QR exports find the row by its image path
+-- (see api.qr-image.$.tsx).
+
+CREATE INDEX IF NOT EXISTS idx_qr_codes_storage_path
+ON qr_codes (storage_path);
@@ -0,0 +1,16 @@
+-- Migration 0002: personal API tokens for /api/v1/* (see api-tokens.ts).
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    token_prefix TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    last_used_at TEXT,
+    revoked_at TEXT
+);
+
+-- Speed up "show me my tokens" queries
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id
+ON api_tokens (user_id);
@@ -0,0 +1,7 @@
+-- Migration 0003: date windows, click limits and fallback URLs
+-- (see url-expiration.ts and link-limits.ts).
+
+ALTER TABLE urls ADD COLUMN starts_at TEXT;
+ALTER TABLE urls ADD COLUMN max_clicks INTEGER;
+ALTER TABLE urls ADD COLUMN click_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE urls ADD COLUMN fallback_url TEXT;
@@ -0,0 +1,3 @@
+-- Migration 0004: password-protected links (see link-password.ts).
+
+ALTER TABLE urls ADD COLUMN password_hash TEXT;
@@ -0,0 +1,16 @@
+-- Migration 0005: per-country redirect rules (see geo-rules.ts).
+
+CREATE TABLE IF NOT EXISTS url_geo_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url_id INTEGER NOT NULL,
+    country_code TEXT NOT NULL,
+    destination_url TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (url_id) REFERENCES urls(id) ON DELETE CASCADE
+);
+
+-- Also the lookup index for the redirect worker (rules by url_id)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geo_rules_url_id_country
+ON url_geo_rules (url_id, country_code);
+
+ALTER TABLE url_clicks ADD COLUMN matched_geo_rule TEXT;
@@ -0,0 +1,16 @@
+-- Migration 0006: device and OS redirect rules (see device-rules.ts).
+
+CREATE TABLE IF NOT EXISTS url_device_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url_id INTEGER NOT NULL,
+    target TEXT NOT NULL,
+    destination_url TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (url_id) REFERENCES urls(id) ON DELETE CASCADE
+);
+
+-- Also the lookup index for the redirect worker (rules by url_id)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_device_rules_url_id_target
+ON url_device_rules (url_id, target);
+
+ALTER TABLE url_clicks ADD COLUMN matched_device_rule TEXT;
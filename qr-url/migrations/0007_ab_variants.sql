@@ -0,0 +1,17 @@
+-- Migration 0007: weighted A/B split destinations (see ab-variants.ts).
+
+CREATE TABLE IF NOT EXISTS url_variants (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url_id INTEGER NOT NULL,
+    label TEXT NOT NULL,
+    destination_url TEXT NOT NULL,
+    weight INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (url_id) REFERENCES urls(id) ON DELETE CASCADE
+);
+
+-- Also the lookup index for the redirect worker (variants by url_id)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_variants_url_id_label
+ON url_variants (url_id, label);
+
+ALTER TABLE url_clicks ADD COLUMN variant_id INTEGER;
@@ -0,0 +1,7 @@
+-- Migration 0008: UTM tags and query/path passthrough
+-- (see destination-params.ts).
+
+ALTER TABLE urls ADD COLUMN utm_source TEXT;
+ALTER TABLE urls ADD COLUMN utm_medium TEXT;
+ALTER TABLE urls ADD COLUMN utm_campaign TEXT;
+ALTER TABLE urls ADD COLUMN passthrough INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,4 @@
+-- Migration 0009: per-link redirect type (see redirect-type.ts).
+-- Existing links keep the 302 they always sent.
+
+ALTER TABLE urls ADD COLUMN redirect_type TEXT NOT NULL DEFAULT '302';
@@ -0,0 +1,5 @@
+-- Migration 0010: bot flag per click (see detectBot in click-tracking.ts).
+-- Clicks recorded before this count as people.
+
+ALTER TABLE url_clicks ADD COLUMN is_bot INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE url_clicks ADD COLUMN bot_family TEXT;
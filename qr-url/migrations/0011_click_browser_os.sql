@@ -0,0 +1,6 @@
+-- Migration 0011: browser and operating system per click
+-- (see parseBrowser and parseOperatingSystem in click-tracking.ts).
+
+ALTER TABLE url_clicks ADD COLUMN browser TEXT;
+ALTER TABLE url_clicks ADD COLUMN browser_version INTEGER;
+ALTER TABLE url_clicks ADD COLUMN os TEXT;
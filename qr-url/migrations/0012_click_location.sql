@@ -0,0 +1,11 @@
+-- Migration 0012: finer click location behind a per-user privacy
+-- setting (see click-location.ts). Everyone starts at 'country'.
+
+ALTER TABLE users ADD COLUMN click_location TEXT NOT NULL DEFAULT 'country';
+
+ALTER TABLE url_clicks ADD COLUMN continent TEXT;
+ALTER TABLE url_clicks ADD COLUMN region TEXT;
+ALTER TABLE url_clicks ADD COLUMN city TEXT;
+ALTER TABLE url_clicks ADD COLUMN timezone TEXT;
+ALTER TABLE url_clicks ADD COLUMN asn INTEGER;
+ALTER TABLE url_clicks ADD COLUMN as_organization TEXT;
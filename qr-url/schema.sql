@@ -1,5 +1,20 @@
+-- schema.sql: the complete current schema, for reference.
+--
+-- Don't run this against an existing database — CREATE TABLE IF NOT
+-- EXISTS skips tables that are already there, so new columns would
+-- never be added. Changes ship as numbered files in migrations/ and are
+-- applied with:
+--
+--   npx wrangler d1 migrations apply qr-url-db --local    (wrangler dev)
+--   npx wrangler d1 migrations apply qr-url-db --remote   (production)
+--
+-- Wrangler records which migrations have run, so the command is safe to
+-- repeat. Every schema change goes into both this file and a new
+-- migration.
+
 -- Users table: stores subdomain choices for authenticated users.
--- A row is created when a user first claims a subdomain (not on signup).
+-- A row is created when a user first claims a subdomain or changes a
+-- setting (not on signup).
 -- subdomain is nullable so that a user row can exist without one,
 -- and UNIQUE so no two users can claim the same subdomain.
 CREATE TABLE IF NOT EXISTS users (
@@ -7,10 +22,29 @@ CREATE TABLE IF NOT EXISTS users (
     clerk_user_id TEXT NOT NULL UNIQUE,
     subdomain TEXT UNIQUE,
     plan TEXT NOT NULL DEFAULT 'free',
+    -- How precisely clicks are located: 'country', 'region' or 'city'
+    -- (see click-location.ts)
+    click_location TEXT NOT NULL DEFAULT 'country',
     created_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
 -- URLs table: stores all short URL mappings
+-- Availability (see url-expiration.ts and link-limits.ts):
+--   starts_at / expires_at  date window; NULL = open on that side
+--   max_clicks              NULL = unlimited
+--   click_count             redirects counted against max_clicks,
+--                           incremented atomically by the redirect worker
+--   fallback_url            where visitors go when the link isn't
+--                           available; NULL = show a status page
+-- Password (see link-password.ts):
+--   password_hash           salted PBKDF2 hash; NULL = no password
+-- Destination parameters (see destination-params.ts):
+--   utm_source, utm_medium,
+--   utm_campaign            UTM tags added on redirect; NULL = not set
+--   passthrough             1 = forward the short URL's query string
+--                           and extra path to the destination
+-- Redirect type (see redirect-type.ts):
+--   redirect_type           '301', '302', '307', '308' or 'interstitial'
 CREATE TABLE IF NOT EXISTS urls (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     user_id TEXT,
@@ -18,7 +52,17 @@ CREATE TABLE IF NOT EXISTS urls (
     original_url TEXT NOT NULL,
     subdomain TEXT,
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
-    expires_at TEXT
+    expires_at TEXT,
+    starts_at TEXT,
+    max_clicks INTEGER,
+    click_count INTEGER NOT NULL DEFAULT 0,
+    fallback_url TEXT,
+    password_hash TEXT,
+    utm_source TEXT,
+    utm_medium TEXT,
+    utm_campaign TEXT,
+    passthrough INTEGER NOT NULL DEFAULT 0,
+    redirect_type TEXT NOT NULL DEFAULT '302'
 );
 
 -- Uniqueness for (subdomain, shortcode) combinations.
@@ -34,7 +78,9 @@ CREATE INDEX IF NOT EXISTS idx_urls_user_id
 ON urls (user_id);
 
 -- QR codes table: stores metadata for generated QR code images.
--- The actual PNG is stored in R2 at the path in storage_path.
+-- The actual image (SVG, or PNG for older codes) is stored in R2 at the
+-- path in storage_path. Other formats are rendered on demand from
+-- encoded_url + customization (see api.qr-image.$.tsx).
 -- customization is a JSON string: {"fg":"#000","bg":"#fff","size":512,"ec":"M"}
 --
 -- ON DELETE CASCADE: when a URL is deleted, its QR codes are too.
@@ -60,6 +106,10 @@ ON qr_codes (user_id);
 CREATE INDEX IF NOT EXISTS idx_qr_codes_url_id
 ON qr_codes (url_id);
 
+-- Speed up on-demand exports, which find the row by its image path
+CREATE INDEX IF NOT EXISTS idx_qr_codes_storage_path
+ON qr_codes (storage_path);
+
 
 -- Click analytics table: one row per click on any short URL.
 -- This table grows continuously — every redirect creates a row.
@@ -75,8 +125,35 @@ CREATE TABLE IF NOT EXISTS url_clicks (
     clicked_at TEXT NOT NULL DEFAULT (datetime('now')),
     referrer TEXT,
     country TEXT,
+    -- Finer location from request.cf, kept only as far as the owner's
+    -- users.click_location allows (NULL otherwise, and for older clicks)
+    continent TEXT,
+    region TEXT,
+    city TEXT,
+    timezone TEXT,
+    asn INTEGER,
+    as_organization TEXT,
     device_type TEXT,
+    -- Browser family ('chrome', 'safari', ...), its major version and
+    -- the operating system ('ios', 'windows', ...), parsed from the
+    -- User-Agent (see click-tracking.ts). NULL for older clicks
+    browser TEXT,
+    browser_version INTEGER,
+    os TEXT,
     visitor_hash TEXT,
+    -- Target of the device rule that picked the destination
+    -- (see url_device_rules), e.g. 'ios'
+    matched_device_rule TEXT,
+    -- Country code of the geo rule that picked the destination
+    -- (see url_geo_rules). Both NULL = the link's default destination
+    matched_geo_rule TEXT,
+    -- A/B variant served (see url_variants); NULL if no split applied
+    variant_id INTEGER,
+    -- 1 = crawler or link-preview fetcher (see detectBot in
+    -- click-tracking.ts). Analytics leave these out by default
+    is_bot INTEGER NOT NULL DEFAULT 0,
+    -- e.g. 'Slack', 'Google', 'Other'; NULL for people
+    bot_family TEXT,
     FOREIGN KEY (url_id) REFERENCES urls(id) ON DELETE CASCADE
 );
 
@@ -92,4 +169,79 @@ ON url_clicks (url_id, clicked_at);
 -- The visitor_hash changes daily (IP + date + salt), so counting
 -- DISTINCT visitor_hash for a given url_id gives unique visitors.
 CREATE INDEX IF NOT EXISTS idx_clicks_url_id_visitor_hash
-ON url_clicks (url_id, visitor_hash);
\ No newline at end of file
+ON url_clicks (url_id, visitor_hash);
+
+-- Geo rules: per-country destination overrides (see geo-rules.ts).
+-- A visitor whose country (request.cf.country) has a rule goes to its
+-- destination_url instead of the link's original_url. One rule per
+-- country per link.
+CREATE TABLE IF NOT EXISTS url_geo_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url_id INTEGER NOT NULL,
+    country_code TEXT NOT NULL,
+    destination_url TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (url_id) REFERENCES urls(id) ON DELETE CASCADE
+);
+
+-- Also the lookup index for the redirect worker (rules by url_id)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geo_rules_url_id_country
+ON url_geo_rules (url_id, country_code);
+
+-- Device rules: per-device destination overrides (see device-rules.ts).
+-- target is an operating system ('ios', 'android', ...) or a device
+-- type ('mobile', 'tablet', 'desktop'), parsed from the User-Agent.
+-- Checked before geo rules. One rule per target per link.
+CREATE TABLE IF NOT EXISTS url_device_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url_id INTEGER NOT NULL,
+    target TEXT NOT NULL,
+    destination_url TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (url_id) REFERENCES urls(id) ON DELETE CASCADE
+);
+
+-- Also the lookup index for the redirect worker (rules by url_id)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_device_rules_url_id_target
+ON url_device_rules (url_id, target);
+
+-- A/B variants: weighted destinations splitting a link's default
+-- traffic (see ab-variants.ts). Weights are relative; the visitor's
+-- daily visitor_hash picks the variant, so it sticks for the day.
+-- Labels are unique per link ("A", "B", ...).
+CREATE TABLE IF NOT EXISTS url_variants (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url_id INTEGER NOT NULL,
+    label TEXT NOT NULL,
+    destination_url TEXT NOT NULL,
+    weight INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (url_id) REFERENCES urls(id) ON DELETE CASCADE
+);
+
+-- Also the lookup index for the redirect worker (variants by url_id)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_variants_url_id_label
+ON url_variants (url_id, label);
+
+-- API tokens: personal tokens for the public REST API (/api/v1/*).
+-- Only the SHA-256 hash of a token is stored; the token itself is shown
+-- once at creation. Tokens are 32 random characters, so an unsalted
+-- fast hash is enough — there's nothing to brute-force from the hash.
+-- token_prefix keeps the first characters for display ("qrk_Ab12…").
+--
+-- Revoked tokens keep their row (revoked_at set) so the dashboard can
+-- show when a token stopped working; auth ignores them.
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    token_prefix TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    last_used_at TEXT,
+    revoked_at TEXT
+);
+
+-- Speed up "show me my tokens" queries
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id
+ON api_tokens (user_id);
@@ -87,7 +87,9 @@ export default {
     /**
      * Try to handle this request as a short URL redirect FIRST.
      * If it matches a shortcode in D1, we return a 302 immediately.
-     * React Router never gets involved — this keeps redirects fast.
+     * A shortcode that doesn't exist or has expired gets a 404/410
+     * page from the same handler. React Router never gets involved —
+     * this keeps redirects fast.
      *
      * If it's NOT a redirect (returns null), we fall through to
      * React Router which handles the frontend dashboard.
@@ -5,22 +5,87 @@
  *
  * Flow:
  * 1. Parse the incoming URL to extract subdomain + shortcode
- * 2. Query D1 for a matching URL record
- * 3. Return a 302 redirect to the original URL
- * 4. AFTER returning the response, log the click asynchronously
- *    via ctx.waitUntil() — this doesn't slow down the redirect
+ * 2. Look up the URL in the KV cache, falling back to D1 on a cache miss
+ * 3. Return a 302 redirect to the original URL, or to the destination
+ *    of a rule matching the visitor's device (device-rules.ts) or
+ *    country (geo-rules.ts), or to the visitor's A/B variant
+ *    (ab-variants.ts) — see chooseDestination. UTM tags and, for
+ *    passthrough links, the request's query string and extra path are
+ *    added to it (destination-params.ts). Links can use 301/307/308 or
+ *    an interstitial page instead of the 302 (redirect-type.ts)
+ * 4. AFTER returning the response, log the click (and populate the
+ *    cache) asynchronously via ctx.waitUntil() — this doesn't slow
+ *    down the redirect
  *
- * If the request doesn't look like a redirect (e.g. it's a dashboard page,
- * a static asset, or there's no matching shortcode), we return null
- * so the main handler can pass it to React Router instead.
+ * If the request doesn't look like a short link (e.g. it's a dashboard
+ * page or a static asset), we return null so the main handler can pass
+ * it to React Router instead. A short link that doesn't redirect gets
+ * its own page: 404 if it never existed, 410 if it expired or ran out
+ * of clicks, 403 if it hasn't opened yet (see link-status-page.ts) —
+ * unless the owner set a fallback URL, which is where those visitors
+ * go instead.
+ *
+ * Password-protected links answer with a password form; the form
+ * POSTs back to the short URL, which is the only POST handled here.
  */
 
 import {
   parseDeviceType,
+  parseOperatingSystem,
+  parseBrowser,
   cleanReferrer,
   hashVisitorIp,
   extractCountry,
+  extractLocation,
+  detectBot,
 } from "~/lib/click-tracking";
+import type { BotDetection } from "~/lib/click-tracking";
+import {
+  limitLocation,
+  isClickLocationLevel,
+  DEFAULT_CLICK_LOCATION_LEVEL,
+} from "~/lib/click-location";
+import type { ClickLocationLevel } from "~/lib/click-location";
+import {
+  getCachedRedirect,
+  cacheRedirect,
+  cacheMiss,
+  cacheExpired,
+  recordCacheResult,
+} from "~/lib/redirect-cache";
+import type { ExpiredRedirect } from "~/lib/redirect-cache";
+import {
+  renderLinkStatusPage,
+  renderPasswordPage,
+  renderInterstitialPage,
+} from "~/lib/link-status-page";
+import type { LinkStatus } from "~/lib/link-status-page";
+import { hasNotStarted } from "~/lib/link-limits";
+import { matchGeoRule, parseGeoRuleMap } from "~/lib/geo-rules";
+import type { GeoRuleMap } from "~/lib/geo-rules";
+import { matchDeviceRule, parseDeviceRuleMap } from "~/lib/device-rules";
+import type { DeviceRuleMap } from "~/lib/device-rules";
+import { pickVariant, parseVariantList } from "~/lib/ab-variants";
+import type { VariantChoice } from "~/lib/ab-variants";
+import { applyUtmParams, forwardRequestParts } from "~/lib/destination-params";
+import type { UtmParams } from "~/lib/destination-params";
+import {
+  isRedirectType,
+  redirectStatus,
+  redirectCacheControl,
+  DEFAULT_REDIRECT_TYPE,
+} from "~/lib/redirect-type";
+import type { RedirectType } from "~/lib/redirect-type";
+import {
+  hasUnlockCookie,
+  buildUnlockCookie,
+  verifyLinkPassword,
+} from "~/lib/link-password";
+import {
+  checkPasswordAttempts,
+  recordFailedPasswordAttempt,
+  getClientIp,
+} from "~/lib/rate-limit";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -33,6 +98,8 @@ import {
 interface ParsedShortUrl {
   shortcode: string;
   subdomain: string | null; // null = short format (yourdomain.com/code)
+  /** Path after the shortcode ("/de/shoes"), "" if none */
+  extraPath: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -66,6 +133,15 @@ const RESERVED_PATHS = new Set([
   "favicon.ico",
 ]);
 
+/**
+ * Every shortcode we issue matches this (auto-generated: a-zA-Z0-9,
+ * custom: a-z0-9 and hyphens, see shortcode.ts). Anything else —
+ * React Router's "/_root.data" and "/__manifest" requests, "robots.txt"
+ * — can't be a short link, so it goes straight to React Router
+ * without a lookup or a "link not found" page.
+ */
+const SHORTCODE_PATH_PATTERN = /^[A-Za-z0-9-]+$/;
+
 // ---------------------------------------------------------------------------
 // Main handler
 // ---------------------------------------------------------------------------
@@ -73,16 +149,19 @@ const RESERVED_PATHS = new Set([
 /**
  * Attempts to handle a request as a short URL redirect.
  *
- * @returns A 302 Response if a matching shortcode was found, or null
- *          if this request should be handled by React Router instead.
+ * @returns A 302 Response if a matching shortcode was found, a status
+ *          page (or a 302 to the fallback URL) if it can't be used right
+ *          now, or null if this request should be handled by React
+ *          Router instead.
  */
 export async function handleRedirect(
   request: Request,
   env: Env,
   ctx: ExecutionContext
 ): Promise<Response | null> {
-  // Only handle GET requests. POST/PUT/DELETE are never redirects.
-  if (request.method !== "GET") {
+  // Only handle GET requests, plus POSTs from the password form.
+  // PUT/DELETE are never redirects.
+  if (request.method !== "GET" && request.method !== "POST") {
     return null;
   }
 
@@ -98,16 +177,60 @@ export async function handleRedirect(
 
   const { shortcode, subdomain } = parsed;
 
-  const urlRecord = await lookupUrl(env.qr_url_db, shortcode, subdomain);
+  const lookup = await lookupUrlCached(env, ctx, shortcode, subdomain);
 
-  if (!urlRecord) {
-    // Shortcode not found in database.
-    // Return null so React Router can show a 404 page.
+  if (lookup.kind !== "found") {
+    const fallbackUrl = lookup.kind === "expired" ? lookup.fallbackUrl : null;
+    return respondUnavailable(env, parsed, lookup, fallbackUrl);
+  }
+
+  const urlRecord = lookup.url;
+
+  // A POST to an unprotected link isn't ours — let React Router answer
+  if (request.method === "POST" && !urlRecord.hasPassword) {
     return null;
   }
 
-  // Success! Return an immediate 302 redirect.
-  const response = Response.redirect(urlRecord.originalUrl, 302);
+  let unlockCookie: string | null = null;
+
+  if (urlRecord.hasPassword) {
+    const gate = await handlePasswordGate(request, env, parsed, urlRecord.urlId);
+
+    if (gate.kind === "prompt") {
+      return gate.response;
+    }
+
+    unlockCookie = gate.setCookie;
+  }
+
+  // Link previews (Slack, iMessage, Discord…) and uptime monitors
+  // mustn't use up a click-limited link's clicks
+  const bot = detectBot(request.headers.get("User-Agent"));
+  const limitStatus = await checkLinkLimits(env.qr_url_db, urlRecord, bot.isBot);
+
+  if (limitStatus) {
+    return respondUnavailable(env, parsed, limitStatus, urlRecord.fallbackUrl);
+  }
+
+  /**
+   * CF-Connecting-IP is set by Cloudflare on every request.
+   * It contains the real client IP, even behind proxies.
+   * In local development, it won't exist — we fall back to
+   * a placeholder so the hash function still works.
+   *
+   * Hashed before redirecting because it also picks the A/B variant.
+   */
+  const clientIp = request.headers.get("CF-Connecting-IP") ?? "127.0.0.1";
+  const visitorHash = await hashVisitorIp(clientIp, env.CLICK_HASH_SALT);
+  const routing = chooseDestination(request, urlRecord, visitorHash);
+  const location = buildLocation(request, parsed, urlRecord, routing.destination);
+
+  // Success! Redirect right away the way the link is set up to (303
+  // with the cookie after a correct password, so the browser follows
+  // it with a GET).
+  const response = unlockCookie
+    ? redirectWithCookie(location, unlockCookie)
+    : respondWithRedirect(env, parsed, urlRecord, location);
 
   /**
    * ctx.waitUntil() is a Cloudflare Workers API that says:
@@ -122,14 +245,168 @@ export async function handleRedirect(
    * because a failed analytics write should never break a redirect.
    */
   ctx.waitUntil(
-    trackClick(request, env, urlRecord.urlId).catch((error) => {
-      console.error("Click tracking failed:", error);
-    })
+    trackClick(request, env, urlRecord.urlId, visitorHash, routing, bot).catch(
+      (error) => {
+        console.error("Click tracking failed:", error);
+      }
+    )
   );
 
   return response;
 }
 
+/**
+ * Answers for a link that exists (or existed) but can't be used right
+ * now: a 302 to the owner's fallback URL if there is one, otherwise the
+ * status page. Not a visit to the link itself, so no click is recorded.
+ */
+async function respondUnavailable(
+  env: Env,
+  parsed: ParsedShortUrl,
+  status: LinkStatus,
+  fallbackUrl: string | null
+): Promise<Response> {
+  if (fallbackUrl) {
+    return Response.redirect(fallbackUrl, 302);
+  }
+
+  return renderLinkStatusPage({
+    status,
+    shortcode: parsed.shortcode,
+    subdomain: parsed.subdomain,
+    isBranded: await isClaimedSubdomain(env.qr_url_db, parsed.subdomain),
+    siteDomain: env.SITE_DOMAIN,
+  });
+}
+
+/**
+ * The visitor's redirect, in the link's redirect type, with cache
+ * headers to match the type and the link's settings (see
+ * redirect-type.ts).
+ */
+function respondWithRedirect(
+  env: Env,
+  parsed: ParsedShortUrl,
+  url: UrlLookupResult,
+  location: string
+): Response {
+  const status = redirectStatus(url.redirectType);
+
+  if (status === null) {
+    return renderInterstitialPage({
+      shortcode: parsed.shortcode,
+      subdomain: parsed.subdomain,
+      // The link was found under this subdomain, so it's claimed
+      isBranded: parsed.subdomain !== null,
+      siteDomain: env.SITE_DOMAIN,
+      location,
+    });
+  }
+
+  return new Response(null, {
+    status,
+    headers: { Location: location, "Cache-Control": redirectCacheControl(url.redirectType, url) },
+  });
+}
+
+function redirectWithCookie(location: string, setCookie: string): Response {
+  return new Response(null, {
+    status: 303,
+    headers: { Location: location, "Set-Cookie": setCookie },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Password protection
+// ---------------------------------------------------------------------------
+
+type PasswordGateResult =
+  | { kind: "unlocked"; setCookie: string | null }
+  | { kind: "prompt"; response: Response };
+
+/**
+ * Decides whether a visitor may pass a protected link (link-password.ts):
+ *
+ *   1. Valid unlock cookie     → through, nothing to set
+ *   2. GET without one         → the password form
+ *   3. POST, locked out        → the form with a 429, password not checked
+ *   4. POST, right password    → through, with a fresh unlock cookie
+ *   5. POST, wrong password    → the form with a 401, attempt counted
+ *
+ * The hash is read from D1 on every visit (never from the cache), so
+ * a changed or removed password applies right away.
+ */
+async function handlePasswordGate(
+  request: Request,
+  env: Env,
+  parsed: ParsedShortUrl,
+  urlId: number
+): Promise<PasswordGateResult> {
+  const row = await env.qr_url_db
+    .prepare("SELECT password_hash FROM urls WHERE id = ?")
+    .bind(urlId)
+    .first<{ password_hash: string | null }>();
+
+  const passwordHash = row?.password_hash ?? null;
+
+  // Removed since the cache entry was written
+  if (passwordHash === null) {
+    return { kind: "unlocked", setCookie: null };
+  }
+
+  const secret = env.LINK_PASSWORD_SECRET;
+
+  if (await hasUnlockCookie(request, secret, urlId, passwordHash)) {
+    return { kind: "unlocked", setCookie: null };
+  }
+
+  const prompt = async (
+    error: string | null,
+    httpStatus: number
+  ): Promise<PasswordGateResult> => ({
+    kind: "prompt",
+    response: renderPasswordPage({
+      shortcode: parsed.shortcode,
+      subdomain: parsed.subdomain,
+      isBranded: await isClaimedSubdomain(env.qr_url_db, parsed.subdomain),
+      siteDomain: env.SITE_DOMAIN,
+      error,
+      httpStatus,
+    }),
+  });
+
+  if (request.method !== "POST") {
+    return prompt(null, 200);
+  }
+
+  const kv = env.RATE_LIMIT_KV;
+  const clientIp = getClientIp(request);
+  const attempts = await checkPasswordAttempts(kv, clientIp, urlId);
+
+  if (!attempts.allowed) {
+    return prompt(attempts.error, 429);
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const password = formData?.get("password");
+
+  if (typeof password === "string" && (await verifyLinkPassword(password, passwordHash))) {
+    return {
+      kind: "unlocked",
+      setCookie: await buildUnlockCookie(secret, urlId, passwordHash, parsed.shortcode),
+    };
+  }
+
+  const remaining = await recordFailedPasswordAttempt(kv, clientIp, urlId);
+
+  return prompt(
+    remaining > 0
+      ? "Wrong password. Try again."
+      : "Wrong password. Too many attempts — try again in an hour.",
+    401
+  );
+}
+
 // ---------------------------------------------------------------------------
 // URL parsing
 // ---------------------------------------------------------------------------
@@ -140,6 +417,7 @@ export async function handleRedirect(
  *
  * Examples (assuming rootDomain = "qrurl.dev"):
  *   "https://qrurl.dev/abc123"        → { shortcode: "abc123", subdomain: null }
+ *   "https://qrurl.dev/abc123/de"     → same, with extraPath: "/de"
  *   "https://step.qrurl.dev/mysite"   → { shortcode: "mysite", subdomain: "step" }
  *   "https://qrurl.dev/dashboard"     → null (reserved path)
  *   "https://app.qrurl.dev/anything"  → null (reserved subdomain)
@@ -159,7 +437,8 @@ function parseShortUrl(
 
   // Remove the leading "/" and get the first path segment.
   // "https://qrurl.dev/abc123/anything" → pathSegments = ["abc123", "anything"]
-  // We only care about the first segment.
+  // The first segment is the shortcode; the rest only matters for
+  // passthrough links (extraPath).
   const pathSegments = url.pathname.split("/").filter(Boolean);
 
   // No path = someone visited the root domain (yourdomain.com/).
@@ -175,6 +454,10 @@ function parseShortUrl(
     return null;
   }
 
+  if (!SHORTCODE_PATH_PATTERN.test(shortcode)) {
+    return null;
+  }
+
   // -------------------------------------------------------------------------
   // Step 2: Determine if this is a branded or short format URL
   // -------------------------------------------------------------------------
@@ -200,7 +483,13 @@ function parseShortUrl(
     return null;
   }
 
-  return { shortcode, subdomain };
+  // "/abc123/de/shoes" → "/de/shoes"; a lone trailing slash is nothing
+  const extraPath = url.pathname
+    .replace(/^\/+/, "")
+    .slice(shortcode.length)
+    .replace(/^\/+$/, "");
+
+  return { shortcode, subdomain, extraPath };
 }
 
 /**
@@ -247,64 +536,413 @@ function extractSubdomain(
  * The result of a successful URL lookup.
  * We need both pieces: the original URL for the redirect,
  * and the database ID for the click tracking INSERT.
+ * expiresAt is carried along so the KV cache entry can't outlive the link,
+ * and the limits so checkLinkLimits can run on a cache hit.
  */
 interface UrlLookupResult {
   urlId: number;
   originalUrl: string;
+  expiresAt: string | null;
+  startsAt: string | null;
+  maxClicks: number | null;
+  fallbackUrl: string | null;
+  /** The hash itself is only read when needed (handlePasswordGate) */
+  hasPassword: boolean;
+  deviceRules: DeviceRuleMap;
+  geoRules: GeoRuleMap;
+  variants: VariantChoice[];
+  utm: UtmParams;
+  passthrough: boolean;
+  redirectType: RedirectType;
+}
+
+/**
+ * A lookup either finds a link that hasn't expired, or says why there
+ * isn't one. An expired link keeps its fallback URL.
+ */
+type UrlLookupOutcome =
+  | { kind: "found"; url: UrlLookupResult }
+  | ({ kind: "expired" } & ExpiredRedirect)
+  | { kind: "not-found" };
+
+/** is_expired is NULL when expires_at is NULL (never expires) */
+interface UrlRow {
+  id: number;
+  original_url: string;
+  expires_at: string | null;
+  is_expired: number | null;
+  starts_at: string | null;
+  max_clicks: number | null;
+  fallback_url: string | null;
+  has_password: number;
+  /** JSON objects from json_group_object, "{}" without rules */
+  device_rules: string | null;
+  geo_rules: string | null;
+  /** JSON array from json_group_array, "[]" without variants */
+  variants: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  passthrough: number;
+  redirect_type: string;
+}
+
+/**
+ * Read-through cache in front of lookupUrl.
+ *
+ *   1. KV hit              → return the cached URL (no D1 query)
+ *   2. KV negative/expired → return not-found/expired (no D1 query)
+ *   3. KV empty            → query D1, then cache the outcome
+ *
+ * Cache writes and stats counters run inside ctx.waitUntil() so the
+ * redirect is never blocked on a KV write. See lib/redirect-cache.ts
+ * for key format, TTLs and invalidation.
+ */
+async function lookupUrlCached(
+  env: Env,
+  ctx: ExecutionContext,
+  shortcode: string,
+  subdomain: string | null
+): Promise<UrlLookupOutcome> {
+  const kv = env.REDIRECT_CACHE_KV;
+  const cached = await getCachedRedirect(kv, subdomain, shortcode);
+
+  if (cached.status !== "empty") {
+    ctx.waitUntil(recordCacheResult(kv, "hit").catch(logCacheError));
+
+    if (cached.status === "hit") {
+      return { kind: "found", url: cached.redirect };
+    }
+
+    return cached.status === "expired"
+      ? { kind: "expired", ...cached.expired }
+      : { kind: "not-found" };
+  }
+
+  const result = await lookupUrl(env.qr_url_db, shortcode, subdomain);
+
+  ctx.waitUntil(
+    Promise.all([
+      recordCacheResult(kv, "miss"),
+      cacheOutcome(kv, subdomain, shortcode, result),
+    ]).catch(logCacheError)
+  );
+
+  return result;
+}
+
+function cacheOutcome(
+  kv: KVNamespace,
+  subdomain: string | null,
+  shortcode: string,
+  outcome: UrlLookupOutcome
+): Promise<void> {
+  switch (outcome.kind) {
+    case "found":
+      return cacheRedirect(kv, subdomain, shortcode, outcome.url);
+    case "expired":
+      return cacheExpired(kv, subdomain, shortcode, {
+        expiresAt: outcome.expiresAt,
+        fallbackUrl: outcome.fallbackUrl,
+      });
+    case "not-found":
+      return cacheMiss(kv, subdomain, shortcode);
+  }
+}
+
+/**
+ * Cache failures must never break a redirect — the worst case is
+ * an extra D1 query on the next visit.
+ */
+function logCacheError(error: unknown): void {
+  console.error("Redirect cache update failed:", error);
 }
 
 /**
  * Queries D1 for a URL matching the given shortcode and subdomain.
  *
  * The expiration check handles two cases:
- *   - expires_at IS NULL → link never expires (authenticated users)
- *   - expires_at > datetime('now') → link hasn't expired yet (anonymous users)
+ *   - expires_at IS NULL → link never expires (the default for
+ *     signed-in users)
+ *   - expires_at > datetime('now') → link hasn't expired yet (always
+ *     set for anonymous links; optional for signed-in users, see
+ *     url-expiration.ts)
  *
- * If a URL has expired, we treat it as "not found" — same as if the
- * shortcode didn't exist. The caller returns null, and React Router
- * can show a 404 or "link expired" page.
+ * An expired link is reported as such rather than as "not found", so
+ * the visitor gets a 410 page that says what happened. The comparison
+ * runs in SQLite (is_expired), so it uses the same clock as datetime('now')
+ * everywhere else.
  *
- * @returns The URL record if found and not expired, or null.
+ * @returns The URL record if found and not expired, otherwise why not.
  */
 async function lookupUrl(
   db: D1Database,
   shortcode: string,
   subdomain: string | null
-): Promise<UrlLookupResult | null> {
+): Promise<UrlLookupOutcome> {
   let result;
 
   if (subdomain === null) {
     result = await db
       .prepare(
-        `SELECT id, original_url FROM urls
+        `SELECT id, original_url, expires_at,
+                expires_at <= datetime('now') AS is_expired,
+                starts_at, max_clicks, fallback_url,
+                password_hash IS NOT NULL AS has_password,
+                utm_source, utm_medium, utm_campaign, passthrough, redirect_type,
+                (SELECT json_group_object(target, destination_url)
+                 FROM url_device_rules WHERE url_id = urls.id) AS device_rules,
+                (SELECT json_group_object(country_code, destination_url)
+                 FROM url_geo_rules WHERE url_id = urls.id) AS geo_rules,
+                (SELECT json_group_array(json_object('id', id,
+                                                     'destinationUrl', destination_url,
+                                                     'weight', weight))
+                 FROM url_variants WHERE url_id = urls.id) AS variants
+         FROM urls
          WHERE subdomain IS NULL
-           AND shortcode = ?
-           AND (expires_at IS NULL OR expires_at > datetime('now'))`
+           AND shortcode = ?`
       )
       .bind(shortcode)
-      .first<{ id: number; original_url: string }>();
+      .first<UrlRow>();
   } else {
     result = await db
       .prepare(
-        `SELECT id, original_url FROM urls
+        `SELECT id, original_url, expires_at,
+                expires_at <= datetime('now') AS is_expired,
+                starts_at, max_clicks, fallback_url,
+                password_hash IS NOT NULL AS has_password,
+                utm_source, utm_medium, utm_campaign, passthrough, redirect_type,
+                (SELECT json_group_object(target, destination_url)
+                 FROM url_device_rules WHERE url_id = urls.id) AS device_rules,
+                (SELECT json_group_object(country_code, destination_url)
+                 FROM url_geo_rules WHERE url_id = urls.id) AS geo_rules,
+                (SELECT json_group_array(json_object('id', id,
+                                                     'destinationUrl', destination_url,
+                                                     'weight', weight))
+                 FROM url_variants WHERE url_id = urls.id) AS variants
+         FROM urls
          WHERE subdomain = ?
-           AND shortcode = ?
-           AND (expires_at IS NULL OR expires_at > datetime('now'))`
+           AND shortcode = ?`
       )
       .bind(subdomain, shortcode)
-      .first<{ id: number; original_url: string }>();
+      .first<UrlRow>();
   }
 
   if (!result) {
+    return { kind: "not-found" };
+  }
+
+  if (result.is_expired && result.expires_at) {
+    return {
+      kind: "expired",
+      expiresAt: result.expires_at,
+      fallbackUrl: result.fallback_url,
+    };
+  }
+
+  return {
+    kind: "found",
+    url: {
+      urlId: result.id,
+      originalUrl: result.original_url,
+      expiresAt: result.expires_at,
+      startsAt: result.starts_at,
+      maxClicks: result.max_clicks,
+      fallbackUrl: result.fallback_url,
+      hasPassword: result.has_password === 1,
+      deviceRules: parseDeviceRuleMap(result.device_rules),
+      geoRules: parseGeoRuleMap(result.geo_rules),
+      variants: parseVariantList(result.variants),
+      utm: {
+        source: result.utm_source,
+        medium: result.utm_medium,
+        campaign: result.utm_campaign,
+      },
+      passthrough: result.passthrough === 1,
+      redirectType: isRedirectType(result.redirect_type)
+        ? result.redirect_type
+        : DEFAULT_REDIRECT_TYPE,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Link limits
+// ---------------------------------------------------------------------------
+
+/**
+ * Applies a found link's start date and click limit (link-limits.ts).
+ *
+ * Bots are redirected without spending a click: they only get through
+ * while real visitors still could.
+ *
+ * @returns Why the link can't be used right now, or null to redirect.
+ */
+async function checkLinkLimits(
+  db: D1Database,
+  url: UrlLookupResult,
+  isBot: boolean
+): Promise<LinkStatus | null> {
+  if (url.startsAt !== null && hasNotStarted(url.startsAt)) {
+    return { kind: "not-started", startsAt: url.startsAt };
+  }
+
+  if (url.maxClicks === null) {
     return null;
   }
 
+  const allowed = isBot
+    ? await hasClicksLeft(db, url.urlId)
+    : await claimLimitedClick(db, url.urlId);
+
+  return allowed ? null : { kind: "limit-reached" };
+}
+
+/**
+ * Takes one of a click-limited link's remaining clicks.
+ *
+ * Check and increment are a single UPDATE, so two visitors racing for
+ * the last click can't both get it — D1 runs writes one at a time and
+ * only one of them still matches click_count < max_clicks. This runs
+ * before the redirect (unlike trackClick): it decides whether there
+ * is one. max_clicks comes from D1, not the cache, so a limit the
+ * owner just raised applies right away.
+ *
+ * @returns true if the visitor got a click, false if none were left.
+ */
+async function claimLimitedClick(db: D1Database, urlId: number): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `UPDATE urls
+       SET click_count = click_count + 1
+       WHERE id = ?
+         AND (max_clicks IS NULL OR click_count < max_clicks)`
+    )
+    .bind(urlId)
+    .run();
+
+  return result.meta.changes > 0;
+}
+
+/**
+ * Whether a click-limited link has clicks left, without taking one.
+ */
+async function hasClicksLeft(db: D1Database, urlId: number): Promise<boolean> {
+  const row = await db
+    .prepare(
+      `SELECT 1 FROM urls
+       WHERE id = ?
+         AND (max_clicks IS NULL OR click_count < max_clicks)`
+    )
+    .bind(urlId)
+    .first();
+
+  return row !== null;
+}
+
+/**
+ * Whether a subdomain belongs to a user, so the status page can carry
+ * their branding. Only runs for links that don't redirect.
+ */
+async function isClaimedSubdomain(
+  db: D1Database,
+  subdomain: string | null
+): Promise<boolean> {
+  if (subdomain === null) {
+    return false;
+  }
+
+  const row = await db
+    .prepare("SELECT 1 FROM users WHERE subdomain = ?")
+    .bind(subdomain)
+    .first();
+
+  return row !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Routing rules
+// ---------------------------------------------------------------------------
+
+/** Where a visitor goes, and which rule (if any) sent them there */
+interface RoutingChoice {
+  destination: string;
+  /** Target of the matched device rule, e.g. "ios" */
+  deviceRule: string | null;
+  /** Country code of the matched geo rule */
+  geoRule: string | null;
+  /** url_variants.id of the A/B variant served */
+  variantId: number | null;
+}
+
+/**
+ * Device rules first, then geo rules, then the link's default
+ * destination (see device-rules.ts for why devices win). At most one
+ * rule matches, so analytics can attribute each click to one branch.
+ * A/B variants, if any, stand in for the default destination.
+ */
+function chooseDestination(
+  request: Request,
+  urlRecord: UrlLookupResult,
+  visitorHash: string
+): RoutingChoice {
+  const userAgent = request.headers.get("User-Agent");
+  const deviceRule = matchDeviceRule(
+    urlRecord.deviceRules,
+    parseOperatingSystem(userAgent),
+    parseDeviceType(userAgent)
+  );
+
+  if (deviceRule) {
+    return {
+      destination: deviceRule.destinationUrl,
+      deviceRule: deviceRule.target,
+      geoRule: null,
+      variantId: null,
+    };
+  }
+
+  const geoRule = matchGeoRule(urlRecord.geoRules, extractCountry(request));
+
+  if (geoRule) {
+    return {
+      destination: geoRule.destinationUrl,
+      deviceRule: null,
+      geoRule: geoRule.countryCode,
+      variantId: null,
+    };
+  }
+
+  const variant = pickVariant(urlRecord.variants, visitorHash);
+
   return {
-    urlId: result.id,
-    originalUrl: result.original_url,
+    destination: variant?.destinationUrl ?? urlRecord.originalUrl,
+    deviceRule: null,
+    geoRule: null,
+    variantId: variant?.id ?? null,
   };
 }
 
+/**
+ * The final redirect target: the chosen destination with the link's
+ * UTM tags, then — for passthrough links — the short URL's extra path
+ * and query string, which win over the tags.
+ */
+function buildLocation(
+  request: Request,
+  parsed: ParsedShortUrl,
+  urlRecord: UrlLookupResult,
+  destination: string
+): string {
+  const tagged = applyUtmParams(destination, urlRecord.utm);
+
+  if (!urlRecord.passthrough) {
+    return tagged;
+  }
+
+  return forwardRequestParts(tagged, parsed.extraPath, new URL(request.url).search);
+}
+
 // ---------------------------------------------------------------------------
 // Click tracking
 // ---------------------------------------------------------------------------
@@ -321,33 +959,89 @@ async function lookupUrl(
  * For a free-tier product, this trade-off is correct. Analytics
  * should never compromise redirect speed.
  *
+ * Bots (link previews, crawlers) are recorded too, flagged with
+ * is_bot so analytics can leave them out.
+ *
+ * Location is stored only as precisely as the link owner's privacy
+ * setting allows (click-location.ts).
+ *
  * @param request - The original incoming request (for headers + CF metadata)
  * @param env - Worker environment (for D1 binding + hash salt)
  * @param urlId - The database ID of the URL that was clicked
+ * @param visitorHash - From hashVisitorIp, computed before the redirect
+ * @param routing - Where the visitor was sent, and by which rule
+ * @param bot - From detectBot, computed before the limit check
  */
 async function trackClick(
   request: Request,
   env: Env,
-  urlId: number
+  urlId: number,
+  visitorHash: string,
+  routing: RoutingChoice,
+  bot: BotDetection
 ): Promise<void> {
   const referrer = cleanReferrer(request.headers.get("Referer"));
-  const country = extractCountry(request);
-  const deviceType = parseDeviceType(request.headers.get("User-Agent"));
-
-  /**
-   * CF-Connecting-IP is set by Cloudflare on every request.
-   * It contains the real client IP, even behind proxies.
-   * In local development, it won't exist — we fall back to
-   * a placeholder so the hash function still works.
-   */
-  const clientIp = request.headers.get("CF-Connecting-IP") ?? "127.0.0.1";
-  const visitorHash = await hashVisitorIp(clientIp, env.CLICK_HASH_SALT);
+  const locationLevel = await fetchClickLocationLevel(env.qr_url_db, urlId);
+  const location = limitLocation(extractLocation(request), locationLevel);
+  const userAgent = request.headers.get("User-Agent");
+  const deviceType = parseDeviceType(userAgent);
+  const browser = parseBrowser(userAgent);
+  const os = parseOperatingSystem(userAgent);
 
   await env.qr_url_db
     .prepare(
-      `INSERT INTO url_clicks (url_id, referrer, country, device_type, visitor_hash)
-       VALUES (?, ?, ?, ?, ?)`
+      `INSERT INTO url_clicks (url_id, referrer, country, continent, region, city,
+                               timezone, asn, as_organization, device_type,
+                               browser, browser_version, os, visitor_hash,
+                               matched_device_rule, matched_geo_rule, variant_id,
+                               is_bot, bot_family)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      urlId,
+      referrer,
+      location.country,
+      location.continent,
+      location.region,
+      location.city,
+      location.timezone,
+      location.asn,
+      location.asOrganization,
+      deviceType,
+      browser.family,
+      browser.majorVersion,
+      os,
+      visitorHash,
+      routing.deviceRule,
+      routing.geoRule,
+      routing.variantId,
+      bot.isBot ? 1 : 0,
+      bot.botFamily
     )
-    .bind(urlId, referrer, country, deviceType, visitorHash)
     .run();
+}
+
+/**
+ * The link owner's click location setting. Read from D1 on every click
+ * (never cached) so a lowered setting applies from the next click on;
+ * this runs in waitUntil, after the redirect. Links without an owner
+ * row get the default.
+ */
+async function fetchClickLocationLevel(
+  db: D1Database,
+  urlId: number
+): Promise<ClickLocationLevel> {
+  const row = await db
+    .prepare(
+      `SELECT users.click_location
+       FROM urls
+       JOIN users ON users.clerk_user_id = urls.user_id
+       WHERE urls.id = ?`
+    )
+    .bind(urlId)
+    .first<{ click_location: string }>();
+
+  const level = row?.click_location;
+
+  return isClickLocationLevel(level) ? level : DEFAULT_CLICK_LOCATION_LEVEL;
 }
\ No newline at end of file